@@ -0,0 +1,10 @@
+/**
+ * Attestation Report
+ *
+ * Shared by the enclave service, hardhat scripts and frontend:
+ * - report.ts: report format, key binding and simulated quotes
+ * - verify.ts: verification against a policy (builds, platform keys, nonce)
+ */
+
+export * from './report.js';
+export * from './verify.js';
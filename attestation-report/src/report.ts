@@ -0,0 +1,149 @@
+/**
+ * Attestation Report
+ *
+ * Remote attestation report binding an enclave build to an operator signing
+ * key, modelled on SGX quotes and SEV-SNP reports:
+ *
+ * - measurement   hash of the code the enclave runs (MRENCLAVE / MEASUREMENT)
+ * - reportData    keccak256(publicKey ‖ nonce): the operator key registered
+ *                 through VotePowerVerifier.addOperator, plus the verifier's
+ *                 freshness challenge (REPORT_DATA)
+ * - signature     by the platform attestation key (quoting enclave / VCEK)
+ *
+ * Until operators run on TEE hardware, reports are 'simulated': the platform
+ * key is a software key held next to the enclave service. Simulated reports
+ * prove which build an operator claims to run and that the claim is bound to
+ * its signing key, but not that the claim is true.
+ */
+
+import { AbiCoder, concat, getAddress, getBytes, keccak256, type Signer } from 'ethers';
+
+export const REPORT_VERSION = 1;
+
+/** Domain tag of the report digest, so platform signatures cannot be replayed elsewhere */
+const REPORT_DOMAIN = 'liquid-democracy-engine/attestation-report';
+
+export type TeeType = 'simulated' | 'sgx' | 'sev-snp';
+
+export const ZERO_NONCE = '0x' + '00'.repeat(32);
+
+/**
+ * Report fields covered by the platform signature
+ */
+export interface AttestationReportBody {
+  version: number;
+  teeType: TeeType;
+  /** Hash of the enclave build (bytes32) */
+  measurement: string;
+  /** Human-readable build identifier (release tag or commit), for audits */
+  buildVersion: string;
+  /** Operator address derived from publicKey */
+  operator: string;
+  /** Operator public key, uncompressed without the 0x04 prefix (64 bytes) */
+  publicKey: string;
+  /** Verifier challenge (bytes32, zero if none was given) */
+  nonce: string;
+  /** keccak256(publicKey ‖ nonce) */
+  reportData: string;
+  /** Unix time the report was produced (seconds) */
+  timestamp: number;
+}
+
+export interface AttestationReport extends AttestationReportBody {
+  /** Address of the platform attestation key that signed the report */
+  platformKey: string;
+  /** EIP-191 signature over reportDigest(body) */
+  signature: string;
+}
+
+/**
+ * Report data binding an operator key and a verifier nonce
+ *
+ * @param publicKey 64-byte operator public key
+ * @param nonce bytes32 challenge
+ */
+export function computeReportData(publicKey: string, nonce: string): string {
+  return keccak256(concat([publicKey, nonce]));
+}
+
+/**
+ * Digest signed by the platform attestation key
+ *
+ * @param body Report fields
+ */
+export function reportDigest(body: AttestationReportBody): string {
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      [
+        'string',
+        'uint256',
+        'string',
+        'bytes32',
+        'string',
+        'address',
+        'bytes',
+        'bytes32',
+        'bytes32',
+        'uint256',
+      ],
+      [
+        REPORT_DOMAIN,
+        body.version,
+        body.teeType,
+        body.measurement,
+        body.buildVersion,
+        body.operator,
+        body.publicKey,
+        body.nonce,
+        body.reportData,
+        body.timestamp,
+      ]
+    )
+  );
+}
+
+/**
+ * Produce a simulated report signed by a software platform key
+ *
+ * @param fields Measurement, build and operator key to attest
+ * @param platformSigner Software stand-in for the platform attestation key
+ * @param nonce Verifier challenge (default: none)
+ * @param timestamp Report time in seconds (default: now)
+ */
+export async function createSimulatedReport(
+  fields: { measurement: string; buildVersion: string; publicKey: string },
+  platformSigner: Signer,
+  nonce: string = ZERO_NONCE,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<AttestationReport> {
+  const body: AttestationReportBody = {
+    version: REPORT_VERSION,
+    teeType: 'simulated',
+    measurement: fields.measurement,
+    buildVersion: fields.buildVersion,
+    operator: publicKeyToAddress(fields.publicKey),
+    publicKey: fields.publicKey,
+    nonce,
+    reportData: computeReportData(fields.publicKey, nonce),
+    timestamp,
+  };
+
+  return {
+    ...body,
+    platformKey: getAddress(await platformSigner.getAddress()),
+    signature: await platformSigner.signMessage(getBytes(reportDigest(body))),
+  };
+}
+
+/**
+ * Address controlled by a 64-byte uncompressed public key
+ */
+export function publicKeyToAddress(publicKey: string): string {
+  const bytes = getBytes(publicKey);
+
+  if (bytes.length !== 64) {
+    throw new Error(`Public key must be 64 bytes, got ${bytes.length}`);
+  }
+
+  return getAddress('0x' + keccak256(bytes).slice(-40));
+}
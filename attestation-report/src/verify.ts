@@ -0,0 +1,172 @@
+/**
+ * Attestation Report Verification
+ *
+ * Checks a report against a verification policy: platform signature, key
+ * binding, nonce freshness and the allowed build measurements. Used by the
+ * operator registration script and the frontend operator list.
+ */
+
+import { getAddress, getBytes, isHexString, verifyMessage } from 'ethers';
+import {
+  REPORT_VERSION,
+  computeReportData,
+  publicKeyToAddress,
+  reportDigest,
+  type AttestationReport,
+  type TeeType,
+} from './report.js';
+
+export interface VerificationPolicy {
+  /** Accepted build measurements (any build if unset) */
+  measurements?: string[];
+  /** Accepted platform attestation keys (any if unset) */
+  platformKeys?: string[];
+  /** Accept software-simulated reports (default: false) */
+  allowSimulated?: boolean;
+  /** Public key the report must bind, e.g. the one registered on-chain */
+  expectedPublicKey?: string;
+  /** Challenge the report must answer */
+  nonce?: string;
+  /** Maximum report age in seconds */
+  maxAge?: number;
+  /** Current time in seconds (default: now) */
+  now?: number;
+}
+
+export interface VerificationResult {
+  valid: boolean;
+  /** Reasons the report is rejected */
+  errors: string[];
+  /** Accepted, but weaker than a hardware-backed, pinned report */
+  warnings: string[];
+  teeType: TeeType;
+  measurement: string;
+  buildVersion: string;
+  operator: string;
+}
+
+/** TEE types whose quotes this module can check */
+const VERIFIABLE_TEE_TYPES: TeeType[] = ['simulated'];
+
+/**
+ * Verify an attestation report
+ *
+ * @param report Report from an operator
+ * @param policy What the verifier accepts
+ * @returns Verification outcome with all failed checks
+ */
+export function verifyReport(
+  report: AttestationReport,
+  policy: VerificationPolicy = {}
+): VerificationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (report.version !== REPORT_VERSION) {
+    errors.push(`Unsupported report version ${report.version}`);
+  }
+
+  if (!VERIFIABLE_TEE_TYPES.includes(report.teeType)) {
+    errors.push(`Verification of ${report.teeType} quotes is not supported`);
+  } else if (report.teeType === 'simulated') {
+    if (policy.allowSimulated) {
+      warnings.push('Simulated TEE: the platform key is a software key');
+    } else {
+      errors.push('Simulated TEE reports are not accepted');
+    }
+  }
+
+  checkKeyBinding(report, policy, errors);
+  checkPlatformSignature(report, policy, errors, warnings);
+
+  if (policy.nonce !== undefined && report.nonce.toLowerCase() !== policy.nonce.toLowerCase()) {
+    errors.push('Report does not answer the verifier nonce');
+  }
+
+  if (policy.maxAge !== undefined) {
+    const now = policy.now ?? Math.floor(Date.now() / 1000);
+    if (now - report.timestamp > policy.maxAge) {
+      errors.push(`Report is older than ${policy.maxAge}s`);
+    }
+  }
+
+  if (policy.measurements && policy.measurements.length > 0) {
+    const allowed = policy.measurements.map((m) => m.toLowerCase());
+    if (!allowed.includes(report.measurement.toLowerCase())) {
+      errors.push(`Measurement ${report.measurement} is not an allowed build`);
+    }
+  } else {
+    warnings.push('No allowed measurements configured: any build is accepted');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    teeType: report.teeType,
+    measurement: report.measurement,
+    buildVersion: report.buildVersion,
+    operator: report.operator,
+  };
+}
+
+/**
+ * The report must bind the operator key it names
+ */
+function checkKeyBinding(
+  report: AttestationReport,
+  policy: VerificationPolicy,
+  errors: string[]
+): void {
+  if (!isHexString(report.publicKey, 64) || !isHexString(report.nonce, 32)) {
+    errors.push('Malformed public key or nonce');
+    return;
+  }
+
+  if (publicKeyToAddress(report.publicKey) !== getAddress(report.operator)) {
+    errors.push('Operator address does not match the public key');
+  }
+
+  if (computeReportData(report.publicKey, report.nonce) !== report.reportData) {
+    errors.push('Report data does not bind the public key');
+  }
+
+  if (
+    policy.expectedPublicKey !== undefined &&
+    policy.expectedPublicKey.toLowerCase() !== report.publicKey.toLowerCase()
+  ) {
+    errors.push('Report is for a different public key');
+  }
+}
+
+/**
+ * The platform key named in the report must have signed it
+ */
+function checkPlatformSignature(
+  report: AttestationReport,
+  policy: VerificationPolicy,
+  errors: string[],
+  warnings: string[]
+): void {
+  let signer: string;
+
+  try {
+    signer = verifyMessage(getBytes(reportDigest(report)), report.signature);
+  } catch {
+    errors.push('Malformed platform signature');
+    return;
+  }
+
+  if (signer !== getAddress(report.platformKey)) {
+    errors.push('Platform signature does not match the report');
+    return;
+  }
+
+  if (policy.platformKeys && policy.platformKeys.length > 0) {
+    if (!policy.platformKeys.some((key) => getAddress(key) === signer)) {
+      errors.push(`Platform key ${signer} is not trusted`);
+    }
+  } else {
+    warnings.push('No trusted platform keys configured');
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Attestation report generation and verification tests
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { Wallet, dataSlice, id } from 'ethers';
+import {
+  createSimulatedReport,
+  publicKeyToAddress,
+  verifyReport,
+  type AttestationReport,
+} from '../src/index';
+
+const operator = new Wallet('0x' + '01'.repeat(32));
+const platform = new Wallet('0x' + '02'.repeat(32));
+const PUBLIC_KEY = dataSlice(operator.signingKey.publicKey, 1);
+const MEASUREMENT = id('enclave-service build');
+const NONCE = id('challenge');
+const NOW = 1_700_000_000;
+
+const policy = {
+  allowSimulated: true,
+  measurements: [MEASUREMENT],
+  platformKeys: [platform.address],
+  nonce: NONCE,
+  maxAge: 300,
+  now: NOW + 10,
+};
+
+describe('attestation report', () => {
+  let report: AttestationReport;
+
+  beforeAll(async () => {
+    report = await createSimulatedReport(
+      { measurement: MEASUREMENT, buildVersion: 'v1.2.0', publicKey: PUBLIC_KEY },
+      platform,
+      NONCE,
+      NOW
+    );
+  });
+
+  it('should bind the operator key and verify under a pinned policy', () => {
+    expect(report.operator).toBe(operator.address);
+    expect(publicKeyToAddress(PUBLIC_KEY)).toBe(operator.address);
+
+    const result = verifyReport(report, policy);
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual(['Simulated TEE: the platform key is a software key']);
+    expect(result.buildVersion).toBe('v1.2.0');
+  });
+
+  it('should reject simulated reports unless allowed', () => {
+    const result = verifyReport(report, { ...policy, allowSimulated: false });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Simulated TEE reports are not accepted');
+  });
+
+  it('should reject unknown builds, stale reports and wrong nonces', () => {
+    const result = verifyReport(report, {
+      ...policy,
+      measurements: [id('other build')],
+      nonce: id('other challenge'),
+      now: NOW + 301,
+    });
+
+    expect(result.errors).toEqual([
+      'Report does not answer the verifier nonce',
+      'Report is older than 300s',
+      `Measurement ${MEASUREMENT} is not an allowed build`,
+    ]);
+  });
+
+  it('should detect tampered fields and swapped keys', () => {
+    const other = new Wallet('0x' + '03'.repeat(32));
+    const otherKey = dataSlice(other.signingKey.publicKey, 1);
+
+    expect(verifyReport({ ...report, measurement: id('patched') }, policy).errors).toContain(
+      'Platform signature does not match the report'
+    );
+    expect(
+      verifyReport({ ...report, publicKey: otherKey, operator: other.address }, policy).errors
+    ).toContain('Report data does not bind the public key');
+    expect(verifyReport(report, { ...policy, expectedPublicKey: otherKey }).errors).toEqual([
+      'Report is for a different public key',
+    ]);
+  });
+
+  it('should reject untrusted platform keys', async () => {
+    const rogue = await createSimulatedReport(
+      { measurement: MEASUREMENT, buildVersion: 'v1.2.0', publicKey: PUBLIC_KEY },
+      new Wallet('0x' + '04'.repeat(32)),
+      NONCE,
+      NOW
+    );
+
+    expect(verifyReport(rogue, policy).errors).toEqual([
+      `Platform key ${rogue.platformKey} is not trusted`,
+    ]);
+  });
+});
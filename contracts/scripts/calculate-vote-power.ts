@@ -1,13 +1,20 @@
 import { ethers } from "hardhat";
+import { canonicalizeResult, resolveTerminalDelegate } from "@liquid-democracy-engine/result-encoding";
 
 /**
  * Calculate voting power for all terminal delegates in a topic
  *
- * Algorithm:
- * 1. Get all delegators for the topic
- * 2. For each delegator, find their terminal delegate
- * 3. Increment power count for that terminal delegate
+ * Algorithm (shared with the enclave through @liquid-democracy-engine/result-encoding):
+ * 1. Get all active delegations for the topic
+ * 2. Every address in the graph (delegators and delegates) holds one vote
+ * 3. Follow each address's chain to its terminal delegate: an address with no
+ *    delegation or with an active dead-end declaration. A dead-end keeps the
+ *    votes of chains that reached it before it declared, and its own
+ *    delegation is not followed while the declaration is active
  * 4. Result: Map of terminal delegate => voting power
+ *
+ * Results are returned in canonical order (checksummed, sorted by address) so
+ * they hash the same as the enclave's output.
  */
 
 export interface VotingPowerResult {
@@ -27,37 +34,59 @@ export async function calculateVotingPower(
     delegationManagerAddress
   );
 
-  // Get all delegators for this topic
+  // Get all delegators for this topic (includes addresses that have since revoked)
   const delegators = await delegationManager.getTopicDelegators(topicId);
   console.log(`Found ${delegators.length} delegators for topic ${topicId}`);
 
+  const delegations = new Map<string, string>();
+  const participants = new Set<string>();
+
+  for (const delegator of delegators) {
+    const delegation = await delegationManager.getDelegation(delegator, topicId);
+
+    if (delegation.delegate !== ethers.ZeroAddress) {
+      delegations.set(delegator, delegation.delegate);
+      participants.add(delegator);
+      participants.add(delegation.delegate);
+    }
+  }
+
+  const deadEnds = new Set<string>();
+
+  for (const address of participants) {
+    const [isDeadEnd] = await delegationManager.isDeadEnd(address, topicId);
+
+    if (isDeadEnd) {
+      deadEnds.add(address);
+      console.log(`  ${address} is a dead-end`);
+    }
+  }
+
   // Map to store voting power
   const votingPowerMap = new Map<string, number>();
 
-  // Process each delegator
-  for (const delegator of delegators) {
-    // Get terminal delegate for this delegator
-    const terminal = await delegationManager.getTerminalDelegate(delegator, topicId);
+  // Process each participant
+  for (const address of participants) {
+    const terminal = resolveTerminalDelegate(delegations, deadEnds, address);
 
     // Increment power for terminal delegate
     const currentPower = votingPowerMap.get(terminal) || 0;
     votingPowerMap.set(terminal, currentPower + 1);
 
-    console.log(`  ${delegator} → terminal: ${terminal}`);
+    console.log(`  ${address} → terminal: ${terminal}`);
   }
 
-  // Also count addresses that have power but aren't in delegators list
-  // (i.e., terminal delegates who never delegated themselves)
-  // For simplicity, we assume all participating addresses are in the delegators list
-  // or we'd need to track all addresses that could vote
-
   console.log(`\n📊 Voting Power Results:`);
   console.log(`===================================`);
 
+  const { addresses, powers } = canonicalizeResult(
+    Array.from(votingPowerMap, ([address, power]) => ({ address, power }))
+  );
+
   const results: VotingPowerResult[] = [];
-  for (const [address, power] of votingPowerMap.entries()) {
-    console.log(`  ${address}: ${power} votes`);
-    results.push({ address, power });
+  for (let i = 0; i < addresses.length; i++) {
+    console.log(`  ${addresses[i]}: ${powers[i]} votes`);
+    results.push({ address: addresses[i], power: Number(powers[i]) });
   }
 
   console.log(`===================================\n`);
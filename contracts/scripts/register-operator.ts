@@ -1,11 +1,93 @@
 import { ethers } from "hardhat";
+import {
+  verifyReport,
+  type AttestationReport,
+  type VerificationPolicy,
+} from "@liquid-democracy-engine/attestation-report";
+import { readFileSync } from "fs";
 
 /**
  * Register an enclave operator with VotePowerVerifier
  *
- * This allows the operator to submit attestations
+ * This allows the operator to submit attestations. The operator address and
+ * enclave public key come from the enclave's attestation report: fetched from
+ * the running enclave (OPERATOR_API_URL, its GET /attestation) with a fresh
+ * nonce, or read from ATTESTATION_REPORT_PATH. The report must verify against
+ * the pinned builds (ALLOWED_MEASUREMENTS) and platform keys
+ * (TRUSTED_PLATFORM_KEYS) before the key is registered.
  */
 
+const GNOSIS_CHAIN_ID = 100n;
+
+/** Reports read from a file may be older than a freshly fetched one */
+const MAX_REPORT_AGE = 300;
+
+function parseList(value: string | undefined): string[] | undefined {
+  const items = (value || "").split(",").map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Fetch or load the enclave attestation report with the policy to check it against
+ */
+async function getAttestationReport(): Promise<{ report: AttestationReport; policy: VerificationPolicy }> {
+  const { chainId } = await ethers.provider.getNetwork();
+  const policy: VerificationPolicy = {
+    measurements: parseList(process.env.ALLOWED_MEASUREMENTS),
+    platformKeys: parseList(process.env.TRUSTED_PLATFORM_KEYS),
+    // Software-simulated reports are only good enough for testnets
+    allowSimulated: chainId !== GNOSIS_CHAIN_ID,
+  };
+
+  if (process.env.ATTESTATION_REPORT_PATH) {
+    const report = JSON.parse(readFileSync(process.env.ATTESTATION_REPORT_PATH, "utf-8"));
+    return { report, policy };
+  }
+
+  const apiUrl = process.env.OPERATOR_API_URL;
+  if (!apiUrl) {
+    throw new Error("Set OPERATOR_API_URL (enclave operator API) or ATTESTATION_REPORT_PATH");
+  }
+
+  const nonce = ethers.hexlify(ethers.randomBytes(32));
+  const response = await fetch(`${apiUrl.replace(/\/+$/, "")}/attestation?nonce=${nonce}`);
+  if (!response.ok) {
+    throw new Error(`Enclave attestation API returned HTTP ${response.status}`);
+  }
+
+  const report = await response.json();
+  return { report, policy: { ...policy, nonce, maxAge: MAX_REPORT_AGE } };
+}
+
+/**
+ * Resolve the enclave public key (64 bytes, uncompressed without 0x04) from
+ * a verified attestation report
+ */
+async function getEnclavePublicKey(): Promise<string> {
+  const { report, policy } = await getAttestationReport();
+  const result = verifyReport(report, policy);
+
+  console.log("Attestation report:");
+  console.log("  TEE:", result.teeType);
+  console.log("  Build:", result.buildVersion);
+  console.log("  Measurement:", result.measurement);
+  console.log("  Platform key:", report.platformKey);
+
+  for (const warning of result.warnings) {
+    console.log(`  ⚠️  ${warning}`);
+  }
+
+  if (!result.valid) {
+    for (const error of result.errors) {
+      console.error(`  ❌ ${error}`);
+    }
+    throw new Error("Attestation report rejected, operator not registered");
+  }
+
+  console.log("  ✓ Verified\n");
+  return report.publicKey;
+}
+
 async function main() {
   console.log("👤 Registering Enclave Operator...\n");
 
@@ -20,12 +102,20 @@ async function main() {
     votePowerVerifierAddress
   );
 
+  const enclavePublicKey = await getEnclavePublicKey();
+
+  if (ethers.dataLength(enclavePublicKey) !== 64) {
+    throw new Error(`Enclave public key must be 64 bytes, got ${ethers.dataLength(enclavePublicKey)}`);
+  }
+
+  const operatorAddress = ethers.computeAddress(ethers.concat(["0x04", enclavePublicKey]));
+
   // Check if already registered
-  const [isOp, active] = await votePowerVerifier.isOperator(deployer.address);
+  const [isOp, active] = await votePowerVerifier.isOperator(operatorAddress);
 
   if (isOp) {
     console.log("✓ Operator is already registered");
-    console.log("  Address:", deployer.address);
+    console.log("  Address:", operatorAddress);
     console.log("  Active:", active);
 
     if (!active) {
@@ -35,16 +125,13 @@ async function main() {
     return;
   }
 
-  // Generate mock enclave public key (in production, this comes from TEE)
-  const enclavePublicKey = ethers.randomBytes(64); // Mock 64-byte public key
-
   console.log("📝 Registering operator...");
-  console.log("  Operator address:", deployer.address);
-  console.log("  Enclave public key:", ethers.hexlify(enclavePublicKey));
+  console.log("  Operator address:", operatorAddress);
+  console.log("  Enclave public key:", enclavePublicKey);
 
   try {
     const tx = await votePowerVerifier.addOperator(
-      deployer.address,
+      operatorAddress,
       enclavePublicKey
     );
 
@@ -56,7 +143,7 @@ async function main() {
     console.log("Gas used:", receipt.gasUsed.toString());
 
     // Verify registration
-    const [nowIsOp, nowActive] = await votePowerVerifier.isOperator(deployer.address);
+    const [nowIsOp, nowActive] = await votePowerVerifier.isOperator(operatorAddress);
     console.log("\n✓ Verification:");
     console.log("  Is operator:", nowIsOp);
     console.log("  Active:", nowActive);
@@ -68,8 +155,7 @@ async function main() {
     console.log("  Signature threshold:", threshold.toString());
 
     console.log("\n🎉 Operator registration complete!");
-    console.log("\nYou can now submit attestations using:");
-    console.log("npx hardhat run scripts/submit-attestation.ts --network chiado");
+    console.log("\nFund the operator address with xDAI for gas; the enclave now submits attestations.");
 
   } catch (error: any) {
     console.error("\n❌ Error registering operator:");
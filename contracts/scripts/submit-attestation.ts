@@ -1,4 +1,5 @@
 import { ethers } from "hardhat";
+import { hashResult } from "@liquid-democracy-engine/result-encoding";
 import { calculateVotingPower } from "./calculate-vote-power";
 import * as crypto from "crypto";
 
@@ -39,19 +40,11 @@ async function main() {
   // Step 2: Prepare attestation data
   console.log("\n📝 Step 2: Prepare attestation data...");
 
-  const addresses = votingPowerResults.map(r => r.address);
-  const powers = votingPowerResults.map(r => r.power);
+  // Canonical order and hash shared with the enclave service
+  const { addresses, powers, resultHash } = hashResult(votingPowerResults);
 
   console.log("Addresses:", addresses.length);
-  console.log("Powers:", powers);
-
-  // Calculate result hash
-  const resultHash = ethers.keccak256(
-    ethers.AbiCoder.defaultAbiCoder().encode(
-      ["address[]", "uint256[]"],
-      [addresses, powers]
-    )
-  );
+  console.log("Powers:", powers.map(p => p.toString()));
 
   console.log("Result hash:", resultHash);
 
@@ -11,6 +11,7 @@
  */
 
 import { ethers } from "hardhat";
+import { hashResult } from "@liquid-democracy-engine/result-encoding";
 import { calculateVotingPower, VotingPowerResult } from "./calculate-vote-power";
 
 async function main() {
@@ -51,16 +52,8 @@ async function main() {
   // Step 2: Prepare attestation data
   console.log("📝 Step 2: Prepare attestation data...");
 
-  const addresses = votingPowerResults.map(r => r.address);
-  const powers = votingPowerResults.map(r => BigInt(r.power));
-
-  // Calculate result hash
-  const resultHash = ethers.keccak256(
-    ethers.AbiCoder.defaultAbiCoder().encode(
-      ["address[]", "uint256[]"],
-      [addresses, powers]
-    )
-  );
+  // Canonical order and hash shared with the enclave service
+  const { addresses, powers, resultHash } = hashResult(votingPowerResults);
 
   console.log("  Addresses:", addresses.length);
   console.log("  Powers:", powers.map(p => p.toString()));
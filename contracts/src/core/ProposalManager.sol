@@ -130,22 +130,11 @@ contract ProposalManager is IProposalManager, ReentrancyGuard {
 
         // Only terminal delegates have voting power
         // If user delegated their vote, they can't vote directly
-        uint256 votes;
-        if (terminal == msg.sender) {
-            // This user is a terminal delegate, get their aggregated power
-            // Try to get cached voting power from VotePowerVerifier
-            (uint256 cachedPower, , ) = votePowerVerifier.getVotingPower(msg.sender, proposal.topicId);
-
-            // Fallback: Calculate voting power from delegation chains if enclave data unavailable
-            if (cachedPower > 0) {
-                votes = cachedPower;
-            } else {
-                // Use on-chain delegation graph calculation as fallback
-                votes = delegationManager.calculateVotingPower(msg.sender, proposal.topicId);
-            }
-        } else {
-            revert InsufficientVotingPower();
-        }
+        if (terminal != msg.sender) revert InsufficientVotingPower();
+
+        // Power from a committed root has to be claimed (claimVotingPower) before voting
+        uint256 votes = _votingPower(msg.sender, proposal.topicId);
+        if (votes == 0) revert VotingPowerNotClaimed(proposal.topicId);
 
         // Record vote (don't store votes count, will be calculated dynamically)
         _hasVoted[proposalId][msg.sender] = true;
@@ -189,16 +178,7 @@ contract ProposalManager is IProposalManager, ReentrancyGuard {
             address terminal = delegationManager.getTerminalDelegate(voter, proposal.topicId);
 
             if (terminal == voter) {
-                // Get cached voting power from VotePowerVerifier
-                (uint256 cachedPower, , ) = votePowerVerifier.getVotingPower(voter, proposal.topicId);
-
-                // Fallback: Calculate voting power from delegation chains if enclave data unavailable
-                if (cachedPower > 0) {
-                    currentVotes = cachedPower;
-                } else {
-                    // Use on-chain delegation graph calculation as fallback
-                    currentVotes = delegationManager.calculateVotingPower(voter, proposal.topicId);
-                }
+                currentVotes = _votingPower(voter, proposal.topicId);
             }
 
             // Add votes to appropriate tally
@@ -342,18 +322,29 @@ contract ProposalManager is IProposalManager, ReentrancyGuard {
 
         // Only terminal delegates have voting power
         if (terminal == account) {
-            // Get cached voting power from VotePowerVerifier
-            (uint256 cachedPower, , ) = votePowerVerifier.getVotingPower(account, proposal.topicId);
-
-            // Fallback: Calculate voting power from delegation chains if enclave data unavailable
-            if (cachedPower > 0) {
-                return cachedPower;
-            } else {
-                // Use on-chain delegation graph calculation as fallback
-                return delegationManager.calculateVotingPower(account, proposal.topicId);
-            }
+            return _votingPower(account, proposal.topicId);
         }
 
         return 0;
     }
+
+    // Internal Functions
+
+    /**
+     * @dev Voting power of a terminal delegate
+     *      Read from the VotePowerVerifier cache. Without an enclave result the cache is
+     *      empty and power is calculated from the on-chain delegation graph, which walks
+     *      every delegator of the topic. Once a power root is committed there is no
+     *      fallback: topics get a root because they are too large for that walk, so
+     *      delegates count 0 until their power is claimed from the current root.
+     */
+    function _votingPower(address account, uint256 topicId) internal view returns (uint256) {
+        (uint256 cachedPower, , ) = votePowerVerifier.getVotingPower(account, topicId);
+
+        if (cachedPower > 0 || votePowerVerifier.getPowerRoot(topicId).root != bytes32(0)) {
+            return cachedPower;
+        }
+
+        return delegationManager.calculateVotingPower(account, topicId);
+    }
 }
@@ -73,6 +73,7 @@ contract RewardDistributorSimple is IRewardDistributor, AccessControl, Reentranc
     ) external override onlyRole(VERIFIER_ROLE) nonReentrant {
         if (totalVotingPower == 0) {
             _closeAllStreams(topicId);
+            _totalDistributed[topicId] = 0;
             return;
         }
 
@@ -104,6 +105,37 @@ contract RewardDistributorSimple is IRewardDistributor, AccessControl, Reentranc
         _totalDistributed[topicId] = totalNewFlowRate;
     }
 
+    /**
+     * @inheritdoc IRewardDistributor
+     */
+    function updateFlow(
+        uint256 topicId,
+        address delegate,
+        uint256 votingPower,
+        uint256 totalVotingPower
+    ) external override onlyRole(VERIFIER_ROLE) nonReentrant {
+        RewardStream storage stream = _rewardStreams[topicId][delegate];
+        int96 oldFlowRate = stream.active ? stream.flowRate : int96(0);
+        int96 newFlowRate = 0;
+
+        if (votingPower > 0 && totalVotingPower > 0) {
+            int96 poolFlowRate = _topicPoolFlowRate[topicId];
+            if (poolFlowRate == 0) {
+                revert InvalidFlowRate();
+            }
+
+            newFlowRate = int96(int256((uint256(uint96(poolFlowRate)) * votingPower) / totalVotingPower));
+        }
+
+        if (newFlowRate > 0) {
+            _updateStream(topicId, delegate, newFlowRate);
+        } else {
+            _closeStream(topicId, delegate);
+        }
+
+        _totalDistributed[topicId] += newFlowRate - oldFlowRate;
+    }
+
     /**
      * @inheritdoc IRewardDistributor
      */
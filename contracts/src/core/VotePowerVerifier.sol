@@ -39,6 +39,9 @@ contract VotePowerVerifier is IVotePowerVerifier, AccessControl, ReentrancyGuard
     /// @notice Last attestation hash per topic
     mapping(uint256 => bytes32) private _lastAttestationHash;
 
+    /// @notice Merkle root commitments for topics too large for a full attestation
+    mapping(uint256 => PowerRoot) private _powerRoots;
+
     /// @notice Reward distributor contract (optional)
     IRewardDistributor public rewardDistributor;
 
@@ -67,85 +70,129 @@ contract VotePowerVerifier is IVotePowerVerifier, AccessControl, ReentrancyGuard
             revert ArrayLengthMismatch();
         }
 
-        // Check nonce hasn't been used (replay protection)
-        if (_usedNonces[attestation.nonce]) {
-            revert NonceAlreadyUsed(attestation.nonce);
-        }
-
-        // Verify block freshness
-        if (!AttestationLib.verifyBlockFreshness(
-            attestation.blockNumber,
-            block.number,
-            MAX_BLOCK_AGE
-        )) {
-            revert BlockNumberTooOld(attestation.blockNumber, block.number);
-        }
+        _verifyAttestation(attestation, AttestationLib.calculateResultHash(addresses, powers));
 
-        // Calculate expected result hash
-        bytes32 expectedHash = AttestationLib.calculateResultHash(addresses, powers);
+        // A full result replaces any earlier root commitment
+        delete _powerRoots[attestation.topicId];
 
-        if (expectedHash != attestation.resultHash) {
-            revert ResultHashMismatch();
-        }
+        // Update voting power cache
+        _updateVotingPowerCache(attestation.topicId, addresses, powers, attestation.resultHash);
 
-        // Build authorized operators array for verification
-        uint256 operatorCount = _operators.length();
-        address[] memory authorizedOps = new address[](operatorCount);
-        uint256 activeCount = 0;
+        emit AttestationAccepted(attestation.resultHash, block.timestamp);
+        emit VotingPowerUpdated(attestation.topicId, attestation.resultHash, block.timestamp);
 
-        for (uint256 i = 0; i < operatorCount; i++) {
-            address op = _operators.at(i);
-            if (_operatorDetails[op].active) {
-                authorizedOps[activeCount] = op;
-                activeCount++;
-            }
+        // Trigger reward distribution update if distributor is set
+        if (address(rewardDistributor) != address(0)) {
+            _triggerRewardUpdate(attestation.topicId, addresses, powers);
         }
+    }
 
-        // Resize array to actual active count
-        address[] memory activeOps = new address[](activeCount);
-        for (uint256 i = 0; i < activeCount; i++) {
-            activeOps[i] = authorizedOps[i];
+    /**
+     * @inheritdoc IVotePowerVerifier
+     */
+    function submitPowerRoot(
+        Attestation calldata attestation,
+        bytes32 root,
+        uint256 delegateCount,
+        uint256 totalPower
+    ) external override nonReentrant {
+        // A zero root would read as "no root" and leave the commitment unclaimable
+        if (root == bytes32(0)) {
+            revert InvalidPowerRoot();
         }
 
-        // Verify M-of-N signatures
-        (bool valid, address[] memory signers) = AttestationLib.verifyMultiSignature(
-            attestation.resultHash,
-            attestation.signatures,
-            activeOps,
-            ATTESTATION_THRESHOLD
+        _verifyAttestation(
+            attestation,
+            AttestationLib.calculateRootCommitment(root, delegateCount, totalPower)
         );
 
-        if (!valid) {
-            revert InsufficientSignatures(attestation.signatures.length, ATTESTATION_THRESHOLD);
-        }
+        _powerRoots[attestation.topicId] = PowerRoot({
+            root: root,
+            delegateCount: delegateCount,
+            totalPower: totalPower,
+            attestationHash: attestation.resultHash,
+            committedAt: block.timestamp
+        });
+        _lastAttestationHash[attestation.topicId] = attestation.resultHash;
 
-        emit AttestationSubmitted(
-            attestation.resultHash,
+        emit PowerRootCommitted(
             attestation.topicId,
-            attestation.blockNumber,
-            signers
+            attestation.resultHash,
+            root,
+            delegateCount,
+            totalPower
         );
 
-        // Mark nonce as used
-        _usedNonces[attestation.nonce] = true;
+        // Streams from the previous result are closed; claims reopen them one delegate at a time
+        if (address(rewardDistributor) != address(0)) {
+            _resetRewardFlows(attestation.topicId);
+        }
+    }
 
-        // Update voting power cache
-        _updateVotingPowerCache(attestation.topicId, addresses, powers, attestation.resultHash);
+    /**
+     * @inheritdoc IVotePowerVerifier
+     */
+    function claimVotingPower(
+        uint256 topicId,
+        address delegate,
+        uint256 power,
+        bytes32[] calldata proof
+    ) external override nonReentrant {
+        PowerRoot memory powerRoot = _powerRoots[topicId];
 
-        // Increment attestation count for operators
-        for (uint256 i = 0; i < signers.length; i++) {
-            _operatorDetails[signers[i]].attestationCount++;
+        if (powerRoot.root == bytes32(0)) {
+            revert NoPowerRoot(topicId);
         }
 
-        emit AttestationAccepted(attestation.resultHash, block.timestamp);
-        emit VotingPowerUpdated(attestation.topicId, attestation.resultHash, block.timestamp);
+        if (!AttestationLib.verifyPowerProof(powerRoot.root, delegate, power, proof)) {
+            revert InvalidPowerProof();
+        }
+
+        _votingPowerCache[topicId][delegate] = VotingPower({
+            user: delegate,
+            topicId: topicId,
+            power: power,
+            lastUpdated: block.timestamp,
+            attestationHash: powerRoot.attestationHash
+        });
+
+        emit VotingPowerClaimed(topicId, delegate, power, powerRoot.attestationHash);
 
-        // Trigger reward distribution update if distributor is set
         if (address(rewardDistributor) != address(0)) {
-            _triggerRewardUpdate(attestation.topicId, addresses, powers);
+            _triggerClaimRewardUpdate(topicId, delegate, power, powerRoot.totalPower);
         }
     }
 
+    /**
+     * @inheritdoc IVotePowerVerifier
+     */
+    function verifyVotingPower(
+        uint256 topicId,
+        address delegate,
+        uint256 power,
+        bytes32[] calldata proof
+    ) external view override returns (bool valid) {
+        bytes32 root = _powerRoots[topicId].root;
+
+        if (root == bytes32(0)) {
+            return false;
+        }
+
+        return AttestationLib.verifyPowerProof(root, delegate, power, proof);
+    }
+
+    /**
+     * @inheritdoc IVotePowerVerifier
+     */
+    function getPowerRoot(uint256 topicId)
+        external
+        view
+        override
+        returns (PowerRoot memory powerRoot)
+    {
+        return _powerRoots[topicId];
+    }
+
     /**
      * @inheritdoc IVotePowerVerifier
      */
@@ -160,6 +207,12 @@ contract VotePowerVerifier is IVotePowerVerifier, AccessControl, ReentrancyGuard
         )
     {
         VotingPower memory vp = _votingPowerCache[topicId][user];
+
+        // Entries written by an earlier attestation are stale (e.g. not yet claimed from a newer root)
+        if (vp.attestationHash != _lastAttestationHash[topicId]) {
+            return (0, 0, bytes32(0));
+        }
+
         return (vp.power, vp.lastUpdated, vp.attestationHash);
     }
 
@@ -300,6 +353,78 @@ contract VotePowerVerifier is IVotePowerVerifier, AccessControl, ReentrancyGuard
 
     // ============ Internal Functions ============
 
+    /**
+     * @notice Verify an attestation and consume its nonce
+     * @dev Shared by full results and root commitments; emits AttestationSubmitted
+     * @param attestation Attestation data with M-of-N signatures
+     * @param expectedHash Result hash recomputed from the submitted data
+     */
+    function _verifyAttestation(Attestation calldata attestation, bytes32 expectedHash) internal {
+        // Check nonce hasn't been used (replay protection)
+        if (_usedNonces[attestation.nonce]) {
+            revert NonceAlreadyUsed(attestation.nonce);
+        }
+
+        // Verify block freshness
+        if (!AttestationLib.verifyBlockFreshness(
+            attestation.blockNumber,
+            block.number,
+            MAX_BLOCK_AGE
+        )) {
+            revert BlockNumberTooOld(attestation.blockNumber, block.number);
+        }
+
+        if (expectedHash != attestation.resultHash) {
+            revert ResultHashMismatch();
+        }
+
+        // Build authorized operators array for verification
+        uint256 operatorCount = _operators.length();
+        address[] memory authorizedOps = new address[](operatorCount);
+        uint256 activeCount = 0;
+
+        for (uint256 i = 0; i < operatorCount; i++) {
+            address op = _operators.at(i);
+            if (_operatorDetails[op].active) {
+                authorizedOps[activeCount] = op;
+                activeCount++;
+            }
+        }
+
+        // Resize array to actual active count
+        address[] memory activeOps = new address[](activeCount);
+        for (uint256 i = 0; i < activeCount; i++) {
+            activeOps[i] = authorizedOps[i];
+        }
+
+        // Verify M-of-N signatures
+        (bool valid, address[] memory signers) = AttestationLib.verifyMultiSignature(
+            attestation.resultHash,
+            attestation.signatures,
+            activeOps,
+            ATTESTATION_THRESHOLD
+        );
+
+        if (!valid) {
+            revert InsufficientSignatures(attestation.signatures.length, ATTESTATION_THRESHOLD);
+        }
+
+        emit AttestationSubmitted(
+            attestation.resultHash,
+            attestation.topicId,
+            attestation.blockNumber,
+            signers
+        );
+
+        // Mark nonce as used
+        _usedNonces[attestation.nonce] = true;
+
+        // Increment attestation count for operators
+        for (uint256 i = 0; i < signers.length; i++) {
+            _operatorDetails[signers[i]].attestationCount++;
+        }
+    }
+
     /**
      * @notice Update voting power cache with new attestation results
      * @param topicId Topic ID
@@ -362,4 +487,39 @@ contract VotePowerVerifier is IVotePowerVerifier, AccessControl, ReentrancyGuard
             // Log could be added here if needed
         }
     }
+
+    /**
+     * @notice Close all reward streams for a topic after a root commitment
+     * @param topicId Topic ID
+     */
+    function _resetRewardFlows(uint256 topicId) internal {
+        IRewardDistributor.VotingPowerUpdate[] memory updates =
+            new IRewardDistributor.VotingPowerUpdate[](0);
+
+        try rewardDistributor.updateFlows(topicId, updates, 0) {
+            // Success
+        } catch {
+            // Don't revert the commitment if reward update fails
+        }
+    }
+
+    /**
+     * @notice Open or update a claimed delegate's reward stream
+     * @param topicId Topic ID
+     * @param delegate Delegate that claimed
+     * @param power Claimed voting power
+     * @param totalVotingPower Total power of the committed root
+     */
+    function _triggerClaimRewardUpdate(
+        uint256 topicId,
+        address delegate,
+        uint256 power,
+        uint256 totalVotingPower
+    ) internal {
+        try rewardDistributor.updateFlow(topicId, delegate, power, totalVotingPower) {
+            // Success
+        } catch {
+            // Don't revert the claim if reward update fails
+        }
+    }
 }
@@ -83,6 +83,7 @@ interface IProposalManager {
     error ProposalFailed();
     error NotProposer();
     error InvalidVotingPeriod();
+    error VotingPowerNotClaimed(uint256 topicId);
 
     // Core Functions
     function createProposal(ProposalParams calldata params) external returns (uint256 proposalId);
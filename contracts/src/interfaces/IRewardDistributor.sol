@@ -70,6 +70,22 @@ interface IRewardDistributor {
         uint256 totalVotingPower
     ) external;
 
+    /**
+     * @notice Update one delegate's reward flow
+     * @dev Called by VotePowerVerifier when a delegate claims power from a committed root,
+     *      since the full mapping is not available on-chain for root commitments
+     * @param topicId Topic ID
+     * @param delegate Delegate whose voting power was claimed
+     * @param votingPower Delegate's voting power
+     * @param totalVotingPower Total voting power of the committed root
+     */
+    function updateFlow(
+        uint256 topicId,
+        address delegate,
+        uint256 votingPower,
+        uint256 totalVotingPower
+    ) external;
+
     /**
      * @notice Get current flow rate for delegate on topic
      * @param delegate Delegate address
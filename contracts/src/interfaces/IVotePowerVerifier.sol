@@ -33,6 +33,14 @@ interface IVotePowerVerifier {
         bytes32 attestationHash;
     }
 
+    struct PowerRoot {
+        bytes32 root;
+        uint256 delegateCount;
+        uint256 totalPower;
+        bytes32 attestationHash;
+        uint256 committedAt;
+    }
+
     // ============ Events ============
 
     event AttestationSubmitted(
@@ -58,6 +66,21 @@ interface IVotePowerVerifier {
         uint256 timestamp
     );
 
+    event PowerRootCommitted(
+        uint256 indexed topicId,
+        bytes32 indexed attestationHash,
+        bytes32 root,
+        uint256 delegateCount,
+        uint256 totalPower
+    );
+
+    event VotingPowerClaimed(
+        uint256 indexed topicId,
+        address indexed delegate,
+        uint256 power,
+        bytes32 attestationHash
+    );
+
     event OperatorAdded(
         address indexed operator,
         bytes enclavePublicKey
@@ -79,6 +102,9 @@ interface IVotePowerVerifier {
     error OperatorNotActive(address operator);
     error CannotRemoveOperator(string reason);
     error UnauthorizedCaller();
+    error NoPowerRoot(uint256 topicId);
+    error InvalidPowerProof();
+    error InvalidPowerRoot();
 
     // ============ Constants ============
 
@@ -108,8 +134,66 @@ interface IVotePowerVerifier {
         uint256[] calldata powers
     ) external;
 
+    /**
+     * @notice Submit a Merkle root commitment for a result too large for submitAttestation
+     * @dev attestation.resultHash must equal keccak256(abi.encode(root, delegateCount, totalPower)).
+     *      Delegates' powers are written to the cache by claimVotingPower. Emits only
+     *      PowerRootCommitted; reward flows of the previous result are closed and each claim
+     *      reopens the claiming delegate's flow.
+     * @param attestation Attestation data with M-of-N signatures over the commitment
+     * @param root Merkle root over (delegate, power) leaves
+     * @param delegateCount Number of leaves
+     * @param totalPower Sum of all powers
+     */
+    function submitPowerRoot(
+        Attestation calldata attestation,
+        bytes32 root,
+        uint256 delegateCount,
+        uint256 totalPower
+    ) external;
+
+    /**
+     * @notice Write a delegate's power from the topic's committed root into the cache
+     * @dev Callable by anyone holding the proof (delegate, frontend, operator)
+     * @param topicId Topic ID
+     * @param delegate Terminal delegate address
+     * @param power Voting power in the committed result
+     * @param proof Merkle proof for (delegate, power)
+     */
+    function claimVotingPower(
+        uint256 topicId,
+        address delegate,
+        uint256 power,
+        bytes32[] calldata proof
+    ) external;
+
+    /**
+     * @notice Check a delegate's power against the topic's committed root
+     * @param topicId Topic ID
+     * @param delegate Terminal delegate address
+     * @param power Voting power to check
+     * @param proof Merkle proof for (delegate, power)
+     * @return valid Whether the proof matches the current root
+     */
+    function verifyVotingPower(
+        uint256 topicId,
+        address delegate,
+        uint256 power,
+        bytes32[] calldata proof
+    ) external view returns (bool valid);
+
+    /**
+     * @notice Get the committed Merkle root for a topic
+     * @dev Zero root if the latest attestation for the topic was a full result
+     * @param topicId Topic ID
+     * @return powerRoot Root, leaf count, total power and attestation hash
+     */
+    function getPowerRoot(uint256 topicId) external view returns (PowerRoot memory powerRoot);
+
     /**
      * @notice Get cached voting power for address on topic
+     * @dev Zero if the value was set by an earlier attestation than the topic's latest,
+     *      e.g. a delegate that has not claimed from a newer power root yet
      * @param user Address to query
      * @param topicId Topic ID
      * @return power Current voting power
@@ -3,6 +3,7 @@ pragma solidity ^0.8.20;
 
 import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
 /**
  * @title AttestationLib
@@ -163,6 +164,54 @@ library AttestationLib {
         return resultHash;
     }
 
+    /**
+     * @notice Calculate the Merkle leaf for a delegate's voting power
+     * @dev Double-hashed abi.encode(delegate, power), as in OpenZeppelin's StandardMerkleTree
+     * @param delegate Terminal delegate address
+     * @param power Voting power of the delegate
+     * @return leaf Leaf hash
+     */
+    function hashPowerLeaf(address delegate, uint256 power) internal pure returns (bytes32 leaf) {
+        leaf = keccak256(bytes.concat(keccak256(abi.encode(delegate, power))));
+        return leaf;
+    }
+
+    /**
+     * @notice Calculate the result hash operators sign for a Merkle root commitment
+     * @dev Standard hash format: keccak256(abi.encode(root, delegateCount, totalPower))
+     * @param root Merkle root over the power leaves
+     * @param delegateCount Number of leaves
+     * @param totalPower Sum of all leaf powers
+     * @return resultHash Computed hash
+     */
+    function calculateRootCommitment(
+        bytes32 root,
+        uint256 delegateCount,
+        uint256 totalPower
+    ) internal pure returns (bytes32 resultHash) {
+        resultHash = keccak256(abi.encode(root, delegateCount, totalPower));
+        return resultHash;
+    }
+
+    /**
+     * @notice Verify a delegate's voting power against a committed Merkle root
+     * @dev Proofs use sorted-pair hashing (OpenZeppelin MerkleProof)
+     * @param root Committed Merkle root
+     * @param delegate Terminal delegate address
+     * @param power Claimed voting power
+     * @param proof Sibling hashes from leaf to root
+     * @return valid True if the leaf is part of the tree
+     */
+    function verifyPowerProof(
+        bytes32 root,
+        address delegate,
+        uint256 power,
+        bytes32[] calldata proof
+    ) internal pure returns (bool valid) {
+        valid = MerkleProof.verifyCalldata(proof, root, hashPowerLeaf(delegate, power));
+        return valid;
+    }
+
     /**
      * @notice Verify block freshness (not too old)
      * @dev Checks that attestation block is within acceptable range
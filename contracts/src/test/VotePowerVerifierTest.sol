@@ -28,6 +28,7 @@ contract VotePowerVerifierTest is IVotePowerVerifier, AccessControl, ReentrancyG
     mapping(uint256 => bool) private _usedNonces;
     mapping(uint256 => mapping(address => VotingPower)) private _votingPowerCache;
     mapping(uint256 => bytes32) private _lastAttestationHash;
+    mapping(uint256 => PowerRoot) private _powerRoots;
 
     // ============ Constructor ============
 
@@ -46,69 +47,99 @@ contract VotePowerVerifierTest is IVotePowerVerifier, AccessControl, ReentrancyG
             revert ArrayLengthMismatch();
         }
 
-        if (_usedNonces[attestation.nonce]) {
-            revert NonceAlreadyUsed(attestation.nonce);
-        }
-
-        if (!AttestationLib.verifyBlockFreshness(
-            attestation.blockNumber,
-            block.number,
-            MAX_BLOCK_AGE
-        )) {
-            revert BlockNumberTooOld(attestation.blockNumber, block.number);
-        }
+        _verifyAttestation(attestation, AttestationLib.calculateResultHash(addresses, powers));
 
-        bytes32 expectedHash = AttestationLib.calculateResultHash(addresses, powers);
+        delete _powerRoots[attestation.topicId];
 
-        if (expectedHash != attestation.resultHash) {
-            revert ResultHashMismatch();
-        }
+        _updateVotingPowerCache(attestation.topicId, addresses, powers, attestation.resultHash);
 
-        uint256 operatorCount = _operators.length();
-        address[] memory authorizedOps = new address[](operatorCount);
-        uint256 activeCount = 0;
+        emit AttestationAccepted(attestation.resultHash, block.timestamp);
+        emit VotingPowerUpdated(attestation.topicId, attestation.resultHash, block.timestamp);
+    }
 
-        for (uint256 i = 0; i < operatorCount; i++) {
-            address op = _operators.at(i);
-            if (_operatorDetails[op].active) {
-                authorizedOps[activeCount] = op;
-                activeCount++;
-            }
+    function submitPowerRoot(
+        Attestation calldata attestation,
+        bytes32 root,
+        uint256 delegateCount,
+        uint256 totalPower
+    ) external override nonReentrant {
+        // A zero root would read as "no root" and leave the commitment unclaimable
+        if (root == bytes32(0)) {
+            revert InvalidPowerRoot();
         }
 
-        address[] memory activeOps = new address[](activeCount);
-        for (uint256 i = 0; i < activeCount; i++) {
-            activeOps[i] = authorizedOps[i];
-        }
+        _verifyAttestation(
+            attestation,
+            AttestationLib.calculateRootCommitment(root, delegateCount, totalPower)
+        );
 
-        (bool valid, address[] memory signers) = AttestationLib.verifyMultiSignature(
+        _powerRoots[attestation.topicId] = PowerRoot({
+            root: root,
+            delegateCount: delegateCount,
+            totalPower: totalPower,
+            attestationHash: attestation.resultHash,
+            committedAt: block.timestamp
+        });
+        _lastAttestationHash[attestation.topicId] = attestation.resultHash;
+
+        emit PowerRootCommitted(
+            attestation.topicId,
             attestation.resultHash,
-            attestation.signatures,
-            activeOps,
-            ATTESTATION_THRESHOLD
+            root,
+            delegateCount,
+            totalPower
         );
+    }
 
-        if (!valid) {
-            revert InsufficientSignatures(attestation.signatures.length, ATTESTATION_THRESHOLD);
+    function claimVotingPower(
+        uint256 topicId,
+        address delegate,
+        uint256 power,
+        bytes32[] calldata proof
+    ) external override {
+        PowerRoot memory powerRoot = _powerRoots[topicId];
+
+        if (powerRoot.root == bytes32(0)) {
+            revert NoPowerRoot(topicId);
         }
 
-        emit AttestationSubmitted(
-            attestation.resultHash,
-            attestation.topicId,
-            attestation.blockNumber,
-            signers
-        );
+        if (!AttestationLib.verifyPowerProof(powerRoot.root, delegate, power, proof)) {
+            revert InvalidPowerProof();
+        }
 
-        _usedNonces[attestation.nonce] = true;
+        _votingPowerCache[topicId][delegate] = VotingPower({
+            user: delegate,
+            topicId: topicId,
+            power: power,
+            lastUpdated: block.timestamp,
+            attestationHash: powerRoot.attestationHash
+        });
 
-        _updateVotingPowerCache(attestation.topicId, addresses, powers, attestation.resultHash);
+        emit VotingPowerClaimed(topicId, delegate, power, powerRoot.attestationHash);
+    }
 
-        for (uint256 i = 0; i < signers.length; i++) {
-            _operatorDetails[signers[i]].attestationCount++;
+    function verifyVotingPower(
+        uint256 topicId,
+        address delegate,
+        uint256 power,
+        bytes32[] calldata proof
+    ) external view override returns (bool valid) {
+        bytes32 root = _powerRoots[topicId].root;
+
+        if (root == bytes32(0)) {
+            return false;
         }
 
-        emit AttestationAccepted(attestation.resultHash, block.timestamp);
-        emit VotingPowerUpdated(attestation.topicId, attestation.resultHash, block.timestamp);
+        return AttestationLib.verifyPowerProof(root, delegate, power, proof);
+    }
+
+    function getPowerRoot(uint256 topicId)
+        external
+        view
+        override
+        returns (PowerRoot memory powerRoot)
+    {
+        return _powerRoots[topicId];
     }
 
     function getVotingPower(address user, uint256 topicId)
@@ -122,6 +153,9 @@ contract VotePowerVerifierTest is IVotePowerVerifier, AccessControl, ReentrancyG
         )
     {
         VotingPower memory vp = _votingPowerCache[topicId][user];
+        if (vp.attestationHash != _lastAttestationHash[topicId]) {
+            return (0, 0, bytes32(0));
+        }
         return (vp.power, vp.lastUpdated, vp.attestationHash);
     }
 
@@ -221,6 +255,65 @@ contract VotePowerVerifierTest is IVotePowerVerifier, AccessControl, ReentrancyG
 
     // ============ Internal Functions ============
 
+    function _verifyAttestation(Attestation calldata attestation, bytes32 expectedHash) internal {
+        if (_usedNonces[attestation.nonce]) {
+            revert NonceAlreadyUsed(attestation.nonce);
+        }
+
+        if (!AttestationLib.verifyBlockFreshness(
+            attestation.blockNumber,
+            block.number,
+            MAX_BLOCK_AGE
+        )) {
+            revert BlockNumberTooOld(attestation.blockNumber, block.number);
+        }
+
+        if (expectedHash != attestation.resultHash) {
+            revert ResultHashMismatch();
+        }
+
+        uint256 operatorCount = _operators.length();
+        address[] memory authorizedOps = new address[](operatorCount);
+        uint256 activeCount = 0;
+
+        for (uint256 i = 0; i < operatorCount; i++) {
+            address op = _operators.at(i);
+            if (_operatorDetails[op].active) {
+                authorizedOps[activeCount] = op;
+                activeCount++;
+            }
+        }
+
+        address[] memory activeOps = new address[](activeCount);
+        for (uint256 i = 0; i < activeCount; i++) {
+            activeOps[i] = authorizedOps[i];
+        }
+
+        (bool valid, address[] memory signers) = AttestationLib.verifyMultiSignature(
+            attestation.resultHash,
+            attestation.signatures,
+            activeOps,
+            ATTESTATION_THRESHOLD
+        );
+
+        if (!valid) {
+            revert InsufficientSignatures(attestation.signatures.length, ATTESTATION_THRESHOLD);
+        }
+
+        emit AttestationSubmitted(
+            attestation.resultHash,
+            attestation.topicId,
+            attestation.blockNumber,
+            signers
+        );
+
+        _usedNonces[attestation.nonce] = true;
+
+        for (uint256 i = 0; i < signers.length; i++) {
+            _operatorDetails[signers[i]].attestationCount++;
+        }
+    }
+
     function _updateVotingPowerCache(
         uint256 topicId,
         address[] calldata addresses,
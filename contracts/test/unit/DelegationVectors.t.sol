@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Test} from "forge-std/Test.sol";
+import {DelegationManager} from "../../src/core/DelegationManager.sol";
+import {TopicRegistry} from "../../src/core/TopicRegistry.sol";
+import {DelegationGraph} from "../../src/libraries/DelegationGraph.sol";
+
+/**
+ * @title DelegationVectorsTest
+ * @notice Checks the shared delegation traversal vectors against DelegationManager
+ * @dev Vectors live in result-encoding/test-vectors/delegation.json and are also
+ *      asserted by the TypeScript package and the enclave's graph algorithms.
+ *      Vectors marked onChain: false cover graphs the contract cannot hold or
+ *      where off-chain power follows dead-end rules the contract does not apply
+ */
+contract DelegationVectorsTest is Test {
+    string internal constant VECTORS_PATH = "../result-encoding/test-vectors/delegation.json";
+
+    DelegationManager internal delegationManager;
+    TopicRegistry internal topicRegistry;
+    string internal json;
+
+    function setUp() public {
+        json = vm.readFile(VECTORS_PATH);
+        topicRegistry = new TopicRegistry();
+        delegationManager = new DelegationManager(address(topicRegistry));
+    }
+
+    function test_HopLimitsMatchDelegationGraph() public view {
+        assertEq(vm.parseJsonUint(json, ".maxDelegationDepth"), DelegationGraph.MAX_DELEGATION_DEPTH);
+        assertEq(vm.parseJsonUint(json, ".maxTraversalHops"), uint256(DelegationGraph.MAX_DELEGATION_DEPTH) + 1);
+    }
+
+    function test_GoldenVectorsMatchGetTerminalDelegate() public {
+        string[] memory names = vm.parseJsonStringArray(json, ".vectors[*].name");
+        assertGt(names.length, 0, "no vectors loaded");
+
+        uint256 checked = 0;
+        for (uint256 i = 0; i < names.length; i++) {
+            string memory key = string.concat(".vectors[", vm.toString(i), "]");
+            if (!vm.parseJsonBool(json, string.concat(key, ".onChain"))) {
+                continue;
+            }
+
+            uint256 topicId = topicRegistry.createTopic(names[i], keccak256(bytes(names[i])), 10);
+            _replay(key, topicId);
+
+            address[] memory addresses = vm.parseJsonAddressArray(json, string.concat(key, ".terminals[*].address"));
+            address[] memory terminals = vm.parseJsonAddressArray(json, string.concat(key, ".terminals[*].terminal"));
+
+            for (uint256 j = 0; j < addresses.length; j++) {
+                assertEq(delegationManager.getTerminalDelegate(addresses[j], topicId), terminals[j], names[i]);
+            }
+            checked++;
+        }
+
+        assertGt(checked, 0, "no on-chain vectors");
+    }
+
+    /**
+     * @dev Submit a vector's delegations in listed order, then its dead-end declarations
+     */
+    function _replay(string memory key, uint256 topicId) internal {
+        address[] memory from = vm.parseJsonAddressArray(json, string.concat(key, ".delegations[*].from"));
+        address[] memory to = vm.parseJsonAddressArray(json, string.concat(key, ".delegations[*].to"));
+
+        for (uint256 j = 0; j < from.length; j++) {
+            vm.prank(from[j]);
+            delegationManager.delegate(topicId, to[j]);
+        }
+
+        address[] memory deadEnds = vm.parseJsonAddressArray(json, string.concat(key, ".deadEnds"));
+        for (uint256 j = 0; j < deadEnds.length; j++) {
+            vm.prank(deadEnds[j]);
+            delegationManager.declareDeadEnd(topicId);
+        }
+    }
+}
@@ -0,0 +1,296 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Test, Vm} from "forge-std/Test.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import {VotePowerVerifier} from "../../src/core/VotePowerVerifier.sol";
+import {IVotePowerVerifier} from "../../src/interfaces/IVotePowerVerifier.sol";
+import {AttestationLib} from "../../src/libraries/AttestationLib.sol";
+import {ProposalManager} from "../../src/core/ProposalManager.sol";
+import {TopicRegistry} from "../../src/core/TopicRegistry.sol";
+import {DelegationManager} from "../../src/core/DelegationManager.sol";
+import {RewardDistributorSimple} from "../../src/core/RewardDistributorSimple.sol";
+import {IProposalManager} from "../../src/interfaces/IProposalManager.sol";
+
+/**
+ * @title PowerRootVectorsTest
+ * @notice Checks the shared power-tree golden vectors against AttestationLib and
+ *         the root commitment flow of VotePowerVerifier
+ * @dev Vectors live in result-encoding/test-vectors/power-tree.json and are also
+ *      asserted by the TypeScript package, so off-chain proofs verify on-chain
+ */
+contract PowerRootVectorsTest is Test {
+    string internal constant VECTORS_PATH = "../result-encoding/test-vectors/power-tree.json";
+
+    VotePowerVerifier public votePowerVerifier;
+    string internal json;
+
+    uint256[3] internal operatorKeys = [uint256(0xA11CE), uint256(0xB0B), uint256(0xCAFE)];
+
+    function setUp() public {
+        json = vm.readFile(VECTORS_PATH);
+        votePowerVerifier = new VotePowerVerifier();
+
+        for (uint256 i = 0; i < operatorKeys.length; i++) {
+            votePowerVerifier.addOperator(vm.addr(operatorKeys[i]), abi.encodePacked(bytes32(i + 1)));
+        }
+
+        vm.roll(1000);
+    }
+
+    // ============ Vectors ============
+
+    function test_GoldenVectorsMatchCalculateRootCommitment() public view {
+        bytes32[] memory roots = vm.parseJsonBytes32Array(json, ".vectors[*].root");
+        assertGt(roots.length, 0, "no vectors loaded");
+
+        for (uint256 i = 0; i < roots.length; i++) {
+            string memory key = _vectorKey(i);
+
+            assertEq(
+                AttestationLib.calculateRootCommitment(
+                    roots[i],
+                    vm.parseJsonUint(json, string.concat(key, ".delegateCount")),
+                    vm.parseJsonUint(json, string.concat(key, ".totalPower"))
+                ),
+                vm.parseJsonBytes32(json, string.concat(key, ".commitment")),
+                vm.parseJsonString(json, string.concat(key, ".name"))
+            );
+        }
+    }
+
+    function test_GoldenVectorProofsClaimOnChain() public {
+        bytes32[] memory roots = vm.parseJsonBytes32Array(json, ".vectors[*].root");
+
+        for (uint256 i = 0; i < roots.length; i++) {
+            string memory key = _vectorKey(i);
+            _submitVectorRoot(i, i + 1);
+
+            address[] memory delegates =
+                vm.parseJsonAddressArray(json, string.concat(key, ".proofs[*].address"));
+
+            for (uint256 j = 0; j < delegates.length; j++) {
+                string memory proofKey = string.concat(key, ".proofs[", vm.toString(j), "]");
+                uint256 power = vm.parseJsonUint(json, string.concat(proofKey, ".power"));
+                bytes32[] memory proof =
+                    vm.parseJsonBytes32Array(json, string.concat(proofKey, ".proof"));
+
+                assertTrue(votePowerVerifier.verifyVotingPower(i + 1, delegates[j], power, proof));
+                assertFalse(votePowerVerifier.verifyVotingPower(i + 1, delegates[j], power + 1, proof));
+
+                votePowerVerifier.claimVotingPower(i + 1, delegates[j], power, proof);
+                (uint256 claimed,, bytes32 attestationHash) =
+                    votePowerVerifier.getVotingPower(delegates[j], i + 1);
+                assertEq(claimed, power);
+                assertEq(attestationHash, vm.parseJsonBytes32(json, string.concat(key, ".commitment")));
+            }
+        }
+    }
+
+    // ============ Root Commitments ============
+
+    function test_SubmitPowerRootStoresRoot() public {
+        _submitVectorRoot(0, 1);
+
+        IVotePowerVerifier.PowerRoot memory powerRoot = votePowerVerifier.getPowerRoot(1);
+        assertEq(powerRoot.root, vm.parseJsonBytes32(json, ".vectors[0].root"));
+        assertEq(powerRoot.attestationHash, vm.parseJsonBytes32(json, ".vectors[0].commitment"));
+        assertEq(powerRoot.delegateCount, vm.parseJsonUint(json, ".vectors[0].delegateCount"));
+    }
+
+    function test_SubmitPowerRootEmitsOnlyCommitment() public {
+        vm.recordLogs();
+        _submitVectorRoot(0, 1);
+
+        Vm.Log[] memory logs = vm.getRecordedLogs();
+        assertEq(logs.length, 2);
+        assertEq(logs[0].topics[0], IVotePowerVerifier.AttestationSubmitted.selector);
+        assertEq(logs[1].topics[0], IVotePowerVerifier.PowerRootCommitted.selector);
+    }
+
+    function test_UnclaimedPowerIsNotReadFromEarlierAttestation() public {
+        TopicRegistry topicRegistry = new TopicRegistry();
+        DelegationManager delegationManager = new DelegationManager(address(topicRegistry));
+        ProposalManager proposalManager = new ProposalManager(
+            address(topicRegistry),
+            address(delegationManager),
+            address(votePowerVerifier)
+        );
+        topicRegistry.createTopic("Climate Policy", "QmTest", 10);
+
+        address delegate = vm.parseJsonAddress(json, ".vectors[1].proofs[0].address");
+        uint256 power = vm.parseJsonUint(json, ".vectors[1].proofs[0].power");
+        bytes32[] memory proof = vm.parseJsonBytes32Array(json, ".vectors[1].proofs[0].proof");
+
+        // Full attestation first, then a root the delegate has not claimed from
+        address[] memory addresses = new address[](1);
+        uint256[] memory powers = new uint256[](1);
+        addresses[0] = delegate;
+        powers[0] = 500;
+        votePowerVerifier.submitAttestation(
+            _attest(AttestationLib.calculateResultHash(addresses, powers), 1), addresses, powers
+        );
+        _submitVectorRoot(1, 1);
+
+        (uint256 cached,, bytes32 attestationHash) = votePowerVerifier.getVotingPower(delegate, 1);
+        assertEq(cached, 0);
+        assertEq(attestationHash, bytes32(0));
+
+        vm.prank(delegate);
+        uint256 proposalId = proposalManager.createProposal(
+            IProposalManager.ProposalParams({
+                topicId: 1,
+                title: "Test Proposal",
+                descriptionCID: "QmTest",
+                votingPeriod: 1000
+            })
+        );
+        // Neither the stale 500 nor the on-chain graph stands in for an unclaimed power
+        assertEq(proposalManager.getVotingPower(proposalId, delegate), 0);
+        vm.prank(delegate);
+        vm.expectRevert(abi.encodeWithSelector(IProposalManager.VotingPowerNotClaimed.selector, 1));
+        proposalManager.castVote(proposalId, IProposalManager.VoteChoice.For);
+
+        votePowerVerifier.claimVotingPower(1, delegate, power, proof);
+        vm.prank(delegate);
+        proposalManager.castVote(proposalId, IProposalManager.VoteChoice.For);
+
+        (uint256 forVotes,,) = proposalManager.calculateVoteTallies(proposalId);
+        assertEq(forVotes, power);
+
+        // A newer root voids the claim until the delegate claims from it
+        _submitVectorRoot(0, 1);
+        (forVotes,,) = proposalManager.calculateVoteTallies(proposalId);
+        assertEq(forVotes, 0);
+    }
+
+    function test_ClaimsDriveRewardFlowsAfterRoot() public {
+        RewardDistributorSimple distributor = new RewardDistributorSimple(address(votePowerVerifier));
+        votePowerVerifier.setRewardDistributor(address(distributor));
+        distributor.setPoolFlowRate(1, 1000);
+
+        address[] memory addresses = new address[](1);
+        uint256[] memory powers = new uint256[](1);
+        addresses[0] = address(0xD1);
+        powers[0] = 1;
+        votePowerVerifier.submitAttestation(
+            _attest(AttestationLib.calculateResultHash(addresses, powers), 1), addresses, powers
+        );
+        assertEq(distributor.getActiveDelegates(1).length, 1);
+
+        // The root closes the streams of the full result
+        _submitVectorRoot(1, 1);
+        assertEq(distributor.getActiveDelegates(1).length, 0);
+
+        address delegate = vm.parseJsonAddress(json, ".vectors[1].proofs[0].address");
+        uint256 power = vm.parseJsonUint(json, ".vectors[1].proofs[0].power");
+        uint256 totalPower = vm.parseJsonUint(json, ".vectors[1].totalPower");
+        votePowerVerifier.claimVotingPower(
+            1, delegate, power, vm.parseJsonBytes32Array(json, ".vectors[1].proofs[0].proof")
+        );
+
+        (int96 flowRate,,) = distributor.getFlowRate(delegate, 1);
+        assertEq(uint256(uint96(flowRate)), (1000 * power) / totalPower);
+
+        (, int96 totalDistributed,) = distributor.getPoolFlowRate(1);
+        assertEq(totalDistributed, flowRate);
+        assertEq(distributor.getActiveDelegates(1).length, 1);
+    }
+
+    function test_RevertWhen_SubmitPowerRootWithWrongTotal() public {
+        bytes32 root = vm.parseJsonBytes32(json, ".vectors[0].root");
+        uint256 delegateCount = vm.parseJsonUint(json, ".vectors[0].delegateCount");
+        uint256 totalPower = vm.parseJsonUint(json, ".vectors[0].totalPower");
+
+        IVotePowerVerifier.Attestation memory attestation =
+            _attest(AttestationLib.calculateRootCommitment(root, delegateCount, totalPower), 1);
+
+        vm.expectRevert(IVotePowerVerifier.ResultHashMismatch.selector);
+        votePowerVerifier.submitPowerRoot(attestation, root, delegateCount, totalPower + 1);
+    }
+
+    function test_RevertWhen_SubmitZeroPowerRoot() public {
+        bytes32 commitment = AttestationLib.calculateRootCommitment(bytes32(0), 1, 1);
+
+        vm.expectRevert(IVotePowerVerifier.InvalidPowerRoot.selector);
+        votePowerVerifier.submitPowerRoot(_attest(commitment, 1), bytes32(0), 1, 1);
+    }
+
+    function test_RevertWhen_ClaimWithoutRoot() public {
+        vm.expectRevert(abi.encodeWithSelector(IVotePowerVerifier.NoPowerRoot.selector, 1));
+        votePowerVerifier.claimVotingPower(1, address(1), 1, new bytes32[](0));
+    }
+
+    function test_RevertWhen_ClaimWithInvalidProof() public {
+        _submitVectorRoot(1, 1);
+
+        address delegate = vm.parseJsonAddress(json, ".vectors[1].proofs[0].address");
+        uint256 power = vm.parseJsonUint(json, ".vectors[1].proofs[0].power");
+        bytes32[] memory proof = vm.parseJsonBytes32Array(json, ".vectors[1].proofs[0].proof");
+
+        vm.expectRevert(IVotePowerVerifier.InvalidPowerProof.selector);
+        votePowerVerifier.claimVotingPower(1, delegate, power * 2, proof);
+    }
+
+    function test_FullAttestationReplacesRoot() public {
+        _submitVectorRoot(0, 1);
+
+        address[] memory addresses = new address[](1);
+        uint256[] memory powers = new uint256[](1);
+        addresses[0] = address(0xD1);
+        powers[0] = 1;
+
+        votePowerVerifier.submitAttestation(
+            _attest(AttestationLib.calculateResultHash(addresses, powers), 1), addresses, powers
+        );
+
+        assertEq(votePowerVerifier.getPowerRoot(1).root, bytes32(0));
+        assertFalse(
+            votePowerVerifier.verifyVotingPower(
+                1,
+                vm.parseJsonAddress(json, ".vectors[0].proofs[0].address"),
+                vm.parseJsonUint(json, ".vectors[0].proofs[0].power"),
+                new bytes32[](0)
+            )
+        );
+    }
+
+    // ============ Helpers ============
+
+    function _vectorKey(uint256 index) internal pure returns (string memory) {
+        return string.concat(".vectors[", vm.toString(index), "]");
+    }
+
+    function _submitVectorRoot(uint256 index, uint256 topicId) internal {
+        string memory key = _vectorKey(index);
+
+        votePowerVerifier.submitPowerRoot(
+            _attest(vm.parseJsonBytes32(json, string.concat(key, ".commitment")), topicId),
+            vm.parseJsonBytes32(json, string.concat(key, ".root")),
+            vm.parseJsonUint(json, string.concat(key, ".delegateCount")),
+            vm.parseJsonUint(json, string.concat(key, ".totalPower"))
+        );
+    }
+
+    function _attest(bytes32 resultHash, uint256 topicId)
+        internal
+        view
+        returns (IVotePowerVerifier.Attestation memory attestation)
+    {
+        bytes32 digest = MessageHashUtils.toEthSignedMessageHash(resultHash);
+        bytes[] memory signatures = new bytes[](operatorKeys.length);
+
+        for (uint256 i = 0; i < operatorKeys.length; i++) {
+            (uint8 v, bytes32 r, bytes32 s) = vm.sign(operatorKeys[i], digest);
+            signatures[i] = abi.encodePacked(r, s, v);
+        }
+
+        attestation = IVotePowerVerifier.Attestation({
+            resultHash: resultHash,
+            topicId: topicId,
+            blockNumber: block.number,
+            signatures: signatures,
+            nonce: uint256(keccak256(abi.encode(resultHash, topicId)))
+        });
+    }
+}
@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Test} from "forge-std/Test.sol";
+import {AttestationLib} from "../../src/libraries/AttestationLib.sol";
+
+/**
+ * @title ResultHashVectorsTest
+ * @notice Checks the shared result-encoding golden vectors against AttestationLib
+ * @dev Vectors live in result-encoding/test-vectors/result-hash.json and are also
+ *      asserted by the TypeScript package, so off-chain producers and the verifier
+ *      are pinned to the same encoding
+ */
+contract ResultHashVectorsTest is Test {
+    string internal constant VECTORS_PATH = "../result-encoding/test-vectors/result-hash.json";
+
+    string internal json;
+
+    function setUp() public {
+        json = vm.readFile(VECTORS_PATH);
+    }
+
+    function test_GoldenVectorsMatchCalculateResultHash() public view {
+        bytes32[] memory expected = vm.parseJsonBytes32Array(json, ".vectors[*].resultHash");
+        assertGt(expected.length, 0, "no vectors loaded");
+
+        for (uint256 i = 0; i < expected.length; i++) {
+            string memory key = string.concat(".vectors[", vm.toString(i), "]");
+            address[] memory addresses = vm.parseJsonAddressArray(json, string.concat(key, ".addresses"));
+            uint256[] memory powers = vm.parseJsonUintArray(json, string.concat(key, ".powers"));
+
+            assertEq(
+                AttestationLib.calculateResultHash(addresses, powers),
+                expected[i],
+                vm.parseJsonString(json, string.concat(key, ".name"))
+            );
+        }
+    }
+
+    function test_GoldenVectorsAreCanonicallyOrdered() public view {
+        bytes32[] memory expected = vm.parseJsonBytes32Array(json, ".vectors[*].resultHash");
+
+        for (uint256 i = 0; i < expected.length; i++) {
+            string memory key = string.concat(".vectors[", vm.toString(i), "]");
+            address[] memory addresses = vm.parseJsonAddressArray(json, string.concat(key, ".addresses"));
+
+            for (uint256 j = 1; j < addresses.length; j++) {
+                assertLt(uint160(addresses[j - 1]), uint160(addresses[j]), "addresses not strictly ascending");
+            }
+        }
+    }
+}
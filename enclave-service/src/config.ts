@@ -0,0 +1,283 @@
+/**
+ * Service Configuration
+ *
+ * Loads enclave operator configuration from environment variables
+ */
+
+import { readFileSync } from 'fs';
+import { ethers } from 'ethers';
+import { DEFAULT_SUBMISSION_LIMITS, type SubmissionLimits } from './services/SubmissionPlanner.js';
+import { SIGNER_BACKENDS, type SignerBackend, type SignerConfig } from './signers/OperatorKey.js';
+
+export interface EnclaveServiceConfig {
+  /** JSON-RPC endpoints, in order of preference */
+  rpcUrls: string[];
+  /** Endpoints that must agree on block-pinned reads before results are signed */
+  rpcQuorum: number;
+  /** Per-request RPC timeout */
+  rpcTimeout: number;
+  delegationManagerAddress: string;
+  votePowerVerifierAddress: string;
+  /** Backend holding the operator key */
+  signer: SignerConfig;
+  /** Release tag or commit reported in attestation reports */
+  buildVersion: string;
+  /** Software platform key signing simulated attestation reports */
+  simulatedPlatformKey?: string;
+  topicIds: number[];
+  /** DelegationManager deployment block; history is replayed from here without a checkpoint */
+  startBlock: number;
+  pollInterval: number;
+  checkpointPath: string;
+  /** File persisting broadcast but unsettled attestation transactions */
+  pendingSubmissionsPath: string;
+  /** Time without inclusion before a transaction is re-priced */
+  txStuckTimeout: number;
+  /** Fee increase per re-pricing (min 10) */
+  feeBumpPercent: number;
+  /** Upper bound for maxFeePerGas in wei (unbounded if unset) */
+  maxFeePerGas?: bigint;
+  /** Full attestation size limits, above which a Merkle root is committed */
+  submissionLimits: SubmissionLimits;
+  confirmations: number;
+  /** Port serving signature shares to peer operators */
+  coordinationPort: number;
+  /** Peer operator base URLs */
+  peerUrls: string[];
+  /** Time to wait for threshold signatures on a result */
+  signatureTimeout: number;
+  /** Delay per election rank before a backup operator submits */
+  submitterBackoff: number;
+  /** Quiet period before a topic's batched changes are attested */
+  batchWindow: number;
+  /** Maximum delay from a topic's first unattested change to its attestation */
+  batchMaxLatency: number;
+  /** Status/control API listen address */
+  apiPort: number;
+  apiHost: string;
+  /** Bearer token for control endpoints (unset disables them) */
+  apiToken?: string;
+}
+
+/**
+ * Read a required environment variable
+ *
+ * @param env Environment to read from
+ * @param name Variable name
+ * @returns Variable value
+ */
+function requireEnv(env: NodeJS.ProcessEnv, name: string): string {
+  const value = env[name];
+
+  if (!value || value === '0x...') {
+    throw new Error(`Missing required environment variable: ${name}`);
+  }
+
+  return value;
+}
+
+/**
+ * Read a required secret from NAME, or from the file named by NAME_FILE
+ * (container secrets)
+ *
+ * @param env Environment to read from
+ * @param name Variable name
+ * @returns Secret value
+ */
+function requireSecret(env: NodeJS.ProcessEnv, name: string): string {
+  const file = env[`${name}_FILE`];
+
+  if (file) {
+    return readFileSync(file, 'utf8').trim();
+  }
+
+  return requireEnv(env, name);
+}
+
+/**
+ * Load the operator signer backend configuration (OPERATOR_SIGNER)
+ */
+function loadSignerConfig(env: NodeJS.ProcessEnv): SignerConfig {
+  const backend = (env.OPERATOR_SIGNER || 'private-key') as SignerBackend;
+
+  switch (backend) {
+    case 'private-key':
+      return { backend, privateKey: requireEnv(env, 'ENCLAVE_OPERATOR_PRIVATE_KEY') };
+    case 'keystore':
+      return {
+        backend,
+        keystorePath: requireEnv(env, 'OPERATOR_KEYSTORE_PATH'),
+        passphrase: requireSecret(env, 'OPERATOR_KEYSTORE_PASSPHRASE'),
+      };
+    case 'remote':
+      return {
+        backend,
+        url: requireEnv(env, 'REMOTE_SIGNER_URL'),
+        address: env.REMOTE_SIGNER_ADDRESS || undefined,
+        authToken:
+          env.REMOTE_SIGNER_TOKEN || env.REMOTE_SIGNER_TOKEN_FILE
+            ? requireSecret(env, 'REMOTE_SIGNER_TOKEN')
+            : undefined,
+        timeout: env.REMOTE_SIGNER_TIMEOUT_MS
+          ? parseInt(env.REMOTE_SIGNER_TIMEOUT_MS, 10)
+          : undefined,
+      };
+    case 'sealed':
+      return {
+        backend,
+        sealedKeyPath: env.SEALED_KEY_PATH || './data/sealed-key.json',
+        sealingKey: requireSecret(env, 'ENCLAVE_SEALING_KEY'),
+      };
+    default:
+      throw new Error(
+        `Invalid OPERATOR_SIGNER: ${backend} (expected one of ${SIGNER_BACKENDS.join(', ')})`
+      );
+  }
+}
+
+/**
+ * Parse a comma-separated list of topic IDs (e.g. "0,1,2")
+ */
+function parseTopicIds(value: string | undefined): number[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      const topicId = parseInt(part, 10);
+      if (Number.isNaN(topicId) || topicId < 0) {
+        throw new Error(`Invalid topic ID in TOPIC_IDS: ${part}`);
+      }
+      return topicId;
+    });
+}
+
+/**
+ * Read a required block number
+ */
+function requireBlockNumber(env: NodeJS.ProcessEnv, name: string): number {
+  const value = requireEnv(env, name);
+  const blockNumber = Number(value);
+
+  if (!Number.isSafeInteger(blockNumber) || blockNumber < 0) {
+    throw new Error(`Invalid block number in ${name}: ${value}`);
+  }
+
+  return blockNumber;
+}
+
+/**
+ * Parse a comma-separated list of RPC URLs
+ */
+function parseRpcUrls(value: string): string[] {
+  return value
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      if (!/^(https?|wss?):\/\//.test(part)) {
+        throw new Error(`Invalid RPC URL in RPC_URLS: ${part}`);
+      }
+      return part;
+    });
+}
+
+/**
+ * Parse a comma-separated list of peer URLs
+ */
+function parsePeerUrls(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      if (!/^https?:\/\//.test(part)) {
+        throw new Error(`Invalid peer URL in OPERATOR_PEERS: ${part}`);
+      }
+      return part;
+    });
+}
+
+/**
+ * Load service configuration from environment
+ *
+ * @param env Environment to read from (default: process.env)
+ * @returns Validated service configuration
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): EnclaveServiceConfig {
+  return {
+    rpcUrls: parseRpcUrls(env.RPC_URLS || env.CHIADO_RPC_URL || 'https://rpc.chiadochain.net'),
+    rpcQuorum: env.RPC_QUORUM ? parseInt(env.RPC_QUORUM, 10) : 1,
+    rpcTimeout: env.RPC_TIMEOUT_MS ? parseInt(env.RPC_TIMEOUT_MS, 10) : 10000,
+    delegationManagerAddress: requireEnv(env, 'DELEGATION_MANAGER_ADDRESS'),
+    votePowerVerifierAddress: requireEnv(env, 'VOTEPOWER_VERIFIER_ADDRESS'),
+    signer: loadSignerConfig(env),
+    buildVersion: env.BUILD_VERSION || 'dev',
+    simulatedPlatformKey:
+      env.SIMULATED_PLATFORM_KEY || env.SIMULATED_PLATFORM_KEY_FILE
+        ? requireSecret(env, 'SIMULATED_PLATFORM_KEY')
+        : undefined,
+    topicIds: parseTopicIds(env.TOPIC_IDS),
+    startBlock: requireBlockNumber(env, 'START_BLOCK'),
+    pollInterval: env.POLL_INTERVAL_MS ? parseInt(env.POLL_INTERVAL_MS, 10) : 5000,
+    checkpointPath: env.CHECKPOINT_PATH || './data/checkpoint.json',
+    pendingSubmissionsPath: env.PENDING_SUBMISSIONS_PATH || './data/pending-submissions.json',
+    txStuckTimeout: env.TX_STUCK_TIMEOUT_MS ? parseInt(env.TX_STUCK_TIMEOUT_MS, 10) : 60000,
+    feeBumpPercent: env.TX_FEE_BUMP_PERCENT ? parseInt(env.TX_FEE_BUMP_PERCENT, 10) : 20,
+    maxFeePerGas: env.TX_MAX_FEE_GWEI ? ethers.parseUnits(env.TX_MAX_FEE_GWEI, 'gwei') : undefined,
+    submissionLimits: {
+      maxCalldataBytes: env.MAX_ATTESTATION_CALLDATA_BYTES
+        ? parseInt(env.MAX_ATTESTATION_CALLDATA_BYTES, 10)
+        : DEFAULT_SUBMISSION_LIMITS.maxCalldataBytes,
+      maxGas: env.MAX_ATTESTATION_GAS
+        ? parseInt(env.MAX_ATTESTATION_GAS, 10)
+        : DEFAULT_SUBMISSION_LIMITS.maxGas,
+    },
+    confirmations: env.CONFIRMATIONS ? parseInt(env.CONFIRMATIONS, 10) : 12,
+    coordinationPort: env.COORDINATION_PORT ? parseInt(env.COORDINATION_PORT, 10) : 7400,
+    peerUrls: parsePeerUrls(env.OPERATOR_PEERS),
+    signatureTimeout: env.SIGNATURE_TIMEOUT_MS ? parseInt(env.SIGNATURE_TIMEOUT_MS, 10) : 60000,
+    submitterBackoff: env.SUBMITTER_BACKOFF_MS ? parseInt(env.SUBMITTER_BACKOFF_MS, 10) : 30000,
+    batchWindow: env.BATCH_WINDOW_MS ? parseInt(env.BATCH_WINDOW_MS, 10) : 60000,
+    batchMaxLatency: env.BATCH_MAX_LATENCY_MS ? parseInt(env.BATCH_MAX_LATENCY_MS, 10) : 240000,
+    apiPort: env.API_PORT ? parseInt(env.API_PORT, 10) : 8080,
+    apiHost: env.API_HOST || '127.0.0.1',
+    apiToken: env.OPERATOR_API_TOKEN || undefined,
+  };
+}
+
+/** Settings needed by the attestation verifier CLI (no operator key) */
+export type AuditorConfig = Pick<
+  EnclaveServiceConfig,
+  | 'rpcUrls'
+  | 'rpcQuorum'
+  | 'rpcTimeout'
+  | 'delegationManagerAddress'
+  | 'votePowerVerifierAddress'
+  | 'startBlock'
+>;
+
+/**
+ * Load attestation verifier configuration from environment
+ *
+ * @param env Environment to read from (default: process.env)
+ * @returns Validated verifier configuration
+ */
+export function loadAuditorConfig(env: NodeJS.ProcessEnv = process.env): AuditorConfig {
+  return {
+    rpcUrls: parseRpcUrls(env.RPC_URLS || env.CHIADO_RPC_URL || 'https://rpc.chiadochain.net'),
+    rpcQuorum: env.RPC_QUORUM ? parseInt(env.RPC_QUORUM, 10) : 1,
+    rpcTimeout: env.RPC_TIMEOUT_MS ? parseInt(env.RPC_TIMEOUT_MS, 10) : 10000,
+    delegationManagerAddress: requireEnv(env, 'DELEGATION_MANAGER_ADDRESS'),
+    votePowerVerifierAddress: requireEnv(env, 'VOTEPOWER_VERIFIER_ADDRESS'),
+    startBlock: env.START_BLOCK ? parseInt(env.START_BLOCK, 10) : 0,
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * HTTP Signature Transport
+ *
+ * Exchanges signature shares with peer operators over plain HTTP.
+ * Each operator serves POST /signatures and posts its own shares to every peer.
+ * A peer that cannot be reached (e.g. while it restarts) is retried with
+ * backoff in the background until the share's retry window ends, so a short
+ * outage does not cost it the round.
+ * Shares are self-authenticating (the aggregator recovers the signer), so the
+ * endpoint needs no additional authentication.
+ */
+
+import http from 'http';
+import type { ShareHandler, SignatureShare, SignatureTransport } from './SignatureTransport.js';
+
+/** Shares are a few hundred bytes; anything larger is rejected */
+const MAX_BODY_BYTES = 16 * 1024;
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 5000;
+
+/** Should match the aggregator's collection timeout */
+const DEFAULT_RETRY_WINDOW_MS = 60000;
+
+/** First delay before re-sending to a failed peer; doubles on each attempt */
+const RETRY_BASE_DELAY_MS = 1000;
+
+export interface HttpTransportConfig {
+  /** Port to listen on (0 picks a free port) */
+  port: number;
+  host?: string;
+  /** Peer base URLs, e.g. http://operator-2:7400 */
+  peers: string[];
+  requestTimeout?: number;
+  /** How long failed deliveries are retried (ms) */
+  retryWindow?: number;
+}
+
+/**
+ * Check that a parsed request body has the shape of a SignatureShare
+ */
+function isSignatureShare(value: any): value is SignatureShare {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    Number.isInteger(value.topicId) &&
+    Number.isInteger(value.blockNumber) &&
+    typeof value.resultHash === 'string' &&
+    typeof value.operator === 'string' &&
+    typeof value.signature === 'string'
+  );
+}
+
+/**
+ * SignatureTransport backed by HTTP peer endpoints
+ */
+export class HttpTransport implements SignatureTransport {
+  private port: number;
+  private host: string;
+  private peers: string[];
+  private requestTimeout: number;
+  private retryWindow: number;
+  private server: http.Server | null = null;
+  private retryTimers: Set<ReturnType<typeof setTimeout>> = new Set();
+  private stopped = false;
+
+  constructor(config: HttpTransportConfig) {
+    this.port = config.port;
+    this.host = config.host || '0.0.0.0';
+    this.peers = config.peers.map((peer) => peer.replace(/\/+$/, ''));
+    this.requestTimeout = config.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.retryWindow = config.retryWindow ?? DEFAULT_RETRY_WINDOW_MS;
+  }
+
+  async start(onShare: ShareHandler): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    this.stopped = false;
+    const server = http.createServer((req, res) => this.handleRequest(req, res, onShare));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+
+    console.log(`[HttpTransport] Listening on ${this.host}:${this.getPort()}`);
+    console.log(`  Peers: ${this.peers.length}`);
+  }
+
+  /**
+   * Post a share to every peer
+   * Resolves after the first attempt; failed peers keep being retried in the
+   * background so the caller can start waiting for the threshold right away
+   */
+  async broadcast(share: SignatureShare): Promise<void> {
+    const body = JSON.stringify(share);
+    const deadline = Date.now() + this.retryWindow;
+
+    await Promise.all(this.peers.map((peer) => this.deliver(peer, body, deadline, 0)));
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    for (const timer of this.retryTimers) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Get the port the server is bound to
+   */
+  getPort(): number {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : this.port;
+  }
+
+  /**
+   * Post a share to one peer, scheduling a retry on failure while the
+   * deadline allows
+   */
+  private async deliver(
+    peer: string,
+    body: string,
+    deadline: number,
+    attempt: number
+  ): Promise<void> {
+    try {
+      const response = await fetch(`${peer}/signatures`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        signal: AbortSignal.timeout(this.requestTimeout),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      if (attempt > 0) {
+        console.log(`[HttpTransport] Reached ${peer} after ${attempt} retries`);
+      }
+    } catch (error: any) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+      const retrying = !this.stopped && Date.now() + delay < deadline;
+
+      if (attempt === 0 || !retrying) {
+        console.warn(
+          `[HttpTransport] Failed to reach ${peer}${retrying ? ', retrying' : ''}:`,
+          error.message
+        );
+      }
+
+      if (retrying) {
+        const timer = setTimeout(() => {
+          this.retryTimers.delete(timer);
+          void this.deliver(peer, body, deadline, attempt + 1);
+        }, delay);
+        this.retryTimers.add(timer);
+      }
+    }
+  }
+
+  private handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    onShare: ShareHandler
+  ): void {
+    if (req.method !== 'POST' || req.url !== '/signatures') {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        res.writeHead(413).end();
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      let share: unknown;
+
+      try {
+        share = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      } catch {
+        res.writeHead(400).end();
+        return;
+      }
+
+      if (!isSignatureShare(share)) {
+        res.writeHead(400).end();
+        return;
+      }
+
+      onShare(share);
+      res.writeHead(202).end();
+    });
+  }
+}
+
+/**
+ * Factory function to create HttpTransport
+ */
+export function createHttpTransport(config: HttpTransportConfig): HttpTransport {
+  return new HttpTransport(config);
+}
@@ -0,0 +1,335 @@
+/**
+ * Signature Aggregator
+ *
+ * M-of-N signature collection between enclave operators. Each operator signs
+ * the result hash it computed, broadcasts the share and collects peer shares
+ * for the same hash until the VotePowerVerifier threshold is reached. One
+ * submitter is then elected deterministically so operators don't race.
+ */
+
+import { ethers } from 'ethers';
+import type { OperatorSet } from '../services/ResultSubmitter.js';
+import type { SignatureShare, SignatureTransport } from './SignatureTransport.js';
+
+/** Default time to wait for threshold before giving up on a round */
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+/** Default time the on-chain operator set is cached */
+const DEFAULT_OPERATOR_SET_TTL_MS = 5 * 60_000;
+
+/** Shares for results nobody collects are dropped after this long */
+const SHARE_RETENTION_MS = 15 * 60_000;
+
+export interface SignatureAggregatorConfig {
+  /** Local operator address */
+  operator: string;
+  transport: SignatureTransport;
+  /** Source of the active operator set (normally ResultSubmitter.getOperatorSet) */
+  getOperatorSet: () => Promise<OperatorSet>;
+  timeout?: number;
+  operatorSetTtl?: number;
+}
+
+/**
+ * Threshold signatures for one result
+ */
+export interface AggregatedSignatures {
+  topicId: number;
+  resultHash: string;
+  /** Exactly threshold (or the requested minimum) signatures, ordered by signer address */
+  signatures: string[];
+  signers: string[];
+  /** Active operators in submission order; index 0 is the elected submitter */
+  submitters: string[];
+  /** Position of the local operator in submitters (-1 if not an active operator) */
+  rank: number;
+}
+
+interface SharePool {
+  shares: Map<string, SignatureShare>;
+  updatedAt: number;
+}
+
+/**
+ * Rank operators for submitting a result
+ * Every operator derives the same order from on-chain data and the result alone
+ *
+ * @param topicId Topic ID
+ * @param resultHash Result hash
+ * @param operators Active operator addresses
+ * @returns Operators ordered by submission priority
+ */
+export function rankSubmitters(topicId: number, resultHash: string, operators: string[]): string[] {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const scored = operators.map((operator) => ({
+    operator: operator.toLowerCase(),
+    score: ethers.keccak256(
+      coder.encode(['uint256', 'bytes32', 'address'], [topicId, resultHash, operator])
+    ),
+  }));
+
+  scored.sort((a, b) => (a.score < b.score ? -1 : a.score > b.score ? 1 : 0));
+
+  return scored.map(({ operator }) => operator);
+}
+
+/**
+ * Recover the address that produced a share's signature
+ *
+ * @returns Lowercase signer address, or null if the signature is malformed
+ */
+function recoverShareSigner(share: SignatureShare): string | null {
+  try {
+    return ethers.verifyMessage(ethers.getBytes(share.resultHash), share.signature).toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * SignatureAggregator collecting operator signatures over a transport
+ */
+export class SignatureAggregator {
+  private operator: string;
+  private transport: SignatureTransport;
+  private getOperatorSet: () => Promise<OperatorSet>;
+  private timeout: number;
+  private operatorSetTtl: number;
+
+  private operatorSet: OperatorSet | null = null;
+  private operatorSetFetchedAt: number = 0;
+
+  /** Verified shares keyed by topicId:resultHash */
+  private pools: Map<string, SharePool> = new Map();
+  private waiters: Map<string, Set<() => void>> = new Map();
+
+  constructor(config: SignatureAggregatorConfig) {
+    this.operator = config.operator.toLowerCase();
+    this.transport = config.transport;
+    this.getOperatorSet = config.getOperatorSet;
+    this.timeout = config.timeout ?? DEFAULT_TIMEOUT_MS;
+    this.operatorSetTtl = config.operatorSetTtl ?? DEFAULT_OPERATOR_SET_TTL_MS;
+
+    this.handleShare = this.handleShare.bind(this);
+  }
+
+  /**
+   * Start receiving peer shares
+   */
+  async start(): Promise<void> {
+    await this.transport.start(this.handleShare);
+  }
+
+  /**
+   * Stop receiving peer shares and release pending rounds
+   */
+  async stop(): Promise<void> {
+    await this.transport.stop();
+
+    for (const waiters of this.waiters.values()) {
+      waiters.forEach((wake) => wake());
+    }
+    this.waiters.clear();
+  }
+
+  /**
+   * Publish the local share and wait for threshold signatures on the same result
+   *
+   * Shares are matched on (topicId, resultHash) rather than block number: the
+   * signature only covers the hash, so any peer that computed the same result
+   * contributes regardless of the block it attested at.
+   *
+   * @param share Local operator's share
+   * @param minSignatures Signatures to collect if more than the threshold are required
+   * @returns Aggregated signatures, or null if threshold was not reached in time
+   */
+  async collect(
+    share: SignatureShare,
+    minSignatures: number = 0
+  ): Promise<AggregatedSignatures | null> {
+    const operatorSet = await this.refreshOperatorSet();
+    const required = Math.max(operatorSet.threshold, minSignatures);
+    const key = this.poolKey(share.topicId, share.resultHash);
+
+    if (!this.addShare(share)) {
+      throw new Error(`Local share for topic ${share.topicId} is not signed by an active operator`);
+    }
+
+    await this.transport.broadcast(share);
+
+    const reached = await this.waitForThreshold(key, operatorSet, required);
+    if (!reached) {
+      const count = this.countValid(key, operatorSet);
+      console.warn(
+        `[SignatureAggregator] Timed out on topic ${share.topicId} with ` +
+          `${count}/${required} signatures for ${share.resultHash}`
+      );
+      return null;
+    }
+
+    return this.aggregate(share.topicId, share.resultHash, operatorSet, required);
+  }
+
+  /**
+   * Drop the cached operator set so the next round reads it from the contract
+   * Used when the contract rejected signatures the cached set considered valid
+   */
+  invalidateOperatorSet(): void {
+    this.operatorSet = null;
+  }
+
+  /**
+   * Handle a share received from a peer
+   */
+  private handleShare(share: SignatureShare): void {
+    this.pruneShares();
+
+    if (!this.addShare(share)) {
+      console.warn(`[SignatureAggregator] Ignoring invalid share from ${share.operator}`);
+      return;
+    }
+
+    const key = this.poolKey(share.topicId, share.resultHash);
+    this.waiters.get(key)?.forEach((wake) => wake());
+  }
+
+  /**
+   * Verify and store a share
+   *
+   * @returns Whether the share was accepted
+   */
+  private addShare(share: SignatureShare): boolean {
+    const signer = recoverShareSigner(share);
+
+    if (!signer || signer !== share.operator.toLowerCase()) {
+      return false;
+    }
+
+    // Before the operator set is known, membership is checked when counting
+    if (this.operatorSet && !this.operatorSet.operators.includes(signer)) {
+      return false;
+    }
+
+    const key = this.poolKey(share.topicId, share.resultHash);
+    let pool = this.pools.get(key);
+    if (!pool) {
+      pool = { shares: new Map(), updatedAt: 0 };
+      this.pools.set(key, pool);
+    }
+
+    pool.shares.set(signer, { ...share, operator: signer });
+    pool.updatedAt = Date.now();
+
+    return true;
+  }
+
+  private waitForThreshold(
+    key: string,
+    operatorSet: OperatorSet,
+    required: number
+  ): Promise<boolean> {
+    return new Promise((resolve) => {
+      let waiters = this.waiters.get(key);
+      if (!waiters) {
+        waiters = new Set();
+        this.waiters.set(key, waiters);
+      }
+
+      const finish = (reached: boolean) => {
+        clearTimeout(timer);
+        waiters!.delete(check);
+        if (waiters!.size === 0) {
+          this.waiters.delete(key);
+        }
+        resolve(reached);
+      };
+
+      const check = () => {
+        if (this.countValid(key, operatorSet) >= required) {
+          finish(true);
+        } else if (!this.waiters.has(key)) {
+          // Aggregator stopped
+          finish(false);
+        }
+      };
+
+      const timer = setTimeout(() => finish(false), this.timeout);
+      waiters.add(check);
+      check();
+    });
+  }
+
+  private validSigners(key: string, operatorSet: OperatorSet): string[] {
+    const pool = this.pools.get(key);
+    if (!pool) {
+      return [];
+    }
+
+    return Array.from(pool.shares.keys())
+      .filter((signer) => operatorSet.operators.includes(signer))
+      .sort();
+  }
+
+  private countValid(key: string, operatorSet: OperatorSet): number {
+    return this.validSigners(key, operatorSet).length;
+  }
+
+  private aggregate(
+    topicId: number,
+    resultHash: string,
+    operatorSet: OperatorSet,
+    required: number
+  ): AggregatedSignatures {
+    const key = this.poolKey(topicId, resultHash);
+    const pool = this.pools.get(key)!;
+
+    // The contract stops verifying at the threshold; extra signatures only cost gas
+    const signers = this.validSigners(key, operatorSet).slice(0, required);
+    const submitters = rankSubmitters(topicId, resultHash, operatorSet.operators);
+
+    return {
+      topicId,
+      resultHash,
+      signatures: signers.map((signer) => pool.shares.get(signer)!.signature),
+      signers,
+      submitters,
+      rank: submitters.indexOf(this.operator),
+    };
+  }
+
+  private async refreshOperatorSet(): Promise<OperatorSet> {
+    const now = Date.now();
+
+    if (!this.operatorSet || now - this.operatorSetFetchedAt > this.operatorSetTtl) {
+      const operatorSet = await this.getOperatorSet();
+      this.operatorSet = {
+        operators: operatorSet.operators.map((operator) => operator.toLowerCase()),
+        threshold: operatorSet.threshold,
+      };
+      this.operatorSetFetchedAt = now;
+    }
+
+    return this.operatorSet;
+  }
+
+  private pruneShares(): void {
+    const cutoff = Date.now() - SHARE_RETENTION_MS;
+
+    for (const [key, pool] of this.pools) {
+      if (pool.updatedAt < cutoff && !this.waiters.has(key)) {
+        this.pools.delete(key);
+      }
+    }
+  }
+
+  private poolKey(topicId: number, resultHash: string): string {
+    return `${topicId}:${resultHash.toLowerCase()}`;
+  }
+}
+
+/**
+ * Factory function to create SignatureAggregator
+ */
+export function createSignatureAggregator(config: SignatureAggregatorConfig): SignatureAggregator {
+  return new SignatureAggregator(config);
+}
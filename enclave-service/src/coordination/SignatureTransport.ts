@@ -0,0 +1,108 @@
+/**
+ * Signature Transport
+ *
+ * Pluggable channel operators use to exchange signature shares.
+ * InProcessTransport connects operators running in one process (tests, local dev)
+ */
+
+/**
+ * One operator's signature over a computed result
+ */
+export interface SignatureShare {
+  topicId: number;
+  blockNumber: number;
+  resultHash: string;
+  operator: string;
+  signature: string;
+}
+
+export type ShareHandler = (share: SignatureShare) => void;
+
+/**
+ * Transport for broadcasting and receiving signature shares
+ */
+export interface SignatureTransport {
+  /**
+   * Start receiving shares from peers
+   *
+   * @param onShare Called for every share received from a peer
+   */
+  start(onShare: ShareHandler): Promise<void>;
+
+  /**
+   * Send a share to all peers
+   * Unreachable peers must not fail the broadcast; transports should keep
+   * retrying them for as long as the round can still use the share
+   */
+  broadcast(share: SignatureShare): Promise<void>;
+
+  /**
+   * Stop receiving shares
+   */
+  stop(): Promise<void>;
+}
+
+/**
+ * Shared bus for InProcessTransport instances
+ */
+export class InProcessNetwork {
+  private members: Set<InProcessTransport> = new Set();
+
+  /**
+   * Create a transport attached to this network
+   */
+  createTransport(): InProcessTransport {
+    return new InProcessTransport(this);
+  }
+
+  /** @internal */
+  join(member: InProcessTransport): void {
+    this.members.add(member);
+  }
+
+  /** @internal */
+  leave(member: InProcessTransport): void {
+    this.members.delete(member);
+  }
+
+  /** @internal */
+  deliver(from: InProcessTransport, share: SignatureShare): void {
+    for (const member of this.members) {
+      if (member !== from) {
+        // Deliver asynchronously like a real network
+        queueMicrotask(() => member.receive(share));
+      }
+    }
+  }
+}
+
+/**
+ * Transport delivering shares to other members of an InProcessNetwork
+ */
+export class InProcessTransport implements SignatureTransport {
+  private network: InProcessNetwork;
+  private handler: ShareHandler | null = null;
+
+  constructor(network: InProcessNetwork) {
+    this.network = network;
+  }
+
+  async start(onShare: ShareHandler): Promise<void> {
+    this.handler = onShare;
+    this.network.join(this);
+  }
+
+  async broadcast(share: SignatureShare): Promise<void> {
+    this.network.deliver(this, share);
+  }
+
+  async stop(): Promise<void> {
+    this.network.leave(this);
+    this.handler = null;
+  }
+
+  /** @internal */
+  receive(share: SignatureShare): void {
+    this.handler?.(share);
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Enclave Service Entry Point
+ *
+ * Loads configuration from environment and runs the enclave operator daemon
+ */
+
+import 'dotenv/config';
+import { loadConfig } from './config.js';
+import { createEnclaveOperator } from './operators/EnclaveOperator.js';
+import { createOperatorApi } from './services/OperatorApi.js';
+import { loadOperatorKey } from './signers/OperatorKey.js';
+
+async function main(): Promise<void> {
+  const config = loadConfig();
+  const operatorKey = await loadOperatorKey(config.signer);
+  const operator = createEnclaveOperator(config, operatorKey);
+  const api = createOperatorApi({
+    port: config.apiPort,
+    host: config.apiHost,
+    authToken: config.apiToken,
+    operator,
+    metrics: operator.getMetrics(),
+  });
+
+  let shuttingDown = false;
+
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+
+    console.log(`\n[EnclaveService] Received ${signal}, shutting down...`);
+
+    try {
+      await operator.stop();
+      await api.stop();
+      process.exit(0);
+    } catch (error: any) {
+      console.error('[EnclaveService] Error during shutdown:', error.message);
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
+  // Serve health checks while the operator backfills
+  await api.start();
+  await operator.start();
+}
+
+main().catch((error) => {
+  console.error('[EnclaveService] Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,312 @@
+/**
+ * Graph Algorithms
+ *
+ * Delegation graph traversal, cycle detection and voting power aggregation.
+ * Mirrors the semantics of contracts/src/libraries/DelegationGraph.sol:
+ * - chains are followed at most MAX_DELEGATION_DEPTH + 1 hops
+ * - a chain ends at an address with no outgoing delegation or an active dead-end
+ *
+ * Dead-ends: DelegationManager only rejects new delegations to a declared
+ * dead-end, so existing chains into it are left in place. A dead-end keeps
+ * the votes of those chains and votes with them; its own delegation is
+ * suspended, not removed, and is followed again once the declaration is
+ * revoked. The indexer, the frontend graph and the hardhat power script use
+ * the per-address traversal in @liquid-democracy-engine/result-encoding; its
+ * test-vectors/delegation.json is also checked against this module.
+ */
+
+import { MAX_DELEGATION_DEPTH, MAX_TRAVERSAL_HOPS } from '@liquid-democracy-engine/result-encoding';
+
+export { MAX_DELEGATION_DEPTH };
+
+export interface DelegationEdge {
+  from: string;
+  to: string;
+}
+
+export interface DelegationGraph {
+  /** delegator => delegate */
+  delegations: Map<string, string>;
+  /** Addresses with an active dead-end declaration */
+  deadEnds: Set<string>;
+}
+
+export interface VotingPowerResult {
+  address: string;
+  power: number;
+}
+
+export interface GraphValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/**
+ * Build a delegation graph from edges
+ *
+ * @param edges Active delegations (one outgoing edge per delegator)
+ * @param deadEnds Addresses with an active dead-end declaration
+ * @returns Delegation graph
+ */
+export function buildDelegationGraph(
+  edges: DelegationEdge[],
+  deadEnds: Iterable<string> = []
+): DelegationGraph {
+  const delegations = new Map<string, string>();
+
+  for (const edge of edges) {
+    delegations.set(edge.from, edge.to);
+  }
+
+  return { delegations, deadEnds: new Set(deadEnds) };
+}
+
+/**
+ * Get the next hop for an address, or undefined if the address is terminal
+ * Dead-ends are terminal even if they still hold an outgoing delegation
+ */
+function nextHop(graph: DelegationGraph, address: string): string | undefined {
+  if (graph.deadEnds.has(address)) {
+    return undefined;
+  }
+  return graph.delegations.get(address);
+}
+
+function cycleError(path: string[], repeated: string): Error {
+  const start = path.indexOf(repeated);
+  const cycle = [...path.slice(start), repeated];
+  return new Error(`Cycle detected: ${cycle.join(' -> ')}`);
+}
+
+/**
+ * Get full delegation chain from an address to its terminal delegate
+ *
+ * @param graph Delegation graph
+ * @param address Starting address
+ * @returns Chain of addresses (including the starting address)
+ * @throws Error if the chain contains a cycle
+ */
+export function getDelegationChain(graph: DelegationGraph, address: string): string[] {
+  const chain = [address];
+  const seen = new Set(chain);
+  let current = address;
+
+  for (let hops = 0; hops < MAX_TRAVERSAL_HOPS; hops++) {
+    const next = nextHop(graph, current);
+    if (next === undefined) {
+      break;
+    }
+
+    if (seen.has(next)) {
+      throw cycleError(chain, next);
+    }
+
+    chain.push(next);
+    seen.add(next);
+    current = next;
+  }
+
+  return chain;
+}
+
+/**
+ * Find the terminal delegate for an address
+ *
+ * @param graph Delegation graph
+ * @param address Starting address
+ * @returns Terminal delegate (the address itself if not delegated)
+ * @throws Error if the chain contains a cycle
+ */
+export function findTerminalDelegate(graph: DelegationGraph, address: string): string {
+  const chain = getDelegationChain(graph, address);
+  return chain[chain.length - 1];
+}
+
+/**
+ * Detect all cycles in the graph
+ * Each address has at most one outgoing edge, so every cycle is found in one linear pass
+ *
+ * @param graph Delegation graph
+ * @returns List of cycles, each as the addresses on the cycle
+ */
+export function detectCycles(graph: DelegationGraph): string[][] {
+  const cycles: string[][] = [];
+  // 1 = on current path, 2 = fully explored
+  const state = new Map<string, 1 | 2>();
+
+  for (const start of graph.delegations.keys()) {
+    if (state.has(start)) {
+      continue;
+    }
+
+    const path: string[] = [];
+    let current: string | undefined = start;
+
+    while (current !== undefined && !state.has(current)) {
+      state.set(current, 1);
+      path.push(current);
+      current = nextHop(graph, current);
+    }
+
+    if (current !== undefined && state.get(current) === 1) {
+      cycles.push(path.slice(path.indexOf(current)));
+    }
+
+    for (const node of path) {
+      state.set(node, 2);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Resolve the terminal delegate of every address in the graph in linear time
+ *
+ * Walks the reversed delegation forest from each terminal. An address at depth d
+ * resolves to the ancestor MAX_TRAVERSAL_HOPS above it when d exceeds the hop limit,
+ * matching the bounded traversal in DelegationGraph.getTerminalDelegate.
+ *
+ * @param graph Delegation graph (must be acyclic)
+ * @returns Map of address => terminal delegate
+ */
+export function resolveTerminals(graph: DelegationGraph): Map<string, string> {
+  const incoming = new Map<string, string[]>();
+  const nodes = new Set<string>();
+
+  for (const [from, to] of graph.delegations) {
+    nodes.add(from);
+    nodes.add(to);
+
+    if (nextHop(graph, from) === undefined) {
+      continue;
+    }
+
+    const list = incoming.get(to);
+    if (list) {
+      list.push(from);
+    } else {
+      incoming.set(to, [from]);
+    }
+  }
+
+  const terminals = new Map<string, string>();
+
+  for (const root of nodes) {
+    if (nextHop(graph, root) !== undefined) {
+      continue;
+    }
+
+    // Iterative DFS keeping the current root-to-node path
+    const path: string[] = [];
+    const stack: Array<{ node: string; depth: number }> = [{ node: root, depth: 0 }];
+
+    while (stack.length > 0) {
+      const { node, depth } = stack.pop()!;
+      path.length = depth;
+      path.push(node);
+
+      terminals.set(node, depth <= MAX_TRAVERSAL_HOPS ? root : path[depth - MAX_TRAVERSAL_HOPS]);
+
+      for (const child of incoming.get(node) || []) {
+        stack.push({ node: child, depth: depth + 1 });
+      }
+    }
+  }
+
+  return terminals;
+}
+
+/**
+ * Calculate voting power for all terminal delegates
+ *
+ * Each voter contributes one vote to its terminal delegate. Runs in
+ * O(V + E) for the whole topic rather than one chain walk per voter.
+ *
+ * @param graph Delegation graph
+ * @param voters All addresses holding a vote on the topic
+ * @returns Terminal delegates with power, sorted by power descending then address
+ * @throws Error if the graph contains a cycle
+ */
+export function calculateVotingPower(
+  graph: DelegationGraph,
+  voters: Set<string>
+): VotingPowerResult[] {
+  const cycles = detectCycles(graph);
+  if (cycles.length > 0) {
+    throw cycleError(cycles[0], cycles[0][0]);
+  }
+
+  const terminals = resolveTerminals(graph);
+  const powerMap = new Map<string, number>();
+
+  for (const voter of voters) {
+    const terminal = terminals.get(voter) ?? voter;
+    powerMap.set(terminal, (powerMap.get(terminal) || 0) + 1);
+  }
+
+  const results: VotingPowerResult[] = Array.from(powerMap, ([address, power]) => ({
+    address,
+    power,
+  }));
+
+  results.sort((a, b) => b.power - a.power || (a.address < b.address ? -1 : 1));
+
+  return results;
+}
+
+/**
+ * Calculate depth of every delegator (number of hops to its terminal)
+ *
+ * @param graph Delegation graph (must be acyclic)
+ * @returns Map of delegator => depth
+ */
+function calculateDepths(graph: DelegationGraph): Map<string, number> {
+  const depths = new Map<string, number>();
+
+  for (const start of graph.delegations.keys()) {
+    const path: string[] = [];
+    let current: string | undefined = start;
+
+    while (current !== undefined && !depths.has(current)) {
+      path.push(current);
+      current = nextHop(graph, current);
+    }
+
+    let depth = current === undefined ? -1 : depths.get(current)!;
+    for (let i = path.length - 1; i >= 0; i--) {
+      depth++;
+      depths.set(path[i], depth);
+    }
+  }
+
+  return depths;
+}
+
+/**
+ * Validate graph invariants enforced by DelegationManager
+ *
+ * @param graph Delegation graph
+ * @returns Validation result with human-readable errors
+ */
+export function validateGraph(graph: DelegationGraph): GraphValidationResult {
+  const errors: string[] = [];
+
+  const cycles = detectCycles(graph);
+  for (const cycle of cycles) {
+    errors.push(`Cycle detected: ${[...cycle, cycle[0]].join(' -> ')}`);
+  }
+
+  // Depth is only meaningful once cycles are ruled out
+  if (cycles.length === 0) {
+    for (const [address, depth] of calculateDepths(graph)) {
+      if (depth > MAX_DELEGATION_DEPTH) {
+        errors.push(
+          `Delegation depth ${depth} for ${address} exceeds maximum depth of ${MAX_DELEGATION_DEPTH}`
+        );
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
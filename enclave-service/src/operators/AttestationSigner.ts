@@ -0,0 +1,48 @@
+/**
+ * AttestationSigner
+ *
+ * Hashes computed voting power results and signs them with the operator key
+ * in the format verified by AttestationLib.recoverSigner
+ */
+
+import { ethers } from 'ethers';
+import type { OperatorKey } from '../signers/OperatorKey.js';
+
+/** Shared with the hardhat scripts and frontend so every producer hashes identically */
+export { calculateResultHash } from '@liquid-democracy-engine/result-encoding';
+
+/**
+ * AttestationSigner for producing operator signatures over result hashes
+ */
+export class AttestationSigner {
+  private key: OperatorKey;
+
+  constructor(key: OperatorKey) {
+    this.key = key;
+  }
+
+  /**
+   * Sign a result hash
+   * Uses the EIP-191 eth_sign prefix expected by the contract
+   *
+   * @param resultHash Hash of computation result
+   * @returns Signature bytes (hex)
+   */
+  async sign(resultHash: string): Promise<string> {
+    return this.key.signer.signMessage(ethers.getBytes(resultHash));
+  }
+
+  /**
+   * Get signing address
+   */
+  getAddress(): string {
+    return this.key.address;
+  }
+
+  /**
+   * Get the public key registered with VotePowerVerifier.addOperator
+   */
+  getPublicKey(): string {
+    return this.key.publicKey;
+  }
+}
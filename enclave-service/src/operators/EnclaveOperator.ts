@@ -0,0 +1,1024 @@
+/**
+ * EnclaveOperator
+ *
+ * Main enclave computation service. Wires ChainListener to ResultSubmitter:
+ * rebuilds the topic delegation graph on every delegation event, computes
+ * voting power, signs the result, aggregates M-of-N operator signatures and
+ * submits the attestation when elected (FR-006). Changes are batched per
+ * topic so reward flows are updated at most once per batch (FR-012).
+ * Results too large for one transaction are attested as a Merkle root, and
+ * per-delegate proofs are served for claiming
+ */
+
+import {
+  ChainListener,
+  compareEvents,
+  type DelegationEvent,
+  type ReorgNotice,
+} from '../services/ChainListener.js';
+import {
+  ResultSubmitter,
+  MIN_OPERATOR_BALANCE,
+  type SubmissionResult,
+} from '../services/ResultSubmitter.js';
+import {
+  CheckpointStore,
+  CHECKPOINT_VERSION,
+  compareCursors,
+  type EventCursor,
+} from '../services/CheckpointStore.js';
+import { RewardBatcher } from '../services/RewardBatcher.js';
+import { OperatorMetrics } from '../services/OperatorMetrics.js';
+import type {
+  AttestationRound,
+  OperatorBalance,
+  OperatorControl,
+  OperatorQueue,
+  OperatorStatus,
+  PowerProofRecord,
+  SubmissionRecord,
+} from '../services/OperatorApi.js';
+import { GraphComputer } from './GraphComputer.js';
+import { AttestationSigner, calculateResultHash } from './AttestationSigner.js';
+import { SignatureAggregator } from '../coordination/SignatureAggregator.js';
+import { HttpTransport } from '../coordination/HttpTransport.js';
+import { RpcProvider } from '@liquid-democracy-engine/rpc-provider';
+import {
+  buildPowerTree,
+  getPowerProof,
+  type PowerTree,
+} from '@liquid-democracy-engine/result-encoding';
+import { ethers } from 'ethers';
+import type { EnclaveServiceConfig } from '../config.js';
+import type { OperatorKey } from '../signers/OperatorKey.js';
+import { SimulatedQuoteProvider, type QuoteProvider } from '../tee/QuoteProvider.js';
+import type { AttestationReport } from '@liquid-democracy-engine/attestation-report';
+
+/** Persist at most every N events while backfilling history */
+const BACKFILL_CHECKPOINT_INTERVAL = 500;
+
+/** Blocks of applied history kept in the undo journal for reorg rollback */
+const REORG_JOURNAL_BLOCKS = 256;
+
+/** Reactions to simulation reverts (new nonce, more signatures) per round */
+const MAX_REVERT_RETRIES = 3;
+
+/** Upper bound for the delay before retrying a round that did not reach the threshold */
+const MAX_ROUND_RETRY_DELAY = 10 * 60 * 1000;
+
+/** Consecutive retries of a round before waiting for the topic to change */
+const MAX_ROUND_RETRIES = 6;
+
+/**
+ * EnclaveOperator orchestrating event ingestion, computation and submission
+ */
+export class EnclaveOperator implements OperatorControl {
+  private config: EnclaveServiceConfig;
+  private provider: RpcProvider;
+  private listener!: ChainListener;
+  private submitter: ResultSubmitter;
+  private computer: GraphComputer;
+  private signer: AttestationSigner;
+  private operatorKey: OperatorKey;
+  private quotes: QuoteProvider;
+  private checkpoints: CheckpointStore;
+  private aggregator: SignatureAggregator;
+  private batcher: RewardBatcher;
+  private metrics: OperatorMetrics;
+  private topicFilter: Set<number> | null;
+  private isRunning: boolean = false;
+  private isSynced: boolean = false;
+  private isPaused: boolean = false;
+
+  /** Topics changed during backfill, attested once the listener is synced */
+  private dirtyTopics: Set<number> = new Set();
+
+  /** topicId => last result hash seen accepted on-chain */
+  private attestedHashes: Map<number, string> = new Map();
+
+  /** topicId => power tree of the last attested root commitment */
+  private powerTrees: Map<number, PowerTree> = new Map();
+
+  /** Status reporting: last applied event block and last attestation outcome per topic */
+  private topicBlocks: Map<number, number> = new Map();
+  private submissions: Map<number, SubmissionRecord> = new Map();
+
+  /** topicId => consecutive rounds that did not reach the signature threshold */
+  private timedOutRounds: Map<number, number> = new Map();
+
+  /** topicId => pending retry of its last timed out round */
+  private roundRetries: Map<number, NodeJS.Timeout> = new Map();
+  private eventsSinceCheckpoint: number = 0;
+
+  /** Cursor of the last event applied to topic state (may lag the listener) */
+  private appliedCursor: EventCursor | null = null;
+
+  /** Serializes event processing so topic state and submissions never interleave */
+  private queue: Promise<void> = Promise.resolve();
+
+  /** Attestation rounds waiting on peer signatures, outside the event queue */
+  private inFlight: Map<Promise<void>, AttestationRound> = new Map();
+  private sleepers: Set<() => void> = new Set();
+
+  /**
+   * @param config Service configuration
+   * @param operatorKey Key signing attestations and transactions (see loadOperatorKey)
+   */
+  constructor(config: EnclaveServiceConfig, operatorKey: OperatorKey) {
+    this.config = config;
+    this.operatorKey = operatorKey;
+
+    // One provider for listener and submitter, so both share endpoint health
+    this.provider = new RpcProvider(config.rpcUrls, {
+      quorum: config.rpcQuorum,
+      requestTimeout: config.rpcTimeout,
+      pollingInterval: config.pollInterval,
+    });
+
+    this.submitter = new ResultSubmitter({
+      provider: this.provider,
+      votePowerVerifierAddress: config.votePowerVerifierAddress,
+      operator: operatorKey,
+      pendingSubmissionsPath: config.pendingSubmissionsPath,
+      stuckTimeout: config.txStuckTimeout,
+      feeBumpPercent: config.feeBumpPercent,
+      maxFeePerGas: config.maxFeePerGas,
+      submissionLimits: config.submissionLimits,
+    });
+
+    this.computer = new GraphComputer();
+    this.signer = new AttestationSigner(operatorKey);
+    this.quotes = new SimulatedQuoteProvider({
+      operatorKey,
+      buildVersion: config.buildVersion,
+      platformKey: config.simulatedPlatformKey,
+    });
+    this.checkpoints = new CheckpointStore(config.checkpointPath);
+    this.topicFilter = config.topicIds.length > 0 ? new Set(config.topicIds) : null;
+
+    this.aggregator = new SignatureAggregator({
+      operator: this.signer.getAddress(),
+      transport: new HttpTransport({
+        port: config.coordinationPort,
+        peers: config.peerUrls,
+        retryWindow: config.signatureTimeout,
+      }),
+      getOperatorSet: () => this.submitter.getOperatorSet(),
+      timeout: config.signatureTimeout,
+    });
+
+    this.metrics = new OperatorMetrics({
+      getBalance: () => this.submitter.getBalance(),
+      getBackfillLag: async () => (this.listener ? this.listener.getBackfillLag() : 0),
+    });
+
+    this.batcher = new RewardBatcher({
+      window: config.batchWindow,
+      maxLatency: config.batchMaxLatency,
+      onFlush: (topicId) => this.handleFlush(topicId),
+    });
+
+    this.handleEvent = this.handleEvent.bind(this);
+    this.handleSynced = this.handleSynced.bind(this);
+    this.handleReorg = this.handleReorg.bind(this);
+    this.handleListenerError = this.handleListenerError.bind(this);
+  }
+
+  /**
+   * Start the operator: restore the checkpoint, backfill the gap, then follow live events
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      console.warn('[EnclaveOperator] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+
+    console.log('[EnclaveOperator] Starting');
+    console.log(`  Operator: ${this.signer.getAddress()} (${this.operatorKey.backend} key)`);
+
+    const report = await this.quotes.getReport();
+    console.log(`  Build: ${report.buildVersion} (measurement ${report.measurement})`);
+    console.log(`  TEE: ${report.teeType}, platform key ${report.platformKey}`);
+
+    await this.submitter.checkBalance();
+    await this.checkRegistration();
+    await this.submitter.resumePendingSubmissions();
+    await this.aggregator.start();
+
+    const checkpoint = await this.checkpoints.load();
+
+    if (checkpoint) {
+      this.computer.restoreState(checkpoint.topics, checkpoint.cursor, checkpoint.journal);
+      this.appliedCursor = checkpoint.cursor;
+      checkpoint.pendingTopics?.forEach((topicId) => this.dirtyTopics.add(topicId));
+      Object.entries(checkpoint.attestedHashes || {}).forEach(([topicId, hash]) =>
+        this.attestedHashes.set(Number(topicId), hash)
+      );
+      console.log(
+        `[EnclaveOperator] Restored checkpoint at block ${checkpoint.cursor.blockNumber} ` +
+          `(${Object.keys(checkpoint.topics).length} topics)`
+      );
+    } else {
+      console.log(
+        `[EnclaveOperator] No checkpoint found at ${this.checkpoints.getPath()}, ` +
+          `replaying history from block ${this.config.startBlock}`
+      );
+    }
+
+    this.listener = new ChainListener({
+      provider: this.provider,
+      delegationManagerAddress: this.config.delegationManagerAddress,
+      startBlock: this.config.startBlock,
+      pollInterval: this.config.pollInterval,
+      resumeFrom: checkpoint?.cursor,
+      confirmations: this.config.confirmations,
+    });
+
+    this.listener.on('delegation-event', this.handleEvent);
+    this.listener.on('synced', this.handleSynced);
+    this.listener.on('reorg', this.handleReorg);
+    this.listener.on('error', this.handleListenerError);
+    await this.listener.start();
+
+    console.log('[EnclaveOperator] Running');
+  }
+
+  /**
+   * Stop the operator gracefully
+   * Stops event ingestion, waits for in-flight computations and writes a final checkpoint
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+
+    console.log('[EnclaveOperator] Stopping...');
+
+    this.listener.off('delegation-event', this.handleEvent);
+    this.listener.off('synced', this.handleSynced);
+    this.listener.off('reorg', this.handleReorg);
+    this.listener.off('error', this.handleListenerError);
+    this.listener.stop();
+
+    // Unflushed batches are persisted as pending and attested after restart
+    this.batcher.clear().forEach((topicId) => this.dirtyTopics.add(topicId));
+    this.cancelRoundRetries();
+    await this.queue;
+
+    // Release rounds waiting on peers or on their submission slot
+    await this.aggregator.stop();
+    this.sleepers.forEach((wake) => wake());
+    // Unsettled transactions stay persisted and are watched again after restart
+    await this.submitter.stop();
+    await Promise.allSettled(this.inFlight.keys());
+
+    await this.saveCheckpoint();
+
+    console.log('[EnclaveOperator] Stopped');
+  }
+
+  /**
+   * Check that the enclave public key registered on-chain belongs to the signing key
+   * The verifier only checks signer addresses, so a mismatch is reported, not fatal
+   */
+  private async checkRegistration(): Promise<void> {
+    try {
+      const registered = await this.submitter.getRegisteredPublicKey();
+
+      if (registered === null) {
+        console.warn('[EnclaveOperator] Operator is not registered with VotePowerVerifier');
+        console.warn(`  Register public key ${this.signer.getPublicKey()}`);
+      } else if (registered.toLowerCase() !== this.signer.getPublicKey().toLowerCase()) {
+        console.error(
+          '[EnclaveOperator] Registered enclave public key does not match the signing key'
+        );
+        console.error(`  Registered: ${registered}`);
+        console.error(`  Signing key: ${this.signer.getPublicKey()}`);
+      }
+    } catch (error: any) {
+      console.warn('[EnclaveOperator] Could not check operator registration:', error.message);
+    }
+  }
+
+  /**
+   * Recompute voting power for a topic, aggregate operator signatures and
+   * submit the attestation if this operator is the elected submitter
+   *
+   * Topic state is snapshotted synchronously, so the caller may keep applying
+   * events while this waits on peers.
+   *
+   * @param topicId Topic ID
+   * @param blockNumber Block the reconstructed state corresponds to
+   * @returns Submission result
+   */
+  async computeAndSubmit(topicId: number, blockNumber: number): Promise<SubmissionResult> {
+    const topic = String(topicId);
+    const endTimer = this.metrics.computationDuration.startTimer({ topic });
+    const result = this.computer.computeTopic(topicId);
+    const plan = this.submitter.planSubmission(result.addresses, result.powers);
+    const powerTree = plan.mode === 'root' ? this.buildTree(result) : null;
+    const resultHash = powerTree
+      ? powerTree.commitment
+      : calculateResultHash(result.addresses, result.powers);
+    endTimer();
+
+    const size = this.computer.getGraphSize(topicId);
+    this.metrics.graphNodes.set({ topic }, size.nodes);
+    this.metrics.graphEdges.set({ topic }, size.edges);
+
+    console.log(`[EnclaveOperator] Computed topic ${topicId} at block ${blockNumber}`);
+    console.log(`  Terminal delegates: ${result.addresses.length}`);
+    console.log(`  Result Hash: ${resultHash}`);
+    if (powerTree) {
+      console.log(
+        `  Full attestation too large (${plan.calldataBytes} bytes, ~${plan.estimatedGas} gas), ` +
+          `committing power root ${powerTree.root}`
+      );
+    }
+
+    if (this.attestedHashes.get(topicId) === resultHash) {
+      console.log(`[EnclaveOperator] Topic ${topicId} unchanged since last attestation, skipping`);
+      return { success: true, skipped: true };
+    }
+
+    const share = {
+      topicId,
+      blockNumber,
+      resultHash,
+      operator: this.signer.getAddress(),
+      signature: await this.signer.sign(resultHash),
+    };
+    let aggregated = await this.aggregator.collect(share);
+
+    if (!aggregated) {
+      this.retryRound(topicId);
+      return this.recordSubmission(topicId, resultHash, blockNumber, {
+        success: false,
+        error: 'Signature threshold not reached',
+      });
+    }
+    this.timedOutRounds.delete(topicId);
+
+    if (aggregated.rank < 0) {
+      return this.recordSubmission(topicId, resultHash, blockNumber, {
+        success: false,
+        error: 'Operator is not active',
+      });
+    }
+
+    if (aggregated.rank > 0) {
+      // Backup submitter: give higher-ranked operators their slot first
+      await this.sleep(aggregated.rank * this.config.submitterBackoff);
+
+      if (!this.isRunning) {
+        return { success: false, error: 'Operator stopped' };
+      }
+
+      const landed = await this.submitter.findSubmittedAttestation(
+        topicId,
+        resultHash,
+        blockNumber
+      );
+      if (landed) {
+        console.log(`[EnclaveOperator] Topic ${topicId} already attested in ${landed}`);
+        this.markAttested(topicId, resultHash, powerTree);
+        return this.recordSubmission(topicId, resultHash, blockNumber, {
+          success: true,
+          transactionHash: landed,
+        });
+      }
+
+      console.warn(
+        `[EnclaveOperator] Submitter ${aggregated.submitters[0]} did not attest topic ` +
+          `${topicId}, submitting as backup #${aggregated.rank}`
+      );
+    }
+
+    if (this.isPaused) {
+      // Attested again after resume
+      this.dirtyTopics.add(topicId);
+      return { success: false, error: 'Submissions paused' };
+    }
+
+    let nonceAttempt = 0;
+    let submission: SubmissionResult;
+
+    for (let retry = 0; ; retry++) {
+      submission = await this.submitter.submitAttestation({
+        resultHash,
+        topicId,
+        blockNumber,
+        signatures: aggregated.signatures,
+        nonce: this.submitter.generateNonce(topicId, blockNumber, nonceAttempt),
+        addresses: result.addresses,
+        powers: result.powers,
+        powerRoot: powerTree
+          ? {
+              root: powerTree.root,
+              delegateCount: powerTree.delegateCount,
+              totalPower: powerTree.totalPower,
+            }
+          : undefined,
+      });
+
+      const revert = submission.revert;
+      if (!revert || retry >= MAX_REVERT_RETRIES || !this.isRunning) {
+        break;
+      }
+
+      if (revert.name === 'NonceAlreadyUsed') {
+        const landed = await this.submitter.findSubmittedAttestation(
+          topicId,
+          resultHash,
+          blockNumber
+        );
+        if (landed) {
+          console.log(`[EnclaveOperator] Topic ${topicId} already attested in ${landed}`);
+          this.markAttested(topicId, resultHash, powerTree);
+          return this.recordSubmission(topicId, resultHash, blockNumber, {
+            success: true,
+            transactionHash: landed,
+          });
+        }
+
+        nonceAttempt++;
+        console.warn(`[EnclaveOperator] Nonce used, regenerating (attempt ${nonceAttempt})`);
+        continue;
+      }
+
+      if (revert.name === 'BlockNumberTooOld') {
+        // Signatures only cover the hash, so a fresher round reuses the pooled shares
+        if (this.getLatestBlock() > blockNumber) {
+          console.warn(
+            `[EnclaveOperator] Block ${blockNumber} too old, recomputing topic ${topicId}`
+          );
+          this.handleFlush(topicId);
+        }
+        break;
+      }
+
+      if (
+        revert.name === 'InsufficientSignatures' ||
+        revert.name === 'InvalidOperatorSignature' ||
+        revert.name === 'DuplicateOperatorSignature' ||
+        revert.name === 'SignatureVerificationFailed'
+      ) {
+        // The cached operator set disagrees with the contract
+        console.warn(`[EnclaveOperator] Signatures rejected, collecting more for topic ${topicId}`);
+        this.aggregator.invalidateOperatorSet();
+
+        const required = revert.name === 'InsufficientSignatures' ? revert.required : 0;
+        const more = await this.aggregator.collect(share, required);
+        if (!more) {
+          break;
+        }
+        aggregated = more;
+        continue;
+      }
+
+      // ResultHashMismatch, ArrayLengthMismatch or unknown: retrying cannot help
+      break;
+    }
+
+    if (submission.success) {
+      this.markAttested(topicId, resultHash, powerTree);
+    }
+
+    // Superseded submissions report the other operator's transaction
+    if (submission.transactionHash && !submission.skipped) {
+      this.metrics.recordSubmission(
+        topicId,
+        submission.success,
+        submission.gasUsed,
+        submission.rejectionReason
+      );
+    }
+
+    return this.recordSubmission(topicId, resultHash, blockNumber, submission);
+  }
+
+  /**
+   * Get the operator's Prometheus metrics
+   */
+  getMetrics(): OperatorMetrics {
+    return this.metrics;
+  }
+
+  /**
+   * Get operator status for the status API
+   */
+  getStatus(): OperatorStatus {
+    const topicIds = new Set([
+      ...this.computer.getTopicIds(),
+      ...this.topicBlocks.keys(),
+      ...this.submissions.keys(),
+    ]);
+
+    return {
+      operator: this.signer.getAddress(),
+      running: this.isRunning,
+      synced: this.isSynced,
+      paused: this.isPaused,
+      publicKey: this.signer.getPublicKey(),
+      signerBackend: this.operatorKey.backend,
+      appliedBlock: this.appliedCursor?.blockNumber ?? null,
+      lastProcessedBlock: this.listener?.getLastProcessedBlock() ?? 0,
+      rpcEndpoints: this.provider.getEndpointStatus(),
+      topics: Array.from(topicIds)
+        .sort((a, b) => a - b)
+        .map((topicId) => ({
+          topicId,
+          lastEventBlock: this.topicBlocks.get(topicId) ?? null,
+          lastSubmission: this.submissions.get(topicId) ?? null,
+        })),
+    };
+  }
+
+  /**
+   * Get pending work for the status API
+   */
+  getQueue(): OperatorQueue {
+    return {
+      batches: this.batcher.getPending(),
+      rounds: Array.from(this.inFlight.values()),
+      deferredTopics: Array.from(this.dirtyTopics).sort((a, b) => a - b),
+      unconfirmedEvents: this.listener?.getPendingEvents().length ?? 0,
+    };
+  }
+
+  /**
+   * Get operator gas balance
+   */
+  async getBalance(): Promise<OperatorBalance> {
+    const balance = await this.submitter.getBalance();
+
+    return {
+      address: this.submitter.getOperatorAddress(),
+      balance: ethers.formatEther(balance),
+      sufficient: balance >= MIN_OPERATOR_BALANCE,
+    };
+  }
+
+  /**
+   * Get an attestation report binding this build to the operator key
+   *
+   * @param nonce Verifier challenge (bytes32)
+   */
+  getAttestationReport(nonce?: string): Promise<AttestationReport> {
+    return this.quotes.getReport(nonce);
+  }
+
+  /**
+   * Get a delegate's proof against the topic's attested power root
+   * Trees are not checkpointed; after a restart the tree is rebuilt if the
+   * topic has not changed since its attestation
+   *
+   * @param topicId Topic ID
+   * @param address Delegate address
+   * @returns Proof, or null if the topic has no attested root or the address is not a leaf
+   */
+  getPowerProof(topicId: number, address: string): PowerProofRecord | null {
+    const attestedHash = this.attestedHashes.get(topicId);
+    if (!attestedHash) {
+      return null;
+    }
+
+    let tree = this.powerTrees.get(topicId);
+
+    if (!tree) {
+      const result = this.computer.computeTopic(topicId);
+      const rebuilt = result.addresses.length > 0 ? this.buildTree(result) : null;
+
+      if (rebuilt?.commitment === attestedHash) {
+        tree = rebuilt;
+        this.powerTrees.set(topicId, rebuilt);
+      }
+    }
+
+    if (!tree || tree.commitment !== attestedHash) {
+      return null;
+    }
+
+    const proof = getPowerProof(tree, address);
+    if (!proof) {
+      return null;
+    }
+
+    return {
+      topicId,
+      root: tree.root,
+      commitment: tree.commitment,
+      address: proof.address,
+      power: proof.power.toString(),
+      proof: proof.proof,
+    };
+  }
+
+  /**
+   * Attest a topic now instead of waiting for its batch window
+   * Unchanged results are still skipped: peers would not sign them again
+   *
+   * @param topicId Topic ID
+   * @returns False if the topic has no state or is outside TOPIC_IDS
+   */
+  requestRecompute(topicId: number): boolean {
+    if (!this.isTracked(topicId) || !this.computer.getTopicIds().includes(topicId)) {
+      return false;
+    }
+
+    console.log(`[EnclaveOperator] Recompute requested for topic ${topicId}`);
+
+    if (!this.batcher.flush(topicId)) {
+      this.handleFlush(topicId);
+    }
+    return true;
+  }
+
+  /**
+   * Stop starting attestation rounds and submitting transactions
+   * Changed topics are kept and attested on resume
+   */
+  pause(): void {
+    if (this.isPaused) {
+      return;
+    }
+
+    this.isPaused = true;
+    this.cancelRoundRetries();
+    console.warn('[EnclaveOperator] Submissions paused');
+  }
+
+  /**
+   * Resume attestation rounds
+   */
+  resume(): void {
+    if (!this.isPaused) {
+      return;
+    }
+
+    this.isPaused = false;
+    console.log('[EnclaveOperator] Submissions resumed');
+
+    this.enqueue(async () => {
+      // Topics deferred while unsynced are scheduled by handleSynced instead
+      if (!this.isSynced) {
+        return;
+      }
+
+      const topics = Array.from(this.dirtyTopics);
+      this.dirtyTopics.clear();
+      topics.forEach((topicId) => this.scheduleTopic(topicId));
+    });
+  }
+
+  /**
+   * Handle a delegation event (backfilled or live)
+   */
+  private handleEvent(event: DelegationEvent): void {
+    this.enqueue(async () => {
+      this.computer.applyEvent(event);
+      this.computer.pruneJournal(event.blockNumber - REORG_JOURNAL_BLOCKS);
+      this.appliedCursor = { blockNumber: event.blockNumber, logIndex: event.logIndex };
+      this.topicBlocks.set(event.topicId, event.blockNumber);
+      // A changed topic gets a fresh set of round retries
+      this.timedOutRounds.delete(event.topicId);
+      this.metrics.eventsReceived.inc({ type: event.type });
+      this.eventsSinceCheckpoint++;
+
+      if (!this.isSynced) {
+        this.dirtyTopics.add(event.topicId);
+
+        if (this.eventsSinceCheckpoint >= BACKFILL_CHECKPOINT_INTERVAL) {
+          await this.saveCheckpoint();
+        }
+        return;
+      }
+
+      await this.saveCheckpoint();
+      this.scheduleTopic(event.topicId);
+    });
+  }
+
+  /**
+   * Handle listener catching up with the chain head
+   * Attests every topic that changed while the operator was offline
+   */
+  private handleSynced(blockNumber: number): void {
+    this.enqueue(async () => {
+      this.isSynced = true;
+
+      // Every event up to blockNumber has been applied by now
+      const syncedCursor = { blockNumber, logIndex: Number.MAX_SAFE_INTEGER };
+      if (!this.appliedCursor || compareCursors(this.appliedCursor, syncedCursor) < 0) {
+        this.appliedCursor = syncedCursor;
+      }
+      await this.saveCheckpoint();
+
+      const topics = Array.from(this.dirtyTopics);
+      this.dirtyTopics.clear();
+
+      console.log(
+        `[EnclaveOperator] Synced at block ${blockNumber}, ${topics.length} topics changed`
+      );
+
+      topics.forEach((topicId) => this.scheduleTopic(topicId));
+    });
+  }
+
+  /**
+   * Handle a topic's batch becoming due
+   * The block is captured now: every event up to it was emitted before this
+   * task is queued, so it has been applied by the time the task runs
+   */
+  private handleFlush(topicId: number): void {
+    const blockNumber = this.getLatestBlock();
+
+    this.enqueue(async () => {
+      // Rolled back since the batch was scheduled (re-batched once synced) or paused
+      if (!this.isSynced || this.isPaused) {
+        this.dirtyTopics.add(topicId);
+        return;
+      }
+
+      await this.attestTopic(topicId, blockNumber);
+    });
+  }
+
+  /**
+   * Attest a topic again after its round did not reach the signature threshold
+   * Operators that flushed at different heads sign different hashes; the retry
+   * recomputes at the then-current head, so rounds converge once events settle.
+   * The delay doubles with every consecutive timeout; after MAX_ROUND_RETRIES
+   * the topic is attested again only once it changes
+   */
+  private retryRound(topicId: number): void {
+    if (!this.isRunning || this.isPaused) {
+      // Attested on resume or after restart
+      this.dirtyTopics.add(topicId);
+      return;
+    }
+
+    const attempt = this.timedOutRounds.get(topicId) ?? 0;
+    if (attempt >= MAX_ROUND_RETRIES) {
+      console.warn(
+        `[EnclaveOperator] Topic ${topicId} missed the signature threshold ${attempt + 1} times, ` +
+          'waiting for it to change'
+      );
+      return;
+    }
+    if (this.roundRetries.has(topicId)) {
+      return;
+    }
+
+    const delay = Math.min(this.config.submitterBackoff * 2 ** attempt, MAX_ROUND_RETRY_DELAY);
+    this.timedOutRounds.set(topicId, attempt + 1);
+
+    console.warn(`[EnclaveOperator] Retrying topic ${topicId} in ${delay}ms`);
+
+    const timer = setTimeout(() => {
+      this.roundRetries.delete(topicId);
+      this.handleFlush(topicId);
+    }, delay);
+    this.roundRetries.set(topicId, timer);
+  }
+
+  /**
+   * Drop pending round retries, keeping their topics to attest on resume or after restart
+   */
+  private cancelRoundRetries(): void {
+    for (const [topicId, timer] of this.roundRetries) {
+      clearTimeout(timer);
+      this.dirtyTopics.add(topicId);
+    }
+    this.roundRetries.clear();
+  }
+
+  /**
+   * Latest block whose events have all been emitted by the listener
+   */
+  private getLatestBlock(): number {
+    return Math.max(this.appliedCursor?.blockNumber ?? 0, this.listener.getLastProcessedBlock());
+  }
+
+  /**
+   * Whether a topic passes the TOPIC_IDS filter
+   */
+  private isTracked(topicId: number): boolean {
+    return !this.topicFilter || this.topicFilter.has(topicId);
+  }
+
+  private scheduleTopic(topicId: number): void {
+    if (!this.isTracked(topicId)) {
+      return;
+    }
+
+    this.batcher.schedule(topicId);
+  }
+
+  /**
+   * Handle a reorg of already emitted blocks
+   * Rolls derived state back to before the reorged block; the listener then
+   * re-emits the canonical events followed by 'synced', which re-attests
+   */
+  private handleReorg(notice: ReorgNotice): void {
+    this.enqueue(async () => {
+      const cursor = { blockNumber: notice.blockNumber - 1, logIndex: Number.MAX_SAFE_INTEGER };
+      let affected: number[];
+
+      try {
+        affected = this.computer.rollbackTo(cursor);
+      } catch (error: any) {
+        // Journal does not reach back far enough (e.g. checkpoint written without one)
+        console.warn(`[EnclaveOperator] ${error.message}, replaying history instead`);
+
+        try {
+          affected = await this.replayHistory(cursor);
+        } catch (replayError: any) {
+          // State can no longer be trusted; stop before attesting anything wrong
+          console.error('[EnclaveOperator] Reorg rollback failed:', replayError.message);
+          void this.stop();
+          return;
+        }
+      }
+
+      affected.forEach((topicId) => this.dirtyTopics.add(topicId));
+      this.appliedCursor = cursor;
+      this.isSynced = false;
+      await this.saveCheckpoint();
+
+      console.warn(
+        `[EnclaveOperator] Rolled back to block ${cursor.blockNumber} ` +
+          `(${affected.length} topics affected)`
+      );
+    });
+  }
+
+  /**
+   * Rebuild topic state from DelegationManager history up to a cursor
+   * One log query per known topic, so only used when the journal cannot roll back
+   *
+   * @returns IDs of the rebuilt topics
+   */
+  private async replayHistory(cursor: EventCursor): Promise<number[]> {
+    const topicIds = this.computer.getTopicIds();
+    const events: DelegationEvent[] = [];
+
+    for (const topicId of topicIds) {
+      events.push(
+        ...(await this.listener.fetchHistoricalEvents(
+          topicId,
+          this.config.startBlock,
+          cursor.blockNumber
+        ))
+      );
+    }
+
+    const computer = new GraphComputer();
+    for (const event of events.sort(compareEvents)) {
+      computer.applyEvent(event);
+      computer.pruneJournal(event.blockNumber - REORG_JOURNAL_BLOCKS);
+    }
+    this.computer = computer;
+
+    return topicIds;
+  }
+
+  /**
+   * Handle the listener giving up (reorg deeper than its tracked blocks)
+   * The applied events can no longer be rolled back, so nothing is attested
+   * until the operator is resynced from a block before the fork
+   */
+  private handleListenerError(error: Error): void {
+    console.error('[EnclaveOperator] Chain listener failed:', error.message);
+    void this.stop();
+  }
+
+  /**
+   * Start an attestation round for a topic without blocking the event queue
+   */
+  private async attestTopic(topicId: number, blockNumber: number): Promise<void> {
+    if (!this.isTracked(topicId)) {
+      return;
+    }
+
+    // This round supersedes a pending retry
+    clearTimeout(this.roundRetries.get(topicId));
+    this.roundRetries.delete(topicId);
+
+    const round = this.computeAndSubmit(topicId, blockNumber)
+      .then(() => undefined)
+      .catch((error: any) => {
+        console.error(`[EnclaveOperator] Failed to attest topic ${topicId}:`, error.message);
+      })
+      .finally(() => {
+        this.inFlight.delete(round);
+      });
+
+    this.inFlight.set(round, { topicId, blockNumber, startedAt: Date.now() });
+  }
+
+  /**
+   * Build the power tree over a computed result
+   */
+  private buildTree(result: { addresses: string[]; powers: number[] }): PowerTree {
+    return buildPowerTree(
+      result.addresses.map((address, i) => ({ address, power: result.powers[i] }))
+    );
+  }
+
+  /**
+   * Remember a result hash accepted on-chain, with its power tree in root mode
+   */
+  private markAttested(topicId: number, resultHash: string, powerTree: PowerTree | null): void {
+    this.attestedHashes.set(topicId, resultHash);
+
+    if (powerTree) {
+      this.powerTrees.set(topicId, powerTree);
+    } else {
+      this.powerTrees.delete(topicId);
+    }
+  }
+
+  /**
+   * Remember the outcome of an attestation round for the status API
+   */
+  private recordSubmission(
+    topicId: number,
+    resultHash: string,
+    blockNumber: number,
+    submission: SubmissionResult
+  ): SubmissionResult {
+    this.submissions.set(topicId, {
+      resultHash,
+      blockNumber,
+      status: submission.success ? 'accepted' : submission.transactionHash ? 'rejected' : 'failed',
+      transactionHash: submission.transactionHash,
+      error: submission.error,
+      updatedAt: Date.now(),
+    });
+
+    return submission;
+  }
+
+  /**
+   * Persist cursor and topic state together
+   */
+  private async saveCheckpoint(): Promise<void> {
+    const cursor = this.appliedCursor;
+    if (!cursor) {
+      return;
+    }
+
+    try {
+      await this.checkpoints.save({
+        version: CHECKPOINT_VERSION,
+        cursor,
+        topics: this.computer.exportState(),
+        journal: this.computer.exportJournal(),
+        pendingTopics: Array.from(
+          new Set([...this.dirtyTopics, ...this.batcher.getPending().map((b) => b.topicId)])
+        ),
+        attestedHashes: Object.fromEntries(this.attestedHashes),
+        updatedAt: Date.now(),
+      });
+      this.eventsSinceCheckpoint = 0;
+    } catch (error: any) {
+      console.error('[EnclaveOperator] Failed to write checkpoint:', error.message);
+    }
+  }
+
+  /**
+   * Wait for ms, or until the operator stops
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.sleepers.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      this.sleepers.add(wake);
+    });
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch((error: any) => {
+      console.error('[EnclaveOperator] Task failed:', error.message);
+    });
+  }
+}
+
+/**
+ * Factory function to create EnclaveOperator
+ */
+export function createEnclaveOperator(
+  config: EnclaveServiceConfig,
+  operatorKey: OperatorKey
+): EnclaveOperator {
+  return new EnclaveOperator(config, operatorKey);
+}
@@ -0,0 +1,269 @@
+/**
+ * GraphComputer
+ *
+ * Maintains per-topic delegation state reconstructed from DelegationManager events
+ * and computes voting power for terminal delegates
+ */
+
+import type { DelegationEvent } from '../services/ChainListener.js';
+import {
+  compareCursors,
+  type EventCursor,
+  type SerializedJournal,
+  type SerializedJournalEntry,
+  type SerializedTopicState,
+} from '../services/CheckpointStore.js';
+import { calculateVotingPower, type DelegationGraph } from '../lib/graph-algorithms.js';
+import { canonicalizeResult } from '@liquid-democracy-engine/result-encoding';
+
+/** Reconstructed topic state (lowercased addresses) */
+export type TopicState = DelegationGraph;
+
+export interface TopicPowerResult {
+  topicId: number;
+  addresses: string[];
+  powers: number[];
+}
+
+/**
+ * GraphComputer for delegation graph reconstruction and voting power calculation
+ */
+export class GraphComputer {
+  private topics: Map<number, TopicState> = new Map();
+
+  /** Undo journal of recently applied events, oldest first */
+  private journal: SerializedJournalEntry[] = [];
+
+  /** Events up to this block are no longer journaled */
+  private prunedThrough: number = -1;
+
+  /**
+   * Apply a delegation event to the reconstructed topic state
+   * The previous state is journaled so the event can be rolled back on reorg
+   *
+   * @param event Delegation event from ChainListener
+   */
+  applyEvent(event: DelegationEvent): void {
+    const state = this.getOrCreateTopic(event.topicId);
+    const subject = event.delegator.toLowerCase();
+
+    this.journal.push({
+      cursor: { blockNumber: event.blockNumber, logIndex: event.logIndex },
+      topicId: event.topicId,
+      subject,
+      previousDelegate: state.delegations.get(subject) ?? null,
+      wasDeadEnd: state.deadEnds.has(subject),
+    });
+
+    switch (event.type) {
+      case 'Delegated':
+        if (event.delegate) {
+          state.delegations.set(subject, event.delegate.toLowerCase());
+        }
+        break;
+      case 'Revoked':
+        state.delegations.delete(subject);
+        break;
+      case 'DeadEndDeclared':
+        state.deadEnds.add(subject);
+        break;
+      case 'DeadEndRevoked':
+        state.deadEnds.delete(subject);
+        break;
+    }
+  }
+
+  /**
+   * Undo every journaled event after a cursor
+   *
+   * @param cursor Last event to keep
+   * @returns IDs of topics whose state changed
+   * @throws Error if events after the cursor are no longer journaled
+   */
+  rollbackTo(cursor: EventCursor): number[] {
+    if (cursor.blockNumber < this.prunedThrough) {
+      throw new Error(
+        `Cannot roll back to block ${cursor.blockNumber}: journal pruned through ${this.prunedThrough}`
+      );
+    }
+
+    const affected = new Set<number>();
+
+    while (this.journal.length > 0) {
+      const entry = this.journal[this.journal.length - 1];
+      if (compareCursors(entry.cursor, cursor) <= 0) {
+        break;
+      }
+
+      this.journal.pop();
+      affected.add(entry.topicId);
+
+      const state = this.getOrCreateTopic(entry.topicId);
+      if (entry.previousDelegate === null) {
+        state.delegations.delete(entry.subject);
+      } else {
+        state.delegations.set(entry.subject, entry.previousDelegate);
+      }
+      if (entry.wasDeadEnd) {
+        state.deadEnds.add(entry.subject);
+      } else {
+        state.deadEnds.delete(entry.subject);
+      }
+    }
+
+    return Array.from(affected);
+  }
+
+  /**
+   * Forget journal entries at or before a block (they can no longer be reorged)
+   *
+   * @param blockNumber Oldest block that may still be rolled back is blockNumber + 1
+   */
+  pruneJournal(blockNumber: number): void {
+    this.prunedThrough = Math.max(this.prunedThrough, blockNumber);
+
+    const keepFrom = this.journal.findIndex((entry) => entry.cursor.blockNumber > blockNumber);
+    if (keepFrom !== 0) {
+      this.journal = keepFrom === -1 ? [] : this.journal.slice(keepFrom);
+    }
+  }
+
+  /**
+   * Get reconstructed state for a topic
+   */
+  getTopicState(topicId: number): TopicState | undefined {
+    return this.topics.get(topicId);
+  }
+
+  /**
+   * Get IDs of all topics with reconstructed state
+   */
+  getTopicIds(): number[] {
+    return Array.from(this.topics.keys());
+  }
+
+  /**
+   * Serialize all topic state for checkpointing
+   */
+  exportState(): Record<string, SerializedTopicState> {
+    const topics: Record<string, SerializedTopicState> = {};
+
+    for (const [topicId, state] of this.topics) {
+      topics[topicId] = {
+        delegations: Array.from(state.delegations),
+        deadEnds: Array.from(state.deadEnds),
+      };
+    }
+
+    return topics;
+  }
+
+  /**
+   * Serialize the undo journal for checkpointing
+   */
+  exportJournal(): SerializedJournal {
+    return { prunedThrough: this.prunedThrough, entries: [...this.journal] };
+  }
+
+  /**
+   * Replace all topic state with a previously exported snapshot
+   * Without its journal, the snapshot itself cannot be rolled back
+   *
+   * @param topics Serialized topic state from exportState
+   * @param cursor Cursor the snapshot was taken at
+   * @param journal Undo journal from exportJournal, taken with the snapshot
+   */
+  restoreState(
+    topics: Record<string, SerializedTopicState>,
+    cursor?: EventCursor,
+    journal?: SerializedJournal
+  ): void {
+    this.topics.clear();
+
+    if (journal) {
+      this.journal = [...journal.entries];
+      this.prunedThrough = journal.prunedThrough;
+    } else {
+      this.journal = [];
+      this.prunedThrough = cursor ? cursor.blockNumber : -1;
+    }
+
+    for (const [topicId, serialized] of Object.entries(topics)) {
+      this.topics.set(Number(topicId), {
+        delegations: new Map(serialized.delegations),
+        deadEnds: new Set(serialized.deadEnds),
+      });
+    }
+  }
+
+  /**
+   * Compute voting power for every terminal delegate in a topic
+   *
+   * Every address participating in the topic graph holds one vote, which flows
+   * to its terminal delegate. Results are in the shared canonical form
+   * (checksummed, ascending by address) so every operator produces the same
+   * result hash.
+   *
+   * @param topicId Topic ID
+   * @returns Terminal delegates and their voting power
+   * @throws Error if the reconstructed graph contains a cycle
+   */
+  computeTopic(topicId: number): TopicPowerResult {
+    const state = this.topics.get(topicId);
+    const powerMap = new Map<string, number>();
+
+    if (state) {
+      const participants = new Set<string>();
+      for (const [delegator, delegate] of state.delegations) {
+        participants.add(delegator);
+        participants.add(delegate);
+      }
+
+      for (const { address, power } of calculateVotingPower(state, participants)) {
+        powerMap.set(address, power);
+      }
+    }
+
+    const canonical = canonicalizeResult(
+      Array.from(powerMap, ([address, power]) => ({ address, power }))
+    );
+
+    return {
+      topicId,
+      addresses: canonical.addresses,
+      powers: canonical.powers.map(Number),
+    };
+  }
+
+  /**
+   * Get the size of a topic's delegation graph
+   *
+   * @param topicId Topic ID
+   * @returns Participating addresses (nodes) and active delegations (edges)
+   */
+  getGraphSize(topicId: number): { nodes: number; edges: number } {
+    const state = this.topics.get(topicId);
+    if (!state) {
+      return { nodes: 0, edges: 0 };
+    }
+
+    const nodes = new Set<string>();
+    for (const [delegator, delegate] of state.delegations) {
+      nodes.add(delegator);
+      nodes.add(delegate);
+    }
+
+    return { nodes: nodes.size, edges: state.delegations.size };
+  }
+
+  private getOrCreateTopic(topicId: number): TopicState {
+    let state = this.topics.get(topicId);
+
+    if (!state) {
+      state = { delegations: new Map(), deadEnds: new Set() };
+      this.topics.set(topicId, state);
+    }
+
+    return state;
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * AttestationAuditor
+ *
+ * Independently recomputes an accepted attestation. DelegationManager events
+ * are replayed up to the attested block with the same graph algorithms the
+ * operators run, and the result is compared with what the submission
+ * transaction put on-chain. Needs nothing but an RPC endpoint, so anyone can
+ * check the operators' work.
+ */
+
+import { ethers } from 'ethers';
+import {
+  buildPowerTree,
+  calculateResultHash,
+  compareAddresses,
+  normalizeAddress,
+  type PowerValue,
+} from '@liquid-democracy-engine/result-encoding';
+import { ChainListener } from './ChainListener.js';
+import { GraphComputer, type TopicPowerResult } from '../operators/GraphComputer.js';
+
+export interface AttestationAuditorConfig {
+  provider: ethers.Provider;
+  delegationManagerAddress: string;
+  votePowerVerifierAddress: string;
+  /** DelegationManager deployment block, replay starts here */
+  startBlock?: number;
+}
+
+/** One address whose attested power differs from the recomputed power */
+export interface PowerDiff {
+  address: string;
+  /** Recomputed power (0 if the address is not a terminal delegate) */
+  expected: bigint;
+  /** Attested power (0 if the address was not attested) */
+  attested: bigint;
+}
+
+export interface AuditResult {
+  topicId: number;
+  transactionHash: string;
+  method: 'submitAttestation' | 'submitPowerRoot';
+  /** Block the attestation claims to describe */
+  attestedBlock: number;
+  resultHash: string;
+  eventsReplayed: number;
+  recomputed: TopicPowerResult;
+  /** Per-address differences (full attestations only; a power root hides its leaves) */
+  diffs: PowerDiff[];
+  /** Mismatched hashes or committed totals */
+  errors: string[];
+  match: boolean;
+}
+
+interface AttestedArrays {
+  addresses: string[];
+  powers: PowerValue[];
+}
+
+/**
+ * Compare attested powers with recomputed powers, address by address
+ *
+ * @returns Differences in canonical address order
+ */
+export function diffPowers(expected: AttestedArrays, attested: AttestedArrays): PowerDiff[] {
+  const expectedPowers = toPowerMap(expected);
+  const attestedPowers = toPowerMap(attested);
+  const addresses = new Set([...expectedPowers.keys(), ...attestedPowers.keys()]);
+  const diffs: PowerDiff[] = [];
+
+  for (const address of addresses) {
+    const expectedPower = expectedPowers.get(address) ?? 0n;
+    const attestedPower = attestedPowers.get(address) ?? 0n;
+
+    if (expectedPower !== attestedPower) {
+      diffs.push({ address, expected: expectedPower, attested: attestedPower });
+    }
+  }
+
+  return diffs.sort((a, b) => compareAddresses(a.address, b.address));
+}
+
+function toPowerMap(result: AttestedArrays): Map<string, bigint> {
+  const powers = new Map<string, bigint>();
+
+  result.addresses.forEach((address, i) => {
+    const key = normalizeAddress(address);
+    powers.set(key, (powers.get(key) ?? 0n) + BigInt(result.powers[i]));
+  });
+
+  return powers;
+}
+
+/**
+ * Replays delegation history and audits accepted attestations against it
+ */
+export class AttestationAuditor {
+  private provider: ethers.Provider;
+  private listener: ChainListener;
+  private verifier: ethers.Interface;
+  private verifierAddress: string;
+  private startBlock: number;
+
+  // VotePowerVerifier ABI (submissions and acceptance)
+  private static readonly ABI = [
+    'function submitAttestation((bytes32 resultHash, uint256 topicId, uint256 blockNumber, bytes[] signatures, uint256 nonce) attestation, address[] addresses, uint256[] powers) external',
+    'function submitPowerRoot((bytes32 resultHash, uint256 topicId, uint256 blockNumber, bytes[] signatures, uint256 nonce) attestation, bytes32 root, uint256 delegateCount, uint256 totalPower) external',
+    'event AttestationAccepted(bytes32 indexed resultHash, uint256 timestamp)',
+    'event PowerRootCommitted(uint256 indexed topicId, bytes32 indexed attestationHash, bytes32 root, uint256 delegateCount, uint256 totalPower)',
+  ];
+
+  constructor(config: AttestationAuditorConfig) {
+    this.provider = config.provider;
+    this.listener = new ChainListener({
+      provider: config.provider,
+      delegationManagerAddress: config.delegationManagerAddress,
+    });
+    this.verifier = new ethers.Interface(AttestationAuditor.ABI);
+    this.verifierAddress = ethers.getAddress(config.votePowerVerifierAddress);
+    this.startBlock = config.startBlock || 0;
+  }
+
+  /**
+   * Audit an accepted attestation
+   *
+   * @param topicId Topic the attestation is expected to cover
+   * @param transactionHash Transaction that emitted AttestationAccepted (or PowerRootCommitted)
+   * @returns Audit outcome; `match` is false if the operators attested a wrong result
+   * @throws Error if the transaction is not an accepted submission for the topic
+   */
+  async audit(topicId: number, transactionHash: string): Promise<AuditResult> {
+    const [tx, receipt] = await Promise.all([
+      this.provider.getTransaction(transactionHash),
+      this.provider.getTransactionReceipt(transactionHash),
+    ]);
+
+    if (!tx || !receipt) {
+      throw new Error(`Transaction ${transactionHash} not found`);
+    }
+
+    const call =
+      tx.to && ethers.getAddress(tx.to) === this.verifierAddress
+        ? this.verifier.parseTransaction({ data: tx.data })
+        : null;
+
+    if (!call) {
+      throw new Error(`Transaction ${transactionHash} is not a VotePowerVerifier submission`);
+    }
+
+    const attestation = call.args[0];
+    const resultHash: string = attestation.resultHash;
+    const attestedBlock = Number(attestation.blockNumber);
+
+    if (Number(attestation.topicId) !== topicId) {
+      throw new Error(
+        `Transaction ${transactionHash} attests topic ${attestation.topicId}, not ${topicId}`
+      );
+    }
+
+    if (!this.isAccepted(receipt, resultHash)) {
+      throw new Error(
+        `Transaction ${transactionHash} did not emit AttestationAccepted or PowerRootCommitted`
+      );
+    }
+
+    // The operators' state at a block includes the events in that block
+    const events = await this.listener.fetchHistoricalEvents(
+      topicId,
+      this.startBlock,
+      attestedBlock
+    );
+    const computer = new GraphComputer();
+    for (const event of events) {
+      computer.applyEvent(event);
+    }
+    const recomputed = computer.computeTopic(topicId);
+
+    const method = call.name as AuditResult['method'];
+    const errors: string[] = [];
+    let diffs: PowerDiff[] = [];
+
+    if (method === 'submitAttestation') {
+      diffs = diffPowers(recomputed, { addresses: call.args[1], powers: call.args[2] });
+
+      const expectedHash = calculateResultHash(recomputed.addresses, recomputed.powers);
+      if (expectedHash !== resultHash) {
+        errors.push(`Result hash ${resultHash} differs from recomputed ${expectedHash}`);
+      }
+    } else {
+      errors.push(...this.checkPowerRoot(recomputed, resultHash, call.args));
+    }
+
+    return {
+      topicId,
+      transactionHash,
+      method,
+      attestedBlock,
+      resultHash,
+      eventsReplayed: events.length,
+      recomputed,
+      diffs,
+      errors,
+      match: diffs.length === 0 && errors.length === 0,
+    };
+  }
+
+  /**
+   * Whether the receipt carries AttestationAccepted (full result) or
+   * PowerRootCommitted (root commitment) for this result
+   */
+  private isAccepted(receipt: ethers.TransactionReceipt, resultHash: string): boolean {
+    return receipt.logs.some((log) => {
+      if (ethers.getAddress(log.address) !== this.verifierAddress) {
+        return false;
+      }
+
+      const parsed = this.verifier.parseLog(log);
+      if (parsed?.name === 'AttestationAccepted') {
+        return parsed.args.resultHash === resultHash;
+      }
+      return parsed?.name === 'PowerRootCommitted' && parsed.args.attestationHash === resultHash;
+    });
+  }
+
+  /**
+   * Compare a committed power root with the tree over the recomputed result
+   */
+  private checkPowerRoot(
+    recomputed: TopicPowerResult,
+    resultHash: string,
+    args: ethers.Result
+  ): string[] {
+    if (recomputed.addresses.length === 0) {
+      return ['Power root committed for a topic without terminal delegates'];
+    }
+
+    const tree = buildPowerTree(
+      recomputed.addresses.map((address, i) => ({ address, power: recomputed.powers[i] }))
+    );
+    const errors: string[] = [];
+
+    if (tree.root !== args[1]) {
+      errors.push(`Power root ${args[1]} differs from recomputed ${tree.root}`);
+    }
+    if (BigInt(tree.delegateCount) !== args[2]) {
+      errors.push(`Delegate count ${args[2]} differs from recomputed ${tree.delegateCount}`);
+    }
+    if (tree.totalPower !== args[3]) {
+      errors.push(`Total power ${args[3]} differs from recomputed ${tree.totalPower}`);
+    }
+    if (tree.commitment !== resultHash) {
+      errors.push(`Result hash ${resultHash} differs from recomputed ${tree.commitment}`);
+    }
+
+    return errors;
+  }
+}
+
+/**
+ * Factory function to create AttestationAuditor
+ */
+export function createAttestationAuditor(config: AttestationAuditorConfig): AttestationAuditor {
+  return new AttestationAuditor(config);
+}
@@ -7,6 +7,8 @@
 
 import { ethers } from 'ethers';
 import { EventEmitter } from 'events';
+import { RpcProvider } from '@liquid-democracy-engine/rpc-provider';
+import { compareCursors, type EventCursor } from './CheckpointStore.js';
 
 export interface DelegationEvent {
   type: 'Delegated' | 'Revoked' | 'DeadEndDeclared' | 'DeadEndRevoked';
@@ -15,18 +17,71 @@ export interface DelegationEvent {
   topicId: number;
   timestamp: number;
   blockNumber: number;
+  blockHash: string;
+  transactionIndex: number;
+  logIndex: number;
   transactionHash: string;
 }
 
 export interface ChainListenerConfig {
-  rpcUrl: string;
+  /** Provider polling blocks every pollInterval (an RpcProvider shared with the submitter) */
+  provider: ethers.Provider;
   delegationManagerAddress: string;
+  /** DelegationManager deployment block; history is backfilled from here without a cursor (default 0) */
   startBlock?: number;
   pollInterval?: number;
+  /** Resume after this cursor, backfilling the gap before following live events */
+  resumeFrom?: EventCursor;
+  /** Initial block range per getLogs page; shrinks on RPC errors and grows back on success */
+  batchSize?: number;
+  /** Blocks an event must be buried under before it is emitted */
+  confirmations?: number;
+  /** Number of recent block hashes kept for detecting reorgs deeper than `confirmations` */
+  reorgWindow?: number;
+}
+
+/** Smallest block range tried before a getLogs failure is considered fatal */
+const MIN_BATCH_SIZE = 1;
+
+/**
+ * Order events as they were executed on-chain: (blockNumber, transactionIndex, logIndex)
+ */
+export function compareEvents(a: DelegationEvent, b: DelegationEvent): number {
+  return (
+    a.blockNumber - b.blockNumber ||
+    a.transactionIndex - b.transactionIndex ||
+    a.logIndex - b.logIndex
+  );
+}
+
+interface LogPage {
+  fromBlock: number;
+  toBlock: number;
+  logs: ethers.Log[];
+}
+
+export interface ReorgNotice {
+  /** First block whose events were invalidated */
+  blockNumber: number;
+  /** Hashes of the oldest tracked block found replaced */
+  expectedHash: string;
+  actualHash: string | null;
 }
 
 /**
  * ChainListener service for monitoring delegation events
+ *
+ * Only events buried under `confirmations` blocks are emitted. Live subscription
+ * logs are tracked as pending until then; the canonical logs for each newly
+ * confirmed range are re-queried so removed or replaced logs never leak out.
+ *
+ * Emits:
+ * - 'delegation-event' (DelegationEvent) for every confirmed event, in chain order
+ * - 'synced' (blockNumber) once all confirmed history up to blockNumber was emitted
+ * - 'reorg' (ReorgNotice) when an already emitted block left the canonical chain;
+ *   consumers must roll back to before ReorgNotice.blockNumber, the events are then re-emitted
+ * - 'error' (Error) when every tracked block was replaced, i.e. the reorg is deeper than
+ *   `reorgWindow`; the listener stops, since the fork point is unknown
  */
 export class ChainListener extends EventEmitter {
   private provider: ethers.Provider;
@@ -34,6 +89,22 @@ export class ChainListener extends EventEmitter {
   private isListening: boolean = false;
   private pollInterval: number;
   private lastProcessedBlock: number;
+  private batchSize: number;
+  private chunkSize: number;
+  private contractAddress: string;
+  private resumeFrom: EventCursor;
+  private cursor: EventCursor | null = null;
+  private confirmations: number;
+  private reorgWindow: number;
+
+  /** Unconfirmed events seen on the live subscription */
+  private pending: DelegationEvent[] = [];
+
+  /** Hashes of recently confirmed blocks, used to detect deep reorgs */
+  private recentBlocks: Map<number, string> = new Map();
+
+  /** Serializes new-block processing */
+  private blockQueue: Promise<void> = Promise.resolve();
 
   // DelegationManager ABI (events only)
   private static readonly ABI = [
@@ -46,8 +117,9 @@ export class ChainListener extends EventEmitter {
   constructor(config: ChainListenerConfig) {
     super();
 
-    // Initialize provider
-    this.provider = new ethers.JsonRpcProvider(config.rpcUrl);
+    this.pollInterval = config.pollInterval || 5000; // 5 seconds default
+
+    this.provider = config.provider;
 
     // Initialize contract interface
     this.delegationManager = new ethers.Contract(
@@ -56,13 +128,26 @@ export class ChainListener extends EventEmitter {
       this.provider
     );
 
-    this.pollInterval = config.pollInterval || 5000; // 5 seconds default
     this.lastProcessedBlock = config.startBlock || 0;
+    this.batchSize = config.batchSize || 2000;
+    this.chunkSize = this.batchSize;
+    this.contractAddress = config.delegationManagerAddress;
+    // Without a cursor the whole history is replayed: starting at the head would
+    // leave out every earlier delegation
+    this.resumeFrom = config.resumeFrom || { blockNumber: config.startBlock || 0, logIndex: -1 };
+    this.cursor = this.resumeFrom;
+    this.confirmations = config.confirmations ?? 12;
+    this.reorgWindow = config.reorgWindow || Math.max(64, this.confirmations * 4);
+
+    this._onBlock = this._onBlock.bind(this);
 
     console.log('[ChainListener] Initialized');
-    console.log(`  RPC: ${config.rpcUrl}`);
+    if (config.provider instanceof RpcProvider) {
+      console.log(`  RPC: ${config.provider.getUrls().join(', ')}`);
+    }
     console.log(`  Contract: ${config.delegationManagerAddress}`);
     console.log(`  Poll Interval: ${this.pollInterval}ms`);
+    console.log(`  Confirmations: ${this.confirmations}`);
   }
 
   /**
@@ -76,16 +161,65 @@ export class ChainListener extends EventEmitter {
 
     this.isListening = true;
 
-    // Get current block if not set
-    if (this.lastProcessedBlock === 0) {
-      this.lastProcessedBlock = await this.provider.getBlockNumber();
-      console.log(`[ChainListener] Starting from block ${this.lastProcessedBlock}`);
+    // Live subscription only feeds the pending list and removed-log detection
+    this._setupEventListeners();
+
+    console.log(`[ChainListener] Resuming from block ${this.resumeFrom.blockNumber}`);
+    await this.backfill(this.resumeFrom.blockNumber);
+
+    if (!this.isListening) {
+      return;
     }
 
-    // Set up event listeners
-    this._setupEventListeners();
+    this.provider.on('block', this._onBlock);
 
     console.log('[ChainListener] Started listening for events');
+    // All confirmed events up to lastProcessedBlock have been emitted
+    this.emit('synced', this.lastProcessedBlock);
+  }
+
+  /**
+   * Replay all DelegationManager events from a block up to the confirmed head
+   * Events are emitted in chain order; events at or before the cursor are skipped
+   *
+   * @param fromBlock Block to start from (inclusive)
+   */
+  async backfill(fromBlock: number): Promise<void> {
+    let from = fromBlock;
+    let target = await this._confirmedHead();
+    const topics = [
+      this._eventTopics(['Delegated', 'Revoked', 'DeadEndDeclared', 'DeadEndRevoked']),
+    ];
+
+    while (from <= target && this.isListening) {
+      for await (const page of this._fetchLogPages(topics, from, target)) {
+        if (!this.isListening) {
+          return;
+        }
+
+        const events = this._parseLogs(page.logs);
+
+        for (const event of events) {
+          this._emitEvent(event);
+        }
+
+        this.lastProcessedBlock = page.toBlock;
+        await this._trackBlock(page.toBlock);
+        this._prunePending();
+
+        if (events.length > 0 || page.toBlock === target) {
+          console.log(
+            `[ChainListener] Backfilled blocks ${page.fromBlock}-${page.toBlock} ` +
+              `(${events.length} events)`
+          );
+        }
+      }
+
+      from = target + 1;
+
+      // The chain keeps moving while we page through history
+      target = await this._confirmedHead();
+    }
   }
 
   /**
@@ -98,6 +232,7 @@ export class ChainListener extends EventEmitter {
 
     this.isListening = false;
     this.delegationManager.removeAllListeners();
+    this.provider.off('block', this._onBlock);
 
     console.log('[ChainListener] Stopped listening');
   }
@@ -109,6 +244,318 @@ export class ChainListener extends EventEmitter {
     return this.lastProcessedBlock;
   }
 
+  /**
+   * Get number of confirmed blocks not yet processed
+   */
+  async getBackfillLag(): Promise<number> {
+    return Math.max(0, (await this._confirmedHead()) - this.lastProcessedBlock);
+  }
+
+  /**
+   * Get live events that are not yet confirmed
+   */
+  getPendingEvents(): DelegationEvent[] {
+    return [...this.pending];
+  }
+
+  /**
+   * Latest block with at least `confirmations` blocks on top
+   */
+  private async _confirmedHead(): Promise<number> {
+    const head = await this.provider.getBlockNumber();
+    return Math.max(0, head - this.confirmations);
+  }
+
+  /**
+   * Handle a new block: check recent blocks for reorgs, then emit newly confirmed events
+   */
+  private _onBlock(): void {
+    this._enqueueBlockTask(async () => {
+      const reorged = await this._checkForReorg();
+      await this._catchUp(reorged);
+    });
+  }
+
+  private _enqueueBlockTask(task: () => Promise<void>): void {
+    this.blockQueue = this.blockQueue
+      .then(async () => {
+        if (this.isListening) {
+          await task();
+        }
+      })
+      .catch((error: any) => {
+        console.error('[ChainListener] Failed to process new block:', error.message);
+      });
+  }
+
+  /**
+   * Emit newly confirmed events
+   *
+   * @param afterRewind Re-announce sync so consumers can re-attest rolled back topics
+   */
+  private async _catchUp(afterRewind: boolean): Promise<void> {
+    await this.backfill(this.lastProcessedBlock + 1);
+
+    if (afterRewind && this.isListening) {
+      this.emit('synced', this.lastProcessedBlock);
+    }
+  }
+
+  /**
+   * Compare tracked block hashes against the canonical chain
+   * On mismatch, rewinds the cursor so the affected range is re-queried
+   *
+   * A reorg replacing block N also replaces every later block, so only the
+   * newest tracked block is checked; older ones are only walked on mismatch.
+   * Tracked blocks are sparse, so the fork point is only known to lie after
+   * the newest matching block, and everything after it is re-queried
+   *
+   * @returns Whether a reorg was detected
+   */
+  private async _checkForReorg(): Promise<boolean> {
+    const tracked = Array.from(this.recentBlocks.keys()).sort((a, b) => b - a);
+    let replaced: Omit<ReorgNotice, 'blockNumber'> | null = null;
+    let newestMatching: number | null = null;
+
+    for (const blockNumber of tracked) {
+      const expectedHash = this.recentBlocks.get(blockNumber)!;
+      const block = await this.provider.getBlock(blockNumber);
+      const actualHash = block?.hash || null;
+
+      if (actualHash === expectedHash) {
+        newestMatching = blockNumber;
+        break;
+      }
+
+      replaced = { expectedHash, actualHash };
+    }
+
+    if (!replaced) {
+      return false;
+    }
+
+    if (newestMatching === null) {
+      console.error(
+        `[ChainListener] Every tracked block since ${tracked[tracked.length - 1]} was replaced, ` +
+          `reorg is deeper than ${this.reorgWindow} blocks`
+      );
+      this.stop();
+      this.emit('error', new Error('Reorg deeper than the tracked block window'));
+      return true;
+    }
+
+    this._rewind({ blockNumber: newestMatching + 1, ...replaced });
+    return true;
+  }
+
+  /**
+   * Invalidate everything emitted from a block onwards
+   */
+  private _rewind(notice: ReorgNotice): void {
+    console.warn(
+      `[ChainListener] Reorg detected at block ${notice.blockNumber} ` +
+        `(expected ${notice.expectedHash}, got ${notice.actualHash})`
+    );
+
+    for (const blockNumber of Array.from(this.recentBlocks.keys())) {
+      if (blockNumber >= notice.blockNumber) {
+        this.recentBlocks.delete(blockNumber);
+      }
+    }
+
+    this.lastProcessedBlock = notice.blockNumber - 1;
+    this.cursor = { blockNumber: notice.blockNumber - 1, logIndex: Number.MAX_SAFE_INTEGER };
+
+    this.emit('reorg', notice);
+  }
+
+  /**
+   * Remember the hash of a confirmed block and forget blocks outside the reorg window
+   */
+  private async _trackBlock(blockNumber: number): Promise<void> {
+    const head = await this.provider.getBlockNumber();
+
+    if (blockNumber < head - this.reorgWindow) {
+      return;
+    }
+
+    const block = await this.provider.getBlock(blockNumber);
+    if (block?.hash) {
+      this.recentBlocks.set(blockNumber, block.hash);
+    }
+
+    for (const tracked of Array.from(this.recentBlocks.keys())) {
+      if (tracked < head - this.reorgWindow) {
+        this.recentBlocks.delete(tracked);
+      }
+    }
+  }
+
+  /**
+   * Drop pending events that are now covered by confirmed history
+   */
+  private _prunePending(): void {
+    this.pending = this.pending.filter((event) => event.blockNumber > this.lastProcessedBlock);
+  }
+
+  /**
+   * Emit an event unless it was already emitted
+   */
+  private _emitEvent(event: DelegationEvent): void {
+    if (this.cursor && compareCursors(event, this.cursor) <= 0) {
+      return;
+    }
+
+    this.cursor = { blockNumber: event.blockNumber, logIndex: event.logIndex };
+    this.lastProcessedBlock = Math.max(this.lastProcessedBlock, event.blockNumber);
+    this.recentBlocks.set(event.blockNumber, event.blockHash);
+    this.emit('delegation-event', event);
+  }
+
+  /**
+   * Handle an event from the live subscription
+   * Live events stay pending until confirmed; removed logs are dropped or trigger a rewind
+   */
+  private _handleLiveEvent(event: DelegationEvent, log: ethers.Log): void {
+    const isSameLog = (other: DelegationEvent) =>
+      other.transactionHash === event.transactionHash && other.logIndex === event.logIndex;
+
+    if (!log.removed) {
+      if (event.blockNumber > this.lastProcessedBlock && !this.pending.some(isSameLog)) {
+        this.pending.push(event);
+      }
+      return;
+    }
+
+    console.warn(`[ChainListener] Log removed by reorg: ${event.type} in ${event.transactionHash}`);
+    this.pending = this.pending.filter((other) => !isSameLog(other));
+
+    // Already emitted: roll back to before its block
+    this._enqueueBlockTask(async () => {
+      if (event.blockNumber > this.lastProcessedBlock) {
+        return;
+      }
+
+      this._rewind({
+        blockNumber: event.blockNumber,
+        expectedHash: event.blockHash,
+        actualHash: null,
+      });
+      await this._catchUp(true);
+    });
+  }
+
+  /**
+   * Get topic0 hashes for a set of events (OR-ed in a log filter)
+   */
+  private _eventTopics(names: string[]): string[] {
+    return names.map((name) => this.delegationManager.interface.getEvent(name)!.topicHash);
+  }
+
+  /**
+   * Page through getLogs over a block range with adaptive chunk sizing
+   *
+   * Public RPCs reject wide ranges or large result sets with varying errors,
+   * so any failure halves the chunk and retries; successes grow it back
+   * towards the configured batch size. The chunk size persists across calls.
+   *
+   * @param topics Log topic filter
+   * @param fromBlock First block (inclusive)
+   * @param toBlock Last block (inclusive)
+   */
+  private async *_fetchLogPages(
+    topics: Array<string | string[] | null>,
+    fromBlock: number,
+    toBlock: number
+  ): AsyncGenerator<LogPage> {
+    let from = fromBlock;
+
+    while (from <= toBlock) {
+      const to = Math.min(from + this.chunkSize - 1, toBlock);
+      let logs: ethers.Log[];
+
+      try {
+        logs = await this.provider.getLogs({
+          address: this.contractAddress,
+          topics,
+          fromBlock: from,
+          toBlock: to,
+        });
+      } catch (error: any) {
+        if (this.chunkSize <= MIN_BATCH_SIZE) {
+          throw error;
+        }
+
+        this.chunkSize = Math.max(MIN_BATCH_SIZE, Math.floor(this.chunkSize / 2));
+        console.warn(
+          `[ChainListener] getLogs ${from}-${to} failed (${error.message}), ` +
+            `retrying with ${this.chunkSize} blocks`
+        );
+        continue;
+      }
+
+      yield { fromBlock: from, toBlock: to, logs };
+
+      this.chunkSize = Math.min(this.batchSize, this.chunkSize * 2);
+      from = to + 1;
+    }
+  }
+
+  /**
+   * Parse raw logs into delegation events in on-chain order
+   */
+  private _parseLogs(logs: ethers.Log[]): DelegationEvent[] {
+    return logs
+      .filter((log) => !log.removed)
+      .map((log) => this._parseLog(log))
+      .filter((event): event is DelegationEvent => event !== null)
+      .sort(compareEvents);
+  }
+
+  /**
+   * Convert a raw DelegationManager log into a DelegationEvent
+   *
+   * @returns Parsed event, or null for unrelated logs
+   */
+  private _parseLog(log: ethers.Log): DelegationEvent | null {
+    const parsed = this.delegationManager.interface.parseLog(log);
+    if (!parsed) {
+      return null;
+    }
+
+    const base = {
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionIndex: log.transactionIndex,
+      logIndex: log.index,
+      transactionHash: log.transactionHash,
+    };
+
+    switch (parsed.name) {
+      case 'Delegated':
+        return {
+          type: 'Delegated',
+          delegator: parsed.args[0],
+          delegate: parsed.args[1],
+          topicId: Number(parsed.args[2]),
+          timestamp: Number(parsed.args[3]),
+          ...base,
+        };
+      case 'Revoked':
+      case 'DeadEndDeclared':
+      case 'DeadEndRevoked':
+        return {
+          type: parsed.name,
+          delegator: parsed.args[0], // Use delegator field for consistency
+          topicId: Number(parsed.args[1]),
+          timestamp: Number(parsed.args[2]),
+          ...base,
+        };
+      default:
+        return null;
+    }
+  }
+
   /**
    * Setup event listeners for all delegation events
    */
@@ -124,6 +571,9 @@ export class ChainListener extends EventEmitter {
           topicId: Number(topicId),
           timestamp: Number(timestamp),
           blockNumber: event.log.blockNumber,
+          blockHash: event.log.blockHash,
+          transactionIndex: event.log.transactionIndex,
+          logIndex: event.log.index,
           transactionHash: event.log.transactionHash,
         };
 
@@ -133,8 +583,7 @@ export class ChainListener extends EventEmitter {
           topicId: delegationEvent.topicId,
         });
 
-        this.emit('delegation-event', delegationEvent);
-        this.lastProcessedBlock = event.log.blockNumber;
+        this._handleLiveEvent(delegationEvent, event.log);
       }
     );
 
@@ -148,6 +597,9 @@ export class ChainListener extends EventEmitter {
           topicId: Number(topicId),
           timestamp: Number(timestamp),
           blockNumber: event.log.blockNumber,
+          blockHash: event.log.blockHash,
+          transactionIndex: event.log.transactionIndex,
+          logIndex: event.log.index,
           transactionHash: event.log.transactionHash,
         };
 
@@ -156,8 +608,7 @@ export class ChainListener extends EventEmitter {
           topicId: delegationEvent.topicId,
         });
 
-        this.emit('delegation-event', delegationEvent);
-        this.lastProcessedBlock = event.log.blockNumber;
+        this._handleLiveEvent(delegationEvent, event.log);
       }
     );
 
@@ -171,6 +622,9 @@ export class ChainListener extends EventEmitter {
           topicId: Number(topicId),
           timestamp: Number(timestamp),
           blockNumber: event.log.blockNumber,
+          blockHash: event.log.blockHash,
+          transactionIndex: event.log.transactionIndex,
+          logIndex: event.log.index,
           transactionHash: event.log.transactionHash,
         };
 
@@ -179,8 +633,7 @@ export class ChainListener extends EventEmitter {
           topicId: delegationEvent.topicId,
         });
 
-        this.emit('delegation-event', delegationEvent);
-        this.lastProcessedBlock = event.log.blockNumber;
+        this._handleLiveEvent(delegationEvent, event.log);
       }
     );
 
@@ -194,6 +647,9 @@ export class ChainListener extends EventEmitter {
           topicId: Number(topicId),
           timestamp: Number(timestamp),
           blockNumber: event.log.blockNumber,
+          blockHash: event.log.blockHash,
+          transactionIndex: event.log.transactionIndex,
+          logIndex: event.log.index,
           transactionHash: event.log.transactionHash,
         };
 
@@ -202,8 +658,7 @@ export class ChainListener extends EventEmitter {
           topicId: delegationEvent.topicId,
         });
 
-        this.emit('delegation-event', delegationEvent);
-        this.lastProcessedBlock = event.log.blockNumber;
+        this._handleLiveEvent(delegationEvent, event.log);
       }
     );
   }
@@ -211,71 +666,41 @@ export class ChainListener extends EventEmitter {
   /**
    * Fetch historical events for a topic
    *
+   * Covers Delegated, Revoked, DeadEndDeclared and DeadEndRevoked, paged
+   * through adaptive block ranges. Replaying the result in order reproduces
+   * the on-chain delegation and dead-end state for the topic.
+   *
    * @param topicId Topic ID to fetch events for
    * @param fromBlock Starting block number
    * @param toBlock Ending block number (default: latest)
-   * @returns Array of delegation events
+   * @returns Array of delegation events in on-chain order
    */
   async fetchHistoricalEvents(
     topicId: number,
     fromBlock: number,
     toBlock?: number
   ): Promise<DelegationEvent[]> {
-    const events: DelegationEvent[] = [];
-
-    const currentBlock = toBlock || (await this.provider.getBlockNumber());
+    const currentBlock = toBlock ?? (await this.provider.getBlockNumber());
+    const topicHash = ethers.toBeHex(topicId, 32);
 
     console.log(
       `[ChainListener] Fetching historical events for topic ${topicId} from block ${fromBlock} to ${currentBlock}`
     );
 
-    // Fetch Delegated events
-    const delegatedFilter = this.delegationManager.filters.Delegated(null, null, topicId);
-    const delegatedEvents = await this.delegationManager.queryFilter(
-      delegatedFilter,
-      fromBlock,
-      currentBlock
-    );
-
-    for (const event of delegatedEvents) {
-      const args = event.args;
-      if (args) {
-        events.push({
-          type: 'Delegated',
-          delegator: args[0],
-          delegate: args[1],
-          topicId: Number(args[2]),
-          timestamp: Number(args[3]),
-          blockNumber: event.blockNumber,
-          transactionHash: event.transactionHash,
-        });
-      }
-    }
-
-    // Fetch Revoked events
-    const revokedFilter = this.delegationManager.filters.Revoked(null, topicId);
-    const revokedEvents = await this.delegationManager.queryFilter(
-      revokedFilter,
-      fromBlock,
-      currentBlock
-    );
+    // topicId is the third indexed argument of Delegated, the second of the others
+    const filters: Array<Array<string | string[] | null>> = [
+      [this._eventTopics(['Delegated']), null, null, topicHash],
+      [this._eventTopics(['Revoked', 'DeadEndDeclared', 'DeadEndRevoked']), null, topicHash],
+    ];
 
-    for (const event of revokedEvents) {
-      const args = event.args;
-      if (args) {
-        events.push({
-          type: 'Revoked',
-          delegator: args[0],
-          topicId: Number(args[1]),
-          timestamp: Number(args[2]),
-          blockNumber: event.blockNumber,
-          transactionHash: event.transactionHash,
-        });
+    const logs: ethers.Log[] = [];
+    for (const topics of filters) {
+      for await (const page of this._fetchLogPages(topics, fromBlock, currentBlock)) {
+        logs.push(...page.logs);
       }
     }
 
-    // Sort by block number and transaction index
-    events.sort((a, b) => a.blockNumber - b.blockNumber);
+    const events = this._parseLogs(logs);
 
     console.log(`[ChainListener] Found ${events.length} historical events`);
 
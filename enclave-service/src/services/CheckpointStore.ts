@@ -0,0 +1,122 @@
+/**
+ * CheckpointStore Service
+ *
+ * Persists the processed event cursor together with the reconstructed
+ * per-topic delegation state so the operator can resume after a restart
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Position of the last applied event
+ * logIndex is -1 when no event of blockNumber has been applied yet
+ */
+export interface EventCursor {
+  blockNumber: number;
+  logIndex: number;
+}
+
+export interface SerializedTopicState {
+  delegations: Array<[string, string]>;
+  deadEnds: string[];
+}
+
+/** Undo record for one applied event */
+export interface SerializedJournalEntry {
+  cursor: EventCursor;
+  topicId: number;
+  subject: string;
+  /** null if the subject had no delegation before the event */
+  previousDelegate: string | null;
+  wasDeadEnd: boolean;
+}
+
+export interface SerializedJournal {
+  /** Events up to this block are no longer journaled */
+  prunedThrough: number;
+  /** Oldest first */
+  entries: SerializedJournalEntry[];
+}
+
+export interface Checkpoint {
+  version: number;
+  cursor: EventCursor;
+  topics: Record<string, SerializedTopicState>;
+  /** Undo journal, so a reorg reaching before the cursor can still be rolled back after a restart */
+  journal?: SerializedJournal;
+  /** Topics changed since their last attestation (batched or not yet synced) */
+  pendingTopics?: number[];
+  /** topicId => last result hash this operator saw accepted */
+  attestedHashes?: Record<string, string>;
+  updatedAt: number;
+}
+
+export const CHECKPOINT_VERSION = 1;
+
+/**
+ * Compare two cursors
+ *
+ * @returns Negative if a is before b, positive if after, 0 if equal
+ */
+export function compareCursors(a: EventCursor, b: EventCursor): number {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
+
+/**
+ * CheckpointStore backed by a local JSON file
+ */
+export class CheckpointStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Load the checkpoint from disk
+   *
+   * @returns Checkpoint, or null if none has been written yet
+   */
+  async load(): Promise<Checkpoint | null> {
+    let raw: string;
+
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const checkpoint = JSON.parse(raw) as Checkpoint;
+
+    if (checkpoint.version !== CHECKPOINT_VERSION) {
+      throw new Error(`Unsupported checkpoint version ${checkpoint.version} in ${this.filePath}`);
+    }
+
+    return checkpoint;
+  }
+
+  /**
+   * Write the checkpoint atomically (temp file + rename)
+   * A crash mid-write leaves the previous checkpoint intact
+   *
+   * @param checkpoint Checkpoint to persist
+   */
+  async save(checkpoint: Checkpoint): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(checkpoint), 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  /**
+   * Get checkpoint file path
+   */
+  getPath(): string {
+    return this.filePath;
+  }
+}
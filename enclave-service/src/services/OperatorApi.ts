@@ -0,0 +1,337 @@
+/**
+ * OperatorApi Service
+ *
+ * Small HTTP status and control API for enclave operators.
+ *
+ * GET  /health                   liveness
+ * GET  /ready                    readiness (listener synced with the chain)
+ * GET  /status                   full operator status
+ * GET  /topics/:id               status of one topic
+ * GET  /topics/:id/proofs/:address power proof of a delegate against the topic's power root
+ * GET  /attestation?nonce=0x..   attestation report binding the build to the operator key
+ * GET  /queue                    pending batches and in-flight attestation rounds
+ * GET  /balance                  operator gas balance
+ * GET  /metrics                  Prometheus metrics (if configured)
+ * POST /topics/:id/recompute     attest a topic now, bypassing the batch window
+ * POST /pause                    stop starting attestation rounds
+ * POST /resume                   resume attestation rounds
+ *
+ * POST endpoints require `Authorization: Bearer <token>` and are disabled
+ * when no token is configured.
+ */
+
+import http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { ethers } from 'ethers';
+import type { EndpointStatus } from '@liquid-democracy-engine/rpc-provider';
+import type { SignerBackend } from '../signers/OperatorKey.js';
+import type { AttestationReport } from '@liquid-democracy-engine/attestation-report';
+import type { PendingBatch } from './RewardBatcher.js';
+import type { OperatorMetrics } from './OperatorMetrics.js';
+
+/**
+ * Outcome of the last attestation attempt for a topic
+ */
+export interface SubmissionRecord {
+  resultHash: string;
+  blockNumber: number;
+  status: 'accepted' | 'rejected' | 'failed';
+  transactionHash?: string;
+  error?: string;
+  updatedAt: number;
+}
+
+export interface TopicStatus {
+  topicId: number;
+  /** Block of the last delegation event applied for the topic */
+  lastEventBlock: number | null;
+  lastSubmission: SubmissionRecord | null;
+}
+
+export interface AttestationRound {
+  topicId: number;
+  blockNumber: number;
+  startedAt: number;
+}
+
+export interface OperatorStatus {
+  operator: string;
+  running: boolean;
+  synced: boolean;
+  paused: boolean;
+  /** Enclave public key to register with VotePowerVerifier.addOperator (64 bytes, hex) */
+  publicKey: string;
+  signerBackend: SignerBackend;
+  /** Last block whose events have been applied to topic state */
+  appliedBlock: number | null;
+  /** Last confirmed block the listener has processed */
+  lastProcessedBlock: number;
+  /** RPC endpoint health, healthiest first */
+  rpcEndpoints: EndpointStatus[];
+  topics: TopicStatus[];
+}
+
+export interface OperatorQueue {
+  /** Topics waiting for their batch window */
+  batches: PendingBatch[];
+  /** Rounds collecting signatures or submitting */
+  rounds: AttestationRound[];
+  /** Topics changed while unsynced or paused */
+  deferredTopics: number[];
+  /** Live events not yet confirmed */
+  unconfirmedEvents: number;
+}
+
+/**
+ * Merkle proof of a delegate's power, claimable with VotePowerVerifier.claimVotingPower
+ */
+export interface PowerProofRecord {
+  topicId: number;
+  root: string;
+  /** Attested hash: keccak256(abi.encode(root, delegateCount, totalPower)) */
+  commitment: string;
+  address: string;
+  /** Voting power (uint256, decimal) */
+  power: string;
+  proof: string[];
+}
+
+export interface OperatorBalance {
+  address: string;
+  balance: string;
+  sufficient: boolean;
+}
+
+/**
+ * Operator surface exposed through the API (implemented by EnclaveOperator)
+ */
+export interface OperatorControl {
+  getStatus(): OperatorStatus;
+  getQueue(): OperatorQueue;
+  getBalance(): Promise<OperatorBalance>;
+  getPowerProof(topicId: number, address: string): PowerProofRecord | null;
+  getAttestationReport(nonce?: string): Promise<AttestationReport>;
+  /** Returns false for topics the operator does not attest */
+  requestRecompute(topicId: number): boolean;
+  pause(): void;
+  resume(): void;
+}
+
+export interface OperatorApiConfig {
+  port: number;
+  host?: string;
+  /** Bearer token for POST endpoints; control endpoints are disabled if unset */
+  authToken?: string;
+  operator: OperatorControl;
+  metrics?: OperatorMetrics;
+}
+
+class HttpError extends Error {
+  constructor(
+    public statusCode: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * OperatorApi HTTP server
+ */
+export class OperatorApi {
+  private port: number;
+  private host: string;
+  private authToken: Buffer | null;
+  private operator: OperatorControl;
+  private metrics: OperatorMetrics | null;
+  private server: http.Server | null = null;
+
+  constructor(config: OperatorApiConfig) {
+    this.port = config.port;
+    this.host = config.host || '127.0.0.1';
+    this.authToken = config.authToken ? Buffer.from(config.authToken) : null;
+    this.operator = config.operator;
+    this.metrics = config.metrics || null;
+  }
+
+  /**
+   * Start serving requests
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error: any) => {
+        const statusCode = error instanceof HttpError ? error.statusCode : 500;
+        if (statusCode === 500) {
+          console.error('[OperatorApi] Request failed:', error.message);
+        }
+        this.send(res, statusCode, { error: error.message });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+
+    console.log(`[OperatorApi] Listening on http://${this.host}:${this.getPort()}`);
+    if (!this.authToken) {
+      console.warn('  Control endpoints disabled (no OPERATOR_API_TOKEN)');
+    }
+  }
+
+  /**
+   * Stop serving requests
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Get the port the server is bound to
+   */
+  getPort(): number {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : this.port;
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+    const segments = pathname.split('/').filter((segment) => segment.length > 0);
+    const route = `${req.method} /${segments
+      .map((s, i) => (i === 1 ? ':id' : i === 3 ? ':address' : s))
+      .join('/')}`;
+
+    if (req.method === 'GET') {
+      // Read endpoints are public; the frontend fetches reports and proofs cross-origin
+      res.setHeader('Access-Control-Allow-Origin', '*');
+    }
+
+    switch (route) {
+      case 'GET /health':
+        return this.send(res, 200, { status: 'ok' });
+
+      case 'GET /ready': {
+        const { running, synced, paused } = this.operator.getStatus();
+        const ready = running && synced;
+        return this.send(res, ready ? 200 : 503, { ready, synced, paused });
+      }
+
+      case 'GET /status':
+        return this.send(res, 200, this.operator.getStatus());
+
+      case 'GET /topics/:id': {
+        const topicId = this.parseTopicId(segments[1]);
+        const topic = this.operator.getStatus().topics.find((t) => t.topicId === topicId);
+        if (!topic) {
+          throw new HttpError(404, `Unknown topic ${topicId}`);
+        }
+        return this.send(res, 200, topic);
+      }
+
+      case 'GET /topics/:id/proofs/:address': {
+        const topicId = this.parseTopicId(segments[1]);
+        if (!ethers.isAddress(segments[3])) {
+          throw new HttpError(400, `Invalid address: ${segments[3]}`);
+        }
+        const proof = this.operator.getPowerProof(topicId, segments[3]);
+        if (!proof) {
+          throw new HttpError(404, `No power proof for ${segments[3]} in topic ${topicId}`);
+        }
+        return this.send(res, 200, proof);
+      }
+
+      case 'GET /attestation': {
+        const nonce = searchParams.get('nonce') || undefined;
+        if (nonce !== undefined && !ethers.isHexString(nonce, 32)) {
+          throw new HttpError(400, 'nonce must be 32 bytes of hex');
+        }
+        return this.send(res, 200, await this.operator.getAttestationReport(nonce));
+      }
+
+      case 'GET /queue':
+        return this.send(res, 200, this.operator.getQueue());
+
+      case 'GET /balance':
+        return this.send(res, 200, await this.operator.getBalance());
+
+      case 'GET /metrics': {
+        if (!this.metrics) {
+          throw new HttpError(404, 'Metrics are not enabled');
+        }
+        res.writeHead(200, { 'Content-Type': this.metrics.contentType });
+        res.end(await this.metrics.render());
+        return;
+      }
+
+      case 'POST /topics/:id/recompute': {
+        this.authorize(req);
+        const topicId = this.parseTopicId(segments[1]);
+        if (!this.operator.requestRecompute(topicId)) {
+          throw new HttpError(404, `Unknown topic ${topicId}`);
+        }
+        return this.send(res, 202, { topicId, queued: true });
+      }
+
+      case 'POST /pause':
+        this.authorize(req);
+        this.operator.pause();
+        return this.send(res, 200, { paused: true });
+
+      case 'POST /resume':
+        this.authorize(req);
+        this.operator.resume();
+        return this.send(res, 200, { paused: false });
+
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+  }
+
+  private authorize(req: http.IncomingMessage): void {
+    if (!this.authToken) {
+      throw new HttpError(403, 'Control endpoints are disabled');
+    }
+
+    const header = req.headers.authorization || '';
+    const provided = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+
+    if (provided.length !== this.authToken.length || !timingSafeEqual(provided, this.authToken)) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+  }
+
+  private parseTopicId(value: string): number {
+    const topicId = Number(value);
+    if (!Number.isInteger(topicId) || topicId < 0) {
+      throw new HttpError(400, `Invalid topic ID: ${value}`);
+    }
+    return topicId;
+  }
+
+  private send(res: http.ServerResponse, statusCode: number, body: unknown): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+/**
+ * Factory function to create OperatorApi
+ */
+export function createOperatorApi(config: OperatorApiConfig): OperatorApi {
+  return new OperatorApi(config);
+}
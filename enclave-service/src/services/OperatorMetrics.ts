@@ -0,0 +1,174 @@
+/**
+ * OperatorMetrics Service
+ *
+ * Prometheus metrics for enclave operators, served by OperatorApi at GET /metrics
+ */
+
+import { ethers } from 'ethers';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+const PREFIX = 'enclave_';
+
+export interface OperatorMetricsConfig {
+  /** Operator balance in wei, read on every scrape */
+  getBalance: () => Promise<bigint>;
+  /** Confirmed blocks not yet processed by the listener, read on every scrape */
+  getBackfillLag: () => Promise<number>;
+  /** Also export Node.js process metrics (default: true) */
+  defaultMetrics?: boolean;
+}
+
+/**
+ * Metric set for one operator process
+ */
+export class OperatorMetrics {
+  readonly registry: Registry;
+
+  readonly eventsReceived: Counter<'type'>;
+  readonly backfillLag: Gauge;
+  readonly computationDuration: Histogram<'topic'>;
+  readonly graphNodes: Gauge<'topic'>;
+  readonly graphEdges: Gauge<'topic'>;
+  readonly attestationsSubmitted: Counter<'topic'>;
+  readonly attestationsAccepted: Counter<'topic'>;
+  readonly attestationsRejected: Counter<'topic' | 'reason'>;
+  readonly gasUsed: Counter<'topic'>;
+  readonly operatorBalance: Gauge;
+
+  constructor(config: OperatorMetricsConfig) {
+    this.registry = new Registry();
+    const registers = [this.registry];
+
+    if (config.defaultMetrics !== false) {
+      collectDefaultMetrics({ register: this.registry, prefix: PREFIX });
+    }
+
+    this.eventsReceived = new Counter({
+      name: `${PREFIX}events_received_total`,
+      help: 'Delegation events applied to topic state, by event type',
+      labelNames: ['type'],
+      registers,
+    });
+
+    this.backfillLag = new Gauge({
+      name: `${PREFIX}backfill_lag_blocks`,
+      help: 'Confirmed blocks the chain listener has not processed yet',
+      registers,
+      async collect() {
+        try {
+          this.set(await config.getBackfillLag());
+        } catch (error: any) {
+          console.warn('[OperatorMetrics] Failed to read backfill lag:', error.message);
+        }
+      },
+    });
+
+    this.computationDuration = new Histogram({
+      name: `${PREFIX}computation_duration_seconds`,
+      help: 'Time to compute voting power and the result hash for a topic',
+      labelNames: ['topic'],
+      buckets: [0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1, 5],
+      registers,
+    });
+
+    this.graphNodes = new Gauge({
+      name: `${PREFIX}graph_nodes`,
+      help: 'Addresses participating in the topic delegation graph',
+      labelNames: ['topic'],
+      registers,
+    });
+
+    this.graphEdges = new Gauge({
+      name: `${PREFIX}graph_edges`,
+      help: 'Active delegations in the topic delegation graph',
+      labelNames: ['topic'],
+      registers,
+    });
+
+    this.attestationsSubmitted = new Counter({
+      name: `${PREFIX}attestations_submitted_total`,
+      help: 'Attestation transactions sent by this operator',
+      labelNames: ['topic'],
+      registers,
+    });
+
+    this.attestationsAccepted = new Counter({
+      name: `${PREFIX}attestations_accepted_total`,
+      help: 'Attestations sent by this operator and accepted on-chain',
+      labelNames: ['topic'],
+      registers,
+    });
+
+    this.attestationsRejected = new Counter({
+      name: `${PREFIX}attestations_rejected_total`,
+      help: 'Attestations sent by this operator and rejected, by AttestationRejected reason',
+      labelNames: ['topic', 'reason'],
+      registers,
+    });
+
+    this.gasUsed = new Counter({
+      name: `${PREFIX}gas_used_total`,
+      help: 'Gas used by attestation transactions',
+      labelNames: ['topic'],
+      registers,
+    });
+
+    this.operatorBalance = new Gauge({
+      name: `${PREFIX}operator_balance_xdai`,
+      help: 'Operator account balance available for gas',
+      registers,
+      async collect() {
+        try {
+          this.set(Number(ethers.formatEther(await config.getBalance())));
+        } catch (error: any) {
+          console.warn('[OperatorMetrics] Failed to read operator balance:', error.message);
+        }
+      },
+    });
+  }
+
+  /**
+   * Record the outcome of an attestation transaction sent by this operator
+   *
+   * @param topicId Topic ID
+   * @param accepted Whether the attestation was accepted
+   * @param gasUsed Gas used by the transaction
+   * @param reason AttestationRejected reason (if rejected)
+   */
+  recordSubmission(topicId: number, accepted: boolean, gasUsed?: bigint, reason?: string): void {
+    const topic = String(topicId);
+
+    this.attestationsSubmitted.inc({ topic });
+
+    if (accepted) {
+      this.attestationsAccepted.inc({ topic });
+    } else {
+      this.attestationsRejected.inc({ topic, reason: reason || 'unknown' });
+    }
+
+    if (gasUsed !== undefined) {
+      this.gasUsed.inc({ topic }, Number(gasUsed));
+    }
+  }
+
+  /**
+   * Render metrics in the Prometheus text exposition format
+   */
+  async render(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  /**
+   * Content type of render() output
+   */
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+}
+
+/**
+ * Factory function to create OperatorMetrics
+ */
+export function createOperatorMetrics(config: OperatorMetricsConfig): OperatorMetrics {
+  return new OperatorMetrics(config);
+}
@@ -2,16 +2,55 @@
  * ResultSubmitter Service
  *
  * Submits enclave attestations to VotePowerVerifier contract
- * Handles transaction signing and submission
+ * Handles transaction signing and submission; the transaction lifecycle
+ * (nonces, re-pricing, cancellation, persistence) is owned by TransactionManager.
+ * Results too large for one transaction are submitted as a Merkle root
+ * commitment (see SubmissionPlanner)
  */
 
 import { ethers } from 'ethers';
+import type { RpcProvider } from '@liquid-democracy-engine/rpc-provider';
+import { SubmissionStore } from './SubmissionStore.js';
+import { TransactionManager, deriveAttestationNonce } from './TransactionManager.js';
+import {
+  VERIFIER_ERRORS_ABI,
+  decodeAttestationRevert,
+  describeAttestationRevert,
+  type AttestationRevert,
+  type SimulationResult,
+} from './VerifierErrors.js';
+import {
+  DEFAULT_SUBMISSION_LIMITS,
+  PLANNED_SIGNATURES,
+  planSubmission,
+  type SubmissionLimits,
+  type SubmissionPlan,
+} from './SubmissionPlanner.js';
+import type { OperatorKey } from '../signers/OperatorKey.js';
+
+/** Minimum operator balance (wei) considered sufficient for gas */
+export const MIN_OPERATOR_BALANCE = ethers.parseEther('0.01');
 
 export interface SubmissionResult {
   success: boolean;
   transactionHash?: string;
   error?: string;
   gasUsed?: bigint;
+  /** Nothing was submitted because the result was already attested */
+  skipped?: boolean;
+  /** Reason from the AttestationRejected event */
+  rejectionReason?: string;
+  /** Decoded revert when pre-flight simulation failed */
+  revert?: AttestationRevert;
+}
+
+/**
+ * Merkle root committed instead of the full arrays
+ */
+export interface PowerRootCommitment {
+  root: string;
+  delegateCount: number;
+  totalPower: bigint;
 }
 
 export interface AttestationData {
@@ -19,15 +58,36 @@ export interface AttestationData {
   topicId: number;
   blockNumber: number;
   signatures: string[];
-  nonce: number;
+  nonce: bigint;
   addresses: string[];
   powers: number[];
+  /** Set for large results: submitPowerRoot is called and resultHash is the root commitment */
+  powerRoot?: PowerRootCommitment;
+}
+
+/**
+ * Active operator set and signature threshold read from VotePowerVerifier
+ */
+export interface OperatorSet {
+  operators: string[];
+  threshold: number;
 }
 
 export interface ResultSubmitterConfig {
-  rpcUrl: string;
+  /** Multi-endpoint provider (shared with the chain listener) */
+  provider: RpcProvider;
   votePowerVerifierAddress: string;
-  operatorPrivateKey: string;
+  /** Operator key signing attestation transactions */
+  operator: OperatorKey;
+  /** File persisting broadcast but unsettled submissions */
+  pendingSubmissionsPath: string;
+  /** Time without inclusion before a transaction is re-priced */
+  stuckTimeout?: number;
+  feeBumpPercent?: number;
+  /** Upper bound for maxFeePerGas in wei */
+  maxFeePerGas?: bigint;
+  /** Size limits above which results are committed as a Merkle root */
+  submissionLimits?: SubmissionLimits;
 }
 
 /**
@@ -35,22 +95,30 @@ export interface ResultSubmitterConfig {
  */
 export class ResultSubmitter {
   private provider: ethers.Provider;
-  private signer: ethers.Wallet;
+  private signer: ethers.Signer;
+  private operatorAddress: string;
   private votePowerVerifier: ethers.Contract;
+  private transactions: TransactionManager;
+  private submissionLimits: SubmissionLimits;
 
-  // VotePowerVerifier ABI (submitAttestation function only)
+  // VotePowerVerifier ABI (submission and operator set)
   private static readonly ABI = [
     'function submitAttestation((bytes32 resultHash, uint256 topicId, uint256 blockNumber, bytes[] signatures, uint256 nonce) attestation, address[] addresses, uint256[] powers) external',
+    'function submitPowerRoot((bytes32 resultHash, uint256 topicId, uint256 blockNumber, bytes[] signatures, uint256 nonce) attestation, bytes32 root, uint256 delegateCount, uint256 totalPower) external',
+    'function getOperators() external view returns ((address operatorAddress, bytes enclavePublicKey, bool active, uint256 addedAt, uint256 attestationCount)[] operators, uint256 threshold, uint256 totalOperators)',
+    'event AttestationSubmitted(bytes32 indexed resultHash, uint256 indexed topicId, uint256 blockNumber, address[] operators)',
     'event AttestationAccepted(bytes32 indexed resultHash, uint256 timestamp)',
     'event AttestationRejected(bytes32 indexed resultHash, string reason)',
+    'event PowerRootCommitted(uint256 indexed topicId, bytes32 indexed attestationHash, bytes32 root, uint256 delegateCount, uint256 totalPower)',
+    ...VERIFIER_ERRORS_ABI,
   ];
 
   constructor(config: ResultSubmitterConfig) {
-    // Initialize provider
-    this.provider = new ethers.JsonRpcProvider(config.rpcUrl);
+    this.provider = config.provider;
 
     // Initialize signer
-    this.signer = new ethers.Wallet(config.operatorPrivateKey, this.provider);
+    this.signer = config.operator.signer.connect(this.provider);
+    this.operatorAddress = config.operator.address;
 
     // Initialize contract
     this.votePowerVerifier = new ethers.Contract(
@@ -59,10 +127,23 @@ export class ResultSubmitter {
       this.signer
     );
 
+    this.transactions = new TransactionManager({
+      signer: this.signer,
+      provider: this.provider,
+      store: new SubmissionStore(config.pendingSubmissionsPath),
+      findLanded: (topicId, resultHash, fromBlock) =>
+        this.findSubmittedAttestation(topicId, resultHash, fromBlock),
+      stuckTimeout: config.stuckTimeout,
+      feeBumpPercent: config.feeBumpPercent,
+      maxFeePerGas: config.maxFeePerGas,
+    });
+
+    this.submissionLimits = config.submissionLimits || DEFAULT_SUBMISSION_LIMITS;
+
     console.log('[ResultSubmitter] Initialized');
-    console.log(`  RPC: ${config.rpcUrl}`);
+    console.log(`  RPC: ${config.provider.getUrls().join(', ')}`);
     console.log(`  Contract: ${config.votePowerVerifierAddress}`);
-    console.log(`  Operator: ${this.signer.address}`);
+    console.log(`  Operator: ${this.operatorAddress} (${config.operator.backend})`);
   }
 
   /**
@@ -78,40 +159,72 @@ export class ResultSubmitter {
       console.log(`  Result Hash: ${attestation.resultHash}`);
       console.log(`  Signatures: ${attestation.signatures.length}`);
       console.log(`  Addresses: ${attestation.addresses.length}`);
+      if (attestation.powerRoot) {
+        console.log(`  Power Root: ${attestation.powerRoot.root}`);
+      }
 
-      // Prepare attestation struct
-      const attestationStruct = {
-        resultHash: attestation.resultHash,
+      // Simulate first so reverts come back typed instead of as a failed transaction
+      const simulation = await this.simulateAttestation(attestation);
+
+      if (!simulation.ok) {
+        const description = describeAttestationRevert(simulation.revert);
+        console.error(`  ❌ Simulation reverted: ${description}`);
+
+        return {
+          success: false,
+          error: `Simulation reverted: ${description}`,
+          revert: simulation.revert,
+        };
+      }
+
+      const gasEstimate = simulation.gasEstimate;
+
+      console.log(`  Estimated Gas: ${gasEstimate.toString()}`);
+
+      // Submit transaction and follow it until it settles
+      const outcome = await this.transactions.submit({
         topicId: attestation.topicId,
+        resultHash: attestation.resultHash,
         blockNumber: attestation.blockNumber,
-        signatures: attestation.signatures,
-        nonce: attestation.nonce,
-      };
+        attestationNonce: attestation.nonce,
+        to: await this.votePowerVerifier.getAddress(),
+        data: this.encodeAttestation(attestation),
+        gasLimit: gasEstimate * 120n / 100n, // Add 20% buffer
+      });
 
-      // Estimate gas
-      const gasEstimate = await this.votePowerVerifier.submitAttestation.estimateGas(
-        attestationStruct,
-        attestation.addresses,
-        attestation.powers
-      );
+      if (outcome.status === 'superseded') {
+        console.log(`  Superseded by ${outcome.landedBy}, own transaction cancelled`);
+        return { success: true, skipped: true, transactionHash: outcome.landedBy };
+      }
 
-      console.log(`  Estimated Gas: ${gasEstimate.toString()}`);
+      const receipt = outcome.receipt;
 
-      // Submit transaction
-      const tx = await this.votePowerVerifier.submitAttestation(
-        attestationStruct,
-        attestation.addresses,
-        attestation.powers,
-        {
-          gasLimit: gasEstimate * 120n / 100n, // Add 20% buffer
-        }
-      );
+      if (!receipt) {
+        return {
+          success: false,
+          error:
+            outcome.status === 'interrupted'
+              ? 'Submission interrupted, resumed after restart'
+              : 'Transaction nonce consumed by another transaction',
+        };
+      }
 
-      console.log(`  Transaction Hash: ${tx.hash}`);
-      console.log('  Waiting for confirmation...');
+      if (outcome.status === 'cancelled') {
+        return {
+          success: false,
+          error: 'Attestation block expired before inclusion, transaction cancelled',
+          gasUsed: receipt.gasUsed,
+        };
+      }
 
-      // Wait for confirmation
-      const receipt = await tx.wait();
+      if (outcome.status === 'reverted') {
+        return {
+          success: false,
+          transactionHash: receipt.hash,
+          error: 'Transaction reverted',
+          gasUsed: receipt.gasUsed,
+        };
+      }
 
       console.log(`  Confirmed in block ${receipt.blockNumber}`);
       console.log(`  Gas Used: ${receipt.gasUsed.toString()}`);
@@ -120,7 +233,8 @@ export class ResultSubmitter {
       const acceptedEvent = receipt.logs.find((log: any) => {
         try {
           const parsed = this.votePowerVerifier.interface.parseLog(log);
-          return parsed?.name === 'AttestationAccepted';
+          // Root commitments emit only PowerRootCommitted
+          return parsed?.name === 'AttestationAccepted' || parsed?.name === 'PowerRootCommitted';
         } catch {
           return false;
         }
@@ -142,8 +256,9 @@ export class ResultSubmitter {
 
         return {
           success: false,
-          transactionHash: tx.hash,
+          transactionHash: receipt.hash,
           error: `Attestation rejected: ${reason}`,
+          rejectionReason: reason,
           gasUsed: receipt.gasUsed,
         };
       }
@@ -154,7 +269,7 @@ export class ResultSubmitter {
 
       return {
         success: true,
-        transactionHash: tx.hash,
+        transactionHash: receipt.hash,
         gasUsed: receipt.gasUsed,
       };
     } catch (error: any) {
@@ -168,28 +283,172 @@ export class ResultSubmitter {
   }
 
   /**
-   * Get current nonce for attestation submission
-   * Uses block timestamp + random to ensure uniqueness
+   * Simulate the submission with eth_call and estimate its gas
+   *
+   * @param attestation Attestation data with signatures
+   * @returns Gas estimate, or the decoded revert
+   */
+  async simulateAttestation(attestation: AttestationData): Promise<SimulationResult> {
+    const { method, args } = this.toCall(attestation);
+    const submit = this.votePowerVerifier.getFunction(method);
+
+    try {
+      await submit.staticCall(...args);
+      const gasEstimate = await submit.estimateGas(...args);
+
+      return { ok: true, gasEstimate };
+    } catch (error: any) {
+      return { ok: false, revert: decodeAttestationRevert(error) };
+    }
+  }
+
+  /**
+   * Decide whether a result is submitted in full or as a Merkle root
+   * Measures the full submitAttestation calldata with worst-case placeholder
+   * signatures and nonce, so every operator reaches the same decision
    *
+   * @param addresses Canonical terminal delegates
+   * @param powers Voting powers
+   * @returns Submission plan
+   */
+  planSubmission(addresses: string[], powers: number[]): SubmissionPlan {
+    const data = this.encodeAttestation({
+      resultHash: ethers.ZeroHash,
+      topicId: 0,
+      blockNumber: 0,
+      signatures: Array(PLANNED_SIGNATURES).fill(`0x${'ff'.repeat(65)}`),
+      nonce: ethers.MaxUint256,
+      addresses,
+      powers,
+    });
+
+    return planSubmission(data, addresses.length, this.submissionLimits);
+  }
+
+  /**
+   * Get the attestation nonce for a round
+   * Derived from (topicId, blockNumber, operator) so it never collides with
+   * other operators' submissions of the same round
+   *
+   * @param topicId Topic ID
+   * @param blockNumber Attested block
+   * @param attempt Regeneration counter, raised when the nonce turns out to be used
    * @returns Nonce value
    */
-  async generateNonce(): Promise<number> {
-    const blockNumber = await this.provider.getBlockNumber();
-    const block = await this.provider.getBlock(blockNumber);
-    const timestamp = block?.timestamp || Math.floor(Date.now() / 1000);
+  generateNonce(topicId: number, blockNumber: number, attempt: number = 0): bigint {
+    return deriveAttestationNonce(topicId, blockNumber, this.operatorAddress, attempt);
+  }
+
+  /**
+   * Resume watching submissions left pending by a previous run
+   *
+   * @returns Number of resumed submissions
+   */
+  async resumePendingSubmissions(): Promise<number> {
+    return this.transactions.resume();
+  }
 
-    // Combine timestamp with random value for uniqueness
-    const randomPart = Math.floor(Math.random() * 1000000);
-    const nonce = timestamp * 1000000 + randomPart;
+  /**
+   * Stop watching pending transactions; they are resumed after restart
+   */
+  async stop(): Promise<void> {
+    await this.transactions.stop();
+  }
 
-    return nonce;
+  /**
+   * Get the active operators and the signature threshold from the contract
+   *
+   * @returns Active operator addresses (lowercase) and threshold
+   */
+  async getOperatorSet(): Promise<OperatorSet> {
+    const [operators, threshold] = await this.votePowerVerifier.getOperators();
+
+    return {
+      operators: operators
+        .filter((operator: any) => operator.active)
+        .map((operator: any) => (operator.operatorAddress as string).toLowerCase()),
+      threshold: Number(threshold),
+    };
+  }
+
+  /**
+   * Get the enclave public key registered for this operator
+   *
+   * @returns Registered public key (hex), or null if the operator is not registered
+   */
+  async getRegisteredPublicKey(): Promise<string | null> {
+    const [operators] = await this.votePowerVerifier.getOperators();
+    const registration = operators.find(
+      (operator: any) => ethers.getAddress(operator.operatorAddress) === this.operatorAddress
+    );
+
+    return registration ? ethers.hexlify(registration.enclavePublicKey) : null;
+  }
+
+  /**
+   * Find an accepted attestation for a result hash
+   * Used by backup submitters to check whether the elected operator already landed it
+   *
+   * @param topicId Topic ID
+   * @param resultHash Result hash
+   * @param fromBlock First block to search
+   * @returns Transaction hash of the accepted attestation, or null if none
+   */
+  async findSubmittedAttestation(
+    topicId: number,
+    resultHash: string,
+    fromBlock: number
+  ): Promise<string | null> {
+    const events = await this.votePowerVerifier.queryFilter(
+      this.votePowerVerifier.filters.AttestationSubmitted(resultHash, topicId),
+      fromBlock
+    );
+
+    return events.length > 0 ? events[events.length - 1].transactionHash : null;
+  }
+
+  /**
+   * Build the submitAttestation or submitPowerRoot call
+   */
+  private toCall(attestation: AttestationData): {
+    method: 'submitAttestation' | 'submitPowerRoot';
+    args: unknown[];
+  } {
+    const header = {
+      resultHash: attestation.resultHash,
+      topicId: attestation.topicId,
+      blockNumber: attestation.blockNumber,
+      signatures: attestation.signatures,
+      nonce: attestation.nonce,
+    };
+    const powerRoot = attestation.powerRoot;
+
+    if (powerRoot) {
+      return {
+        method: 'submitPowerRoot',
+        args: [header, powerRoot.root, powerRoot.delegateCount, powerRoot.totalPower],
+      };
+    }
+
+    return {
+      method: 'submitAttestation',
+      args: [header, attestation.addresses, attestation.powers],
+    };
+  }
+
+  /**
+   * Encode the submission calldata
+   */
+  private encodeAttestation(attestation: AttestationData): string {
+    const { method, args } = this.toCall(attestation);
+    return this.votePowerVerifier.interface.encodeFunctionData(method, args);
   }
 
   /**
    * Get operator address
    */
   getOperatorAddress(): string {
-    return this.signer.address;
+    return this.operatorAddress;
   }
 
   /**
@@ -198,8 +457,8 @@ export class ResultSubmitter {
    * @param minBalance Minimum balance required in wei
    * @returns Whether operator has sufficient balance
    */
-  async checkBalance(minBalance: bigint = ethers.parseEther('0.01')): Promise<boolean> {
-    const balance = await this.provider.getBalance(this.signer.address);
+  async checkBalance(minBalance: bigint = MIN_OPERATOR_BALANCE): Promise<boolean> {
+    const balance = await this.getBalance();
 
     console.log(`[ResultSubmitter] Operator balance: ${ethers.formatEther(balance)} ETH`);
 
@@ -213,6 +472,13 @@ export class ResultSubmitter {
     return true;
   }
 
+  /**
+   * Get operator balance in wei
+   */
+  async getBalance(): Promise<bigint> {
+    return this.provider.getBalance(this.operatorAddress);
+  }
+
   /**
    * Get current gas price
    */
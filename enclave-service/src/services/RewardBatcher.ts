@@ -0,0 +1,151 @@
+/**
+ * RewardBatcher Service
+ *
+ * Coalesces delegation changes per topic so attestations (and the reward
+ * flow updates they trigger in RewardDistributor) are submitted in batches
+ * rather than once per delegate/revoke transaction (FR-012).
+ *
+ * A topic is flushed once no change has arrived for `window` ms, and never
+ * later than `maxLatency` ms after its first unflushed change.
+ */
+
+/** Default quiet period before a batch is flushed */
+export const DEFAULT_BATCH_WINDOW_MS = 60_000;
+
+/** Default upper bound from first change to flush (leaves headroom in the 5-minute SC-006 target) */
+export const DEFAULT_BATCH_MAX_LATENCY_MS = 240_000;
+
+export interface RewardBatcherConfig {
+  window?: number;
+  maxLatency?: number;
+  /** Called when a topic's batch is due */
+  onFlush: (topicId: number) => void;
+}
+
+/**
+ * Unflushed changes for one topic
+ */
+export interface PendingBatch {
+  topicId: number;
+  changes: number;
+  firstChangeAt: number;
+  lastChangeAt: number;
+  dueAt: number;
+}
+
+interface BatchState extends PendingBatch {
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * RewardBatcher debouncing per-topic recomputation
+ */
+export class RewardBatcher {
+  private window: number;
+  private maxLatency: number;
+  private onFlush: (topicId: number) => void;
+  private batches: Map<number, BatchState> = new Map();
+
+  constructor(config: RewardBatcherConfig) {
+    this.window = config.window ?? DEFAULT_BATCH_WINDOW_MS;
+    this.maxLatency = config.maxLatency ?? DEFAULT_BATCH_MAX_LATENCY_MS;
+    this.onFlush = config.onFlush;
+
+    if (this.window > this.maxLatency) {
+      throw new Error(
+        `Batch window (${this.window}ms) must not exceed max latency (${this.maxLatency}ms)`
+      );
+    }
+  }
+
+  /**
+   * Record a change to a topic and (re)arm its flush timer
+   *
+   * @param topicId Topic ID
+   */
+  schedule(topicId: number): void {
+    const now = Date.now();
+    const existing = this.batches.get(topicId);
+
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+
+    const firstChangeAt = existing?.firstChangeAt ?? now;
+    const dueAt = Math.min(now + this.window, firstChangeAt + this.maxLatency);
+
+    this.batches.set(topicId, {
+      topicId,
+      changes: (existing?.changes ?? 0) + 1,
+      firstChangeAt,
+      lastChangeAt: now,
+      dueAt,
+      timer: setTimeout(() => this.flush(topicId), Math.max(0, dueAt - now)),
+    });
+  }
+
+  /**
+   * Flush a topic immediately
+   *
+   * @param topicId Topic ID
+   * @returns Whether the topic had pending changes
+   */
+  flush(topicId: number): boolean {
+    const batch = this.batches.get(topicId);
+    if (!batch) {
+      return false;
+    }
+
+    clearTimeout(batch.timer);
+    this.batches.delete(topicId);
+
+    console.log(
+      `[RewardBatcher] Flushing topic ${topicId} (${batch.changes} changes over ` +
+        `${Date.now() - batch.firstChangeAt}ms)`
+    );
+
+    this.onFlush(topicId);
+    return true;
+  }
+
+  /**
+   * Flush every topic with pending changes
+   */
+  flushAll(): void {
+    for (const topicId of Array.from(this.batches.keys())) {
+      this.flush(topicId);
+    }
+  }
+
+  /**
+   * Get batches waiting to be flushed, soonest first
+   */
+  getPending(): PendingBatch[] {
+    return Array.from(this.batches.values(), ({ timer: _timer, ...batch }) => batch).sort(
+      (a, b) => a.dueAt - b.dueAt
+    );
+  }
+
+  /**
+   * Drop all pending batches without flushing
+   *
+   * @returns Topic IDs that were pending
+   */
+  clear(): number[] {
+    const topicIds = Array.from(this.batches.keys());
+
+    for (const batch of this.batches.values()) {
+      clearTimeout(batch.timer);
+    }
+    this.batches.clear();
+
+    return topicIds;
+  }
+}
+
+/**
+ * Factory function to create RewardBatcher
+ */
+export function createRewardBatcher(config: RewardBatcherConfig): RewardBatcher {
+  return new RewardBatcher(config);
+}
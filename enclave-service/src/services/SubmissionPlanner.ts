@@ -0,0 +1,113 @@
+/**
+ * SubmissionPlanner
+ *
+ * Decides whether a topic result fits in a single submitAttestation
+ * transaction or has to be committed as a Merkle root (submitPowerRoot) with
+ * per-delegate proofs claimed later.
+ *
+ * The decision changes the hash operators sign, so it must be identical on
+ * every operator: it only depends on the result and the configured limits,
+ * never on RPC gas estimates or the current fee market.
+ */
+
+/** Signatures planned for (VotePowerVerifier.ATTESTATION_THRESHOLD) */
+export const PLANNED_SIGNATURES = 3;
+
+/** Intrinsic transaction gas */
+const TX_BASE_GAS = 21_000;
+
+/** Nonce bookkeeping, operator lookups and events of one attestation */
+const ATTESTATION_BASE_GAS = 100_000;
+
+/** ecrecover, operator checks and attestation counter per signature */
+const SIGNATURE_GAS = 10_000;
+
+/** Fresh voting power cache entry plus reward flow update per delegate */
+const DELEGATE_GAS = 120_000;
+
+/** Calldata gas per zero / non-zero byte */
+const ZERO_BYTE_GAS = 4;
+const NONZERO_BYTE_GAS = 16;
+
+/**
+ * Limits a full attestation must stay within
+ * Operators of one deployment must use the same values
+ */
+export interface SubmissionLimits {
+  /** Below the 128 KiB transaction pool size limit of common clients */
+  maxCalldataBytes: number;
+  /** Gas budget for one transaction, well under the block gas limit */
+  maxGas: number;
+}
+
+export const DEFAULT_SUBMISSION_LIMITS: SubmissionLimits = {
+  maxCalldataBytes: 120_000,
+  maxGas: 15_000_000,
+};
+
+export interface SubmissionPlan {
+  /** 'full' submits the arrays, 'root' commits a Merkle root */
+  mode: 'full' | 'root';
+  /** Size of the full submitAttestation calldata */
+  calldataBytes: number;
+  /** Estimated gas of the full submission */
+  estimatedGas: number;
+}
+
+/**
+ * Measure calldata size and its intrinsic gas
+ *
+ * @param data Hex encoded calldata
+ * @returns Byte length and calldata gas
+ */
+export function measureCalldata(data: string): { bytes: number; gas: number } {
+  const hex = data.startsWith('0x') ? data.slice(2) : data;
+  let gas = 0;
+
+  for (let i = 0; i < hex.length; i += 2) {
+    gas += hex.slice(i, i + 2) === '00' ? ZERO_BYTE_GAS : NONZERO_BYTE_GAS;
+  }
+
+  return { bytes: hex.length / 2, gas };
+}
+
+/**
+ * Estimate the gas of a full submitAttestation
+ *
+ * @param calldataGas Intrinsic calldata gas
+ * @param delegateCount Number of terminal delegates
+ * @param signatureCount Number of operator signatures
+ */
+export function estimateAttestationGas(
+  calldataGas: number,
+  delegateCount: number,
+  signatureCount: number = PLANNED_SIGNATURES
+): number {
+  return (
+    TX_BASE_GAS +
+    calldataGas +
+    ATTESTATION_BASE_GAS +
+    signatureCount * SIGNATURE_GAS +
+    delegateCount * DELEGATE_GAS
+  );
+}
+
+/**
+ * Plan the submission of a result
+ *
+ * @param data Full submitAttestation calldata
+ * @param delegateCount Number of terminal delegates
+ * @param limits Calldata and gas limits
+ * @returns Submission mode with the measured size and estimated gas
+ */
+export function planSubmission(
+  data: string,
+  delegateCount: number,
+  limits: SubmissionLimits = DEFAULT_SUBMISSION_LIMITS
+): SubmissionPlan {
+  const calldata = measureCalldata(data);
+  const estimatedGas = estimateAttestationGas(calldata.gas, delegateCount);
+  const fits = calldata.bytes <= limits.maxCalldataBytes && estimatedGas <= limits.maxGas;
+
+  return { mode: fits ? 'full' : 'root', calldataBytes: calldata.bytes, estimatedGas };
+}
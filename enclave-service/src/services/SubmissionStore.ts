@@ -0,0 +1,103 @@
+/**
+ * SubmissionStore Service
+ *
+ * Persists attestation transactions that have been broadcast but not yet
+ * settled, so a restarted operator keeps watching (and re-pricing or
+ * cancelling) them instead of leaving their account nonces stuck
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * One broadcast of a pending submission
+ * Every attempt shares the submission's account nonce; later attempts replace earlier ones
+ */
+export interface SubmissionAttempt {
+  hash: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  /** Zero-value self-transfer replacing the attestation */
+  cancel: boolean;
+  sentAt: number;
+}
+
+export interface PendingSubmission {
+  topicId: number;
+  resultHash: string;
+  blockNumber: number;
+  /** Attestation nonce (uint256, decimal) */
+  attestationNonce: string;
+  to: string;
+  data: string;
+  gasLimit: string;
+  /** Account nonce shared by all attempts */
+  nonce: number;
+  attempts: SubmissionAttempt[];
+  createdAt: number;
+}
+
+interface SubmissionFile {
+  version: number;
+  submissions: PendingSubmission[];
+}
+
+export const SUBMISSION_STORE_VERSION = 1;
+
+/**
+ * SubmissionStore backed by a local JSON file
+ */
+export class SubmissionStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Load pending submissions from disk
+   *
+   * @returns Pending submissions (empty if none have been written yet)
+   */
+  async load(): Promise<PendingSubmission[]> {
+    let raw: string;
+
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const file = JSON.parse(raw) as SubmissionFile;
+
+    if (file.version !== SUBMISSION_STORE_VERSION) {
+      throw new Error(`Unsupported submission store version ${file.version} in ${this.filePath}`);
+    }
+
+    return file.submissions;
+  }
+
+  /**
+   * Write pending submissions atomically (temp file + rename)
+   *
+   * @param submissions Submissions still awaiting settlement
+   */
+  async save(submissions: PendingSubmission[]): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+    const file: SubmissionFile = { version: SUBMISSION_STORE_VERSION, submissions };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(file), 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  /**
+   * Get store file path
+   */
+  getPath(): string {
+    return this.filePath;
+  }
+}
@@ -0,0 +1,502 @@
+/**
+ * TransactionManager Service
+ *
+ * Owns the lifecycle of attestation transactions sent by this operator:
+ * - reserves account nonces so concurrent rounds never reuse one
+ * - persists every broadcast so pending transactions survive a restart
+ * - re-prices stuck transactions with EIP-1559 fee bumps
+ * - cancels its own transaction (zero-value self-transfer at the same nonce)
+ *   when another operator already landed the same result hash, or when the
+ *   attestation block is too old to be accepted anymore
+ */
+
+import { ethers } from 'ethers';
+import type { PendingSubmission, SubmissionAttempt, SubmissionStore } from './SubmissionStore.js';
+
+/** Mirrors VotePowerVerifier.MAX_BLOCK_AGE */
+export const MAX_BLOCK_AGE = 100;
+
+export const DEFAULT_POLL_INTERVAL_MS = 5000;
+export const DEFAULT_STUCK_TIMEOUT_MS = 60000;
+
+/** Nodes require at least +10% on both fee fields to accept a replacement */
+export const DEFAULT_FEE_BUMP_PERCENT = 20;
+
+const CANCEL_GAS_LIMIT = 21000n;
+
+/**
+ * Final state of a managed submission
+ * - confirmed: the attestation transaction was mined successfully
+ * - reverted: the attestation transaction was mined but reverted
+ * - superseded: another operator landed the result hash; ours was cancelled
+ * - cancelled: ours was cancelled because the attestation block expired
+ * - dropped: the account nonce was consumed by a transaction we did not send
+ * - interrupted: the manager stopped first; watching resumes after restart
+ */
+export type SubmissionStatus =
+  | 'confirmed'
+  | 'reverted'
+  | 'superseded'
+  | 'cancelled'
+  | 'dropped'
+  | 'interrupted';
+
+export interface SubmissionOutcome {
+  status: SubmissionStatus;
+  /** Mined transaction of ours (attestation or cancellation) */
+  receipt?: ethers.TransactionReceipt;
+  /** Transaction that landed the result hash when superseded */
+  landedBy?: string;
+}
+
+export interface SubmissionRequest {
+  topicId: number;
+  resultHash: string;
+  blockNumber: number;
+  attestationNonce: bigint;
+  to: string;
+  data: string;
+  gasLimit: bigint;
+}
+
+export interface TransactionManagerConfig {
+  signer: Pick<ethers.Signer, 'getAddress' | 'sendTransaction'>;
+  provider: Pick<
+    ethers.Provider,
+    'getBlockNumber' | 'getFeeData' | 'getTransactionCount' | 'getTransactionReceipt'
+  >;
+  store: SubmissionStore;
+  /** Find an accepted attestation of a result hash (any submitter) from a block on */
+  findLanded: (topicId: number, resultHash: string, fromBlock: number) => Promise<string | null>;
+  pollInterval?: number;
+  /** Time without inclusion before an attempt is re-priced */
+  stuckTimeout?: number;
+  feeBumpPercent?: number;
+  /** Upper bound for maxFeePerGas (unbounded if unset) */
+  maxFeePerGas?: bigint;
+}
+
+interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * Derive the attestation nonce for a submission
+ * Unique per (topic, block, operator), so operators racing on the same
+ * result never collide and a retry of the same round reuses its nonce
+ *
+ * @param topicId Topic ID
+ * @param blockNumber Attested block
+ * @param operator Submitting operator address
+ * @param attempt Regeneration counter for a nonce found already used
+ * @returns uint256 nonce
+ */
+export function deriveAttestationNonce(
+  topicId: number,
+  blockNumber: number,
+  operator: string,
+  attempt: number = 0
+): bigint {
+  return BigInt(
+    ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ['uint256', 'uint256', 'address', 'uint256'],
+        [topicId, blockNumber, operator, attempt]
+      )
+    )
+  );
+}
+
+/**
+ * Raise a fee by a percentage, rounding up
+ */
+function bump(value: bigint, percent: number): bigint {
+  return (value * BigInt(100 + percent) + 99n) / 100n;
+}
+
+/**
+ * TransactionManager for attestation submissions
+ */
+export class TransactionManager {
+  private signer: TransactionManagerConfig['signer'];
+  private provider: TransactionManagerConfig['provider'];
+  private store: SubmissionStore;
+  private findLanded: TransactionManagerConfig['findLanded'];
+  private pollInterval: number;
+  private stuckTimeout: number;
+  private feeBumpPercent: number;
+  private maxFeePerGas?: bigint;
+
+  /** attestationNonce => submission being watched */
+  private pending: Map<string, PendingSubmission> = new Map();
+  private nextNonce: number | null = null;
+  private address: string | null = null;
+  private isRunning: boolean = true;
+  private sleepers: Set<() => void> = new Set();
+  private resumed: Set<Promise<SubmissionOutcome>> = new Set();
+
+  /** Serializes writes to the store */
+  private persisting: Promise<void> = Promise.resolve();
+
+  constructor(config: TransactionManagerConfig) {
+    this.signer = config.signer;
+    this.provider = config.provider;
+    this.store = config.store;
+    this.findLanded = config.findLanded;
+    this.pollInterval = config.pollInterval ?? DEFAULT_POLL_INTERVAL_MS;
+    this.stuckTimeout = config.stuckTimeout ?? DEFAULT_STUCK_TIMEOUT_MS;
+    this.feeBumpPercent = config.feeBumpPercent ?? DEFAULT_FEE_BUMP_PERCENT;
+    this.maxFeePerGas = config.maxFeePerGas;
+
+    if (this.feeBumpPercent < 10) {
+      throw new Error('feeBumpPercent must be at least 10');
+    }
+  }
+
+  /**
+   * Resume watching submissions persisted by a previous run
+   * Watching continues in the background; settled submissions are removed from the store
+   *
+   * @returns Number of resumed submissions
+   */
+  async resume(): Promise<number> {
+    const submissions = await this.store.load();
+
+    for (const submission of submissions) {
+      this.pending.set(submission.attestationNonce, submission);
+      this.nextNonce = Math.max(this.nextNonce ?? 0, submission.nonce + 1);
+
+      const watcher = this.watch(submission)
+        .then((outcome) => {
+          console.log(
+            `[TransactionManager] Resumed topic ${submission.topicId} submission: ${outcome.status}`
+          );
+          return outcome;
+        })
+        .finally(() => {
+          this.resumed.delete(watcher);
+        });
+      this.resumed.add(watcher);
+    }
+
+    if (submissions.length > 0) {
+      console.log(`[TransactionManager] Resumed ${submissions.length} pending submissions`);
+    }
+
+    return submissions.length;
+  }
+
+  /**
+   * Send an attestation transaction and watch it until it settles
+   *
+   * @param request Encoded attestation call and the round it belongs to
+   * @returns Outcome once mined, superseded, cancelled, dropped or interrupted
+   * @throws Error if the first broadcast fails
+   */
+  async submit(request: SubmissionRequest): Promise<SubmissionOutcome> {
+    const key = request.attestationNonce.toString();
+
+    if (this.pending.has(key)) {
+      throw new Error(`Submission with attestation nonce ${key} is already pending`);
+    }
+
+    const nonce = await this.reserveNonce();
+    const submission: PendingSubmission = {
+      topicId: request.topicId,
+      resultHash: request.resultHash,
+      blockNumber: request.blockNumber,
+      attestationNonce: key,
+      to: request.to,
+      data: request.data,
+      gasLimit: request.gasLimit.toString(),
+      nonce,
+      attempts: [],
+      createdAt: Date.now(),
+    };
+
+    try {
+      await this.broadcast(submission, await this.getNetworkFees(), false);
+    } catch (error) {
+      // Nothing used the nonce; recount from the chain next time
+      this.nextNonce = null;
+      throw error;
+    }
+
+    return this.watch(submission);
+  }
+
+  /**
+   * Get submissions currently being watched
+   */
+  getPending(): PendingSubmission[] {
+    return Array.from(this.pending.values());
+  }
+
+  /**
+   * Stop watching; pending submissions stay persisted for the next run
+   */
+  async stop(): Promise<void> {
+    this.isRunning = false;
+    this.sleepers.forEach((wake) => wake());
+    await Promise.allSettled(this.resumed);
+    await this.persisting;
+  }
+
+  /**
+   * Poll a broadcast submission until it settles
+   */
+  private async watch(submission: PendingSubmission): Promise<SubmissionOutcome> {
+    const key = submission.attestationNonce;
+    let landedBy: string | undefined;
+
+    while (this.isRunning) {
+      try {
+        const outcome = await this.check(submission, landedBy);
+
+        if (typeof outcome === 'string') {
+          landedBy = outcome;
+        } else if (outcome) {
+          this.pending.delete(key);
+          await this.persist();
+          return outcome;
+        }
+      } catch (error: any) {
+        console.error(
+          `[TransactionManager] Failed to check topic ${submission.topicId} submission:`,
+          error.message
+        );
+      }
+
+      await this.sleep(this.pollInterval);
+    }
+
+    return { status: 'interrupted', landedBy };
+  }
+
+  /**
+   * Advance a submission by one poll
+   *
+   * @returns Final outcome, the hash of a competing landing once found, or null to keep waiting
+   */
+  private async check(
+    submission: PendingSubmission,
+    landedBy: string | undefined
+  ): Promise<SubmissionOutcome | string | null> {
+    for (const attempt of submission.attempts) {
+      const receipt = await this.provider.getTransactionReceipt(attempt.hash);
+      if (!receipt) {
+        continue;
+      }
+
+      if (attempt.cancel) {
+        return { status: landedBy ? 'superseded' : 'cancelled', receipt, landedBy };
+      }
+      return { status: receipt.status === 1 ? 'confirmed' : 'reverted', receipt, landedBy };
+    }
+
+    const address = await this.getAddress();
+    if ((await this.provider.getTransactionCount(address, 'latest')) > submission.nonce) {
+      // Mined, but by none of our attempts (or its receipt is not indexed yet)
+      const recheck = submission.attempts.some(
+        (attempt) => Date.now() - attempt.sentAt < this.pollInterval * 2
+      );
+      return recheck ? null : { status: 'dropped', landedBy };
+    }
+
+    const latest = submission.attempts[submission.attempts.length - 1];
+
+    if (!latest.cancel) {
+      const landed = await this.findLanded(
+        submission.topicId,
+        submission.resultHash,
+        submission.blockNumber
+      );
+      const ours = submission.attempts.some((attempt) => attempt.hash === landed);
+
+      if (landed && !ours) {
+        console.log(
+          `[TransactionManager] Topic ${submission.topicId} already attested in ${landed}, ` +
+            `cancelling nonce ${submission.nonce}`
+        );
+        await this.replace(submission, true);
+        return landed;
+      }
+
+      if ((await this.provider.getBlockNumber()) > submission.blockNumber + MAX_BLOCK_AGE) {
+        console.warn(
+          `[TransactionManager] Topic ${submission.topicId} attestation block ` +
+            `${submission.blockNumber} expired, cancelling nonce ${submission.nonce}`
+        );
+        await this.replace(submission, true);
+        return null;
+      }
+    }
+
+    if (Date.now() - latest.sentAt >= this.stuckTimeout) {
+      await this.replace(submission, latest.cancel);
+    }
+
+    return null;
+  }
+
+  /**
+   * Re-broadcast at the same nonce with bumped fees
+   *
+   * @param submission Submission to replace
+   * @param cancel Whether the replacement is a cancellation
+   */
+  private async replace(submission: PendingSubmission, cancel: boolean): Promise<void> {
+    const latest = submission.attempts[submission.attempts.length - 1];
+    const network = await this.getNetworkFees();
+    const bumped: Fees = {
+      maxFeePerGas: bump(BigInt(latest.maxFeePerGas), this.feeBumpPercent),
+      maxPriorityFeePerGas: bump(BigInt(latest.maxPriorityFeePerGas), this.feeBumpPercent),
+    };
+    const fees = this.capFees({
+      maxFeePerGas:
+        network.maxFeePerGas > bumped.maxFeePerGas ? network.maxFeePerGas : bumped.maxFeePerGas,
+      maxPriorityFeePerGas:
+        network.maxPriorityFeePerGas > bumped.maxPriorityFeePerGas
+          ? network.maxPriorityFeePerGas
+          : bumped.maxPriorityFeePerGas,
+    });
+
+    if (
+      fees.maxFeePerGas < bumped.maxFeePerGas ||
+      fees.maxPriorityFeePerGas < bumped.maxPriorityFeePerGas
+    ) {
+      // A smaller bump would be rejected as underpriced
+      console.warn(
+        `[TransactionManager] Fee cap reached for nonce ${submission.nonce}, not replacing`
+      );
+      latest.sentAt = Date.now();
+      await this.persist();
+      return;
+    }
+
+    console.log(
+      `[TransactionManager] ${cancel ? 'Cancelling' : 'Re-pricing'} nonce ${submission.nonce} ` +
+        `at ${ethers.formatUnits(fees.maxFeePerGas, 'gwei')} gwei`
+    );
+
+    try {
+      await this.broadcast(submission, fees, cancel);
+    } catch (error: any) {
+      // The previous attempt may have just been mined; the next poll finds out
+      console.error(`[TransactionManager] Replacement failed:`, error.message);
+    }
+  }
+
+  /**
+   * Send one attempt and persist it
+   */
+  private async broadcast(
+    submission: PendingSubmission,
+    fees: Fees,
+    cancel: boolean
+  ): Promise<void> {
+    const address = await this.getAddress();
+    const tx = await this.signer.sendTransaction({
+      type: 2,
+      to: cancel ? address : submission.to,
+      data: cancel ? '0x' : submission.data,
+      value: 0n,
+      gasLimit: cancel ? CANCEL_GAS_LIMIT : BigInt(submission.gasLimit),
+      nonce: submission.nonce,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    });
+
+    const attempt: SubmissionAttempt = {
+      hash: tx.hash,
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+      cancel,
+      sentAt: Date.now(),
+    };
+
+    submission.attempts.push(attempt);
+    this.pending.set(submission.attestationNonce, submission);
+    await this.persist();
+
+    console.log(`  Transaction Hash: ${tx.hash} (nonce ${submission.nonce})`);
+  }
+
+  /**
+   * Reserve the next account nonce
+   * Local reservations cover transactions the node has not seen yet
+   */
+  private async reserveNonce(): Promise<number> {
+    const onChain = await this.provider.getTransactionCount(await this.getAddress(), 'pending');
+    const nonce = Math.max(onChain, this.nextNonce ?? 0);
+
+    this.nextNonce = nonce + 1;
+    return nonce;
+  }
+
+  /**
+   * Current EIP-1559 fees suggested by the node, within the configured cap
+   */
+  private async getNetworkFees(): Promise<Fees> {
+    const feeData = await this.provider.getFeeData();
+    const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? feeData.gasPrice ?? 0n;
+    const maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? maxPriorityFeePerGas;
+
+    return this.capFees({ maxFeePerGas, maxPriorityFeePerGas });
+  }
+
+  private capFees(fees: Fees): Fees {
+    if (this.maxFeePerGas === undefined) {
+      return fees;
+    }
+
+    const maxFeePerGas =
+      fees.maxFeePerGas > this.maxFeePerGas ? this.maxFeePerGas : fees.maxFeePerGas;
+
+    return {
+      maxFeePerGas,
+      maxPriorityFeePerGas:
+        fees.maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : fees.maxPriorityFeePerGas,
+    };
+  }
+
+  private async getAddress(): Promise<string> {
+    if (!this.address) {
+      this.address = await this.signer.getAddress();
+    }
+    return this.address;
+  }
+
+  private persist(): Promise<void> {
+    this.persisting = this.persisting
+      .then(() => this.store.save(this.getPending()))
+      .catch((error: any) => {
+        console.error('[TransactionManager] Failed to persist submissions:', error.message);
+      });
+
+    return this.persisting;
+  }
+
+  /**
+   * Wait for ms, or until the manager stops
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.sleepers.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      this.sleepers.add(wake);
+    });
+  }
+}
+
+/**
+ * Factory function to create TransactionManager
+ */
+export function createTransactionManager(config: TransactionManagerConfig): TransactionManager {
+  return new TransactionManager(config);
+}
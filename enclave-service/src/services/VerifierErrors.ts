@@ -0,0 +1,130 @@
+/**
+ * VotePowerVerifier Errors
+ *
+ * Decodes custom errors reverted by VotePowerVerifier.submitAttestation and
+ * submitPowerRoot (IVotePowerVerifier and AttestationLib) into a typed union,
+ * so callers can react to each failure instead of matching on error message strings
+ */
+
+import { ethers } from 'ethers';
+
+/** Custom errors submitAttestation can revert with */
+export const VERIFIER_ERRORS_ABI = [
+  'error ArrayLengthMismatch()',
+  'error ResultHashMismatch()',
+  'error InsufficientSignatures(uint256 provided, uint256 required)',
+  'error InvalidOperatorSignature(address recovered)',
+  'error DuplicateOperatorSignature(address operator)',
+  'error NonceAlreadyUsed(uint256 nonce)',
+  'error BlockNumberTooOld(uint256 provided, uint256 current)',
+  'error SignatureVerificationFailed()',
+];
+
+const VERIFIER_ERRORS = new ethers.Interface(VERIFIER_ERRORS_ABI);
+
+export type AttestationRevert =
+  | { name: 'ArrayLengthMismatch' }
+  | { name: 'ResultHashMismatch' }
+  | { name: 'InsufficientSignatures'; provided: number; required: number }
+  | { name: 'InvalidOperatorSignature'; recovered: string }
+  | { name: 'DuplicateOperatorSignature'; operator: string }
+  | { name: 'NonceAlreadyUsed'; nonce: bigint }
+  | { name: 'BlockNumberTooOld'; provided: number; current: number }
+  | { name: 'SignatureVerificationFailed' }
+  /** Not a verifier error (unknown revert data, RPC failure, ...) */
+  | { name: 'Unknown'; message: string };
+
+/**
+ * Outcome of simulating an attestation submission with eth_call
+ */
+export type SimulationResult =
+  | { ok: true; gasEstimate: bigint }
+  | { ok: false; revert: AttestationRevert };
+
+/**
+ * Extract revert data from an ethers or JSON-RPC error
+ */
+function findRevertData(error: any): string | null {
+  // ethers CALL_EXCEPTION, nested provider error, raw JSON-RPC error
+  const candidates = [error?.data, error?.info?.error?.data, error?.error?.data];
+
+  for (const candidate of candidates) {
+    // At least a 4-byte selector
+    if (ethers.isHexString(candidate) && candidate.length >= 10) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decode a failed call to submitAttestation
+ *
+ * @param error Error thrown by staticCall, estimateGas or sendTransaction
+ * @returns Typed revert ('Unknown' if it is not a verifier error)
+ */
+export function decodeAttestationRevert(error: any): AttestationRevert {
+  const message = error?.shortMessage || error?.message || String(error);
+  const data = findRevertData(error);
+
+  if (!data) {
+    return { name: 'Unknown', message };
+  }
+
+  let parsed: ethers.ErrorDescription | null;
+  try {
+    parsed = VERIFIER_ERRORS.parseError(data);
+  } catch {
+    parsed = null;
+  }
+
+  switch (parsed?.name) {
+    case 'ArrayLengthMismatch':
+    case 'ResultHashMismatch':
+    case 'SignatureVerificationFailed':
+      return { name: parsed.name };
+    case 'InsufficientSignatures':
+      return {
+        name: parsed.name,
+        provided: Number(parsed.args.provided),
+        required: Number(parsed.args.required),
+      };
+    case 'InvalidOperatorSignature':
+      return { name: parsed.name, recovered: parsed.args.recovered };
+    case 'DuplicateOperatorSignature':
+      return { name: parsed.name, operator: parsed.args.operator };
+    case 'NonceAlreadyUsed':
+      return { name: parsed.name, nonce: parsed.args.nonce };
+    case 'BlockNumberTooOld':
+      return {
+        name: parsed.name,
+        provided: Number(parsed.args.provided),
+        current: Number(parsed.args.current),
+      };
+    default:
+      return { name: 'Unknown', message };
+  }
+}
+
+/**
+ * Human-readable description of a revert for logs and status reporting
+ */
+export function describeAttestationRevert(revert: AttestationRevert): string {
+  switch (revert.name) {
+    case 'InsufficientSignatures':
+      return `InsufficientSignatures (${revert.provided}/${revert.required})`;
+    case 'InvalidOperatorSignature':
+      return `InvalidOperatorSignature (${revert.recovered})`;
+    case 'DuplicateOperatorSignature':
+      return `DuplicateOperatorSignature (${revert.operator})`;
+    case 'NonceAlreadyUsed':
+      return `NonceAlreadyUsed (${revert.nonce})`;
+    case 'BlockNumberTooOld':
+      return `BlockNumberTooOld (block ${revert.provided}, head ${revert.current})`;
+    case 'Unknown':
+      return revert.message;
+    default:
+      return revert.name;
+  }
+}
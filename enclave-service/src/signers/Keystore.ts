@@ -0,0 +1,43 @@
+/**
+ * Keystore Signer
+ *
+ * Decrypts an encrypted JSON keystore (Web3 Secret Storage, as written by
+ * geth, `cast wallet new` or ethers) with its passphrase
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+
+/**
+ * Load a wallet from an encrypted keystore file
+ *
+ * @param keystorePath Keystore JSON file
+ * @param passphrase Keystore passphrase
+ * @returns Decrypted wallet
+ * @throws Error if the file is missing, not a keystore or the passphrase is wrong
+ */
+export async function loadKeystore(
+  keystorePath: string,
+  passphrase: string
+): Promise<ethers.BaseWallet> {
+  const filePath = path.resolve(keystorePath);
+  let json: string;
+
+  try {
+    json = await fs.readFile(filePath, 'utf8');
+  } catch (error: any) {
+    throw new Error(`Cannot read keystore ${filePath}: ${error.message}`);
+  }
+
+  if (!ethers.isKeystoreJson(json)) {
+    throw new Error(`${filePath} is not an encrypted JSON keystore`);
+  }
+
+  try {
+    return await ethers.Wallet.fromEncryptedJson(json, passphrase);
+  } catch (error: any) {
+    // ethers reports a wrong passphrase as "incorrect password"
+    throw new Error(`Cannot decrypt keystore ${filePath}: ${error.shortMessage || error.message}`);
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Mock Remote Signer
+ *
+ * Local HTTP server implementing the RemoteSigner protocol with an in-memory
+ * key, for tests and local development without a signing service
+ */
+
+import http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { ethers } from 'ethers';
+
+/** Signing requests are small; anything larger is rejected */
+const MAX_BODY_BYTES = 64 * 1024;
+
+export interface MockRemoteSignerConfig {
+  /** Key to sign with (default: random) */
+  privateKey?: string;
+  /** Port to listen on (0 picks a free port) */
+  port?: number;
+  host?: string;
+  /** Require `Authorization: Bearer <token>` */
+  authToken?: string;
+}
+
+/**
+ * In-memory remote signer served over JSON-RPC
+ */
+export class MockRemoteSigner {
+  private wallet: ethers.Wallet;
+  private port: number;
+  private host: string;
+  private authToken?: string;
+  private server: http.Server | null = null;
+
+  /** JSON-RPC methods received, in order */
+  readonly requests: string[] = [];
+
+  constructor(config: MockRemoteSignerConfig = {}) {
+    this.wallet = new ethers.Wallet(config.privateKey || ethers.hexlify(ethers.randomBytes(32)));
+    this.port = config.port ?? 0;
+    this.host = config.host || '127.0.0.1';
+    this.authToken = config.authToken;
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    console.log(`[MockRemoteSigner] Signing as ${this.wallet.address} at ${this.getUrl()}`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  getUrl(): string {
+    const address = this.server?.address();
+    const port = address && typeof address === 'object' ? address.port : this.port;
+    return `http://${this.host}:${port}`;
+  }
+
+  getAddress(): string {
+    return this.wallet.address;
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+
+    if (!this.isAuthorized(req.headers.authorization)) {
+      res.writeHead(401).end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        res.writeHead(413).end();
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', async () => {
+      let request: { id?: unknown; method?: string; params?: any[] };
+
+      try {
+        request = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      } catch {
+        res.writeHead(400).end();
+        return;
+      }
+
+      const reply = (body: Record<string, unknown>) =>
+        res
+          .writeHead(200, { 'Content-Type': 'application/json' })
+          .end(JSON.stringify({ jsonrpc: '2.0', id: request.id ?? null, ...body }));
+
+      this.requests.push(String(request.method));
+
+      try {
+        reply({ result: await this.execute(request.method, request.params || []) });
+      } catch (error: any) {
+        reply({ error: { code: -32000, message: error.message } });
+      }
+    });
+  }
+
+  private async execute(method: string | undefined, params: any[]): Promise<unknown> {
+    switch (method) {
+      case 'eth_accounts':
+        return [this.wallet.address];
+      case 'eth_sign':
+        this.requireAccount(params[0]);
+        return this.wallet.signMessage(ethers.getBytes(params[1]));
+      case 'eth_signTransaction': {
+        const { from, gas, type, ...tx } = params[0] || {};
+        this.requireAccount(from);
+        return this.wallet.signTransaction({
+          ...tx,
+          gasLimit: gas,
+          type: type === undefined ? undefined : Number(type),
+        });
+      }
+      case 'eth_signTypedData_v4': {
+        this.requireAccount(params[0]);
+        const { domain, types, message } = JSON.parse(params[1]);
+        delete types.EIP712Domain;
+        return this.wallet.signTypedData(domain, types, message);
+      }
+      default:
+        throw new Error(`Method not supported: ${method}`);
+    }
+  }
+
+  private requireAccount(address: unknown): void {
+    if (typeof address !== 'string' || ethers.getAddress(address) !== this.wallet.address) {
+      throw new Error(`Unknown account: ${address}`);
+    }
+  }
+
+  private isAuthorized(header: string | undefined): boolean {
+    if (!this.authToken) {
+      return true;
+    }
+
+    const expected = Buffer.from(`Bearer ${this.authToken}`);
+    const actual = Buffer.from(header || '');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+}
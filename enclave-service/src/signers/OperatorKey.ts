@@ -0,0 +1,125 @@
+/**
+ * Operator Key
+ *
+ * Loads the key an operator signs attestations and transactions with from one
+ * of several backends:
+ *
+ * private-key  raw key from the environment (local development)
+ * keystore     encrypted JSON keystore (geth/foundry format) with a passphrase
+ * remote       remote signer speaking eth_accounts/eth_sign/eth_signTransaction
+ * sealed       key generated inside the enclave process and only persisted sealed
+ *
+ * Every backend is checked by signing a probe message, and the public key is
+ * recovered from that signature, so the key registered through
+ * VotePowerVerifier.addOperator is the one that actually signs results.
+ */
+
+import { ethers } from 'ethers';
+import { loadKeystore } from './Keystore.js';
+import { RemoteSigner } from './RemoteSigner.js';
+import { loadSealedKey } from './SealedKey.js';
+
+export type SignerBackend = 'private-key' | 'keystore' | 'remote' | 'sealed';
+
+export const SIGNER_BACKENDS: SignerBackend[] = ['private-key', 'keystore', 'remote', 'sealed'];
+
+export type SignerConfig =
+  | { backend: 'private-key'; privateKey: string }
+  | { backend: 'keystore'; keystorePath: string; passphrase: string }
+  | {
+      backend: 'remote';
+      url: string;
+      /** Account to use (default: first account of the signer) */
+      address?: string;
+      /** Bearer token sent to the signer */
+      authToken?: string;
+      timeout?: number;
+    }
+  | {
+      backend: 'sealed';
+      sealedKeyPath: string;
+      /** 32-byte key sealing the generated key at rest (hex) */
+      sealingKey: string;
+    };
+
+/**
+ * Loaded operator key
+ */
+export interface OperatorKey {
+  backend: SignerBackend;
+  address: string;
+  /** Uncompressed secp256k1 public key without the 0x04 prefix (64 bytes, hex) */
+  publicKey: string;
+  /** Signs attestations and transactions; connect to a provider before sending */
+  signer: ethers.Signer;
+}
+
+/** Message signed at startup to prove control of the key and recover its public key */
+const PROBE_MESSAGE = 'liquid-democracy-engine operator key probe';
+
+/**
+ * Convert a secp256k1 public key to the 64-byte form registered on-chain
+ *
+ * @param publicKey Compressed or uncompressed public key (hex)
+ */
+export function toOperatorPublicKey(publicKey: string): string {
+  return ethers.dataSlice(ethers.SigningKey.computePublicKey(publicKey, false), 1);
+}
+
+/**
+ * Address controlled by a registered 64-byte operator public key
+ *
+ * @param publicKey 64-byte public key (hex)
+ */
+export function operatorPublicKeyToAddress(publicKey: string): string {
+  if (ethers.dataLength(publicKey) !== 64) {
+    throw new Error(`Operator public key must be 64 bytes, got ${ethers.dataLength(publicKey)}`);
+  }
+  return ethers.computeAddress(ethers.concat(['0x04', publicKey]));
+}
+
+/**
+ * Load the operator key from the configured backend
+ *
+ * @param config Backend configuration
+ * @returns Key with its address and public key
+ * @throws Error if the key cannot be loaded or does not sign as its address
+ */
+export async function loadOperatorKey(config: SignerConfig): Promise<OperatorKey> {
+  const signer = await openSigner(config);
+  const address = await signer.getAddress();
+
+  const signature = await signer.signMessage(PROBE_MESSAGE);
+  const recovered = ethers.SigningKey.recoverPublicKey(
+    ethers.hashMessage(PROBE_MESSAGE),
+    signature
+  );
+
+  if (ethers.computeAddress(recovered) !== ethers.getAddress(address)) {
+    throw new Error(
+      `Signer backend '${config.backend}' reports ${address} but signs as ${ethers.computeAddress(recovered)}`
+    );
+  }
+
+  console.log(`[OperatorKey] Loaded ${config.backend} key for ${address}`);
+
+  return {
+    backend: config.backend,
+    address: ethers.getAddress(address),
+    publicKey: toOperatorPublicKey(recovered),
+    signer,
+  };
+}
+
+async function openSigner(config: SignerConfig): Promise<ethers.Signer> {
+  switch (config.backend) {
+    case 'private-key':
+      return new ethers.Wallet(config.privateKey);
+    case 'keystore':
+      return loadKeystore(config.keystorePath, config.passphrase);
+    case 'remote':
+      return RemoteSigner.connect(config);
+    case 'sealed':
+      return loadSealedKey(config.sealedKeyPath, config.sealingKey);
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Remote Signer
+ *
+ * ethers Signer whose key lives in a remote signing service (Web3Signer, Clef,
+ * an HSM gateway). Speaks JSON-RPC over HTTP(S):
+ *
+ * eth_accounts                         accounts the signer holds
+ * eth_sign [address, data]             EIP-191 personal message signature
+ * eth_signTransaction [tx]             signed raw transaction
+ * eth_signTypedData_v4 [address, json] EIP-712 signature
+ *
+ * Every signature is checked against the configured address, so a signer
+ * answering with a different key is caught before anything is submitted.
+ * Signed transactions are also compared with the request: the signer may
+ * fill in fields left open, but not change recipient, calldata, value or any
+ * field that was set.
+ */
+
+import { ethers } from 'ethers';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export interface RemoteSignerConfig {
+  /** Signer JSON-RPC endpoint */
+  url: string;
+  /** Account to use (default: first account of the signer) */
+  address?: string;
+  /** Bearer token sent with every request */
+  authToken?: string;
+  timeout?: number;
+}
+
+/**
+ * Signer delegating to a remote signing service
+ */
+export class RemoteSigner extends ethers.AbstractSigner {
+  readonly url: string;
+  readonly address: string;
+  private authToken?: string;
+  private timeout: number;
+  private nextId: number = 1;
+
+  /**
+   * Use RemoteSigner.connect to resolve and check the account
+   */
+  constructor(
+    config: RemoteSignerConfig & { address: string },
+    provider: ethers.Provider | null = null
+  ) {
+    super(provider);
+    this.url = config.url;
+    this.address = ethers.getAddress(config.address);
+    this.authToken = config.authToken;
+    this.timeout = config.timeout ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Connect to a remote signer and resolve the operator account
+   *
+   * @param config Signer endpoint and account
+   * @throws Error if the signer is unreachable or does not hold the account
+   */
+  static async connect(config: RemoteSignerConfig): Promise<RemoteSigner> {
+    const probe = new RemoteSigner({ ...config, address: ethers.ZeroAddress });
+    const accounts = ((await probe.request('eth_accounts', [])) as string[]).map((account) =>
+      ethers.getAddress(account)
+    );
+
+    if (accounts.length === 0) {
+      throw new Error(`Remote signer ${config.url} holds no accounts`);
+    }
+
+    const address = config.address ? ethers.getAddress(config.address) : accounts[0];
+
+    if (!accounts.includes(address)) {
+      throw new Error(`Remote signer ${config.url} does not hold ${address}`);
+    }
+
+    return new RemoteSigner({ ...config, address });
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(
+      { url: this.url, address: this.address, authToken: this.authToken, timeout: this.timeout },
+      provider
+    );
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data = typeof message === 'string' ? ethers.toUtf8Bytes(message) : message;
+    const signature = (await this.request('eth_sign', [
+      this.address,
+      ethers.hexlify(data),
+    ])) as string;
+
+    this.checkSigner(ethers.verifyMessage(data, signature), 'eth_sign');
+    return signature;
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    const requested = await this.toRpcTransaction(tx);
+    const raw = (await this.request('eth_signTransaction', [requested])) as string;
+    const signed = ethers.Transaction.from(raw);
+
+    this.checkSigner(signed.from || ethers.ZeroAddress, 'eth_signTransaction');
+    this.checkTransaction(signed, requested);
+    return raw;
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const payload = ethers.TypedDataEncoder.getPayload(domain, types, value);
+    const signature = (await this.request('eth_signTypedData_v4', [
+      this.address,
+      JSON.stringify(payload),
+    ])) as string;
+
+    this.checkSigner(
+      ethers.verifyTypedData(domain, types, value, signature),
+      'eth_signTypedData_v4'
+    );
+    return signature;
+  }
+
+  /**
+   * Serialize a transaction request for eth_signTransaction
+   */
+  private async toRpcTransaction(tx: ethers.TransactionRequest): Promise<Record<string, unknown>> {
+    const rpcTx: Record<string, unknown> = { from: this.address };
+
+    if (tx.to) {
+      rpcTx.to = await ethers.resolveAddress(tx.to, this.provider);
+    }
+    if (tx.data) {
+      rpcTx.data = ethers.hexlify(tx.data);
+    }
+
+    const quantities = {
+      gas: tx.gasLimit,
+      gasPrice: tx.gasPrice,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      value: tx.value,
+      nonce: tx.nonce,
+      chainId: tx.chainId,
+      type: tx.type,
+    };
+
+    for (const [key, value] of Object.entries(quantities)) {
+      if (value !== undefined && value !== null) {
+        rpcTx[key] = ethers.toQuantity(value);
+      }
+    }
+
+    if (tx.accessList) {
+      rpcTx.accessList = ethers.accessListify(tx.accessList);
+    }
+
+    return rpcTx;
+  }
+
+  private checkSigner(recovered: string, method: string): void {
+    if (ethers.getAddress(recovered) !== this.address) {
+      throw new Error(`Remote signer ${method} signed as ${recovered}, expected ${this.address}`);
+    }
+  }
+
+  /**
+   * Compare a signed transaction with the eth_signTransaction request
+   * to, data and value must always match (unset means none); other fields
+   * only when the request set them
+   */
+  private checkTransaction(signed: ethers.Transaction, requested: Record<string, unknown>): void {
+    const changed: string[] = [];
+
+    const to = signed.to ? ethers.getAddress(signed.to) : null;
+    if (to !== (requested.to ?? null)) {
+      changed.push('to');
+    }
+    if (signed.data !== (requested.data ?? '0x')) {
+      changed.push('data');
+    }
+    if (signed.value !== BigInt((requested.value as string | undefined) ?? 0)) {
+      changed.push('value');
+    }
+
+    const quantities: Record<string, bigint | number | null> = {
+      gas: signed.gasLimit,
+      gasPrice: signed.gasPrice,
+      maxFeePerGas: signed.maxFeePerGas,
+      maxPriorityFeePerGas: signed.maxPriorityFeePerGas,
+      nonce: signed.nonce,
+      chainId: signed.chainId,
+      type: signed.type,
+    };
+
+    for (const [key, actual] of Object.entries(quantities)) {
+      const expected = requested[key] as string | undefined;
+      if (expected !== undefined && (actual === null || BigInt(actual) !== BigInt(expected))) {
+        changed.push(key);
+      }
+    }
+
+    if (
+      requested.accessList !== undefined &&
+      JSON.stringify(signed.accessList) !== JSON.stringify(requested.accessList)
+    ) {
+      changed.push('accessList');
+    }
+
+    if (changed.length > 0) {
+      throw new Error(
+        `Remote signer eth_signTransaction changed ${changed.join(', ')} of the transaction`
+      );
+    }
+  }
+
+  /**
+   * Send one JSON-RPC request to the signer
+   */
+  private async request(method: string, params: unknown[]): Promise<unknown> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.authToken) {
+      headers.Authorization = `Bearer ${this.authToken}`;
+    }
+
+    let response: Response;
+
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ jsonrpc: '2.0', id: this.nextId++, method, params }),
+        signal: AbortSignal.timeout(this.timeout),
+      });
+    } catch (error: any) {
+      throw new Error(`Remote signer ${this.url} unreachable: ${error.message}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Remote signer ${method} failed: HTTP ${response.status}`);
+    }
+
+    const body = (await response.json()) as { result?: unknown; error?: { message?: string } };
+
+    if (body.error) {
+      throw new Error(`Remote signer ${method} failed: ${body.error.message || 'unknown error'}`);
+    }
+
+    return body.result;
+  }
+}
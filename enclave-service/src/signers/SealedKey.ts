@@ -0,0 +1,149 @@
+/**
+ * Sealed Operator Key
+ *
+ * Generates the operator key inside the enclave process on first start and
+ * persists it only sealed (AES-256-GCM) under the enclave sealing key. The
+ * private key never leaves the process in plaintext; operators register the
+ * derived public key instead of handling a key themselves.
+ *
+ * The sealing key stands in for the TEE's measurement-bound sealing key and is
+ * supplied through the environment until the service runs on enclave hardware.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+
+export interface SealedKeyFile {
+  version: number;
+  /** Address of the sealed key, checked after unsealing */
+  address: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+  createdAt: number;
+}
+
+export const SEALED_KEY_VERSION = 1;
+
+/** Binds ciphertexts to their purpose so a sealing key reused elsewhere cannot unseal them */
+const SEALING_AAD = Buffer.from('liquid-democracy-engine/operator-key/v1');
+
+/**
+ * Load the sealed operator key, generating and sealing a new one if none exists
+ *
+ * @param sealedKeyPath Sealed key file
+ * @param sealingKey 32-byte sealing key (hex)
+ * @returns Unsealed wallet
+ * @throws Error if the sealing key is invalid or does not unseal the file
+ */
+export async function loadSealedKey(
+  sealedKeyPath: string,
+  sealingKey: string
+): Promise<ethers.Wallet> {
+  const filePath = path.resolve(sealedKeyPath);
+  const key = parseSealingKey(sealingKey);
+  let raw: string | null = null;
+
+  try {
+    raw = await fs.readFile(filePath, 'utf8');
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  if (raw === null) {
+    const wallet = new ethers.Wallet(ethers.hexlify(randomBytes(32)));
+    await writeSealedKey(filePath, sealKey(wallet, key));
+    console.log(`[SealedKey] Generated operator key ${wallet.address}, sealed to ${filePath}`);
+    return wallet;
+  }
+
+  return unsealKey(JSON.parse(raw) as SealedKeyFile, key, filePath);
+}
+
+/**
+ * Seal a wallet's private key
+ *
+ * @param wallet Wallet to seal
+ * @param key 32-byte sealing key
+ */
+export function sealKey(wallet: ethers.Wallet, key: Buffer): SealedKeyFile {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(SEALING_AAD);
+
+  const ciphertext = Buffer.concat([
+    cipher.update(ethers.getBytes(wallet.privateKey)),
+    cipher.final(),
+  ]);
+
+  return {
+    version: SEALED_KEY_VERSION,
+    address: wallet.address,
+    iv: iv.toString('hex'),
+    tag: cipher.getAuthTag().toString('hex'),
+    ciphertext: ciphertext.toString('hex'),
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Unseal a sealed key file
+ *
+ * @param sealed Sealed key file contents
+ * @param key 32-byte sealing key
+ * @param source File name for error messages
+ */
+export function unsealKey(sealed: SealedKeyFile, key: Buffer, source: string): ethers.Wallet {
+  if (sealed.version !== SEALED_KEY_VERSION) {
+    throw new Error(`Unsupported sealed key version ${sealed.version} in ${source}`);
+  }
+
+  let privateKey: Buffer;
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.iv, 'hex'));
+    decipher.setAAD(SEALING_AAD);
+    decipher.setAuthTag(Buffer.from(sealed.tag, 'hex'));
+    privateKey = Buffer.concat([
+      decipher.update(Buffer.from(sealed.ciphertext, 'hex')),
+      decipher.final(),
+    ]);
+  } catch {
+    throw new Error(`Cannot unseal ${source}: wrong sealing key or corrupted file`);
+  }
+
+  const wallet = new ethers.Wallet(ethers.hexlify(privateKey));
+
+  if (wallet.address !== sealed.address) {
+    throw new Error(`Sealed key in ${source} does not match its address ${sealed.address}`);
+  }
+
+  return wallet;
+}
+
+/**
+ * Parse a 32-byte hex sealing key
+ */
+export function parseSealingKey(value: string): Buffer {
+  if (!ethers.isHexString(value, 32)) {
+    throw new Error('Sealing key must be 32 bytes of hex (0x-prefixed)');
+  }
+  return Buffer.from(ethers.getBytes(value));
+}
+
+/**
+ * Write the sealed key atomically with owner-only permissions
+ * Refuses to replace an existing key: a new key would need a new registration
+ */
+async function writeSealedKey(filePath: string, sealed: SealedKeyFile): Promise<void> {
+  const tmpPath = `${filePath}.tmp`;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tmpPath, JSON.stringify(sealed), { encoding: 'utf8', mode: 0o600 });
+  await fs.link(tmpPath, filePath);
+  await fs.unlink(tmpPath);
+}
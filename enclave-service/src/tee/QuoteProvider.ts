@@ -0,0 +1,94 @@
+/**
+ * Quote Provider
+ *
+ * Produces attestation reports binding the running build to the operator
+ * signing key. SimulatedQuoteProvider is the software stand-in used until
+ * operators run on TEE hardware; SGX / SEV-SNP providers implement the same
+ * interface with quotes from the platform.
+ */
+
+import { ethers } from 'ethers';
+import {
+  ZERO_NONCE,
+  createSimulatedReport,
+  type AttestationReport,
+  type TeeType,
+} from '@liquid-democracy-engine/attestation-report';
+import type { OperatorKey } from '../signers/OperatorKey.js';
+import { measureBuild } from './Measurement.js';
+
+/**
+ * Source of attestation reports for this operator
+ */
+export interface QuoteProvider {
+  readonly teeType: TeeType;
+
+  /**
+   * Produce a report for the operator key
+   *
+   * @param nonce Verifier challenge (bytes32), binds the report to one request
+   */
+  getReport(nonce?: string): Promise<AttestationReport>;
+}
+
+export interface SimulatedQuoteProviderConfig {
+  operatorKey: OperatorKey;
+  /** Release tag or commit of the running build */
+  buildVersion: string;
+  /** Software platform attestation key (default: random per process) */
+  platformKey?: string;
+  /** Build measurement (default: measured from the running build) */
+  measurement?: string;
+}
+
+/**
+ * Quote provider signing reports with a software platform key
+ */
+export class SimulatedQuoteProvider implements QuoteProvider {
+  readonly teeType: TeeType = 'simulated';
+  private operatorKey: OperatorKey;
+  private buildVersion: string;
+  private platform: ethers.Wallet;
+  private measurement: Promise<string>;
+
+  constructor(config: SimulatedQuoteProviderConfig) {
+    this.operatorKey = config.operatorKey;
+    this.buildVersion = config.buildVersion;
+
+    if (config.platformKey) {
+      this.platform = new ethers.Wallet(config.platformKey);
+    } else {
+      // Verifiers cannot pin a key that changes on every restart
+      this.platform = new ethers.Wallet(ethers.hexlify(ethers.randomBytes(32)));
+      console.warn(
+        `[QuoteProvider] No SIMULATED_PLATFORM_KEY, using ephemeral platform key ${this.platform.address}`
+      );
+    }
+
+    // Measured once: the build does not change while the process runs
+    this.measurement = config.measurement ? Promise.resolve(config.measurement) : measureBuild();
+  }
+
+  async getReport(nonce: string = ZERO_NONCE): Promise<AttestationReport> {
+    if (!ethers.isHexString(nonce, 32)) {
+      throw new Error('Attestation nonce must be 32 bytes of hex');
+    }
+
+    return createSimulatedReport(
+      {
+        measurement: await this.measurement,
+        buildVersion: this.buildVersion,
+        publicKey: this.operatorKey.publicKey,
+      },
+      this.platform,
+      nonce
+    );
+  }
+
+  /**
+   * Address of the platform key, for verifiers to pin
+   */
+  getPlatformKey(): string {
+    return this.platform.address;
+  }
+}
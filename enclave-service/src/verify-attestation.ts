@@ -0,0 +1,84 @@
+/**
+ * Attestation Verifier CLI
+ *
+ * Recomputes an accepted attestation from DelegationManager history and
+ * prints a per-address diff against the submitted result:
+ *
+ *   pnpm verify-attestation <topicId> <txHash>
+ *
+ * Reads RPC_URLS, DELEGATION_MANAGER_ADDRESS, VOTEPOWER_VERIFIER_ADDRESS and
+ * START_BLOCK (the DelegationManager deployment block) from the environment.
+ * Exits 0 when the attestation matches, 1 on a mismatch and 2 when the
+ * attestation could not be audited, so watchdogs can alert on the exit code.
+ */
+
+import 'dotenv/config';
+import { ethers } from 'ethers';
+import { RpcProvider } from '@liquid-democracy-engine/rpc-provider';
+import { loadAuditorConfig } from './config.js';
+import { createAttestationAuditor, type AuditResult } from './services/AttestationAuditor.js';
+
+const EXIT_MISMATCH = 1;
+const EXIT_ERROR = 2;
+
+function printResult(result: AuditResult): void {
+  console.log(`\nTopic ${result.topicId}, ${result.method} in ${result.transactionHash}`);
+  console.log(`  Attested block: ${result.attestedBlock}`);
+  console.log(`  Result hash: ${result.resultHash}`);
+  console.log(`  Events replayed: ${result.eventsReplayed}`);
+  console.log(`  Terminal delegates recomputed: ${result.recomputed.addresses.length}`);
+
+  if (result.diffs.length > 0) {
+    console.log('\n  Address                                     Recomputed     Attested');
+    for (const diff of result.diffs) {
+      console.log(
+        `  ${diff.address}  ${diff.expected.toString().padStart(10)}  ${diff.attested.toString().padStart(11)}`
+      );
+    }
+  }
+
+  for (const error of result.errors) {
+    console.log(`  ✗ ${error}`);
+  }
+
+  console.log(result.match ? '\n✓ Attestation matches' : '\n✗ Attestation does not match');
+}
+
+async function main(): Promise<number> {
+  const [topicArg, transactionHash] = process.argv.slice(2);
+  const topicId = Number(topicArg);
+
+  if (!Number.isInteger(topicId) || topicId < 0 || !ethers.isHexString(transactionHash, 32)) {
+    console.error('Usage: verify-attestation <topicId> <txHash>');
+    return EXIT_ERROR;
+  }
+
+  const config = loadAuditorConfig();
+  const provider = new RpcProvider(config.rpcUrls, {
+    quorum: config.rpcQuorum,
+    requestTimeout: config.rpcTimeout,
+  });
+
+  try {
+    const auditor = createAttestationAuditor({
+      provider,
+      delegationManagerAddress: config.delegationManagerAddress,
+      votePowerVerifierAddress: config.votePowerVerifierAddress,
+      startBlock: config.startBlock,
+    });
+
+    const result = await auditor.audit(topicId, transactionHash);
+    printResult(result);
+
+    return result.match ? 0 : EXIT_MISMATCH;
+  } finally {
+    provider.destroy();
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error('[VerifyAttestation] Error:', error.message);
+    process.exit(EXIT_ERROR);
+  });
@@ -0,0 +1,163 @@
+/**
+ * AttestationAuditor tests
+ * Replays stub DelegationManager logs and audits stub submission transactions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { buildPowerTree, calculateResultHash } from '@liquid-democracy-engine/result-encoding';
+import { AttestationAuditor, diffPowers } from '../src/services/AttestationAuditor';
+
+const DELEGATION_MANAGER = '0x4c8875ac664bb0a94f5eE71b232A786772Fdd704';
+const VERIFIER = '0x156ee62c9bf96F28b5aacf37C5B73935CA1d71C3';
+const TX_HASH = '0x' + '11'.repeat(32);
+
+const delegationEvents = new ethers.Interface([
+  'event Delegated(address indexed delegator, address indexed delegate, uint256 indexed topicId, uint256 timestamp)',
+  'event Revoked(address indexed delegator, uint256 indexed topicId, uint256 timestamp)',
+]);
+
+const verifier = new ethers.Interface([
+  'function submitAttestation((bytes32 resultHash, uint256 topicId, uint256 blockNumber, bytes[] signatures, uint256 nonce) attestation, address[] addresses, uint256[] powers) external',
+  'function submitPowerRoot((bytes32 resultHash, uint256 topicId, uint256 blockNumber, bytes[] signatures, uint256 nonce) attestation, bytes32 root, uint256 delegateCount, uint256 totalPower) external',
+  'event AttestationAccepted(bytes32 indexed resultHash, uint256 timestamp)',
+  'event PowerRootCommitted(uint256 indexed topicId, bytes32 indexed attestationHash, bytes32 root, uint256 delegateCount, uint256 totalPower)',
+]);
+
+const ALICE = ethers.getAddress('0x' + 'a'.repeat(40));
+const BOB = ethers.getAddress('0x' + 'b'.repeat(40));
+const CAROL = ethers.getAddress('0x' + 'c'.repeat(40));
+const DAVE = ethers.getAddress('0x' + 'd'.repeat(40));
+
+function makeLog(name: string, args: unknown[], blockNumber: number, index: number): ethers.Log {
+  const { data, topics } = delegationEvents.encodeEventLog(name, args);
+  return {
+    address: DELEGATION_MANAGER,
+    data,
+    topics,
+    blockNumber,
+    blockHash: ethers.zeroPadValue(ethers.toBeHex(blockNumber), 32),
+    transactionIndex: 0,
+    index,
+    transactionHash: ethers.zeroPadValue(ethers.toBeHex(blockNumber * 100 + index), 32),
+    removed: false,
+  } as unknown as ethers.Log;
+}
+
+// At block 20: Alice and Carol delegate to Bob (power 3); Dave joins after
+const logs = [
+  makeLog('Delegated', [ALICE, BOB, 1, 100], 10, 0),
+  makeLog('Delegated', [CAROL, ALICE, 1, 100], 10, 1),
+  makeLog('Revoked', [CAROL, 1, 150], 15, 0),
+  makeLog('Delegated', [CAROL, BOB, 1, 150], 15, 1),
+  makeLog('Delegated', [DAVE, BOB, 1, 200], 30, 0),
+];
+
+function attestation(resultHash: string, topicId: number = 1) {
+  return [resultHash, topicId, 20, [], 1];
+}
+
+function stubProvider(data: string, accepted: string) {
+  // Root commitments emit PowerRootCommitted instead of AttestationAccepted
+  const call = verifier.parseTransaction({ data })!;
+  const { data: logData, topics } =
+    call.name === 'submitPowerRoot'
+      ? verifier.encodeEventLog('PowerRootCommitted', [1, accepted, ...call.args.slice(1)])
+      : verifier.encodeEventLog('AttestationAccepted', [accepted, 1]);
+
+  return {
+    getTransaction: async () => ({ to: VERIFIER, data }),
+    getTransactionReceipt: async () => ({
+      logs: [{ address: VERIFIER, data: logData, topics }],
+    }),
+    getBlockNumber: async () => 100,
+    getLogs: async (filter: any) =>
+      logs.filter((log) => {
+        if (log.blockNumber < filter.fromBlock || log.blockNumber > filter.toBlock) return false;
+        return filter.topics.every((topic: string | string[] | null, i: number) => {
+          if (topic === null) return true;
+          return Array.isArray(topic) ? topic.includes(log.topics[i]) : topic === log.topics[i];
+        });
+      }),
+  };
+}
+
+function createAuditor(data: string, accepted: string): AttestationAuditor {
+  return new AttestationAuditor({
+    provider: stubProvider(data, accepted) as unknown as ethers.Provider,
+    delegationManagerAddress: DELEGATION_MANAGER,
+    votePowerVerifierAddress: VERIFIER,
+  });
+}
+
+function submitAttestation(addresses: string[], powers: number[], topicId: number = 1) {
+  const resultHash = calculateResultHash(addresses, powers);
+  const data = verifier.encodeFunctionData('submitAttestation', [
+    attestation(resultHash, topicId),
+    addresses,
+    powers,
+  ]);
+  return createAuditor(data, resultHash);
+}
+
+describe('AttestationAuditor', () => {
+  it('should match an honest attestation replayed up to the attested block', async () => {
+    const result = await submitAttestation([BOB], [3]).audit(1, TX_HASH);
+
+    expect(result.match).toBe(true);
+    expect(result.eventsReplayed).toBe(4);
+    expect(result.recomputed).toMatchObject({ addresses: [BOB], powers: [3] });
+  });
+
+  it('should report a per-address diff for a wrong attestation', async () => {
+    const result = await submitAttestation([ALICE, BOB], [2, 2]).audit(1, TX_HASH);
+
+    expect(result.match).toBe(false);
+    expect(result.diffs).toEqual([
+      { address: ALICE, expected: 0n, attested: 2n },
+      { address: BOB, expected: 3n, attested: 2n },
+    ]);
+    expect(result.errors[0]).toMatch(/^Result hash .* differs from recomputed/);
+  });
+
+  it('should check committed power roots against the recomputed tree', async () => {
+    const tree = buildPowerTree([{ address: BOB, power: 3 }]);
+    const data = verifier.encodeFunctionData('submitPowerRoot', [
+      attestation(tree.commitment),
+      tree.root,
+      1,
+      4,
+    ]);
+
+    const result = await createAuditor(data, tree.commitment).audit(1, TX_HASH);
+
+    expect(result.match).toBe(false);
+    expect(result.errors).toEqual(['Total power 4 differs from recomputed 3']);
+  });
+
+  it('should refuse transactions that are not accepted attestations for the topic', async () => {
+    await expect(submitAttestation([BOB], [3], 2).audit(1, TX_HASH)).rejects.toThrow(
+      'attests topic 2, not 1'
+    );
+
+    const data = verifier.encodeFunctionData('submitAttestation', [
+      attestation(ethers.ZeroHash),
+      [BOB],
+      [3],
+    ]);
+    await expect(createAuditor(data, ethers.id('other')).audit(1, TX_HASH)).rejects.toThrow(
+      'did not emit AttestationAccepted'
+    );
+  });
+});
+
+describe('diffPowers', () => {
+  it('should ignore address case and order', () => {
+    expect(
+      diffPowers(
+        { addresses: [ALICE, BOB], powers: [1, 2] },
+        { addresses: [BOB.toLowerCase(), ALICE.toLowerCase()], powers: [2n, 1n] }
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * ChainListener backfill and reorg detection tests
+ * Uses a stub provider so no RPC endpoint is needed
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ChainListener } from '../src/services/ChainListener';
+
+const DELEGATION_MANAGER = '0x4c8875ac664bb0a94f5eE71b232A786772Fdd704';
+
+const iface = new ethers.Interface([
+  'event Delegated(address indexed delegator, address indexed delegate, uint256 indexed topicId, uint256 timestamp)',
+  'event Revoked(address indexed delegator, uint256 indexed topicId, uint256 timestamp)',
+  'event DeadEndDeclared(address indexed delegate, uint256 indexed topicId, uint256 timestamp)',
+  'event DeadEndRevoked(address indexed delegate, uint256 indexed topicId, uint256 timestamp)',
+]);
+
+const ALICE = ethers.getAddress('0x' + 'a'.repeat(40));
+const BOB = ethers.getAddress('0x' + 'b'.repeat(40));
+
+function makeLog(
+  name: string,
+  args: unknown[],
+  blockNumber: number,
+  transactionIndex: number,
+  index: number
+): ethers.Log {
+  const { data, topics } = iface.encodeEventLog(name, args);
+  return {
+    address: DELEGATION_MANAGER,
+    data,
+    topics,
+    blockNumber,
+    blockHash: ethers.zeroPadValue(ethers.toBeHex(blockNumber), 32),
+    transactionIndex,
+    index,
+    transactionHash: ethers.zeroPadValue(ethers.toBeHex(blockNumber * 100 + index), 32),
+    removed: false,
+  } as unknown as ethers.Log;
+}
+
+/** Stub provider applying the topic filter and rejecting ranges wider than maxRange */
+function stubProvider(logs: ethers.Log[], head: number, maxRange: number) {
+  return {
+    getBlockNumber: vi.fn(async () => head),
+    getLogs: vi.fn(async (filter: any) => {
+      if (filter.toBlock - filter.fromBlock + 1 > maxRange) {
+        throw new Error('block range too large');
+      }
+      return logs.filter((log) => {
+        if (log.blockNumber < filter.fromBlock || log.blockNumber > filter.toBlock) return false;
+        return filter.topics.every((topic: string | string[] | null, i: number) => {
+          if (topic === null) return true;
+          return Array.isArray(topic) ? topic.includes(log.topics[i]) : topic === log.topics[i];
+        });
+      });
+    }),
+  };
+}
+
+function createListener(provider: ReturnType<typeof stubProvider>, batchSize: number) {
+  return new ChainListener({
+    provider: provider as unknown as ethers.Provider,
+    delegationManagerAddress: DELEGATION_MANAGER,
+    batchSize,
+  });
+}
+
+describe('ChainListener.fetchHistoricalEvents', () => {
+  const logs = [
+    makeLog('Delegated', [ALICE, BOB, 1, 100], 10, 2, 5),
+    makeLog('DeadEndDeclared', [BOB, 1, 100], 10, 0, 1),
+    makeLog('Revoked', [ALICE, 1, 200], 350, 0, 0),
+    makeLog('Delegated', [ALICE, BOB, 2, 100], 20, 0, 0),
+    makeLog('DeadEndRevoked', [BOB, 1, 300], 900, 1, 3),
+  ];
+
+  it('should include all event types for the topic in on-chain order', async () => {
+    const listener = createListener(stubProvider(logs, 1000, 1000), 1000);
+    const events = await listener.fetchHistoricalEvents(1, 0);
+
+    expect(events.map((e) => e.type)).toEqual([
+      'DeadEndDeclared',
+      'Delegated',
+      'Revoked',
+      'DeadEndRevoked',
+    ]);
+    expect(events.every((e) => e.topicId === 1)).toBe(true);
+    expect(events[1]).toMatchObject({ delegator: ALICE, delegate: BOB, transactionIndex: 2 });
+  });
+
+  it('should shrink the block range when the RPC rejects it', async () => {
+    const provider = stubProvider(logs, 1000, 100);
+    const listener = createListener(provider, 1000);
+    const events = await listener.fetchHistoricalEvents(1, 0);
+
+    expect(events).toHaveLength(4);
+    for (const [filter] of provider.getLogs.mock.calls) {
+      expect(filter.fromBlock).toBeGreaterThanOrEqual(0);
+      expect(filter.toBlock).toBeLessThanOrEqual(1000);
+    }
+  });
+
+  it('should give up once the range cannot shrink further', async () => {
+    const provider = stubProvider(logs, 1000, 0);
+    const listener = createListener(provider, 8);
+
+    await expect(listener.fetchHistoricalEvents(1, 0)).rejects.toThrow('block range too large');
+  });
+});
+
+describe('ChainListener.start', () => {
+  it('should replay history from the start block when there is no cursor', async () => {
+    const logs = [
+      makeLog('Delegated', [ALICE, BOB, 1, 100], 5, 0, 0),
+      makeLog('Delegated', [BOB, ALICE, 2, 100], 40, 0, 0),
+    ];
+    const provider = {
+      ...stubProvider(logs, 100, 1000),
+      getBlock: vi.fn(async (blockNumber: number) => ({ hash: ethers.id(`block ${blockNumber}`) })),
+      on: vi.fn(),
+      off: vi.fn(),
+    };
+    const listener = new ChainListener({
+      provider: provider as unknown as ethers.Provider,
+      delegationManagerAddress: DELEGATION_MANAGER,
+      confirmations: 10,
+    });
+
+    const emitted: number[] = [];
+    listener.on('delegation-event', (event) => emitted.push(event.blockNumber));
+    await listener.start();
+    listener.stop();
+
+    expect(emitted).toEqual([5, 40]);
+    expect(listener.getLastProcessedBlock()).toBe(90);
+  });
+});
+
+describe('ChainListener reorg detection', () => {
+  const CAROL = ethers.getAddress('0x' + 'c'.repeat(40));
+  const forkHash = (blockNumber: number) => ethers.id(`fork ${blockNumber}`);
+
+  /** Chain with replaceable block hashes; logs keep their own blockHash */
+  function stubChain(logs: ethers.Log[], head: number) {
+    const provider = stubProvider(logs, head, Infinity);
+    const hashes = new Map<number, string>();
+
+    return {
+      ...provider,
+      hashes,
+      getBlock: vi.fn(async (blockNumber: number) => ({
+        hash: hashes.get(blockNumber) ?? ethers.zeroPadValue(ethers.toBeHex(blockNumber), 32),
+      })),
+      off: vi.fn(),
+    };
+  }
+
+  async function syncListener(chain: ReturnType<typeof stubChain>) {
+    const listener = new ChainListener({
+      provider: chain as unknown as ethers.Provider,
+      delegationManagerAddress: DELEGATION_MANAGER,
+      batchSize: 10,
+      confirmations: 0,
+    });
+    (listener as any).isListening = true;
+
+    const emitted: Array<[number, string]> = [];
+    listener.on('delegation-event', (event) => emitted.push([event.blockNumber, event.delegator]));
+    await listener.backfill(0);
+
+    return { listener, emitted };
+  }
+
+  it('should rewind to after the newest matching block when the fork lies between tracked blocks', async () => {
+    const logs = [
+      makeLog('Delegated', [ALICE, BOB, 1, 100], 10, 0, 0),
+      makeLog('Delegated', [BOB, CAROL, 1, 250], 25, 0, 0),
+    ];
+    const chain = stubChain(logs, 30);
+    const { listener, emitted } = await syncListener(chain);
+    expect(emitted).toEqual([
+      [10, ALICE],
+      [25, BOB],
+    ]);
+
+    // Blocks 22+ are replaced; 19 and 25 are tracked, the fork at 22 is not
+    for (let blockNumber = 22; blockNumber <= 30; blockNumber++) {
+      chain.hashes.set(blockNumber, forkHash(blockNumber));
+    }
+    logs[1] = {
+      ...makeLog('Delegated', [CAROL, ALICE, 1, 230], 23, 0, 0),
+      blockHash: forkHash(23),
+    } as ethers.Log;
+
+    const notices: any[] = [];
+    listener.on('reorg', (notice) => notices.push(notice));
+    emitted.length = 0;
+
+    (listener as any)._onBlock();
+    await (listener as any).blockQueue;
+
+    expect(notices).toEqual([
+      { blockNumber: 20, expectedHash: expect.any(String), actualHash: forkHash(25) },
+    ]);
+    expect(emitted).toEqual([[23, CAROL]]);
+  });
+
+  it('should stop when every tracked block was replaced', async () => {
+    const chain = stubChain([makeLog('Delegated', [ALICE, BOB, 1, 100], 10, 0, 0)], 30);
+    const { listener } = await syncListener(chain);
+
+    for (let blockNumber = 0; blockNumber <= 30; blockNumber++) {
+      chain.hashes.set(blockNumber, forkHash(blockNumber));
+    }
+
+    const errors: Error[] = [];
+    const notices: any[] = [];
+    listener.on('error', (error) => errors.push(error));
+    listener.on('reorg', (notice) => notices.push(notice));
+
+    (listener as any)._onBlock();
+    await (listener as any).blockQueue;
+
+    expect(errors[0].message).toMatch(/deeper than/);
+    expect(notices).toEqual([]);
+    expect((listener as any).isListening).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * CheckpointStore and GraphComputer state persistence/rollback tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  CheckpointStore,
+  CHECKPOINT_VERSION,
+  compareCursors,
+} from '../src/services/CheckpointStore';
+import { GraphComputer } from '../src/operators/GraphComputer';
+import type { DelegationEvent } from '../src/services/ChainListener';
+
+const A = '0x' + 'a'.repeat(40);
+const B = '0x' + 'b'.repeat(40);
+const C = '0x' + 'c'.repeat(40);
+
+function event(overrides: Partial<DelegationEvent>): DelegationEvent {
+  return {
+    type: 'Delegated',
+    delegator: A,
+    topicId: 0,
+    timestamp: 0,
+    blockNumber: 1,
+    blockHash: '0x',
+    transactionIndex: 0,
+    logIndex: 0,
+    transactionHash: '0x',
+    ...overrides,
+  };
+}
+
+describe('CheckpointStore', () => {
+  let dir: string;
+  let store: CheckpointStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'checkpoint-'));
+    store = new CheckpointStore(path.join(dir, 'nested', 'checkpoint.json'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return null when no checkpoint exists', async () => {
+    expect(await store.load()).toBeNull();
+  });
+
+  it('should round-trip cursor and topic state', async () => {
+    const computer = new GraphComputer();
+    computer.applyEvent(
+      event({ delegator: '0x' + 'A'.repeat(40), delegate: '0x' + 'B'.repeat(40), topicId: 1 })
+    );
+    computer.applyEvent(
+      event({ type: 'DeadEndDeclared', delegator: '0x' + 'C'.repeat(40), topicId: 1 })
+    );
+
+    await store.save({
+      version: CHECKPOINT_VERSION,
+      cursor: { blockNumber: 42, logIndex: 3 },
+      topics: computer.exportState(),
+      updatedAt: 0,
+    });
+
+    const loaded = await store.load();
+    expect(loaded?.cursor).toEqual({ blockNumber: 42, logIndex: 3 });
+
+    const restored = new GraphComputer();
+    restored.restoreState(loaded!.topics);
+
+    expect(restored.getTopicState(1)?.delegations.get(A)).toBe(B);
+    expect(restored.getTopicState(1)?.deadEnds.has(C)).toBe(true);
+    expect(restored.computeTopic(1)).toEqual(computer.computeTopic(1));
+  });
+
+  it('should keep events before the cursor rollbackable after a restart', async () => {
+    const computer = new GraphComputer();
+    computer.applyEvent(event({ delegator: A, delegate: B, blockNumber: 10 }));
+    computer.applyEvent(event({ delegator: C, delegate: B, blockNumber: 20 }));
+    computer.pruneJournal(5);
+
+    await store.save({
+      version: CHECKPOINT_VERSION,
+      cursor: { blockNumber: 20, logIndex: 0 },
+      topics: computer.exportState(),
+      journal: computer.exportJournal(),
+      updatedAt: 0,
+    });
+
+    const loaded = (await store.load())!;
+    const restored = new GraphComputer();
+    restored.restoreState(loaded.topics, loaded.cursor, loaded.journal);
+
+    expect(restored.rollbackTo({ blockNumber: 15, logIndex: 0 })).toEqual([0]);
+    expect(restored.getTopicState(0)?.delegations.has(C)).toBe(false);
+    expect(restored.getTopicState(0)?.delegations.get(A)).toBe(B);
+    expect(() => restored.rollbackTo({ blockNumber: 4, logIndex: 0 })).toThrow('journal pruned');
+
+    // Checkpoints without a journal cannot be rolled back past their cursor
+    const legacy = new GraphComputer();
+    legacy.restoreState(loaded.topics, loaded.cursor);
+    expect(() => legacy.rollbackTo({ blockNumber: 15, logIndex: 0 })).toThrow('journal pruned');
+  });
+});
+
+describe('compareCursors', () => {
+  it('should order by block then log index', () => {
+    expect(
+      compareCursors({ blockNumber: 1, logIndex: 5 }, { blockNumber: 2, logIndex: 0 })
+    ).toBeLessThan(0);
+    expect(
+      compareCursors({ blockNumber: 2, logIndex: 1 }, { blockNumber: 2, logIndex: 0 })
+    ).toBeGreaterThan(0);
+    expect(compareCursors({ blockNumber: 2, logIndex: 1 }, { blockNumber: 2, logIndex: 1 })).toBe(
+      0
+    );
+  });
+});
+
+describe('GraphComputer rollback', () => {
+  it('should undo events after the cursor', () => {
+    const computer = new GraphComputer();
+    computer.applyEvent(event({ delegator: A, delegate: B, blockNumber: 10 }));
+    const before = computer.computeTopic(0);
+
+    computer.applyEvent(event({ delegator: A, delegate: C, blockNumber: 11 }));
+    computer.applyEvent(
+      event({ type: 'DeadEndDeclared', delegator: B, blockNumber: 11, logIndex: 1 })
+    );
+    computer.applyEvent(event({ type: 'Revoked', delegator: A, blockNumber: 12 }));
+
+    const affected = computer.rollbackTo({ blockNumber: 10, logIndex: Number.MAX_SAFE_INTEGER });
+
+    expect(affected).toEqual([0]);
+    expect(computer.computeTopic(0)).toEqual(before);
+    expect(computer.getTopicState(0)?.deadEnds.size).toBe(0);
+  });
+
+  it('should refuse to roll back past the pruned journal', () => {
+    const computer = new GraphComputer();
+    computer.applyEvent(event({ delegator: A, delegate: B, blockNumber: 10 }));
+    computer.applyEvent(event({ delegator: C, delegate: B, blockNumber: 20 }));
+    computer.pruneJournal(15);
+
+    expect(() => computer.rollbackTo({ blockNumber: 12, logIndex: 0 })).toThrow('journal pruned');
+    expect(computer.rollbackTo({ blockNumber: 15, logIndex: 0 })).toEqual([0]);
+    expect(computer.getTopicState(0)?.delegations.has(C)).toBe(false);
+  });
+});
@@ -4,6 +4,7 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
+import { createRequire } from 'module';
 import {
   buildDelegationGraph,
   findTerminalDelegate,
@@ -11,10 +12,25 @@ import {
   detectCycles,
   validateGraph,
   getDelegationChain,
+  resolveTerminals,
   type DelegationEdge,
   type DelegationGraph,
   type VotingPowerResult
 } from '../src/lib/graph-algorithms';
+import { ethers } from 'ethers';
+import { GraphComputer } from '../src/operators/GraphComputer';
+import type { DelegationEvent } from '../src/services/ChainListener';
+
+const require = createRequire(import.meta.url);
+const delegationVectors = require('@liquid-democracy-engine/result-encoding/test-vectors/delegation.json') as {
+  vectors: Array<{
+    name: string;
+    delegations: DelegationEdge[];
+    deadEnds: string[];
+    terminals: Array<{ address: string; terminal: string }>;
+    powers: VotingPowerResult[];
+  }>;
+};
 
 describe('GraphComputer - Voting Power Calculation', () => {
   describe('buildDelegationGraph', () => {
@@ -316,4 +332,146 @@ describe('GraphComputer - Voting Power Calculation', () => {
       expect(() => getDelegationChain(graph, 'alice')).toThrow('Cycle');
     });
   });
+
+  describe('dead-ends', () => {
+    it('should stop traversal at a dead-end delegate', () => {
+      const edges: DelegationEdge[] = [
+        { from: 'alice', to: 'bob' },
+        { from: 'bob', to: 'charlie' }
+      ];
+      const graph = buildDelegationGraph(edges, ['bob']);
+
+      expect(findTerminalDelegate(graph, 'alice')).toBe('bob');
+      expect(getDelegationChain(graph, 'alice')).toEqual(['alice', 'bob']);
+    });
+
+    it('should aggregate power at the dead-end', () => {
+      const edges: DelegationEdge[] = [
+        { from: 'alice', to: 'bob' },
+        { from: 'bob', to: 'charlie' }
+      ];
+      const graph = buildDelegationGraph(edges, ['bob']);
+      const results = calculateVotingPower(graph, new Set(['alice', 'bob', 'charlie']));
+
+      expect(results.find(r => r.address === 'bob')?.power).toBe(2);
+      expect(results.find(r => r.address === 'charlie')?.power).toBe(1);
+    });
+  });
+
+  describe('resolveTerminals', () => {
+    it('should match findTerminalDelegate for every address', () => {
+      const edges: DelegationEdge[] = [
+        { from: 'alice', to: 'bob' },
+        { from: 'bob', to: 'charlie' },
+        { from: 'dave', to: 'charlie' },
+        { from: 'eve', to: 'frank' }
+      ];
+      const graph = buildDelegationGraph(edges);
+      const terminals = resolveTerminals(graph);
+
+      for (const address of ['alice', 'bob', 'charlie', 'dave', 'eve', 'frank']) {
+        expect(terminals.get(address)).toBe(findTerminalDelegate(graph, address));
+      }
+    });
+
+    it('should bound traversal like the contract for over-deep chains', () => {
+      const edges: DelegationEdge[] = [];
+      const users = Array.from({ length: 11 }, (_, i) => `u${i}`);
+
+      for (let i = 0; i < 10; i++) {
+        edges.push({ from: users[i], to: users[i + 1] });
+      }
+
+      const graph = buildDelegationGraph(edges);
+      const terminals = resolveTerminals(graph);
+
+      // MAX_DELEGATION_DEPTH + 1 hops from u0
+      expect(terminals.get('u0')).toBe('u8');
+      expect(findTerminalDelegate(graph, 'u0')).toBe('u8');
+      expect(terminals.get('u2')).toBe('u10');
+    });
+
+    it('should match the shared delegation vectors', () => {
+      for (const vector of delegationVectors.vectors) {
+        const graph = buildDelegationGraph(vector.delegations, vector.deadEnds);
+        const terminals = resolveTerminals(graph);
+
+        for (const { address, terminal } of vector.terminals) {
+          expect(terminals.get(address), vector.name).toBe(terminal);
+        }
+
+        const participants = new Set(vector.terminals.map(({ address }) => address));
+        const results = calculateVotingPower(graph, participants);
+        expect([...results].sort((a, b) => (a.address < b.address ? -1 : 1)), vector.name).toEqual(
+          vector.powers
+        );
+      }
+    });
+  });
+});
+
+describe('GraphComputer - dead-end declarations on existing chains', () => {
+  const ALICE = ethers.getAddress('0x' + 'a'.repeat(40));
+  const BOB = ethers.getAddress('0x' + 'b'.repeat(40));
+  const CAROL = ethers.getAddress('0x' + 'c'.repeat(40));
+  const DAVE = ethers.getAddress('0x' + 'd'.repeat(40));
+
+  let computer: GraphComputer;
+  let logIndex: number;
+
+  function apply(type: DelegationEvent['type'], delegator: string, delegate?: string): void {
+    computer.applyEvent({
+      type,
+      delegator,
+      delegate,
+      topicId: 1,
+      timestamp: 0,
+      blockNumber: 1,
+      blockHash: '0x',
+      transactionIndex: 0,
+      logIndex: logIndex++,
+      transactionHash: '0x',
+    });
+  }
+
+  function powers(): Record<string, number> {
+    const { addresses, powers } = computer.computeTopic(1);
+    return Object.fromEntries(addresses.map((address, i) => [address, powers[i]]));
+  }
+
+  beforeEach(() => {
+    computer = new GraphComputer();
+    logIndex = 0;
+
+    // Dave -> Alice -> Bob -> Carol
+    apply('Delegated', DAVE, ALICE);
+    apply('Delegated', ALICE, BOB);
+    apply('Delegated', BOB, CAROL);
+  });
+
+  it('should keep incoming chains and end them at a later dead-end', () => {
+    apply('DeadEndDeclared', BOB);
+
+    expect(powers()).toEqual({ [BOB]: 3, [CAROL]: 1 });
+  });
+
+  it('should follow the suspended delegation again once the dead-end is revoked', () => {
+    apply('DeadEndDeclared', BOB);
+    apply('DeadEndRevoked', BOB);
+
+    expect(powers()).toEqual({ [CAROL]: 4 });
+  });
+
+  it('should let delegators leave a dead-end by revoking', () => {
+    apply('DeadEndDeclared', BOB);
+    apply('Revoked', ALICE);
+
+    expect(powers()).toEqual({ [ALICE]: 2, [BOB]: 1, [CAROL]: 1 });
+  });
+
+  it('should not give power to a dead-end outside the graph', () => {
+    apply('DeadEndDeclared', ethers.getAddress('0x' + 'e'.repeat(40)));
+
+    expect(powers()).toEqual({ [CAROL]: 4 });
+  });
 });
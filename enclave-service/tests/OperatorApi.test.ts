@@ -0,0 +1,239 @@
+/**
+ * OperatorApi tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  OperatorApi,
+  type OperatorControl,
+  type OperatorStatus,
+  type PowerProofRecord,
+} from '../src/services/OperatorApi';
+import { OperatorMetrics } from '../src/services/OperatorMetrics';
+
+const TOKEN = 'test-token';
+const DELEGATE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+class FakeOperator implements OperatorControl {
+  status: OperatorStatus = {
+    operator: '0x0000000000000000000000000000000000000001',
+    running: true,
+    synced: false,
+    paused: false,
+    publicKey: '0x' + '11'.repeat(64),
+    signerBackend: 'private-key',
+    appliedBlock: 100,
+    lastProcessedBlock: 120,
+    rpcEndpoints: [],
+    topics: [
+      {
+        topicId: 0,
+        lastEventBlock: 95,
+        lastSubmission: {
+          resultHash: '0xabc',
+          blockNumber: 100,
+          status: 'accepted',
+          transactionHash: '0xdef',
+          updatedAt: 1,
+        },
+      },
+    ],
+  };
+  recomputed: number[] = [];
+
+  getStatus(): OperatorStatus {
+    return this.status;
+  }
+
+  getQueue() {
+    return { batches: [], rounds: [], deferredTopics: [3], unconfirmedEvents: 2 };
+  }
+
+  async getBalance() {
+    return { address: this.status.operator, balance: '1.5', sufficient: true };
+  }
+
+  getPowerProof(topicId: number, address: string): PowerProofRecord | null {
+    if (topicId !== 0 || address.toLowerCase() !== DELEGATE.toLowerCase()) {
+      return null;
+    }
+
+    return {
+      topicId,
+      root: '0x01',
+      commitment: '0x02',
+      address: DELEGATE,
+      power: '5',
+      proof: ['0x03'],
+    };
+  }
+
+  async getAttestationReport(nonce: string = '0x' + '00'.repeat(32)) {
+    return {
+      version: 1,
+      teeType: 'simulated' as const,
+      measurement: '0x' + 'aa'.repeat(32),
+      buildVersion: 'v1.0.0',
+      operator: this.status.operator,
+      publicKey: this.status.publicKey,
+      nonce,
+      reportData: '0x' + 'bb'.repeat(32),
+      timestamp: 1,
+      platformKey: '0x0000000000000000000000000000000000000002',
+      signature: '0x',
+    };
+  }
+
+  requestRecompute(topicId: number): boolean {
+    if (topicId > 2) {
+      return false;
+    }
+
+    this.recomputed.push(topicId);
+    return true;
+  }
+
+  pause(): void {
+    this.status.paused = true;
+  }
+
+  resume(): void {
+    this.status.paused = false;
+  }
+}
+
+describe('OperatorApi', () => {
+  let operator: FakeOperator;
+  let api: OperatorApi;
+  let baseUrl: string;
+
+  async function start(authToken?: string): Promise<void> {
+    api = new OperatorApi({ port: 0, authToken, operator });
+    await api.start();
+    baseUrl = `http://127.0.0.1:${api.getPort()}`;
+  }
+
+  function post(path: string, token?: string): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+  }
+
+  beforeEach(async () => {
+    operator = new FakeOperator();
+    await start(TOKEN);
+  });
+
+  afterEach(async () => {
+    await api.stop();
+  });
+
+  it('should report health', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok' });
+  });
+
+  it('should report readiness once synced', async () => {
+    expect((await fetch(`${baseUrl}/ready`)).status).toBe(503);
+
+    operator.status.synced = true;
+    const response = await fetch(`${baseUrl}/ready`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ready: true, synced: true, paused: false });
+  });
+
+  it('should serve status, topics, queue and balance', async () => {
+    expect(await (await fetch(`${baseUrl}/status`)).json()).toEqual(operator.status);
+    expect(await (await fetch(`${baseUrl}/topics/0`)).json()).toEqual(operator.status.topics[0]);
+    expect((await (await fetch(`${baseUrl}/queue`)).json()).deferredTopics).toEqual([3]);
+    expect((await (await fetch(`${baseUrl}/balance`)).json()).balance).toBe('1.5');
+  });
+
+  it('should return 404 for unknown topics and routes', async () => {
+    expect((await fetch(`${baseUrl}/topics/7`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/nope`)).status).toBe(404);
+  });
+
+  it('should serve power proofs', async () => {
+    const response = await fetch(`${baseUrl}/topics/0/proofs/${DELEGATE.toLowerCase()}`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ address: DELEGATE, power: '5' });
+    expect((await fetch(`${baseUrl}/topics/1/proofs/${DELEGATE}`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/topics/0/proofs/0x1234`)).status).toBe(400);
+  });
+
+  it('should serve attestation reports for a verifier nonce', async () => {
+    const nonce = '0x' + 'cc'.repeat(32);
+    const response = await fetch(`${baseUrl}/attestation?nonce=${nonce}`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    expect(await response.json()).toMatchObject({ nonce, buildVersion: 'v1.0.0' });
+    expect((await fetch(`${baseUrl}/attestation?nonce=0x1234`)).status).toBe(400);
+  });
+
+  it('should reject invalid topic IDs', async () => {
+    expect((await post('/topics/abc/recompute', TOKEN)).status).toBe(400);
+  });
+
+  it('should require the bearer token for control endpoints', async () => {
+    expect((await post('/pause')).status).toBe(401);
+    expect((await post('/pause', 'wrong')).status).toBe(401);
+    expect(operator.status.paused).toBe(false);
+  });
+
+  it('should pause, resume and request recomputes', async () => {
+    expect((await post('/pause', TOKEN)).status).toBe(200);
+    expect(operator.status.paused).toBe(true);
+
+    expect((await post('/resume', TOKEN)).status).toBe(200);
+    expect(operator.status.paused).toBe(false);
+
+    const response = await post('/topics/2/recompute', TOKEN);
+    expect(response.status).toBe(202);
+    expect(operator.recomputed).toEqual([2]);
+  });
+
+  it('should not recompute unknown topics', async () => {
+    const response = await post('/topics/7/recompute', TOKEN);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Unknown topic 7' });
+    expect(operator.recomputed).toEqual([]);
+  });
+
+  it('should serve Prometheus metrics when configured', async () => {
+    expect((await fetch(`${baseUrl}/metrics`)).status).toBe(404);
+
+    await api.stop();
+    api = new OperatorApi({
+      port: 0,
+      operator,
+      metrics: new OperatorMetrics({
+        getBalance: async () => 0n,
+        getBackfillLag: async () => 0,
+        defaultMetrics: false,
+      }),
+    });
+    await api.start();
+
+    const response = await fetch(`http://127.0.0.1:${api.getPort()}/metrics`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    expect(await response.text()).toContain('enclave_backfill_lag_blocks 0');
+  });
+
+  it('should disable control endpoints without a token', async () => {
+    await api.stop();
+    await start();
+
+    expect((await post('/pause')).status).toBe(403);
+    expect(operator.status.paused).toBe(false);
+  });
+});
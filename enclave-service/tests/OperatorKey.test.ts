@@ -0,0 +1,226 @@
+/**
+ * Operator signer backend tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import {
+  loadOperatorKey,
+  operatorPublicKeyToAddress,
+  type OperatorKey,
+} from '../src/signers/OperatorKey';
+import { MockRemoteSigner } from '../src/signers/MockRemoteSigner';
+import { AttestationSigner } from '../src/operators/AttestationSigner';
+
+const PRIVATE_KEY = '0x' + '01'.repeat(32);
+const SEALING_KEY = '0x' + '5e'.repeat(32);
+const RESULT_HASH = ethers.id('result');
+
+/**
+ * Signature recovery as performed by AttestationLib.recoverSigner
+ */
+function recoverAttestationSigner(signature: string): string {
+  return ethers.verifyMessage(ethers.getBytes(RESULT_HASH), signature);
+}
+
+/**
+ * The registered public key must resolve to the address that signs results
+ */
+async function expectConsistent(key: OperatorKey): Promise<void> {
+  const signature = await new AttestationSigner(key).sign(RESULT_HASH);
+
+  expect(recoverAttestationSigner(signature)).toBe(key.address);
+  expect(operatorPublicKeyToAddress(key.publicKey)).toBe(key.address);
+  expect(ethers.dataLength(key.publicKey)).toBe(64);
+}
+
+describe('loadOperatorKey', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'operator-key-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should derive the public key of a raw private key', async () => {
+    const key = await loadOperatorKey({ backend: 'private-key', privateKey: PRIVATE_KEY });
+
+    expect(key.address).toBe(new ethers.Wallet(PRIVATE_KEY).address);
+    expect(key.publicKey).toBe(
+      ethers.dataSlice(new ethers.Wallet(PRIVATE_KEY).signingKey.publicKey, 1)
+    );
+    await expectConsistent(key);
+  });
+
+  it('should decrypt a keystore and reject a wrong passphrase', async () => {
+    const keystorePath = path.join(dir, 'keystore.json');
+    const account = new ethers.Wallet(PRIVATE_KEY);
+    // Cheap scrypt parameters keep the test fast
+    writeFileSync(
+      keystorePath,
+      ethers.encryptKeystoreJsonSync(
+        { address: account.address, privateKey: account.privateKey },
+        'secret',
+        { scrypt: { N: 1024 } }
+      )
+    );
+
+    const key = await loadOperatorKey({ backend: 'keystore', keystorePath, passphrase: 'secret' });
+    expect(key.address).toBe(account.address);
+    await expectConsistent(key);
+
+    await expect(
+      loadOperatorKey({ backend: 'keystore', keystorePath, passphrase: 'wrong' })
+    ).rejects.toThrow('Cannot decrypt keystore');
+  });
+
+  it('should generate a sealed key once and unseal it on restart', async () => {
+    const sealedKeyPath = path.join(dir, 'sealed-key.json');
+
+    const first = await loadOperatorKey({
+      backend: 'sealed',
+      sealedKeyPath,
+      sealingKey: SEALING_KEY,
+    });
+    const second = await loadOperatorKey({
+      backend: 'sealed',
+      sealedKeyPath,
+      sealingKey: SEALING_KEY,
+    });
+
+    expect(second.address).toBe(first.address);
+    expect(second.publicKey).toBe(first.publicKey);
+    await expectConsistent(second);
+
+    // Only the ciphertext is persisted
+    const sealed = readFileSync(sealedKeyPath, 'utf8');
+    expect(sealed).toContain(first.address);
+    expect(sealed).not.toMatch(/privateKey/i);
+
+    await expect(
+      loadOperatorKey({ backend: 'sealed', sealedKeyPath, sealingKey: '0x' + '00'.repeat(32) })
+    ).rejects.toThrow('wrong sealing key');
+  });
+
+  describe('remote', () => {
+    let remote: MockRemoteSigner;
+
+    beforeEach(async () => {
+      remote = new MockRemoteSigner({ privateKey: PRIVATE_KEY, authToken: 'token' });
+      await remote.start();
+    });
+
+    afterEach(async () => {
+      await remote.stop();
+    });
+
+    it('should sign attestations through the remote signer', async () => {
+      const key = await loadOperatorKey({
+        backend: 'remote',
+        url: remote.getUrl(),
+        authToken: 'token',
+      });
+
+      expect(key.address).toBe(remote.getAddress());
+      await expectConsistent(key);
+      expect(remote.requests).toEqual(['eth_accounts', 'eth_sign', 'eth_sign']);
+    });
+
+    it('should sign transactions as the remote account', async () => {
+      const key = await loadOperatorKey({
+        backend: 'remote',
+        url: remote.getUrl(),
+        authToken: 'token',
+      });
+
+      const raw = await key.signer.signTransaction({
+        to: '0x' + '22'.repeat(20),
+        data: '0x1234',
+        nonce: 7,
+        gasLimit: 100000n,
+        maxFeePerGas: 2_000_000_000n,
+        maxPriorityFeePerGas: 1_000_000_000n,
+        chainId: 10200n,
+        type: 2,
+      });
+      const tx = ethers.Transaction.from(raw);
+
+      expect(tx.from).toBe(key.address);
+      expect(tx.nonce).toBe(7);
+      expect(tx.data).toBe('0x1234');
+    });
+
+    it('should reject transactions the signer changed before signing', async () => {
+      const key = await loadOperatorKey({
+        backend: 'remote',
+        url: remote.getUrl(),
+        authToken: 'token',
+      });
+      const request: ethers.TransactionRequest = {
+        to: '0x' + '22'.repeat(20),
+        data: '0x1234',
+        nonce: 7,
+        gasLimit: 100000n,
+        maxFeePerGas: 2_000_000_000n,
+        maxPriorityFeePerGas: 1_000_000_000n,
+        chainId: 10200n,
+        type: 2,
+      };
+      const tampering: Array<[string, Record<string, string>]> = [
+        ['to', { to: '0x' + '44'.repeat(20) }],
+        ['data', { data: '0xdeadbeef' }],
+        ['value', { value: '0x1' }],
+        ['nonce', { nonce: '0x8' }],
+        ['gas', { gas: '0x1' }],
+        ['maxFeePerGas', { maxFeePerGas: ethers.toQuantity(3_000_000_000n) }],
+        ['chainId', { chainId: '0x64' }],
+      ];
+
+      const realFetch = globalThis.fetch;
+      let tamper: Record<string, string> = {};
+      // Rewrite eth_signTransaction requests on their way to the signer
+      const spy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (url, init) => {
+        const body = JSON.parse(init!.body as string);
+        if (body.method === 'eth_signTransaction') {
+          body.params[0] = { ...body.params[0], ...tamper };
+        }
+        return realFetch(url, { ...init, body: JSON.stringify(body) });
+      });
+
+      try {
+        for (const [field, change] of tampering) {
+          tamper = change;
+          await expect(key.signer.signTransaction(request), field).rejects.toThrow(
+            `changed ${field} of the transaction`
+          );
+        }
+
+        tamper = {};
+        await expect(key.signer.signTransaction(request)).resolves.toMatch(/^0x02/);
+      } finally {
+        spy.mockRestore();
+      }
+    });
+
+    it('should reject accounts the signer does not hold and missing credentials', async () => {
+      await expect(
+        loadOperatorKey({
+          backend: 'remote',
+          url: remote.getUrl(),
+          address: '0x' + '33'.repeat(20),
+          authToken: 'token',
+        })
+      ).rejects.toThrow('does not hold');
+
+      await expect(loadOperatorKey({ backend: 'remote', url: remote.getUrl() })).rejects.toThrow(
+        'HTTP 401'
+      );
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * OperatorMetrics tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+import { OperatorMetrics } from '../src/services/OperatorMetrics';
+
+describe('OperatorMetrics', () => {
+  let metrics: OperatorMetrics;
+
+  beforeEach(() => {
+    metrics = new OperatorMetrics({
+      getBalance: async () => ethers.parseEther('1.25'),
+      getBackfillLag: async () => 42,
+      defaultMetrics: false,
+    });
+  });
+
+  it('should count events per type', async () => {
+    metrics.eventsReceived.inc({ type: 'Delegated' });
+    metrics.eventsReceived.inc({ type: 'Delegated' });
+    metrics.eventsReceived.inc({ type: 'Revoked' });
+
+    const output = await metrics.render();
+
+    expect(output).toContain('enclave_events_received_total{type="Delegated"} 2');
+    expect(output).toContain('enclave_events_received_total{type="Revoked"} 1');
+  });
+
+  it('should read balance and backfill lag on scrape', async () => {
+    const output = await metrics.render();
+
+    expect(output).toContain('enclave_operator_balance_xdai 1.25');
+    expect(output).toContain('enclave_backfill_lag_blocks 42');
+  });
+
+  it('should record accepted and rejected submissions with gas', async () => {
+    metrics.recordSubmission(1, true, 21000n);
+    metrics.recordSubmission(1, false, 30000n, 'Stale block');
+
+    const output = await metrics.render();
+
+    expect(output).toContain('enclave_attestations_submitted_total{topic="1"} 2');
+    expect(output).toContain('enclave_attestations_accepted_total{topic="1"} 1');
+    expect(output).toContain(
+      'enclave_attestations_rejected_total{topic="1",reason="Stale block"} 1'
+    );
+    expect(output).toContain('enclave_gas_used_total{topic="1"} 51000');
+  });
+
+  it('should keep serving when a scrape-time read fails', async () => {
+    const failing = new OperatorMetrics({
+      getBalance: async () => {
+        throw new Error('rpc down');
+      },
+      getBackfillLag: async () => 0,
+      defaultMetrics: false,
+    });
+
+    await expect(failing.render()).resolves.toContain('enclave_backfill_lag_blocks 0');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Build measurement and simulated attestation report tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { verifyReport } from '@liquid-democracy-engine/attestation-report';
+import { measureBuild } from '../src/tee/Measurement';
+import { SimulatedQuoteProvider } from '../src/tee/QuoteProvider';
+import { loadOperatorKey } from '../src/signers/OperatorKey';
+
+const PLATFORM_KEY = '0x' + '02'.repeat(32);
+
+describe('measureBuild', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'build-'));
+    mkdirSync(path.join(dir, 'services'));
+    writeFileSync(path.join(dir, 'index.js'), 'main();');
+    writeFileSync(path.join(dir, 'services', 'a.js'), 'export const a = 1;');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should change with any code change but not with source maps', async () => {
+    const measurement = await measureBuild(dir);
+    expect(ethers.isHexString(measurement, 32)).toBe(true);
+
+    writeFileSync(path.join(dir, 'index.js.map'), '{"sources":["/home/ci/src/index.ts"]}');
+    expect(await measureBuild(dir)).toBe(measurement);
+
+    writeFileSync(path.join(dir, 'services', 'a.js'), 'export const a = 2;');
+    expect(await measureBuild(dir)).not.toBe(measurement);
+  });
+});
+
+describe('SimulatedQuoteProvider', () => {
+  it('should report the operator key and build for a verifier nonce', async () => {
+    const operatorKey = await loadOperatorKey({
+      backend: 'private-key',
+      privateKey: '0x' + '01'.repeat(32),
+    });
+    const measurement = ethers.id('build');
+    const quotes = new SimulatedQuoteProvider({
+      operatorKey,
+      buildVersion: 'v1.0.0',
+      platformKey: PLATFORM_KEY,
+      measurement,
+    });
+    const nonce = ethers.id('challenge');
+
+    const report = await quotes.getReport(nonce);
+    const result = verifyReport(report, {
+      allowSimulated: true,
+      measurements: [measurement],
+      platformKeys: [quotes.getPlatformKey()],
+      expectedPublicKey: operatorKey.publicKey,
+      nonce,
+    });
+
+    expect(report.operator).toBe(operatorKey.address);
+    expect(result.valid).toBe(true);
+    await expect(quotes.getReport('0x1234')).rejects.toThrow('32 bytes');
+  });
+});
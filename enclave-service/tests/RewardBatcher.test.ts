@@ -0,0 +1,109 @@
+/**
+ * RewardBatcher tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RewardBatcher } from '../src/services/RewardBatcher';
+
+describe('RewardBatcher', () => {
+  let flushed: number[];
+  let batcher: RewardBatcher;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    flushed = [];
+    batcher = new RewardBatcher({
+      window: 1000,
+      maxLatency: 5000,
+      onFlush: (topicId) => flushed.push(topicId),
+    });
+  });
+
+  afterEach(() => {
+    batcher.clear();
+    vi.useRealTimers();
+  });
+
+  it('should flush a topic once the window passes without changes', () => {
+    batcher.schedule(1);
+
+    vi.advanceTimersByTime(999);
+    expect(flushed).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    expect(flushed).toEqual([1]);
+    expect(batcher.getPending()).toEqual([]);
+  });
+
+  it('should coalesce changes within the window into one flush', () => {
+    batcher.schedule(1);
+    vi.advanceTimersByTime(800);
+    batcher.schedule(1);
+    vi.advanceTimersByTime(800);
+    batcher.schedule(1);
+
+    expect(batcher.getPending()[0].changes).toBe(3);
+
+    vi.advanceTimersByTime(1000);
+    expect(flushed).toEqual([1]);
+  });
+
+  it('should flush by max latency under continuous changes', () => {
+    batcher.schedule(1);
+
+    for (let elapsed = 0; elapsed < 4800; elapsed += 800) {
+      vi.advanceTimersByTime(800);
+      batcher.schedule(1);
+    }
+    expect(flushed).toEqual([]);
+
+    vi.advanceTimersByTime(200);
+    expect(flushed).toEqual([1]);
+  });
+
+  it('should batch topics independently', () => {
+    batcher.schedule(1);
+    vi.advanceTimersByTime(500);
+    batcher.schedule(2);
+
+    vi.advanceTimersByTime(500);
+    expect(flushed).toEqual([1]);
+
+    vi.advanceTimersByTime(500);
+    expect(flushed).toEqual([1, 2]);
+  });
+
+  it('should list pending batches soonest first', () => {
+    batcher.schedule(2);
+    vi.advanceTimersByTime(100);
+    batcher.schedule(1);
+
+    expect(batcher.getPending().map((batch) => batch.topicId)).toEqual([2, 1]);
+  });
+
+  it('should drop pending batches on clear', () => {
+    batcher.schedule(1);
+    batcher.schedule(2);
+
+    expect(batcher.clear().sort()).toEqual([1, 2]);
+
+    vi.advanceTimersByTime(5000);
+    expect(flushed).toEqual([]);
+  });
+
+  it('should flush immediately on demand', () => {
+    batcher.schedule(1);
+
+    expect(batcher.flush(1)).toBe(true);
+    expect(batcher.flush(1)).toBe(false);
+
+    vi.advanceTimersByTime(5000);
+    expect(flushed).toEqual([1]);
+  });
+
+  it('should reject a window longer than max latency', () => {
+    expect(() => new RewardBatcher({ window: 2000, maxLatency: 1000, onFlush: () => {} })).toThrow(
+      'must not exceed max latency'
+    );
+  });
+});
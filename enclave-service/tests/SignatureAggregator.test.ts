@@ -0,0 +1,243 @@
+/**
+ * SignatureAggregator and signature transport tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { SignatureAggregator, rankSubmitters } from '../src/coordination/SignatureAggregator';
+import { InProcessNetwork, type SignatureShare } from '../src/coordination/SignatureTransport';
+import { HttpTransport } from '../src/coordination/HttpTransport';
+import { calculateResultHash } from '../src/operators/AttestationSigner';
+
+const RESULT_HASH = calculateResultHash(['0x0000000000000000000000000000000000000001'], [3]);
+const OTHER_HASH = calculateResultHash(['0x0000000000000000000000000000000000000002'], [3]);
+
+const wallets = Array.from({ length: 5 }, () => ethers.Wallet.createRandom());
+const operatorSet = {
+  operators: wallets.map((wallet) => wallet.address.toLowerCase()),
+  threshold: 3,
+};
+
+async function share(
+  wallet: ethers.HDNodeWallet,
+  resultHash: string = RESULT_HASH,
+  topicId: number = 0
+): Promise<SignatureShare> {
+  return {
+    topicId,
+    blockNumber: 100,
+    resultHash,
+    operator: wallet.address,
+    signature: await wallet.signMessage(ethers.getBytes(resultHash)),
+  };
+}
+
+describe('SignatureAggregator', () => {
+  let network: InProcessNetwork;
+  let aggregators: SignatureAggregator[];
+
+  beforeEach(async () => {
+    network = new InProcessNetwork();
+    aggregators = wallets.map(
+      (wallet) =>
+        new SignatureAggregator({
+          operator: wallet.address,
+          transport: network.createTransport(),
+          getOperatorSet: async () => operatorSet,
+          timeout: 200,
+        })
+    );
+    await Promise.all(aggregators.map((aggregator) => aggregator.start()));
+  });
+
+  afterEach(async () => {
+    await Promise.all(aggregators.map((aggregator) => aggregator.stop()));
+  });
+
+  it('reaches threshold once M operators sign the same result', async () => {
+    const results = await Promise.all(
+      [0, 1, 2].map(async (i) => aggregators[i].collect(await share(wallets[i])))
+    );
+
+    for (const result of results) {
+      expect(result).not.toBeNull();
+      expect(result!.signatures).toHaveLength(3);
+      expect(result!.signers).toEqual(operatorSet.operators.slice(0, 3).sort());
+
+      result!.signatures.forEach((signature, i) => {
+        const signer = ethers.verifyMessage(ethers.getBytes(RESULT_HASH), signature);
+        expect(signer.toLowerCase()).toBe(result!.signers[i]);
+      });
+    }
+  });
+
+  it('elects the same submitter on every operator', async () => {
+    const results = await Promise.all(
+      [0, 1, 2].map(async (i) => aggregators[i].collect(await share(wallets[i])))
+    );
+
+    const submitters = results.map((result) => result!.submitters);
+    expect(submitters[1]).toEqual(submitters[0]);
+    expect(submitters[2]).toEqual(submitters[0]);
+
+    results.forEach((result, i) => {
+      expect(result!.rank).toBe(result!.submitters.indexOf(operatorSet.operators[i]));
+    });
+  });
+
+  it('uses shares received before the local round started', async () => {
+    await aggregators[1].collect(await share(wallets[1])).catch(() => null);
+    await aggregators[2].collect(await share(wallets[2])).catch(() => null);
+
+    const result = await aggregators[0].collect(await share(wallets[0]));
+
+    expect(result).not.toBeNull();
+    expect(result!.signers).toHaveLength(3);
+  });
+
+  it('does not count signatures over a different result', async () => {
+    const [result] = await Promise.all([
+      aggregators[0].collect(await share(wallets[0])),
+      aggregators[1].collect(await share(wallets[1], OTHER_HASH)),
+      aggregators[2].collect(await share(wallets[2], OTHER_HASH)),
+    ]);
+
+    expect(result).toBeNull();
+  });
+
+  it('does not count the same result on a different topic', async () => {
+    const [result] = await Promise.all([
+      aggregators[0].collect(await share(wallets[0], RESULT_HASH, 0)),
+      aggregators[1].collect(await share(wallets[1], RESULT_HASH, 1)),
+      aggregators[2].collect(await share(wallets[2], RESULT_HASH, 1)),
+    ]);
+
+    expect(result).toBeNull();
+  });
+
+  it('ignores shares from non-operators and forged shares', async () => {
+    const outsider = ethers.Wallet.createRandom();
+    const transport = network.createTransport();
+    await transport.start(() => {});
+
+    const pending = aggregators[0].collect(await share(wallets[0]));
+
+    await transport.broadcast(await share(outsider));
+    // Signed by an outsider but claiming to be an operator
+    await transport.broadcast({ ...(await share(outsider)), operator: wallets[1].address });
+    await transport.broadcast(await share(wallets[2]));
+
+    expect(await pending).toBeNull();
+    await transport.stop();
+  });
+
+  it('collects more than the threshold when asked to', async () => {
+    const local = await share(wallets[0]);
+    const [result] = await Promise.all([
+      aggregators[0].collect(local, 4),
+      ...[1, 2, 3].map(async (i) => aggregators[i].collect(await share(wallets[i]))),
+    ]);
+
+    expect(result!.signatures).toHaveLength(4);
+  });
+
+  it('rejects a local share not signed by the local operator', async () => {
+    const forged = { ...(await share(wallets[1])), operator: wallets[0].address };
+    await expect(aggregators[0].collect(forged)).rejects.toThrow(
+      'not signed by an active operator'
+    );
+  });
+});
+
+describe('rankSubmitters', () => {
+  it('returns a permutation of the operator set', () => {
+    const ranked = rankSubmitters(0, RESULT_HASH, operatorSet.operators);
+    expect([...ranked].sort()).toEqual([...operatorSet.operators].sort());
+  });
+
+  it('is independent of input order', () => {
+    const reversed = [...operatorSet.operators].reverse();
+    expect(rankSubmitters(0, RESULT_HASH, reversed)).toEqual(
+      rankSubmitters(0, RESULT_HASH, operatorSet.operators)
+    );
+  });
+
+  it('varies with the topic and result', () => {
+    const orders = new Set(
+      [0, 1, 2, 3, 4, 5, 6, 7].map((topicId) =>
+        rankSubmitters(topicId, RESULT_HASH, operatorSet.operators).join(',')
+      )
+    );
+    expect(orders.size).toBeGreaterThan(1);
+  });
+});
+
+describe('HttpTransport', () => {
+  let receiver: HttpTransport;
+  let received: SignatureShare[];
+
+  beforeEach(async () => {
+    received = [];
+    receiver = new HttpTransport({ port: 0, host: '127.0.0.1', peers: [] });
+    await receiver.start((incoming) => received.push(incoming));
+  });
+
+  afterEach(async () => {
+    await receiver.stop();
+  });
+
+  it('delivers shares to peers', async () => {
+    const sender = new HttpTransport({
+      port: 0,
+      host: '127.0.0.1',
+      peers: [`http://127.0.0.1:${receiver.getPort()}/`],
+    });
+    const outgoing = await share(wallets[0]);
+
+    await sender.broadcast(outgoing);
+
+    expect(received).toEqual([outgoing]);
+  });
+
+  it('rejects malformed shares', async () => {
+    const response = await fetch(`http://127.0.0.1:${receiver.getPort()}/signatures`, {
+      method: 'POST',
+      body: JSON.stringify({ topicId: 'x' }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(received).toHaveLength(0);
+  });
+
+  it('tolerates unreachable peers', async () => {
+    const sender = new HttpTransport({
+      port: 0,
+      peers: ['http://127.0.0.1:1'],
+      requestTimeout: 500,
+    });
+
+    await expect(sender.broadcast(await share(wallets[0]))).resolves.toBeUndefined();
+    await sender.stop();
+  });
+
+  it('retries peers that come up after the first attempt', async () => {
+    const port = receiver.getPort();
+    await receiver.stop();
+
+    const sender = new HttpTransport({
+      port: 0,
+      peers: [`http://127.0.0.1:${port}`],
+      requestTimeout: 500,
+      retryWindow: 5000,
+    });
+    const outgoing = await share(wallets[0]);
+    await sender.broadcast(outgoing);
+    expect(received).toHaveLength(0);
+
+    receiver = new HttpTransport({ port, host: '127.0.0.1', peers: [] });
+    await receiver.start((incoming) => received.push(incoming));
+    await vi.waitFor(() => expect(received).toEqual([outgoing]), { timeout: 3000 });
+
+    await sender.stop();
+  });
+});
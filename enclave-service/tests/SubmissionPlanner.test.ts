@@ -0,0 +1,42 @@
+/**
+ * SubmissionPlanner tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  estimateAttestationGas,
+  measureCalldata,
+  planSubmission,
+} from '../src/services/SubmissionPlanner';
+
+describe('measureCalldata', () => {
+  it('should count bytes and price zero and non-zero bytes', () => {
+    expect(measureCalldata('0x00ff0001')).toEqual({ bytes: 4, gas: 4 + 16 + 4 + 16 });
+    expect(measureCalldata('0x')).toEqual({ bytes: 0, gas: 0 });
+  });
+});
+
+describe('planSubmission', () => {
+  const limits = { maxCalldataBytes: 1000, maxGas: 1_000_000 };
+
+  it('should submit small results in full', () => {
+    const plan = planSubmission(`0x${'11'.repeat(500)}`, 2, limits);
+
+    expect(plan).toEqual({
+      mode: 'full',
+      calldataBytes: 500,
+      estimatedGas: estimateAttestationGas(500 * 16, 2),
+    });
+  });
+
+  it('should commit a root when calldata exceeds the limit', () => {
+    expect(planSubmission(`0x${'00'.repeat(1001)}`, 2, limits).mode).toBe('root');
+  });
+
+  it('should commit a root when gas exceeds the limit', () => {
+    const plan = planSubmission('0x11', 10, limits);
+
+    expect(plan.estimatedGas).toBeGreaterThan(limits.maxGas);
+    expect(plan.mode).toBe('root');
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * TransactionManager and SubmissionStore tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { SubmissionStore } from '../src/services/SubmissionStore';
+import {
+  TransactionManager,
+  MAX_BLOCK_AGE,
+  deriveAttestationNonce,
+  type SubmissionRequest,
+} from '../src/services/TransactionManager';
+
+const OPERATOR = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const GWEI = 1_000_000_000n;
+
+/**
+ * Minimal chain: records sent transactions and mines them on demand
+ */
+class FakeChain {
+  sent: ethers.TransactionRequest[] = [];
+  mined: Map<string, number> = new Map();
+  blockNumber = 1000;
+  confirmedNonce = 0;
+  fees = { maxFeePerGas: 10n * GWEI, maxPriorityFeePerGas: 1n * GWEI };
+  landed: string | null = null;
+
+  signer = {
+    getAddress: async () => OPERATOR,
+    sendTransaction: async (tx: ethers.TransactionRequest) => {
+      this.sent.push(tx);
+      return { hash: ethers.id(`tx-${this.sent.length}`) } as ethers.TransactionResponse;
+    },
+  };
+
+  provider = {
+    getBlockNumber: async () => this.blockNumber,
+    getFeeData: async () => ({ gasPrice: null, ...this.fees }) as unknown as ethers.FeeData,
+    getTransactionCount: async (_address: ethers.AddressLike, blockTag?: ethers.BlockTag) =>
+      blockTag === 'pending' ? this.confirmedNonce + this.sent.length : this.confirmedNonce,
+    getTransactionReceipt: async (hash: string) =>
+      this.mined.has(hash)
+        ? ({ hash, status: this.mined.get(hash), gasUsed: 21000n } as ethers.TransactionReceipt)
+        : null,
+  };
+
+  hashOf(index: number): string {
+    return ethers.id(`tx-${index + 1}`);
+  }
+
+  mine(index: number, status: number = 1): void {
+    this.mined.set(this.hashOf(index), status);
+    this.confirmedNonce++;
+  }
+}
+
+function request(overrides: Partial<SubmissionRequest> = {}): SubmissionRequest {
+  return {
+    topicId: 1,
+    resultHash: ethers.id('result'),
+    blockNumber: 1000,
+    attestationNonce: deriveAttestationNonce(1, 1000, OPERATOR),
+    to: '0x0000000000000000000000000000000000000abc',
+    data: '0x1234',
+    gasLimit: 300000n,
+    ...overrides,
+  };
+}
+
+async function until(condition: () => boolean | Promise<boolean>): Promise<void> {
+  while (!(await condition())) {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  }
+}
+
+describe('deriveAttestationNonce', () => {
+  it('should be deterministic and unique per topic, block and operator', () => {
+    const nonce = deriveAttestationNonce(1, 1000, OPERATOR);
+
+    expect(deriveAttestationNonce(1, 1000, OPERATOR.toLowerCase())).toBe(nonce);
+    expect(deriveAttestationNonce(2, 1000, OPERATOR)).not.toBe(nonce);
+    expect(deriveAttestationNonce(1, 1001, OPERATOR)).not.toBe(nonce);
+    expect(deriveAttestationNonce(1, 1000, '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC')).not.toBe(
+      nonce
+    );
+  });
+});
+
+describe('TransactionManager', () => {
+  let dir: string;
+  let store: SubmissionStore;
+  let chain: FakeChain;
+  let manager: TransactionManager;
+
+  function createManager(overrides: { stuckTimeout?: number; maxFeePerGas?: bigint } = {}) {
+    return new TransactionManager({
+      signer: chain.signer,
+      provider: chain.provider,
+      store,
+      findLanded: async () => chain.landed,
+      pollInterval: 2,
+      stuckTimeout: overrides.stuckTimeout ?? 60000,
+      maxFeePerGas: overrides.maxFeePerGas,
+    });
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'submissions-'));
+    store = new SubmissionStore(path.join(dir, 'pending.json'));
+    chain = new FakeChain();
+    manager = createManager();
+  });
+
+  afterEach(async () => {
+    await manager.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist a submission until it is confirmed', async () => {
+    const outcome = manager.submit(request());
+
+    await until(async () => (await store.load()).length === 1);
+    expect((await store.load())[0].attempts[0].hash).toBe(chain.hashOf(0));
+
+    chain.mine(0);
+
+    expect((await outcome).status).toBe('confirmed');
+    expect(await store.load()).toEqual([]);
+  });
+
+  it('should give concurrent submissions distinct account nonces', async () => {
+    const first = manager.submit(request());
+    const second = manager.submit(request({ attestationNonce: 2n }));
+
+    await until(() => chain.sent.length === 2);
+    expect(chain.sent.map((tx) => tx.nonce)).toEqual([0, 1]);
+
+    chain.mine(0);
+    chain.mine(1);
+    await Promise.all([first, second]);
+  });
+
+  it('should re-price a stuck transaction at the same nonce', async () => {
+    manager = createManager({ stuckTimeout: 5 });
+    const outcome = manager.submit(request());
+
+    await until(() => chain.sent.length >= 2);
+    const [original, replacement] = chain.sent;
+
+    expect(replacement.nonce).toBe(original.nonce);
+    expect(replacement.data).toBe(original.data);
+    expect(BigInt(replacement.maxFeePerGas!)).toBe(12n * GWEI);
+    expect(BigInt(replacement.maxPriorityFeePerGas!)).toBe((12n * GWEI) / 10n);
+
+    chain.mine(1);
+    expect((await outcome).receipt?.hash).toBe(chain.hashOf(1));
+  });
+
+  it('should not replace beyond the fee cap', async () => {
+    manager = createManager({ stuckTimeout: 5, maxFeePerGas: 11n * GWEI });
+    const outcome = manager.submit(request());
+
+    await until(() => chain.sent.length === 1);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(chain.sent).toHaveLength(1);
+
+    chain.mine(0);
+    expect((await outcome).status).toBe('confirmed');
+  });
+
+  it('should cancel when another operator landed the result hash', async () => {
+    const outcome = manager.submit(request());
+    await until(() => chain.sent.length === 1);
+
+    chain.landed = ethers.id('other-operator-tx');
+    await until(() => chain.sent.length === 2);
+
+    const cancel = chain.sent[1];
+    expect(cancel.to).toBe(OPERATOR);
+    expect(cancel.data).toBe('0x');
+    expect(cancel.nonce).toBe(chain.sent[0].nonce);
+
+    chain.mine(1);
+    expect(await outcome).toMatchObject({ status: 'superseded', landedBy: chain.landed });
+  });
+
+  it('should cancel once the attestation block is too old', async () => {
+    const outcome = manager.submit(request());
+    await until(() => chain.sent.length === 1);
+
+    chain.blockNumber = 1000 + MAX_BLOCK_AGE + 1;
+    await until(() => chain.sent.length === 2);
+    chain.mine(1);
+
+    expect((await outcome).status).toBe('cancelled');
+  });
+
+  it('should resume persisted submissions after a restart', async () => {
+    const interrupted = manager.submit(request());
+    await until(() => manager.getPending().length === 1);
+    await manager.stop();
+    expect((await interrupted).status).toBe('interrupted');
+
+    manager = createManager();
+    expect(await manager.resume()).toBe(1);
+
+    chain.mine(0);
+    await until(async () => (await store.load()).length === 0);
+    expect(manager.getPending()).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * VotePowerVerifier error decoding tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  VERIFIER_ERRORS_ABI,
+  decodeAttestationRevert,
+  describeAttestationRevert,
+} from '../src/services/VerifierErrors';
+
+const iface = new ethers.Interface(VERIFIER_ERRORS_ABI);
+const OPERATOR = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+function revertData(name: string, args: unknown[] = []): string {
+  return iface.encodeErrorResult(name, args);
+}
+
+describe('decodeAttestationRevert', () => {
+  it('should decode every verifier error with its arguments', () => {
+    const cases: Array<[string, unknown[], object]> = [
+      ['ArrayLengthMismatch', [], { name: 'ArrayLengthMismatch' }],
+      ['ResultHashMismatch', [], { name: 'ResultHashMismatch' }],
+      [
+        'InsufficientSignatures',
+        [2, 3],
+        { name: 'InsufficientSignatures', provided: 2, required: 3 },
+      ],
+      [
+        'InvalidOperatorSignature',
+        [OPERATOR],
+        { name: 'InvalidOperatorSignature', recovered: OPERATOR },
+      ],
+      [
+        'DuplicateOperatorSignature',
+        [OPERATOR],
+        { name: 'DuplicateOperatorSignature', operator: OPERATOR },
+      ],
+      ['NonceAlreadyUsed', [7n], { name: 'NonceAlreadyUsed', nonce: 7n }],
+      ['BlockNumberTooOld', [100, 250], { name: 'BlockNumberTooOld', provided: 100, current: 250 }],
+      ['SignatureVerificationFailed', [], { name: 'SignatureVerificationFailed' }],
+    ];
+
+    for (const [name, args, expected] of cases) {
+      expect(decodeAttestationRevert({ data: revertData(name, args) })).toEqual(expected);
+    }
+  });
+
+  it('should find revert data nested in provider errors', () => {
+    const data = revertData('NonceAlreadyUsed', [1n]);
+
+    expect(decodeAttestationRevert({ info: { error: { data } } }).name).toBe('NonceAlreadyUsed');
+    expect(decodeAttestationRevert({ error: { data } }).name).toBe('NonceAlreadyUsed');
+  });
+
+  it('should fall back to Unknown with the error message', () => {
+    expect(decodeAttestationRevert(new Error('network down'))).toEqual({
+      name: 'Unknown',
+      message: 'network down',
+    });
+    expect(decodeAttestationRevert({ data: '0xdeadbeef', shortMessage: 'reverted' })).toEqual({
+      name: 'Unknown',
+      message: 'reverted',
+    });
+  });
+});
+
+describe('describeAttestationRevert', () => {
+  it('should include the decoded arguments', () => {
+    expect(
+      describeAttestationRevert({ name: 'BlockNumberTooOld', provided: 100, current: 250 })
+    ).toBe('BlockNumberTooOld (block 100, head 250)');
+    expect(describeAttestationRevert({ name: 'ResultHashMismatch' })).toBe('ResultHashMismatch');
+  });
+});
@@ -45,6 +45,14 @@ export const VotePowerVerifierABI = [
   'function getOperators() external view returns (tuple(address operatorAddress, bytes enclavePublicKey, bool active, uint256 addedAt, uint256 attestationCount)[] operators, uint256 threshold, uint256 totalOperators)',
   'event VotingPowerUpdated(uint256 indexed topicId, bytes32 attestationHash, uint256 timestamp)',
   'event AttestationAccepted(bytes32 indexed resultHash, uint256 timestamp)',
+  'function getPowerRoot(uint256 topicId) external view returns (tuple(bytes32 root, uint256 delegateCount, uint256 totalPower, bytes32 attestationHash, uint256 committedAt) powerRoot)',
+  'function verifyVotingPower(uint256 topicId, address delegate, uint256 power, bytes32[] proof) external view returns (bool valid)',
+  'function claimVotingPower(uint256 topicId, address delegate, uint256 power, bytes32[] proof) external',
+  'event PowerRootCommitted(uint256 indexed topicId, bytes32 indexed attestationHash, bytes32 root, uint256 delegateCount, uint256 totalPower)',
+  'event VotingPowerClaimed(uint256 indexed topicId, address indexed delegate, uint256 power, bytes32 attestationHash)',
+  'error NoPowerRoot(uint256 topicId)',
+  'error InvalidPowerProof()',
+  'error InvalidPowerRoot()',
 ];
 
 export const RewardDistributorABI = [
@@ -11,6 +11,8 @@ export interface ContractAddresses {
   votePowerVerifier: string;
   rewardDistributor: string;
   proposalManager: string;
+  /** Block DelegationManager was deployed in; log queries start here */
+  deploymentBlock: number;
 }
 
 // Chiado Testnet (chainId: 10200)
@@ -25,6 +27,8 @@ export const CHIADO_ADDRESSES: ContractAddresses = {
   votePowerVerifier: '0x156ee62c9bf96F28b5aacf37C5B73935CA1d71C3',
   rewardDistributor: '0x8a4f7A29989565F36216Eb82ca030bEb129E039A',
   proposalManager: '0xBF57d60545a4A47e6c01197D2Dd91F5E06780Fa5',
+  // Not recorded for this deployment; set it to skip scanning from genesis
+  deploymentBlock: 0,
 };
 
 // Debug: log loaded addresses
@@ -37,6 +41,7 @@ export const GNOSIS_ADDRESSES: ContractAddresses = {
   votePowerVerifier: '',
   rewardDistributor: '',
   proposalManager: '',
+  deploymentBlock: 0,
 };
 
 /**
@@ -1,11 +1,19 @@
 /**
  * DelegationManager Contract Interaction Module
  * Handles delegation, revocation, and dead-end management
+ *
+ * The contract does not store when a delegation was made, so delegation
+ * timestamps and history are reconstructed from Delegated/Revoked logs.
  */
 
 import { ethers, type Provider, type Signer } from 'ethers';
 import { DELEGATION_MANAGER_ABI } from './abis';
 import { getContractAddresses } from './addresses';
+import { getContractRunner } from './multicall';
+import { fetchIndexedDelegationHistory } from '../services/indexerClient';
+
+/** Block range of the first log query page; halved on RPC errors */
+const LOG_PAGE_SIZE = 50_000;
 
 export interface Delegation {
   delegator: string;
@@ -15,6 +23,19 @@ export interface Delegation {
   depth: number;
 }
 
+export interface DelegationChange {
+  type: 'Delegated' | 'Revoked';
+  delegator: string;
+  topicId: number;
+  /** Delegate after the change (null once revoked) */
+  delegate: string | null;
+  /** Delegate before the change (null for a first delegation) */
+  previousDelegate: string | null;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
 export interface DeadEndStatus {
   active: boolean;
   declaredAt: number;
@@ -36,7 +57,7 @@ function getDelegationManagerContract(
   return new ethers.Contract(
     addresses.delegationManager,
     DELEGATION_MANAGER_ABI,
-    providerOrSigner
+    getContractRunner(providerOrSigner)
   );
 }
 
@@ -238,12 +259,17 @@ export async function revokeDeadEnd(
 
 /**
  * Get delegation for a specific delegator and topic
+ *
+ * @param includeTimestamp Look up when the delegation was made in the logs
+ *   (loads the delegator's history; callers that already have it should use
+ *   getDelegatedSince instead)
  */
 export async function getDelegation(
   provider: Provider,
   chainId: number,
   delegator: string,
-  topicId: number
+  topicId: number,
+  includeTimestamp = false
 ): Promise<Delegation | null> {
   const contract = getDelegationManagerContract(provider, chainId);
 
@@ -259,7 +285,12 @@ export async function getDelegation(
       delegator: delegation.delegator,
       delegate: delegation.delegate,
       topicId: Number(delegation.topicId),
-      timestamp: Number(delegation.timestamp),
+      timestamp: includeTimestamp
+        ? getDelegatedSince(
+            await getDelegationHistory(provider, chainId, delegator, topicId),
+            topicId
+          )
+        : Number(delegation.timestamp),
       depth: Number(delegation.depth)
     };
   } catch (error) {
@@ -268,6 +299,159 @@ export async function getDelegation(
   }
 }
 
+/**
+ * Get when a delegator's current delegation in a topic was made
+ *
+ * @param history The delegator's history from getDelegationHistory
+ * @returns Unix timestamp, or 0 if the topic has no active delegation
+ */
+export function getDelegatedSince(history: DelegationChange[], topicId: number): number {
+  const changes = history.filter((change) => change.topicId === topicId);
+  const latest = changes[changes.length - 1];
+
+  return latest?.type === 'Delegated' ? latest.timestamp : 0;
+}
+
+/**
+ * Get when every active delegation in a topic was made
+ *
+ * @param fromBlock First block searched (default: the DelegationManager deployment block)
+ * @returns Map of delegator => timestamp of their latest delegation
+ */
+export async function getTopicDelegationTimestamps(
+  provider: Provider,
+  chainId: number,
+  topicId: number,
+  fromBlock = getContractAddresses(chainId).deploymentBlock
+): Promise<Map<string, number>> {
+  const contract = getDelegationManagerContract(provider, chainId);
+  const timestamps = new Map<string, number>();
+
+  try {
+    const logs = await queryLogPages(
+      provider,
+      contract,
+      contract.filters.Delegated(null, null, topicId),
+      fromBlock
+    );
+
+    // Logs are in chain order, so later delegations overwrite earlier ones
+    for (const log of logs) {
+      timestamps.set(log.args.delegator, Number(log.args.timestamp));
+    }
+  } catch (error) {
+    console.error('Error fetching delegation timestamps:', error);
+  }
+
+  return timestamps;
+}
+
+/**
+ * Get a delegator's delegation history from the indexer if configured,
+ * otherwise from Delegated/Revoked logs
+ *
+ * @param topicId Only this topic (default: all topics)
+ * @param fromBlock First block searched (default: the DelegationManager deployment block)
+ * @returns Changes in chain order, oldest first
+ */
+export async function getDelegationHistory(
+  provider: Provider,
+  chainId: number,
+  delegator: string,
+  topicId?: number,
+  fromBlock = getContractAddresses(chainId).deploymentBlock
+): Promise<DelegationChange[]> {
+  const indexed = await fetchIndexedDelegationHistory(delegator, topicId);
+  if (indexed) {
+    return indexed;
+  }
+
+  const contract = getDelegationManagerContract(provider, chainId);
+
+  try {
+    const [delegated, revoked] = await Promise.all([
+      queryLogPages(
+        provider,
+        contract,
+        contract.filters.Delegated(delegator, null, topicId ?? null),
+        fromBlock
+      ),
+      queryLogPages(provider, contract, contract.filters.Revoked(delegator, topicId ?? null), fromBlock)
+    ]);
+
+    const logs = [...delegated, ...revoked].sort(
+      (a, b) => a.blockNumber - b.blockNumber || a.index - b.index
+    );
+
+    // Revoked does not name the delegate, so track the current one per topic
+    const current = new Map<number, string>();
+
+    return logs.map((log) => {
+      const logTopicId = Number(log.args.topicId);
+      const previousDelegate = current.get(logTopicId) ?? null;
+      const delegate = log.eventName === 'Delegated' ? (log.args.delegate as string) : null;
+
+      if (delegate) {
+        current.set(logTopicId, delegate);
+      } else {
+        current.delete(logTopicId);
+      }
+
+      return {
+        type: log.eventName as DelegationChange['type'],
+        delegator: log.args.delegator,
+        topicId: logTopicId,
+        delegate,
+        previousDelegate,
+        timestamp: Number(log.args.timestamp),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching delegation history:', error);
+    return [];
+  }
+}
+
+/**
+ * Query a filter's logs from fromBlock to the head in pages
+ *
+ * Public RPCs reject wide ranges or large result sets with varying errors, so
+ * a failed page is retried with half the range and successes grow it back,
+ * like the enclave's ChainListener.
+ */
+async function queryLogPages(
+  provider: Provider,
+  contract: ethers.Contract,
+  filter: ethers.ContractEventName,
+  fromBlock: number
+): Promise<ethers.EventLog[]> {
+  const head = await provider.getBlockNumber();
+  const logs: ethers.EventLog[] = [];
+  let pageSize = LOG_PAGE_SIZE;
+  let from = fromBlock;
+
+  while (from <= head) {
+    const to = Math.min(from + pageSize - 1, head);
+
+    try {
+      logs.push(...((await contract.queryFilter(filter, from, to)) as ethers.EventLog[]));
+    } catch (error) {
+      if (pageSize <= 1) {
+        throw error;
+      }
+      pageSize = Math.floor(pageSize / 2);
+      continue;
+    }
+
+    pageSize = Math.min(LOG_PAGE_SIZE, pageSize * 2);
+    from = to + 1;
+  }
+
+  return logs;
+}
+
 /**
  * Get terminal delegate (final recipient of voting power)
  */
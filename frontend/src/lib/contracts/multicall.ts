@@ -0,0 +1,180 @@
+/**
+ * Multicall Batching
+ *
+ * Contract reads go through one batcher per provider instead of one eth_call
+ * each: calls made within a few milliseconds of each other are sent as a
+ * single Multicall3 aggregate3 call, and identical calls still in flight share
+ * one request. Calls that depend on the sender, value or block, and chains
+ * without Multicall3, fall back to plain eth_call.
+ */
+
+import {
+  ethers,
+  type ContractRunner,
+  type Provider,
+  type Signer,
+  type TransactionRequest
+} from 'ethers';
+
+/** Multicall3, deployed at the same address on Gnosis, Chiado and most EVM chains */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_INTERFACE = new ethers.Interface([
+  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)'
+]);
+
+/** Wait this long for more calls before sending a batch (ms) */
+const BATCH_WINDOW = 10;
+
+/** Calls per aggregate3, keeps each request under RPC gas and payload limits */
+const MAX_BATCH_SIZE = 100;
+
+interface PendingCall {
+  target: string;
+  data: string;
+  resolve: (result: string) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Contract runner that batches read calls into Multicall3
+ */
+class MulticallBatcher implements ContractRunner {
+  readonly provider: Provider;
+  private queue: PendingCall[] = [];
+  private inFlight = new Map<string, Promise<string>>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  /** Cleared once Multicall3 turns out not to be deployed */
+  private supported = true;
+
+  constructor(provider: Provider) {
+    this.provider = provider;
+  }
+
+  async call(tx: TransactionRequest): Promise<string> {
+    if (!this.supported || typeof tx.to !== 'string' || typeof tx.data !== 'string' ||
+        tx.from || tx.value || tx.blockTag !== undefined) {
+      return this.provider.call(tx);
+    }
+
+    const key = `${tx.to.toLowerCase()}:${tx.data}`;
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const target = tx.to;
+    const data = tx.data;
+    const promise = new Promise<string>((resolve, reject) => {
+      this.queue.push({ target, data, resolve, reject });
+      this.schedule();
+    });
+
+    const settle = () => this.inFlight.delete(key);
+    this.inFlight.set(key, promise);
+    promise.then(settle, settle);
+
+    return promise;
+  }
+
+  resolveName(name: string): Promise<string | null> {
+    return this.provider.resolveName(name);
+  }
+
+  private schedule(): void {
+    if (this.queue.length >= MAX_BATCH_SIZE) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), BATCH_WINDOW);
+    }
+  }
+
+  private flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0) {
+      void this.execute(this.queue.splice(0, MAX_BATCH_SIZE));
+    }
+  }
+
+  private async execute(batch: PendingCall[]): Promise<void> {
+    if (batch.length === 1) {
+      return this.executeEach(batch);
+    }
+
+    let response: string;
+    try {
+      response = await this.provider.call({
+        to: MULTICALL3_ADDRESS,
+        data: MULTICALL3_INTERFACE.encodeFunctionData('aggregate3', [
+          batch.map(({ target, data }) => ({ target, allowFailure: true, callData: data }))
+        ])
+      });
+    } catch (error: any) {
+      console.warn('[Multicall] Batch failed, sending calls one by one:', error.message);
+      return this.executeEach(batch);
+    }
+
+    // No code at the Multicall3 address on this chain
+    if (response === '0x') {
+      console.warn('[Multicall] Multicall3 not deployed, batching disabled');
+      this.supported = false;
+      return this.executeEach(batch);
+    }
+
+    let results: ethers.Result;
+    try {
+      [results] = MULTICALL3_INTERFACE.decodeFunctionResult('aggregate3', response);
+    } catch (error: any) {
+      console.warn('[Multicall] Unreadable batch result, sending calls one by one:', error.message);
+      return this.executeEach(batch);
+    }
+
+    batch.forEach((call, index) => {
+      const { success, returnData } = results[index];
+      if (success) {
+        call.resolve(returnData);
+      } else {
+        // Same error as a reverted eth_call, so ethers decodes custom errors
+        call.reject(ethers.AbiCoder.getBuiltinCallException(
+          'call',
+          { to: call.target, data: call.data },
+          returnData
+        ));
+      }
+    });
+  }
+
+  private async executeEach(batch: PendingCall[]): Promise<void> {
+    await Promise.all(
+      batch.map(({ target, data, resolve, reject }) =>
+        this.provider.call({ to: target, data }).then(resolve, reject)
+      )
+    );
+  }
+}
+
+const batchers = new WeakMap<Provider, MulticallBatcher>();
+
+/**
+ * Get the runner for a contract instance
+ * Providers are wrapped in their (shared) batcher; signers are returned as is
+ * so transactions and sender-dependent calls are unaffected
+ */
+export function getContractRunner(providerOrSigner: Provider | Signer): ContractRunner {
+  if (typeof (providerOrSigner as Signer).getAddress === 'function') {
+    return providerOrSigner;
+  }
+
+  const provider = providerOrSigner as Provider;
+  let batcher = batchers.get(provider);
+  if (!batcher) {
+    batcher = new MulticallBatcher(provider);
+    batchers.set(provider, batcher);
+  }
+
+  return batcher;
+}
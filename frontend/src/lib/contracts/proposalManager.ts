@@ -5,7 +5,9 @@
 
 import { ethers, type Provider, type Signer } from 'ethers';
 import { getContractAddresses } from './addresses';
+import { getContractRunner } from './multicall';
 import ProposalManagerABI from './ProposalManager.abi.json';
+import { fetchIndexedProposals } from '../services/indexerClient';
 
 export enum VoteChoice {
   Against = 0,
@@ -59,7 +61,7 @@ function getProposalManagerContract(
   return new ethers.Contract(
     addresses.proposalManager,
     ProposalManagerABI,
-    providerOrSigner
+    getContractRunner(providerOrSigner)
   );
 }
 
@@ -196,6 +198,8 @@ export async function castVote(
         throw new Error('You have already voted on this proposal');
       } else if (gasError.message?.includes('InsufficientVotingPower') || gasError.data?.includes('InsufficientVotingPower')) {
         throw new Error('You cannot vote because you delegated your vote');
+      } else if (gasError.message?.includes('VotingPowerNotClaimed') || gasError.data?.includes('VotingPowerNotClaimed')) {
+        throw new Error('Claim your voting power from the committed power root before voting');
       }
 
       throw new Error(`Transaction would fail: ${gasError.reason || gasError.message || 'Unknown error'}`);
@@ -319,13 +323,18 @@ export async function getProposal(
 }
 
 /**
- * Get all proposals for a topic
+ * Get all proposals for a topic (from the indexer if configured)
  */
 export async function getProposalsByTopic(
   provider: Provider,
   chainId: number,
   topicId: number
 ): Promise<Proposal[]> {
+  const indexed = await fetchIndexedProposals(topicId);
+  if (indexed) {
+    return indexed;
+  }
+
   const contract = getProposalManagerContract(provider, chainId);
 
   try {
@@ -6,6 +6,8 @@
 import { ethers, type Provider, type Signer } from 'ethers';
 import { TOPIC_REGISTRY_ABI } from './abis';
 import { getContractAddresses } from './addresses';
+import { getContractRunner } from './multicall';
+import { fetchIndexedTopics } from '../services/indexerClient';
 
 export interface Topic {
   id: number;
@@ -40,18 +42,23 @@ function getTopicRegistryContract(
   return new ethers.Contract(
     addresses.topicRegistry,
     TOPIC_REGISTRY_ABI,
-    providerOrSigner
+    getContractRunner(providerOrSigner)
   );
 }
 
 /**
- * Get all topics (active or all)
+ * Get all topics (active or all, from the indexer if configured)
  */
 export async function getAllTopics(
   provider: Provider,
   chainId: number,
   activeOnly: boolean = true
 ): Promise<TopicSummary[]> {
+  const indexed = await fetchIndexedTopics(activeOnly);
+  if (indexed) {
+    return indexed;
+  }
+
   const contract = getTopicRegistryContract(provider, chainId);
 
   try {
@@ -0,0 +1,203 @@
+/**
+ * VotePowerVerifier Contract Interaction Module
+ * Handles the operator set, power root commitments and per-delegate power proofs
+ *
+ * Topics with too many terminal delegates for one transaction are attested as
+ * a Merkle root. Delegates then claim their power with a proof served by an
+ * enclave operator (GET /topics/:id/proofs/:address); the proof is checked
+ * against the on-chain root before anything is sent.
+ */
+
+import { ethers, type Provider, type Signer } from 'ethers';
+import { verifyPowerProof } from '@liquid-democracy-engine/result-encoding';
+import { VotePowerVerifierABI } from './abis';
+import { getContractAddresses } from './addresses';
+import { getContractRunner } from './multicall';
+
+export interface PowerRoot {
+  root: string;
+  delegateCount: number;
+  totalPower: bigint;
+  attestationHash: string;
+  committedAt: number;
+}
+
+export interface OperatorInfo {
+  address: string;
+  enclavePublicKey: string;
+  active: boolean;
+  addedAt: number;
+  attestationCount: number;
+}
+
+export interface PowerProof {
+  topicId: number;
+  root: string;
+  address: string;
+  power: bigint;
+  proof: string[];
+}
+
+/**
+ * Get VotePowerVerifier contract instance
+ */
+function getVotePowerVerifierContract(
+  providerOrSigner: Provider | Signer,
+  chainId: number
+): ethers.Contract {
+  const addresses = getContractAddresses(chainId);
+
+  if (!addresses.votePowerVerifier) {
+    throw new Error('VotePowerVerifier address not configured');
+  }
+
+  return new ethers.Contract(
+    addresses.votePowerVerifier,
+    VotePowerVerifierABI,
+    getContractRunner(providerOrSigner)
+  );
+}
+
+/**
+ * Get all registered enclave operators
+ */
+export async function getOperators(
+  provider: Provider,
+  chainId: number
+): Promise<OperatorInfo[]> {
+  const contract = getVotePowerVerifierContract(provider, chainId);
+  const [operators] = await contract.getOperators();
+
+  return operators.map((operator: any) => ({
+    address: operator.operatorAddress,
+    enclavePublicKey: operator.enclavePublicKey,
+    active: operator.active,
+    addedAt: Number(operator.addedAt),
+    attestationCount: Number(operator.attestationCount)
+  }));
+}
+
+/**
+ * Get the power root committed for a topic
+ *
+ * @returns Power root, or null if the topic was attested with full arrays
+ */
+export async function getPowerRoot(
+  provider: Provider,
+  chainId: number,
+  topicId: number
+): Promise<PowerRoot | null> {
+  const contract = getVotePowerVerifierContract(provider, chainId);
+  const powerRoot = await contract.getPowerRoot(topicId);
+
+  if (powerRoot.root === ethers.ZeroHash) {
+    return null;
+  }
+
+  return {
+    root: powerRoot.root,
+    delegateCount: Number(powerRoot.delegateCount),
+    totalPower: powerRoot.totalPower,
+    attestationHash: powerRoot.attestationHash,
+    committedAt: Number(powerRoot.committedAt)
+  };
+}
+
+/**
+ * Fetch a delegate's power proof from an enclave operator API
+ *
+ * @param operatorApiUrl Operator API base URL
+ * @returns Proof, or null if the operator has none for this delegate
+ */
+export async function fetchPowerProof(
+  operatorApiUrl: string,
+  topicId: number,
+  delegate: string
+): Promise<PowerProof | null> {
+  const response = await fetch(
+    `${operatorApiUrl.replace(/\/$/, '')}/topics/${topicId}/proofs/${delegate}`
+  );
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Operator API returned ${response.status}`);
+  }
+
+  const body = await response.json();
+
+  return {
+    topicId: body.topicId,
+    root: body.root,
+    address: body.address,
+    power: BigInt(body.power),
+    proof: body.proof
+  };
+}
+
+/**
+ * Check a proof against the topic's on-chain power root
+ * Runs locally, so an operator cannot make the UI show power it did not attest
+ *
+ * @returns Whether the proof matches the committed root
+ */
+export async function checkPowerProof(
+  provider: Provider,
+  chainId: number,
+  proof: PowerProof
+): Promise<boolean> {
+  const powerRoot = await getPowerRoot(provider, chainId, proof.topicId);
+
+  if (!powerRoot) {
+    return false;
+  }
+
+  return verifyPowerProof(powerRoot.root, proof.address, proof.power, proof.proof);
+}
+
+/**
+ * Submit a power proof so the delegate's power is cached on-chain
+ * Anyone may claim on a delegate's behalf
+ *
+ * @returns Transaction hash
+ */
+export async function claimVotingPower(
+  signer: Signer,
+  chainId: number,
+  proof: PowerProof
+): Promise<string> {
+  const contract = getVotePowerVerifierContract(signer, chainId);
+
+  try {
+    const tx = await contract.claimVotingPower(
+      proof.topicId,
+      proof.address,
+      proof.power,
+      proof.proof
+    );
+    console.log('[VotePowerVerifier] Claim sent:', tx.hash);
+
+    const receipt = await tx.wait();
+    console.log('[VotePowerVerifier] Claim confirmed:', receipt.hash);
+
+    return receipt.hash;
+  } catch (error: any) {
+    console.error('[VotePowerVerifier] Error claiming voting power:', error);
+
+    if (error.code === 'ACTION_REJECTED' || error.code === 4001) {
+      throw new Error('Transaction rejected by user');
+    }
+
+    if (error.message?.includes('NoPowerRoot') || error.data?.includes('NoPowerRoot')) {
+      throw new Error('No power root has been committed for this topic');
+    }
+
+    if (error.message?.includes('InvalidPowerProof') || error.data?.includes('InvalidPowerProof')) {
+      throw new Error('Power proof does not match the committed root');
+    }
+
+    throw new Error('Failed to claim voting power. Please try again.');
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Auth Client
+ *
+ * Sign-In with Ethereum requests to the indexer API (indexer/), which issues
+ * nonces, verifies signed messages and keeps the session in an HttpOnly
+ * cookie. Unlike the read requests in indexerClient, failures are thrown:
+ * there is no on-chain fallback for a session.
+ */
+
+import { getIndexerUrl } from './indexerClient';
+import type { Session } from '../stores/session';
+
+const REQUEST_TIMEOUT = 10000;
+
+/**
+ * Whether sign-in is available (an indexer is configured)
+ */
+export function isAuthAvailable(): boolean {
+  return getIndexerUrl() !== null;
+}
+
+/**
+ * Call an auth endpoint with the session cookie
+ *
+ * @returns Parsed body, or null when a GET answers 401 (signed out)
+ */
+async function fetchAuth<T>(path: string, init: RequestInit = {}): Promise<T | null> {
+  const baseUrl = getIndexerUrl();
+  if (!baseUrl) {
+    throw new Error('Sign-in needs an indexer (VITE_INDEXER_URL is not set)');
+  }
+
+  const response = await fetch(`${baseUrl}${path}`, {
+    ...init,
+    credentials: 'include',
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+  });
+
+  const body = await response.json().catch(() => null);
+  if (response.status === 401 && init.method === undefined) {
+    // Signed out; a rejected sign-in (POST) is an error
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(body?.error || `Sign-in request failed (${response.status})`);
+  }
+
+  return body;
+}
+
+/**
+ * Single-use nonce for a sign-in message
+ */
+export async function fetchNonce(): Promise<string> {
+  const body = await fetchAuth<{ nonce: string }>('/auth/nonce');
+  return body!.nonce;
+}
+
+/**
+ * Send a signed sign-in message; the API sets the session cookie
+ */
+export async function verifySignIn(message: string, signature: string): Promise<Session> {
+  const session = await fetchAuth<Session>('/auth/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature })
+  });
+  return session!;
+}
+
+/**
+ * Session of the cookie, or null when signed out
+ */
+export async function fetchSession(): Promise<Session | null> {
+  return fetchAuth<Session>('/auth/session');
+}
+
+/**
+ * Close the session and clear the cookie
+ */
+export async function endSession(): Promise<void> {
+  await fetchAuth('/auth/logout', { method: 'POST' });
+}
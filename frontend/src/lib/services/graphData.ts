@@ -4,8 +4,15 @@
  * Fetches and structures delegation data for graph visualization
  */
 
-import type { Signer } from 'ethers';
-import { getDelegation, getTopicDelegators, getTerminalDelegate } from '../contracts/delegationManager';
+import type { Provider } from 'ethers';
+import { calculateTerminalPowers, hashResult } from '@liquid-democracy-engine/result-encoding';
+import {
+  getDelegation,
+  getTopicDelegationTimestamps,
+  getTopicDelegators,
+  isDeadEnd
+} from '../contracts/delegationManager';
+import { fetchIndexedGraph } from './indexerClient';
 
 export interface GraphNode {
   id: string;           // Address
@@ -22,7 +29,8 @@ export interface GraphEdge {
   source: string;       // Delegator address
   target: string;       // Delegate address
   topicId: number;      // Topic ID
-  timestamp: number;    // Delegation timestamp
+  timestamp: number;    // When the delegation was made (from Delegated logs)
+  suspended: boolean;   // Delegator is a dead-end, so the delegation is not followed
 }
 
 export interface DelegationGraphData {
@@ -31,6 +39,7 @@ export interface DelegationGraphData {
   topicId: number;
   userAddress: string | null;
   terminalDelegates: Map<string, number>; // address => voting power
+  resultHash?: string;  // Canonical hash of terminalDelegates, comparable to on-chain attestations
 }
 
 /**
@@ -43,14 +52,24 @@ function shortenAddress(address: string): string {
 
 /**
  * Fetch complete delegation graph for a topic
+ *
+ * Every address in the graph holds one vote, which flows to its terminal
+ * delegate as in the enclave, so resultHash is comparable to attestations.
+ * Served by the indexer when one is configured; contract reads are the fallback.
+ * Needs no wallet: pass the public read provider of the network being browsed.
  */
 export async function fetchDelegationGraph(
-  signer: Signer | null,
+  provider: Provider | null,
   chainId: number,
   topicId: number,
   userAddress: string | null
 ): Promise<DelegationGraphData> {
-  if (!signer) {
+  const indexed = await fetchIndexedGraph(topicId, userAddress);
+  if (indexed) {
+    return indexed;
+  }
+
+  if (!provider) {
     return {
       nodes: [],
       edges: [],
@@ -61,99 +80,81 @@ export async function fetchDelegationGraph(
   }
 
   try {
-    // Get all delegators for this topic
-    const delegators = await getTopicDelegators(signer, chainId, topicId);
+    // Get all delegators for this topic (includes addresses that have since revoked)
+    const [delegators, timestamps] = await Promise.all([
+      getTopicDelegators(provider, chainId, topicId),
+      getTopicDelegationTimestamps(provider, chainId, topicId)
+    ]);
     console.log(`[GraphData] Topic ${topicId}: Found ${delegators.length} delegators`, delegators);
 
-    const nodesMap = new Map<string, GraphNode>();
-    const edges: GraphEdge[] = [];
-    const terminalDelegates = new Map<string, number>();
-
-    // Process each delegator
-    for (const delegator of delegators) {
-      // Get delegation info
-      const delegation = await getDelegation(signer, chainId, delegator, topicId);
-
-      // Skip if no active delegation
-      if (!delegation || delegation.delegate === '0x0000000000000000000000000000000000000000') {
-        continue;
-      }
-
-      // Get terminal delegate
-      const terminal = await getTerminalDelegate(signer, chainId, delegator, topicId);
-
-      // Add/update delegator node
-      if (!nodesMap.has(delegator)) {
-        nodesMap.set(delegator, {
-          id: delegator,
-          address: delegator,
-          label: shortenAddress(delegator),
-          votingPower: 0,
-          isTerminal: terminal === delegator,
-          isUser: userAddress ? delegator.toLowerCase() === userAddress.toLowerCase() : false,
-          isDelegating: delegation.delegate !== '0x0000000000000000000000000000000000000000',
-          isDeadEnd: false // TODO: Add dead-end check
-        });
-      }
+    // Read all delegations at once; they are sent as Multicall3 batches
+    const current = await Promise.all(
+      delegators.map((delegator) => getDelegation(provider, chainId, delegator, topicId))
+    );
 
-      // Add/update delegate node
-      if (!nodesMap.has(delegation.delegate)) {
-        const isTerminalDelegate = terminal === delegation.delegate;
-        nodesMap.set(delegation.delegate, {
-          id: delegation.delegate,
-          address: delegation.delegate,
-          label: shortenAddress(delegation.delegate),
-          votingPower: 0,
-          isTerminal: isTerminalDelegate,
-          isUser: userAddress ? delegation.delegate.toLowerCase() === userAddress.toLowerCase() : false,
-          isDelegating: false, // Will be updated if they delegate
-          isDeadEnd: false
-        });
-      }
+    const delegations = new Map<string, string>();
+    const participants = new Set<string>();
 
-      // Update delegate node's isDelegating status
-      const delegateNode = nodesMap.get(delegation.delegate)!;
-      const delegateInfo = await getDelegation(signer, chainId, delegation.delegate, topicId);
-      if (delegateInfo && delegateInfo.delegate !== '0x0000000000000000000000000000000000000000') {
-        delegateNode.isDelegating = true;
-      }
+    delegators.forEach((delegator, index) => {
+      const delegation = current[index];
 
-      // Add edge
-      edges.push({
-        source: delegator,
-        target: delegation.delegate,
-        topicId,
-        timestamp: Number(delegation.timestamp)
-      });
-
-      // Count voting power for terminal delegates
-      if (terminal && terminal !== '0x0000000000000000000000000000000000000000') {
-        const currentPower = terminalDelegates.get(terminal) || 0;
-        terminalDelegates.set(terminal, currentPower + 1);
+      // Skip if no active delegation
+      if (!delegation) {
+        return;
       }
-    }
 
-    // Update voting power in nodes
-    for (const [address, power] of terminalDelegates.entries()) {
-      const node = nodesMap.get(address);
-      if (node) {
-        node.votingPower = power;
-        node.isTerminal = true;
-      }
-    }
+      delegations.set(delegator, delegation.delegate);
+      participants.add(delegator);
+      participants.add(delegation.delegate);
+    });
+
+    const deadEnds = new Set<string>();
+    await Promise.all(
+      Array.from(participants, async (address) => {
+        const status = await isDeadEnd(provider, chainId, address, topicId);
+        if (status.active) {
+          deadEnds.add(address);
+        }
+      })
+    );
 
-    // Convert nodes map to array
-    const nodes = Array.from(nodesMap.values());
+    // One vote per participant for its terminal delegate, as in the enclave
+    const terminalDelegates = calculateTerminalPowers(delegations, deadEnds);
+
+    const nodes: GraphNode[] = Array.from(participants, (address) => ({
+      id: address,
+      address,
+      label: shortenAddress(address),
+      votingPower: terminalDelegates.get(address) || 0,
+      isTerminal: terminalDelegates.has(address),
+      isUser: userAddress ? address.toLowerCase() === userAddress.toLowerCase() : false,
+      isDelegating: delegations.has(address),
+      isDeadEnd: deadEnds.has(address)
+    }));
+
+    const edges: GraphEdge[] = Array.from(delegations, ([delegator, delegate]) => ({
+      source: delegator,
+      target: delegate,
+      topicId,
+      timestamp: timestamps.get(delegator) || 0,
+      suspended: deadEnds.has(delegator)
+    }));
 
     // Sort nodes by voting power (descending)
     nodes.sort((a, b) => b.votingPower - a.votingPower);
 
+    // Hash the way the enclave does, so the result can be checked against attestations
+    const { resultHash } = hashResult(
+      Array.from(terminalDelegates, ([address, power]) => ({ address, power }))
+    );
+
     return {
       nodes,
       edges,
       topicId,
       userAddress,
-      terminalDelegates
+      terminalDelegates,
+      resultHash
     };
 
   } catch (error) {
@@ -186,11 +187,11 @@ export function traceDelegationPath(
   // Follow edges until we reach a terminal delegate
   while (true) {
     const edge = graphData.edges.find(e =>
-      e.source.toLowerCase() === current.toLowerCase()
+      e.source.toLowerCase() === current.toLowerCase() && !e.suspended
     );
 
     if (!edge) {
-      // No outgoing edge, current is terminal
+      // No followed outgoing edge, current is terminal (or a dead-end)
       break;
     }
 
@@ -224,6 +225,7 @@ export function getGraphStats(graphData: DelegationGraphData) {
   const terminalDelegates = graphData.nodes.filter(n => n.isTerminal && n.votingPower > 0);
   const delegating = graphData.nodes.filter(n => n.isDelegating);
   const notDelegating = totalVoters - delegating.length;
+  const deadEnds = graphData.nodes.filter(n => n.isDeadEnd);
 
   const maxPower = Math.max(...terminalDelegates.map(n => n.votingPower), 0);
   const avgPower = terminalDelegates.length > 0
@@ -243,6 +245,7 @@ export function getGraphStats(graphData: DelegationGraphData) {
     terminalDelegateCount: terminalDelegates.length,
     delegatingCount: delegating.length,
     notDelegatingCount: notDelegating,
+    deadEndCount: deadEnds.length,
     maxVotingPower: maxPower,
     avgVotingPower: avgPower,
     maxChainLength,
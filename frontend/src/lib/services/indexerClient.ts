@@ -0,0 +1,210 @@
+/**
+ * Indexer Client
+ *
+ * Reads delegation graphs, topics, proposals, delegation history and reward
+ * flows from the indexer API (indexer/) instead of scanning logs in the
+ * browser. Configured with VITE_INDEXER_URL; every function returns null when
+ * no indexer is configured or it cannot answer, so callers fall back to
+ * on-chain reads.
+ */
+
+import type { DelegationGraphData, GraphEdge, GraphNode } from './graphData';
+import type { DelegationChange } from '../contracts/delegationManager';
+import type { Proposal, ProposalStatus } from '../contracts/proposalManager';
+import type { TopicSummary } from '../contracts/topicRegistry';
+
+/** Abort requests to an unresponsive indexer and fall back to the chain */
+const REQUEST_TIMEOUT = 5000;
+
+interface IndexedGraph {
+  topicId: number;
+  nodes: Array<{
+    address: string;
+    votingPower: number;
+    isTerminal: boolean;
+    isDelegating: boolean;
+    isDeadEnd: boolean;
+  }>;
+  edges: Array<{ source: string; target: string; timestamp: number; suspended: boolean }>;
+  terminalDelegates: Array<{ address: string; power: number }>;
+  resultHash: string;
+}
+
+interface IndexedTopic {
+  id: number;
+  name: string;
+  active: boolean;
+  proposalThreshold: string;
+}
+
+interface IndexedProposal {
+  id: number;
+  topicId: number;
+  proposer: string;
+  title: string;
+  descriptionCID: string;
+  forVotes: string;
+  againstVotes: string;
+  abstainVotes: string;
+  startBlock: number;
+  endBlock: number;
+  status: number;
+  executed: boolean;
+}
+
+export interface IndexedRewardFlow {
+  delegate: string;
+  topicId: number;
+  /** Wei per second */
+  flowRate: bigint;
+}
+
+export interface IndexedTopicRewards {
+  topicId: number;
+  poolFlowRate: bigint;
+  flows: IndexedRewardFlow[];
+}
+
+/**
+ * Indexer API base URL, or null if none is configured
+ */
+export function getIndexerUrl(): string | null {
+  const url = (import.meta.env.VITE_INDEXER_URL || '').trim();
+  return url ? url.replace(/\/$/, '') : null;
+}
+
+/**
+ * GET a path from the indexer
+ *
+ * @returns Parsed body, or null if the indexer is not configured or failed
+ */
+async function fetchIndexer<T>(path: string): Promise<T | null> {
+  const baseUrl = getIndexerUrl();
+  if (!baseUrl) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(`${baseUrl}${path}`, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Indexer returned ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error: any) {
+    console.warn(`[Indexer] ${path} failed, falling back to on-chain reads:`, error.message);
+    return null;
+  }
+}
+
+function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/**
+ * Delegation graph of a topic
+ */
+export async function fetchIndexedGraph(
+  topicId: number,
+  userAddress: string | null
+): Promise<DelegationGraphData | null> {
+  const graph = await fetchIndexer<IndexedGraph>(`/topics/${topicId}/graph`);
+  if (!graph) {
+    return null;
+  }
+
+  const nodes: GraphNode[] = graph.nodes.map((node) => ({
+    ...node,
+    id: node.address,
+    label: shortenAddress(node.address),
+    isUser: userAddress ? node.address.toLowerCase() === userAddress.toLowerCase() : false
+  }));
+
+  const edges: GraphEdge[] = graph.edges.map((edge) => ({ ...edge, topicId }));
+
+  return {
+    nodes,
+    edges,
+    topicId,
+    userAddress,
+    terminalDelegates: new Map(graph.terminalDelegates.map(({ address, power }) => [address, power])),
+    resultHash: graph.resultHash
+  };
+}
+
+/**
+ * Topics (all or only active ones)
+ */
+export async function fetchIndexedTopics(activeOnly: boolean): Promise<TopicSummary[] | null> {
+  const topics = await fetchIndexer<IndexedTopic[]>(`/topics${activeOnly ? '?active=true' : ''}`);
+
+  return topics
+    ? topics.map((topic) => ({
+      id: topic.id,
+      name: topic.name,
+      active: topic.active,
+      proposalThreshold: Number(topic.proposalThreshold)
+    }))
+    : null;
+}
+
+/**
+ * Proposals of a topic, with tallies of the votes cast so far
+ */
+export async function fetchIndexedProposals(topicId: number): Promise<Proposal[] | null> {
+  const proposals = await fetchIndexer<IndexedProposal[]>(`/topics/${topicId}/proposals`);
+
+  return proposals
+    ? proposals.map((proposal) => ({
+      id: proposal.id,
+      topicId: proposal.topicId,
+      proposer: proposal.proposer,
+      title: proposal.title,
+      descriptionCID: proposal.descriptionCID,
+      forVotes: Number(proposal.forVotes),
+      againstVotes: Number(proposal.againstVotes),
+      abstainVotes: Number(proposal.abstainVotes),
+      startBlock: proposal.startBlock,
+      endBlock: proposal.endBlock,
+      status: proposal.status as ProposalStatus,
+      executed: proposal.executed
+    }))
+    : null;
+}
+
+/**
+ * Delegation changes of a delegator, oldest first
+ */
+export async function fetchIndexedDelegationHistory(
+  delegator: string,
+  topicId?: number
+): Promise<DelegationChange[] | null> {
+  const query = topicId === undefined ? '' : `?topicId=${topicId}`;
+  return fetchIndexer<DelegationChange[]>(`/delegators/${delegator}/history${query}`);
+}
+
+/**
+ * Pool flow rate and active reward flows of a topic, highest rate first
+ */
+export async function fetchIndexedRewards(topicId: number): Promise<IndexedTopicRewards | null> {
+  const rewards = await fetchIndexer<{
+    topicId: number;
+    poolFlowRate: string;
+    flows: Array<{ delegate: string; topicId: number; flowRate: string }>;
+  }>(`/topics/${topicId}/rewards`);
+
+  return rewards
+    ? {
+      topicId: rewards.topicId,
+      poolFlowRate: BigInt(rewards.poolFlowRate),
+      flows: rewards.flows.map((flow) => ({
+        delegate: flow.delegate,
+        topicId: flow.topicId,
+        flowRate: BigInt(flow.flowRate)
+      }))
+    }
+    : null;
+}
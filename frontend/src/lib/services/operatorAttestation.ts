@@ -0,0 +1,137 @@
+/**
+ * Operator Attestation Service
+ *
+ * Fetches attestation reports from enclave operator APIs and checks them
+ * against the operator set registered in VotePowerVerifier. Reports are
+ * verified in the browser, so the operator list does not trust the API that
+ * serves them.
+ *
+ * Configured with VITE_OPERATOR_API_URLS (comma-separated) and optionally
+ * VITE_ALLOWED_MEASUREMENTS / VITE_TRUSTED_PLATFORM_KEYS to pin builds and
+ * platform keys.
+ */
+
+import { ethers, type Provider } from 'ethers';
+import {
+  publicKeyToAddress,
+  verifyReport,
+  type AttestationReport,
+  type VerificationResult
+} from '@liquid-democracy-engine/attestation-report';
+import { getOperators, type OperatorInfo } from '../contracts/votePowerVerifier';
+
+const GNOSIS_CHAIN_ID = 100;
+
+/** Reports are requested with a fresh nonce, so they must be recent */
+const MAX_REPORT_AGE = 300;
+
+export interface OperatorAttestation {
+  operator: OperatorInfo;
+  /** Operator API that served the report */
+  apiUrl: string | null;
+  report: AttestationReport | null;
+  verification: VerificationResult | null;
+  /** Problems with the registered key itself, independent of any report */
+  registrationErrors: string[];
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Operator API URLs configured for this deployment
+ */
+export function getOperatorApiUrls(): string[] {
+  return parseList(import.meta.env.VITE_OPERATOR_API_URLS);
+}
+
+/**
+ * Fetch an attestation report answering a nonce
+ *
+ * @param operatorApiUrl Operator API base URL
+ * @param nonce Verifier challenge (bytes32)
+ */
+export async function fetchAttestationReport(
+  operatorApiUrl: string,
+  nonce: string
+): Promise<AttestationReport> {
+  const response = await fetch(`${operatorApiUrl.replace(/\/$/, '')}/attestation?nonce=${nonce}`);
+
+  if (!response.ok) {
+    throw new Error(`Operator API returned ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Check a registered key: the public key must belong to the operator address
+ */
+function checkRegistration(operator: OperatorInfo): string[] {
+  if (ethers.dataLength(operator.enclavePublicKey) !== 64) {
+    return ['Registered enclave public key is not 64 bytes'];
+  }
+
+  if (publicKeyToAddress(operator.enclavePublicKey) !== ethers.getAddress(operator.address)) {
+    return ['Registered enclave public key does not belong to the operator address'];
+  }
+
+  return [];
+}
+
+/**
+ * Load registered operators with their verified attestation reports
+ *
+ * Operators without a reachable API are listed without a report.
+ */
+export async function getOperatorAttestations(
+  provider: Provider,
+  chainId: number
+): Promise<OperatorAttestation[]> {
+  const operators = await getOperators(provider, chainId);
+  const reports = new Map<string, { apiUrl: string; report: AttestationReport; nonce: string }>();
+
+  await Promise.all(
+    getOperatorApiUrls().map(async (apiUrl) => {
+      const nonce = ethers.hexlify(ethers.randomBytes(32));
+
+      try {
+        const report = await fetchAttestationReport(apiUrl, nonce);
+        reports.set(report.operator.toLowerCase(), { apiUrl, report, nonce });
+      } catch (error) {
+        console.warn(`[OperatorAttestation] No report from ${apiUrl}:`, error);
+      }
+    })
+  );
+
+  return operators.map((operator) => {
+    const registrationErrors = checkRegistration(operator);
+    const served = reports.get(operator.address.toLowerCase());
+
+    if (!served) {
+      return { operator, apiUrl: null, report: null, verification: null, registrationErrors };
+    }
+
+    const verification = verifyReport(served.report, {
+      measurements: parseList(import.meta.env.VITE_ALLOWED_MEASUREMENTS),
+      platformKeys: parseList(import.meta.env.VITE_TRUSTED_PLATFORM_KEYS),
+      // Software-simulated reports are only good enough for testnets
+      allowSimulated: chainId !== GNOSIS_CHAIN_ID,
+      expectedPublicKey: operator.enclavePublicKey,
+      nonce: served.nonce,
+      maxAge: MAX_REPORT_AGE
+    });
+
+    return {
+      operator,
+      apiUrl: served.apiUrl,
+      report: served.report,
+      verification,
+      registrationErrors
+    };
+  });
+}
@@ -0,0 +1,19 @@
+/**
+ * Session Store
+ * Sign-In with Ethereum session of the connected account, for off-chain
+ * features (drafts, preferences, profiles) that need a signed-in user
+ */
+
+import { writable, derived, type Readable } from 'svelte/store';
+
+export interface Session {
+  address: string;
+  chainId: number;
+  /** Unix ms */
+  expiresAt: number;
+}
+
+/** Current session, or null when signed out */
+export const session = writable<Session | null>(null);
+
+export const isSignedIn: Readable<boolean> = derived(session, ($session) => $session !== null);
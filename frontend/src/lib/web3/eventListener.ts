@@ -1,42 +1,50 @@
 /**
  * Event Listener Service
  *
- * Listens for contract events and updates UI state
+ * Listens for contract events and updates UI state.
+ * Events arrive unconfirmed and are marked confirmed once buried under
+ * `confirmations` blocks; logs removed by a reorg are dropped from the stores.
  */
 
 import { ethers } from 'ethers';
-import { writable, type Writable } from 'svelte/store';
+import { get, writable, type Writable } from 'svelte/store';
 import { DelegationManagerABI, TopicRegistryABI, VotePowerVerifierABI } from '../contracts/abis';
 
-export interface DelegationEvent {
+/** Chain position and finality of an event */
+export interface EventLocation {
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  confirmed: boolean;
+}
+
+export interface DelegationEvent extends EventLocation {
   type: 'Delegated' | 'Revoked' | 'DeadEndDeclared' | 'DeadEndRevoked';
   delegator: string;
   delegate?: string;
   topicId: number;
   timestamp: number;
-  blockNumber: number;
-  transactionHash: string;
 }
 
-export interface TopicEvent {
+export interface TopicEvent extends EventLocation {
   type: 'TopicCreated' | 'TopicUpdated';
   topicId: number;
   name?: string;
   admin?: string;
-  blockNumber: number;
-  transactionHash: string;
 }
 
-export interface VotingPowerEvent {
+export interface VotingPowerEvent extends EventLocation {
   type: 'VotingPowerUpdated' | 'AttestationAccepted';
   topicId?: number;
   attestationHash?: string;
   resultHash?: string;
   timestamp: number;
-  blockNumber: number;
-  transactionHash: string;
 }
 
+/** Default blocks before an event is considered final */
+export const DEFAULT_CONFIRMATIONS = 12;
+
 // Event stores
 export const delegationEvents: Writable<DelegationEvent[]> = writable([]);
 export const topicEvents: Writable<TopicEvent[]> = writable([]);
@@ -51,24 +59,31 @@ export class EventListenerService {
   private topicRegistry: ethers.Contract | null = null;
   private votePowerVerifier: ethers.Contract | null = null;
   private isListening = false;
+  private confirmations = DEFAULT_CONFIRMATIONS;
 
   constructor(provider: ethers.Provider) {
     this.provider = provider;
+    this._onBlock = this._onBlock.bind(this);
   }
 
   /**
    * Initialize contracts and start listening
    */
-  startListening(addresses: {
-    delegationManager: string;
-    topicRegistry: string;
-    votePowerVerifier: string;
-  }): void {
+  startListening(
+    addresses: {
+      delegationManager: string;
+      topicRegistry: string;
+      votePowerVerifier: string;
+    },
+    options: { confirmations?: number } = {}
+  ): void {
     if (this.isListening) {
       console.warn('[EventListener] Already listening');
       return;
     }
 
+    this.confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS;
+
     // Initialize contracts
     this.delegationManager = new ethers.Contract(
       addresses.delegationManager,
@@ -92,6 +107,7 @@ export class EventListenerService {
     this._setupDelegationListeners();
     this._setupTopicListeners();
     this._setupVotingPowerListeners();
+    this.provider.on('block', this._onBlock);
 
     this.isListening = true;
     console.log('[EventListener] Started listening for events');
@@ -108,11 +124,79 @@ export class EventListenerService {
     this.delegationManager?.removeAllListeners();
     this.topicRegistry?.removeAllListeners();
     this.votePowerVerifier?.removeAllListeners();
+    this.provider.off('block', this._onBlock);
 
     this.isListening = false;
     console.log('[EventListener] Stopped listening');
   }
 
+  /**
+   * Add a live event to its store, or drop it if the log was removed by a reorg
+   */
+  private _record<T extends EventLocation & { type: string }>(
+    store: Writable<T[]>,
+    event: T,
+    log: ethers.Log
+  ): void {
+    const isSameLog = (other: T) =>
+      other.transactionHash === event.transactionHash && other.logIndex === event.logIndex;
+
+    if (log.removed) {
+      store.update((events) => events.filter((other) => !isSameLog(other)));
+      console.warn('[EventListener] Log removed by reorg:', event.type, event.transactionHash);
+      return;
+    }
+
+    store.update((events) => [event, ...events.filter((other) => !isSameLog(other))]);
+  }
+
+  /**
+   * Confirm events buried deep enough, dropping those whose block left the canonical chain
+   */
+  private async _onBlock(head: number): Promise<void> {
+    const confirmedHead = head - this.confirmations;
+    const canonicalHashes = new Map<number, string | null>();
+
+    const resolve = async (events: EventLocation[]) => {
+      for (const event of events) {
+        if (event.confirmed || event.blockNumber > confirmedHead) continue;
+        if (!canonicalHashes.has(event.blockNumber)) {
+          const block = await this.provider.getBlock(event.blockNumber);
+          canonicalHashes.set(event.blockNumber, block?.hash ?? null);
+        }
+      }
+    };
+
+    const settle = <T extends EventLocation>(events: T[]): T[] =>
+      events
+        .filter(
+          (event) =>
+            event.confirmed ||
+            event.blockNumber > confirmedHead ||
+            canonicalHashes.get(event.blockNumber) === event.blockHash
+        )
+        .map((event) =>
+          !event.confirmed && event.blockNumber <= confirmedHead
+            ? { ...event, confirmed: true }
+            : event
+        );
+
+    try {
+      await resolve(get(delegationEvents));
+      await resolve(get(topicEvents));
+      await resolve(get(votingPowerEvents));
+    } catch (error) {
+      console.error('[EventListener] Failed to confirm events:', error);
+      return;
+    }
+
+    if (canonicalHashes.size === 0) return;
+
+    delegationEvents.update(settle);
+    topicEvents.update(settle);
+    votingPowerEvents.update(settle);
+  }
+
   /**
    * Setup delegation event listeners
    */
@@ -130,10 +214,13 @@ export class EventListenerService {
           topicId: Number(topicId),
           timestamp: Number(timestamp),
           blockNumber: event.log.blockNumber,
+          blockHash: event.log.blockHash,
+          logIndex: event.log.index,
           transactionHash: event.log.transactionHash,
+          confirmed: false,
         };
 
-        delegationEvents.update((events) => [delegationEvent, ...events]);
+        this._record(delegationEvents, delegationEvent, event.log);
         console.log('[EventListener] Delegated:', delegationEvent);
       }
     );
@@ -148,10 +235,13 @@ export class EventListenerService {
           topicId: Number(topicId),
           timestamp: Number(timestamp),
           blockNumber: event.log.blockNumber,
+          blockHash: event.log.blockHash,
+          logIndex: event.log.index,
           transactionHash: event.log.transactionHash,
+          confirmed: false,
         };
 
-        delegationEvents.update((events) => [delegationEvent, ...events]);
+        this._record(delegationEvents, delegationEvent, event.log);
         console.log('[EventListener] Revoked:', delegationEvent);
       }
     );
@@ -166,10 +256,13 @@ export class EventListenerService {
           topicId: Number(topicId),
           timestamp: Number(timestamp),
           blockNumber: event.log.blockNumber,
+          blockHash: event.log.blockHash,
+          logIndex: event.log.index,
           transactionHash: event.log.transactionHash,
+          confirmed: false,
         };
 
-        delegationEvents.update((events) => [delegationEvent, ...events]);
+        this._record(delegationEvents, delegationEvent, event.log);
         console.log('[EventListener] DeadEndDeclared:', delegationEvent);
       }
     );
@@ -184,10 +277,13 @@ export class EventListenerService {
           topicId: Number(topicId),
           timestamp: Number(timestamp),
           blockNumber: event.log.blockNumber,
+          blockHash: event.log.blockHash,
+          logIndex: event.log.index,
           transactionHash: event.log.transactionHash,
+          confirmed: false,
         };
 
-        delegationEvents.update((events) => [delegationEvent, ...events]);
+        this._record(delegationEvents, delegationEvent, event.log);
         console.log('[EventListener] DeadEndRevoked:', delegationEvent);
       }
     );
@@ -209,10 +305,13 @@ export class EventListenerService {
           name,
           admin,
           blockNumber: event.log.blockNumber,
+          blockHash: event.log.blockHash,
+          logIndex: event.log.index,
           transactionHash: event.log.transactionHash,
+          confirmed: false,
         };
 
-        topicEvents.update((events) => [topicEvent, ...events]);
+        this._record(topicEvents, topicEvent, event.log);
         console.log('[EventListener] TopicCreated:', topicEvent);
       }
     );
@@ -234,10 +333,13 @@ export class EventListenerService {
           attestationHash,
           timestamp: Number(timestamp),
           blockNumber: event.log.blockNumber,
+          blockHash: event.log.blockHash,
+          logIndex: event.log.index,
           transactionHash: event.log.transactionHash,
+          confirmed: false,
         };
 
-        votingPowerEvents.update((events) => [vpEvent, ...events]);
+        this._record(votingPowerEvents, vpEvent, event.log);
         console.log('[EventListener] VotingPowerUpdated:', vpEvent);
       }
     );
@@ -251,10 +353,13 @@ export class EventListenerService {
           resultHash,
           timestamp: Number(timestamp),
           blockNumber: event.log.blockNumber,
+          blockHash: event.log.blockHash,
+          logIndex: event.log.index,
           transactionHash: event.log.transactionHash,
+          confirmed: false,
         };
 
-        votingPowerEvents.update((events) => [vpEvent, ...events]);
+        this._record(votingPowerEvents, vpEvent, event.log);
         console.log('[EventListener] AttestationAccepted:', vpEvent);
       }
     );
@@ -269,13 +374,14 @@ export class EventListenerService {
     }
 
     const events: DelegationEvent[] = [];
+    const confirmedHead = (await this.provider.getBlockNumber()) - this.confirmations;
 
     // Fetch Delegated events
     const delegatedFilter = this.delegationManager.filters.Delegated(null, null, topicId);
     const delegatedEvents = await this.delegationManager.queryFilter(delegatedFilter, fromBlock);
 
     for (const event of delegatedEvents) {
-      const args = event.args;
+      const args = (event as ethers.EventLog).args;
       if (args) {
         events.push({
           type: 'Delegated',
@@ -284,7 +390,10 @@ export class EventListenerService {
           topicId: Number(args[2]),
           timestamp: Number(args[3]),
           blockNumber: event.blockNumber,
+          blockHash: event.blockHash,
+          logIndex: event.index,
           transactionHash: event.transactionHash,
+          confirmed: event.blockNumber <= confirmedHead,
         });
       }
     }
@@ -294,7 +403,7 @@ export class EventListenerService {
     const revokedEvents = await this.delegationManager.queryFilter(revokedFilter, fromBlock);
 
     for (const event of revokedEvents) {
-      const args = event.args;
+      const args = (event as ethers.EventLog).args;
       if (args) {
         events.push({
           type: 'Revoked',
@@ -302,7 +411,10 @@ export class EventListenerService {
           topicId: Number(args[1]),
           timestamp: Number(args[2]),
           blockNumber: event.blockNumber,
+          blockHash: event.blockHash,
+          logIndex: event.index,
           transactionHash: event.transactionHash,
+          confirmed: event.blockNumber <= confirmedHead,
         });
       }
     }
@@ -1,19 +1,35 @@
 /**
  * Wallet Connection Service
  *
- * Handles Web3 wallet connection with MetaMask and WalletConnect support
- * Manages wallet state and network switching with consistent behavior
+ * Handles Web3 wallet connection with any injected wallet found by EIP-6963
+ * discovery (MetaMask, Rabby, Frame, ...). Only the wallet the user picked is
+ * talked to and listened on.
+ * Manages wallet state and network switching with consistent behavior, and
+ * Sign-In with Ethereum (EIP-4361) sessions for off-chain features
  */
 
 import { ethers, type Eip1193Provider } from 'ethers';
+import { RpcProvider } from '@liquid-democracy-engine/rpc-provider';
 import { writable, derived, type Readable, get } from 'svelte/store';
 import { notifications } from '../stores/notifications';
+import { session, type Session } from '../stores/session';
+import { endSession, fetchNonce, fetchSession, isAuthAvailable, verifySignIn } from '../services/authClient';
+import {
+  startWalletDiscovery,
+  waitForWallet,
+  wallets,
+  type EIP1193Provider,
+  type WalletDetail,
+  type WalletInfo,
+} from './walletDiscovery';
 
 export interface WalletState {
   connected: boolean;
   address: string | null;
   chainId: number | null;
   provider: ethers.BrowserProvider | null;
+  /** Public RPC endpoints with failover, for reads and event polling */
+  readProvider: ethers.Provider | null;
   signer: ethers.Signer | null;
 }
 
@@ -38,7 +54,11 @@ export const CHIADO_NETWORK: NetworkConfig = {
     symbol: 'xDAI',
     decimals: 18,
   },
-  rpcUrls: ['https://rpc.chiadochain.net'],
+  rpcUrls: [
+    'https://rpc.chiadochain.net',
+    'https://gnosis-chiado-rpc.publicnode.com',
+    'https://rpc.chiado.gnosis.gateway.fm',
+  ],
   blockExplorerUrls: ['https://gnosis-chiado.blockscout.com'],
 };
 
@@ -51,20 +71,81 @@ export const GNOSIS_NETWORK: NetworkConfig = {
     symbol: 'xDAI',
     decimals: 18,
   },
-  rpcUrls: ['https://rpc.gnosischain.com'],
+  rpcUrls: [
+    'https://rpc.gnosischain.com',
+    'https://gnosis-rpc.publicnode.com',
+    'https://gnosis.drpc.org',
+  ],
   blockExplorerUrls: ['https://gnosisscan.io'],
 };
 
-// Wallet state store
-const initialState: WalletState = {
-  connected: false,
-  address: null,
-  chainId: null,
-  provider: null,
-  signer: null,
-};
+/** Networks that can be browsed without a wallet */
+export const SUPPORTED_NETWORKS: NetworkConfig[] = [CHIADO_NETWORK, GNOSIS_NETWORK];
+
+/**
+ * Get the configuration of a supported network
+ *
+ * @returns Network, or null for unsupported chains
+ */
+export function getNetworkConfig(chainId: number): NetworkConfig | null {
+  return SUPPORTED_NETWORKS.find((network) => network.chainId === chainId) ?? null;
+}
+
+// Read providers by chain, kept across reconnects so endpoint health persists
+const readProviders = new Map<number, RpcProvider>();
+
+/**
+ * Get the read provider for a supported network
+ * Reads go to the network's public RPC endpoints with failover instead of the
+ * wallet, whose single endpoint is often rate limited
+ *
+ * @returns Provider, or null for unsupported networks
+ */
+export function getReadProvider(chainId: number): RpcProvider | null {
+  const network = getNetworkConfig(chainId);
+
+  if (!network) {
+    return null;
+  }
+
+  let provider = readProviders.get(chainId);
+  if (!provider) {
+    provider = new RpcProvider(network.rpcUrls, { chainId });
+    readProviders.set(chainId, provider);
+  }
+
+  return provider;
+}
+
+// localStorage key of the network chosen for browsing
+const READ_CHAIN_STORAGE_KEY = 'dcider:readChainId';
+
+/**
+ * Get the network chosen for browsing (Chiado unless another was picked)
+ */
+function loadReadChainId(): number {
+  const stored = typeof localStorage === 'undefined'
+    ? null
+    : Number(localStorage.getItem(READ_CHAIN_STORAGE_KEY));
 
-export const walletStore = writable<WalletState>(initialState);
+  return stored && getNetworkConfig(stored) ? stored : CHIADO_NETWORK.chainId;
+}
+
+/**
+ * Read-only state: public governance data of a network, no account
+ */
+function readOnlyState(chainId: number): WalletState {
+  return {
+    connected: false,
+    address: null,
+    chainId,
+    provider: null,
+    readProvider: getReadProvider(chainId),
+    signer: null,
+  };
+}
+
+export const walletStore = writable<WalletState>(readOnlyState(loadReadChainId()));
 
 // Derived stores for convenience
 export const isConnected: Readable<boolean> = derived(
@@ -82,10 +163,112 @@ export const currentChainId: Readable<number | null> = derived(
   ($wallet) => $wallet.chainId
 );
 
+// Account viewed read-only instead of the wallet's (watch-address mode)
+export const watchedAddress = writable<string | null>(null);
+
+/**
+ * Account the app renders: the watched one, otherwise the connected wallet's
+ * Routes use this as their userAddress
+ */
+export const viewedAddress: Readable<string | null> = derived(
+  [walletStore, watchedAddress],
+  ([$wallet, $watched]) => $watched ?? $wallet.address
+);
+
+// ENS lives on Ethereum mainnet, not on Gnosis or Chiado
+const ENS_RPC_URLS = [
+  'https://ethereum-rpc.publicnode.com',
+  'https://eth.llamarpc.com',
+  'https://cloudflare-eth.com',
+];
+
+let ensProvider: RpcProvider | null = null;
+
+// localStorage key of the wallet picked last time (its EIP-6963 rdns)
+const WALLET_STORAGE_KEY = 'dcider:walletRdns';
+
+// Wallet the app talks to; other injected wallets are ignored
+let activeWallet: WalletDetail | null = null;
+
+/** Wallet in use, for display */
+export const selectedWallet = writable<WalletInfo | null>(null);
+
+/** Wallets to pick from while a connection waits for the user's choice */
+export const walletChoice = writable<WalletDetail[] | null>(null);
+
+let resolveWalletChoice: ((wallet: WalletDetail | null) => void) | null = null;
+
 // Internal state
 let isUpdating = false;
 let updateTimeout: NodeJS.Timeout | null = null;
 
+/**
+ * Provider of the wallet in use
+ */
+function getActiveProvider(): EIP1193Provider {
+  if (!activeWallet) {
+    throw new Error('No wallet connected');
+  }
+  return activeWallet.provider;
+}
+
+/**
+ * Use a wallet from now on and remember it for the next visit
+ */
+function setActiveWallet(wallet: WalletDetail): void {
+  if (activeWallet && activeWallet.provider !== wallet.provider) {
+    // Stop following the previous wallet's accounts and chain
+    removeEventListeners();
+  }
+
+  activeWallet = wallet;
+  selectedWallet.set(wallet.info);
+  localStorage.setItem(WALLET_STORAGE_KEY, wallet.info.rdns);
+}
+
+/**
+ * Answer a pending wallet choice (null cancels the connection)
+ */
+export function chooseWallet(wallet: WalletDetail | null): void {
+  walletChoice.set(null);
+  resolveWalletChoice?.(wallet);
+  resolveWalletChoice = null;
+}
+
+/**
+ * Wallet to connect: the remembered one, the only one installed, or the one
+ * the user picks from the wallet picker
+ */
+async function pickWallet(): Promise<WalletDetail> {
+  startWalletDiscovery();
+
+  const remembered = localStorage.getItem(WALLET_STORAGE_KEY);
+  const rememberedWallet = remembered ? await waitForWallet(remembered) : null;
+  if (rememberedWallet) {
+    return rememberedWallet;
+  }
+
+  const available = get(wallets);
+  if (available.length === 0) {
+    throw new Error('No wallet found. Please install a browser wallet such as MetaMask or Rabby.');
+  }
+  if (available.length === 1) {
+    return available[0];
+  }
+
+  // Replace any earlier unanswered choice
+  chooseWallet(null);
+  walletChoice.set(available);
+  const chosen = await new Promise<WalletDetail | null>((resolve) => {
+    resolveWalletChoice = resolve;
+  });
+
+  if (!chosen) {
+    throw new Error('Connection cancelled');
+  }
+  return chosen;
+}
+
 /**
  * Update wallet state from current provider
  * Debounced to prevent rapid updates
@@ -106,12 +289,10 @@ async function updateWalletState(force: boolean = false): Promise<void> {
   isUpdating = true;
 
   try {
-    if (typeof window.ethereum === 'undefined') {
-      throw new Error('MetaMask is not installed');
-    }
+    const walletProvider = getActiveProvider();
 
-    // Get current accounts directly from MetaMask
-    const accounts = await window.ethereum.request({ method: 'eth_accounts' });
+    // Get current accounts directly from the wallet
+    const accounts = await walletProvider.request({ method: 'eth_accounts' });
 
     if (accounts.length === 0) {
       console.log('[WalletConnect] No accounts found, disconnecting');
@@ -120,26 +301,26 @@ async function updateWalletState(force: boolean = false): Promise<void> {
     }
 
     // Create fresh provider
-    const provider = new ethers.BrowserProvider(window.ethereum as Eip1193Provider);
+    const provider = new ethers.BrowserProvider(walletProvider as Eip1193Provider);
 
     // IMPORTANT: Always get a fresh signer to ensure it's tied to the current account
     const signer = await provider.getSigner();
     const address = await signer.getAddress();
 
-    // Verify the signer address matches the MetaMask account
+    // Verify the signer address matches the wallet account
     const currentAccount = accounts[0].toLowerCase();
     if (address.toLowerCase() !== currentAccount) {
       console.warn('[WalletConnect] Address mismatch detected, retrying...', {
         signerAddress: address,
-        metamaskAccount: currentAccount
+        walletAccount: currentAccount
       });
       // Retry once with a fresh provider
-      const freshProvider = new ethers.BrowserProvider(window.ethereum as Eip1193Provider);
+      const freshProvider = new ethers.BrowserProvider(walletProvider as Eip1193Provider);
       const freshSigner = await freshProvider.getSigner();
       const freshAddress = await freshSigner.getAddress();
 
       if (freshAddress.toLowerCase() !== currentAccount) {
-        throw new Error('Account mismatch: wallet state is inconsistent with MetaMask');
+        throw new Error('Account mismatch: wallet state is inconsistent with the selected wallet');
       }
 
       // Use fresh instances
@@ -151,6 +332,7 @@ async function updateWalletState(force: boolean = false): Promise<void> {
         address: freshAddress,
         chainId,
         provider: freshProvider,
+        readProvider: getReadProvider(chainId) ?? freshProvider,
         signer: freshSigner,
       });
 
@@ -167,6 +349,7 @@ async function updateWalletState(force: boolean = false): Promise<void> {
       address,
       chainId,
       provider,
+      readProvider: getReadProvider(chainId) ?? provider,
       signer,
     });
 
@@ -196,18 +379,19 @@ function scheduleUpdate(delay: number = 100): void {
 }
 
 /**
- * Connect to MetaMask wallet
+ * Connect a wallet
+ *
+ * @param wallet Wallet to connect; by default the remembered or only
+ * installed wallet, otherwise the user is asked to pick one
  */
-export async function connectMetaMask(): Promise<void> {
-  if (typeof window.ethereum === 'undefined') {
-    throw new Error('MetaMask is not installed. Please install MetaMask to continue.');
-  }
+export async function connectWallet(wallet?: WalletDetail): Promise<void> {
+  const target = wallet ?? await pickWallet();
 
   try {
-    console.log('[WalletConnect] Requesting account access...');
+    console.log(`[WalletConnect] Requesting account access from ${target.info.name}...`);
 
     // Request account access
-    const accounts = await window.ethereum.request({
+    const accounts = await target.provider.request({
       method: 'eth_requestAccounts',
     });
 
@@ -215,6 +399,8 @@ export async function connectMetaMask(): Promise<void> {
       throw new Error('No accounts found. Please unlock your wallet.');
     }
 
+    setActiveWallet(target);
+
     // Update wallet state
     await updateWalletState(true);
 
@@ -230,7 +416,7 @@ export async function connectMetaMask(): Promise<void> {
     if (error.code === 4001) {
       throw new Error('Connection rejected by user');
     } else if (error.code === -32002) {
-      throw new Error('Connection request already pending. Please check MetaMask.');
+      throw new Error(`Connection request already pending. Please check ${target.info.name}.`);
     } else {
       throw new Error(error.message || 'Failed to connect wallet');
     }
@@ -252,26 +438,89 @@ export function disconnectWallet(): void {
   // Remove event listeners
   removeEventListeners();
 
-  // Reset state
-  walletStore.set(initialState);
+  // The session belongs to the disconnected account
+  void signOut();
+
+  // Forget the wallet, so the next connection offers the picker again
+  activeWallet = null;
+  selectedWallet.set(null);
+  localStorage.removeItem(WALLET_STORAGE_KEY);
+
+  // Back to browsing the chosen network read-only
+  walletStore.set(readOnlyState(loadReadChainId()));
   isUpdating = false;
 
   notifications.info('Wallet disconnected', 2000);
 }
 
+/**
+ * View the app as another account (read-only)
+ *
+ * @param addressOrName Address or ENS name
+ * @returns Checksummed address being watched
+ */
+export async function watchAccount(addressOrName: string): Promise<string> {
+  const input = addressOrName.trim();
+  let address: string | null = null;
+
+  if (input.includes('.')) {
+    if (!ensProvider) {
+      ensProvider = new RpcProvider(ENS_RPC_URLS, { chainId: 1 });
+    }
+    address = await ensProvider.resolveName(input);
+  } else if (ethers.isAddress(input)) {
+    address = ethers.getAddress(input);
+  }
+
+  if (!address) {
+    throw new Error(`Not an address or known ENS name: ${input}`);
+  }
+
+  watchedAddress.set(address);
+  console.log('[WalletConnect] Watching:', address);
+  notifications.info(`Viewing as ${formatAddress(address)} (read-only)`, 3000);
+
+  return address;
+}
+
+/**
+ * Leave watch-address mode and show the connected wallet again
+ */
+export function stopWatching(): void {
+  watchedAddress.set(null);
+}
+
+/**
+ * Choose the network to browse
+ * Without a wallet this switches the read provider; with one, the wallet is
+ * asked to switch and the app follows it
+ */
+export async function selectReadChain(chainId: number): Promise<void> {
+  const network = getNetworkConfig(chainId);
+  if (!network) {
+    throw new Error(`Unsupported network: ${chainId}`);
+  }
+
+  localStorage.setItem(READ_CHAIN_STORAGE_KEY, String(chainId));
+
+  if (get(walletStore).connected) {
+    await switchNetwork(network);
+  } else {
+    walletStore.set(readOnlyState(chainId));
+  }
+}
+
 /**
  * Switch to specified network
  */
 export async function switchNetwork(network: NetworkConfig): Promise<void> {
-  if (typeof window.ethereum === 'undefined') {
-    throw new Error('MetaMask is not installed');
-  }
+  const walletProvider = getActiveProvider();
 
   try {
     console.log(`[WalletConnect] Switching to ${network.chainName}...`);
 
     // Try to switch to the network
-    await window.ethereum.request({
+    await walletProvider.request({
       method: 'wallet_switchEthereumChain',
       params: [{ chainId: `0x${network.chainId.toString(16)}` }],
     });
@@ -282,12 +531,12 @@ export async function switchNetwork(network: NetworkConfig): Promise<void> {
     // Update state after switch
     scheduleUpdate(300);
   } catch (error: any) {
-    // This error code indicates that the chain has not been added to MetaMask
+    // This error code indicates that the chain has not been added to the wallet
     if (error.code === 4902) {
       try {
-        console.log(`[WalletConnect] Adding ${network.chainName} to MetaMask...`);
+        console.log(`[WalletConnect] Adding ${network.chainName} to the wallet...`);
 
-        await window.ethereum.request({
+        await walletProvider.request({
           method: 'wallet_addEthereumChain',
           params: [
             {
@@ -300,8 +549,8 @@ export async function switchNetwork(network: NetworkConfig): Promise<void> {
           ],
         });
 
-        console.log(`[WalletConnect] Added ${network.chainName} to MetaMask`);
-        notifications.success(`Added ${network.chainName} to MetaMask`, 3000);
+        console.log(`[WalletConnect] Added ${network.chainName} to the wallet`);
+        notifications.success(`Added ${network.chainName} to your wallet`, 3000);
 
         // Update state after adding
         scheduleUpdate(300);
@@ -323,13 +572,15 @@ export async function switchNetwork(network: NetworkConfig): Promise<void> {
 let accountsChangedHandler: ((accounts: string[]) => void) | null = null;
 let chainChangedHandler: ((chainId: string) => void) | null = null;
 let disconnectHandler: (() => void) | null = null;
+// Provider the handlers are registered on
+let listenedProvider: EIP1193Provider | null = null;
 let listenersSetup = false;
 
 /**
- * Setup event listeners for account and network changes
+ * Setup event listeners for account and network changes of the active wallet
  */
 function setupEventListeners(): void {
-  if (typeof window.ethereum === 'undefined') {
+  if (!activeWallet) {
     return;
   }
 
@@ -358,6 +609,7 @@ function setupEventListeners(): void {
 
       if (newAddress.toLowerCase() !== currentAddress?.toLowerCase()) {
         console.log(`[WalletConnect] Account switched: ${currentAddress} → ${newAddress}`);
+        void signOut();
         scheduleUpdate(200);
       }
     }
@@ -374,9 +626,7 @@ function setupEventListeners(): void {
     scheduleUpdate(200);
 
     // Show notification
-    const networkName = newChainId === 10200 ? 'Chiado Testnet' :
-                        newChainId === 100 ? 'Gnosis' :
-                        `Chain ${newChainId}`;
+    const networkName = getNetworkConfig(newChainId)?.chainName ?? `Chain ${newChainId}`;
     notifications.info(`Network changed to ${networkName}`, 3000);
   };
 
@@ -387,9 +637,10 @@ function setupEventListeners(): void {
   };
 
   // Register event listeners
-  window.ethereum.on('accountsChanged', accountsChangedHandler);
-  window.ethereum.on('chainChanged', chainChangedHandler);
-  window.ethereum.on('disconnect', disconnectHandler);
+  listenedProvider = activeWallet.provider;
+  listenedProvider.on('accountsChanged', accountsChangedHandler);
+  listenedProvider.on('chainChanged', chainChangedHandler);
+  listenedProvider.on('disconnect', disconnectHandler);
 
   listenersSetup = true;
   console.log('[WalletConnect] Event listeners registered');
@@ -399,44 +650,55 @@ function setupEventListeners(): void {
  * Remove event listeners
  */
 function removeEventListeners(): void {
-  if (typeof window.ethereum === 'undefined') {
+  if (!listenedProvider) {
     return;
   }
 
   console.log('[WalletConnect] Removing event listeners');
 
   if (accountsChangedHandler) {
-    window.ethereum.removeListener('accountsChanged', accountsChangedHandler);
+    listenedProvider.removeListener('accountsChanged', accountsChangedHandler);
     accountsChangedHandler = null;
   }
   if (chainChangedHandler) {
-    window.ethereum.removeListener('chainChanged', chainChangedHandler);
+    listenedProvider.removeListener('chainChanged', chainChangedHandler);
     chainChangedHandler = null;
   }
   if (disconnectHandler) {
-    window.ethereum.removeListener('disconnect', disconnectHandler);
+    listenedProvider.removeListener('disconnect', disconnectHandler);
     disconnectHandler = null;
   }
 
+  listenedProvider = null;
   listenersSetup = false;
 }
 
 /**
  * Check if wallet is connected on page load
+ * Only the wallet picked last time is reconnected, or the only one installed
  */
 export async function checkConnection(): Promise<void> {
-  if (typeof window.ethereum === 'undefined') {
-    console.log('[WalletConnect] MetaMask not detected');
+  startWalletDiscovery();
+
+  const remembered = localStorage.getItem(WALLET_STORAGE_KEY);
+  const available = get(wallets);
+  const wallet = remembered
+    ? await waitForWallet(remembered)
+    : available.length === 1 ? available[0] : null;
+
+  if (!wallet) {
+    console.log('[WalletConnect] No wallet to reconnect');
     return;
   }
 
   try {
-    console.log('[WalletConnect] Checking for existing connection...');
-    const accounts = await window.ethereum.request({ method: 'eth_accounts' });
+    console.log(`[WalletConnect] Checking for existing connection to ${wallet.info.name}...`);
+    const accounts = await wallet.provider.request({ method: 'eth_accounts' });
 
     if (accounts.length > 0) {
       console.log('[WalletConnect] Found existing connection, reconnecting...');
       // Wallet was previously connected - restore connection
+      setActiveWallet(wallet);
       await updateWalletState(true);
       setupEventListeners();
     } else {
@@ -450,32 +712,48 @@ export async function checkConnection(): Promise<void> {
 /**
  * Get a fresh signer for the current account
  * This should be called before any transaction to ensure the signer is up-to-date
- * and matches the current MetaMask account
+ * and matches the current wallet account. Read-only visitors are asked to
+ * connect their wallet here, on their first write action.
+ *
+ * @param chainId Network the transaction is for; the wallet is asked to switch to it
  */
-export async function getFreshSigner(): Promise<ethers.Signer> {
-  if (typeof window.ethereum === 'undefined') {
-    throw new Error('MetaMask is not installed');
+export async function getFreshSigner(chainId?: number): Promise<ethers.Signer> {
+  // The page shows another account, so a transaction would not be what the user sees
+  if (get(watchedAddress)) {
+    throw new Error('Stop viewing as another account to send transactions');
   }
 
   try {
-    // Get current account from MetaMask
-    const accounts = await window.ethereum.request({ method: 'eth_accounts' });
+    // Get current account from the wallet, connecting one if needed
+    let accounts = activeWallet
+      ? await activeWallet.provider.request({ method: 'eth_accounts' })
+      : [];
+
+    if (accounts.length === 0) {
+      await connectWallet(activeWallet ?? undefined);
+      accounts = await getActiveProvider().request({ method: 'eth_accounts' });
+    }
 
     if (accounts.length === 0) {
       throw new Error('No accounts connected. Please connect your wallet.');
     }
 
+    // Transactions must go to the network being browsed
+    if (chainId !== undefined) {
+      await ensureWalletNetwork(chainId);
+    }
+
     // Create a fresh provider and signer
-    const provider = new ethers.BrowserProvider(window.ethereum as Eip1193Provider);
+    const provider = new ethers.BrowserProvider(getActiveProvider() as Eip1193Provider);
     const signer = await provider.getSigner();
     const address = await signer.getAddress();
 
-    // Verify it matches the current MetaMask account
+    // Verify it matches the current wallet account
     const currentAccount = accounts[0].toLowerCase();
     if (address.toLowerCase() !== currentAccount) {
       console.error('[WalletConnect] Signer/account mismatch:', {
         signerAddress: address,
-        metamaskAccount: currentAccount
+        walletAccount: currentAccount
       });
       throw new Error('Wallet state is inconsistent. Please try disconnecting and reconnecting your wallet.');
     }
@@ -488,6 +766,125 @@ export async function getFreshSigner(): Promise<ethers.Signer> {
   }
 }
 
+/**
+ * Ask the wallet to switch to a network unless it is already on it
+ */
+async function ensureWalletNetwork(chainId: number): Promise<void> {
+  const network = getNetworkConfig(chainId);
+  const walletChainId = parseInt(await getActiveProvider().request({ method: 'eth_chainId' }), 16);
+
+  if (walletChainId === chainId) {
+    return;
+  }
+
+  if (!network) {
+    throw new Error(`Unsupported network: ${chainId}`);
+  }
+
+  await switchNetwork(network);
+
+  const switchedChainId = parseInt(await getActiveProvider().request({ method: 'eth_chainId' }), 16);
+  if (switchedChainId !== chainId) {
+    throw new Error(`Please switch your wallet to ${network.chainName}`);
+  }
+}
+
+// Shown by the wallet above the sign-in fields
+const SIGN_IN_STATEMENT = 'Sign in to dCider. This request does not send a transaction or cost gas.';
+
+/**
+ * Build an EIP-4361 sign-in message for this site
+ */
+function createSignInMessage(address: string, chainId: number, nonce: string): string {
+  return [
+    `${window.location.host} wants you to sign in with your Ethereum account:`,
+    address,
+    '',
+    SIGN_IN_STATEMENT,
+    '',
+    `URI: ${window.location.origin}`,
+    'Version: 1',
+    `Chain ID: ${chainId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date().toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Sign in with the connected wallet (Sign-In with Ethereum)
+ * The wallet signs a message with a nonce from the indexer API, which opens a
+ * session kept in a cookie. Connects the wallet first if needed.
+ */
+export async function signIn(): Promise<Session> {
+  const signer = await getFreshSigner(get(walletStore).chainId ?? undefined);
+  const address = await signer.getAddress();
+  const chainId = Number((await signer.provider!.getNetwork()).chainId);
+
+  const message = createSignInMessage(address, chainId, await fetchNonce());
+
+  let signature: string;
+  try {
+    signature = await signer.signMessage(message);
+  } catch (error: any) {
+    if (error.code === 'ACTION_REJECTED' || error.code === 4001) {
+      throw new Error('Sign-in rejected by user');
+    }
+    throw error;
+  }
+
+  const newSession = await verifySignIn(message, signature);
+  session.set(newSession);
+
+  console.log('[WalletConnect] Signed in:', newSession.address);
+  notifications.success(`Signed in as ${formatAddress(newSession.address)}`, 3000);
+
+  return newSession;
+}
+
+/**
+ * End the session, if any
+ */
+export async function signOut(): Promise<void> {
+  if (!get(session)) {
+    return;
+  }
+
+  session.set(null);
+
+  try {
+    await endSession();
+    console.log('[WalletConnect] Signed out');
+  } catch (error: any) {
+    console.warn('[WalletConnect] Sign-out request failed:', error.message);
+  }
+}
+
+/**
+ * Pick up the session of a previous visit (the cookie outlives the page)
+ * A session of another account than the connected one is ended
+ */
+export async function restoreSession(): Promise<void> {
+  if (!isAuthAvailable()) {
+    return;
+  }
+
+  try {
+    const current = await fetchSession();
+    const address = get(walletStore).address;
+
+    if (current && address && current.address.toLowerCase() !== address.toLowerCase()) {
+      console.log('[WalletConnect] Session belongs to another account, signing out');
+      await endSession();
+      session.set(null);
+      return;
+    }
+
+    session.set(current);
+  } catch (error: any) {
+    console.warn('[WalletConnect] Failed to restore session:', error.message);
+  }
+}
+
 /**
  * Format address for display (0x1234...5678)
  */
@@ -498,28 +895,20 @@ export function formatAddress(address: string): string {
 
 /**
  * Get block explorer URL for address
+ *
+ * @returns URL, or null for unsupported networks
  */
-export function getExplorerUrl(address: string, chainId: number): string {
-  const network = chainId === 10200 ? CHIADO_NETWORK : GNOSIS_NETWORK;
-  return `${network.blockExplorerUrls[0]}/address/${address}`;
+export function getExplorerUrl(address: string, chainId: number): string | null {
+  const network = getNetworkConfig(chainId);
+  return network ? `${network.blockExplorerUrls[0]}/address/${address}` : null;
 }
 
 /**
  * Get block explorer URL for transaction
+ *
+ * @returns URL, or null for unsupported networks
  */
-export function getTxExplorerUrl(txHash: string, chainId: number): string {
-  const network = chainId === 10200 ? CHIADO_NETWORK : GNOSIS_NETWORK;
-  return `${network.blockExplorerUrls[0]}/tx/${txHash}`;
-}
-
-// Type declarations for window.ethereum
-declare global {
-  interface Window {
-    ethereum?: {
-      request: (request: { method: string; params?: any[] }) => Promise<any>;
-      on: (event: string, callback: (...args: any[]) => void) => void;
-      removeListener: (event: string, callback: (...args: any[]) => void) => void;
-      isMetaMask?: boolean;
-    };
-  }
+export function getTxExplorerUrl(txHash: string, chainId: number): string | null {
+  const network = getNetworkConfig(chainId);
+  return network ? `${network.blockExplorerUrls[0]}/tx/${txHash}` : null;
 }
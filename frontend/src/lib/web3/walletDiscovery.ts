@@ -0,0 +1,145 @@
+/**
+ * Wallet Discovery
+ *
+ * Finds injected wallets with EIP-6963: every extension announces its own
+ * provider, so MetaMask, Rabby, Frame and others can be installed side by side
+ * instead of racing to set window.ethereum. Wallets that predate EIP-6963 are
+ * still picked up from window.ethereum.
+ */
+
+import { writable, derived, get, type Readable } from 'svelte/store';
+
+/** Injected wallet provider (EIP-1193) */
+export interface EIP1193Provider {
+  request: (request: { method: string; params?: any[] }) => Promise<any>;
+  on: (event: string, callback: (...args: any[]) => void) => void;
+  removeListener: (event: string, callback: (...args: any[]) => void) => void;
+  isMetaMask?: boolean;
+}
+
+/** Wallet metadata from an EIP-6963 announcement */
+export interface WalletInfo {
+  /** Random per page load, identifies the announcement */
+  uuid: string;
+  name: string;
+  /** Data URI of the wallet logo */
+  icon: string;
+  /** Reverse domain name, stable across reloads (e.g. io.metamask) */
+  rdns: string;
+}
+
+export interface WalletDetail {
+  info: WalletInfo;
+  provider: EIP1193Provider;
+}
+
+/** rdns of the window.ethereum wallet when it was not announced */
+export const LEGACY_WALLET_RDNS = 'injected';
+
+const announcedWallets = writable<WalletDetail[]>([]);
+
+/**
+ * Wallets available in this browser, announced ones first
+ */
+export const wallets: Readable<WalletDetail[]> = derived(announcedWallets, ($announced) => {
+  const legacy = getLegacyWallet($announced);
+  return legacy ? [...$announced, legacy] : $announced;
+});
+
+let discoveryStarted = false;
+
+/**
+ * Listen for wallet announcements and ask installed wallets to announce
+ * Safe to call more than once
+ */
+export function startWalletDiscovery(): void {
+  if (discoveryStarted || typeof window === 'undefined') {
+    return;
+  }
+  discoveryStarted = true;
+
+  window.addEventListener('eip6963:announceProvider', (event) => {
+    const { info, provider } = event.detail;
+
+    // Wallets re-announce on every request; keep one entry per wallet
+    announcedWallets.update((list) => [
+      ...list.filter((wallet) => wallet.info.rdns !== info.rdns),
+      { info, provider },
+    ]);
+  });
+
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+  console.log('[WalletDiscovery] Requested wallet announcements');
+}
+
+/**
+ * Find an available wallet by its rdns
+ */
+export function findWallet(rdns: string): WalletDetail | null {
+  return get(wallets).find((wallet) => wallet.info.rdns === rdns) ?? null;
+}
+
+/**
+ * Wait for a wallet to be announced
+ * Extensions may inject after the app starts, so a remembered wallet can be
+ * missing for a moment after a reload
+ *
+ * @returns Wallet, or null if it was not announced within `timeout` ms
+ */
+export function waitForWallet(rdns: string, timeout: number = 500): Promise<WalletDetail | null> {
+  const found = findWallet(rdns);
+  if (found) {
+    return Promise.resolve(found);
+  }
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      unsubscribe();
+      resolve(null);
+    }, timeout);
+
+    // Runs once right away (no match yet), then on every announcement
+    const unsubscribe = wallets.subscribe(() => {
+      const wallet = findWallet(rdns);
+      if (wallet) {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(wallet);
+      }
+    });
+  });
+}
+
+/**
+ * window.ethereum as a wallet entry, unless it is one of the announced wallets
+ */
+function getLegacyWallet(announced: WalletDetail[]): WalletDetail | null {
+  if (typeof window === 'undefined' || !window.ethereum) {
+    return null;
+  }
+
+  if (announced.some((wallet) => wallet.provider === window.ethereum)) {
+    return null;
+  }
+
+  return {
+    info: {
+      uuid: LEGACY_WALLET_RDNS,
+      name: window.ethereum.isMetaMask ? 'MetaMask' : 'Browser Wallet',
+      icon: '',
+      rdns: LEGACY_WALLET_RDNS,
+    },
+    provider: window.ethereum,
+  };
+}
+
+// Type declarations for injected providers and EIP-6963 events
+declare global {
+  interface Window {
+    ethereum?: EIP1193Provider;
+  }
+
+  interface WindowEventMap {
+    'eip6963:announceProvider': CustomEvent<WalletDetail>;
+  }
+}
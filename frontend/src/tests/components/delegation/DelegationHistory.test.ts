@@ -0,0 +1,56 @@
+/**
+ * Frontend component test for DelegationHistory
+ * Tests rendering of delegation changes reconstructed from logs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/svelte';
+import DelegationHistory from '$components/delegation/DelegationHistory.svelte';
+import type { DelegationChange } from '$lib/contracts/delegationManager';
+
+const DELEGATOR = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb';
+const ALICE = '0x' + 'a'.repeat(40);
+const BOB = '0x' + 'b'.repeat(40);
+
+function change(overrides: Partial<DelegationChange>): DelegationChange {
+  return {
+    type: 'Delegated',
+    delegator: DELEGATOR,
+    topicId: 1,
+    delegate: ALICE,
+    previousDelegate: null,
+    timestamp: 1_700_000_000,
+    blockNumber: 1,
+    transactionHash: '0x' + '1'.repeat(64),
+    ...overrides
+  };
+}
+
+describe('DelegationHistory Component', () => {
+  it('should show an empty state without changes', () => {
+    render(DelegationHistory, { props: { history: [] } });
+
+    expect(screen.getByText(/No delegation changes yet/i)).toBeInTheDocument();
+  });
+
+  it('should list changes newest first', () => {
+    const history = [
+      change({}),
+      change({ delegate: BOB, previousDelegate: ALICE, transactionHash: '0x' + '2'.repeat(64) }),
+      change({
+        type: 'Revoked',
+        delegate: null,
+        previousDelegate: BOB,
+        transactionHash: '0x' + '3'.repeat(64)
+      })
+    ];
+
+    render(DelegationHistory, { props: { history, chainId: 10200 } });
+
+    const items = screen.getAllByRole('listitem');
+    expect(items).toHaveLength(3);
+    expect(items[0]).toHaveTextContent('Revoked delegation to 0xbbbb...bbbb');
+    expect(items[1]).toHaveTextContent('Changed from 0xaaaa...aaaa to 0xbbbb...bbbb');
+    expect(items[2]).toHaveTextContent('Delegated to 0xaaaa...aaaa');
+  });
+});
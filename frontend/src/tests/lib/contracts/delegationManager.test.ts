@@ -0,0 +1,135 @@
+/**
+ * DelegationManager log query tests
+ * Reads delegation history from a fake provider that rejects wide block ranges
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ethers, type Filter, type Log, type Provider } from 'ethers';
+import { DELEGATION_MANAGER_ABI } from '$lib/contracts/abis';
+import { CHIADO_ADDRESSES } from '$lib/contracts/addresses';
+import {
+  getDelegatedSince,
+  getDelegationHistory,
+  getTopicDelegationTimestamps
+} from '$lib/contracts/delegationManager';
+
+const CHAIN_ID = 10200;
+const HEAD = 60_000;
+const MAX_RANGE = 20_000;
+
+const ALICE = '0x' + 'a'.repeat(40);
+const BOB = '0x' + 'b'.repeat(40);
+const CAROL = '0x' + 'c'.repeat(40);
+
+const iface = new ethers.Interface(DELEGATION_MANAGER_ABI);
+
+function eventLog(blockNumber: number, name: string, args: unknown[]): Log {
+  const { data, topics } = iface.encodeEventLog(name, args);
+  return {
+    address: CHIADO_ADDRESSES.delegationManager,
+    blockNumber,
+    blockHash: ethers.id(`block ${blockNumber}`),
+    transactionHash: ethers.id(`tx ${blockNumber}`),
+    transactionIndex: 0,
+    index: 0,
+    removed: false,
+    data,
+    topics
+  } as unknown as Log;
+}
+
+function matchesTopics(log: Log, topics: Filter['topics'] = []): boolean {
+  return topics.every((topic, i) => {
+    if (topic === null || topic === undefined) {
+      return true;
+    }
+    const expected = Array.isArray(topic) ? topic : [topic];
+    return expected.some((t) => t?.toLowerCase() === log.topics[i]?.toLowerCase());
+  });
+}
+
+/** getLogs fails for ranges wider than MAX_RANGE, like many public RPCs */
+function createProvider(logs: Log[]) {
+  const getLogs = vi.fn(async (filter: Filter): Promise<Log[]> => {
+    const from = Number(filter.fromBlock);
+    const to = Number(filter.toBlock);
+    if (to - from + 1 > MAX_RANGE) {
+      throw new Error('query exceeds max block range');
+    }
+    return logs.filter(
+      (log) => log.blockNumber >= from && log.blockNumber <= to && matchesTopics(log, filter.topics)
+    );
+  });
+
+  const provider = {
+    getBlockNumber: vi.fn(async () => HEAD),
+    getLogs,
+    call: vi.fn(),
+    resolveName: vi.fn()
+  } as unknown as Provider;
+  return { provider, getLogs };
+}
+
+const LOGS = [
+  eventLog(100, 'Delegated', [ALICE, BOB, 1, 1000]),
+  eventLog(25_000, 'Delegated', [CAROL, BOB, 1, 2000]),
+  eventLog(30_000, 'Delegated', [ALICE, CAROL, 1, 3000]),
+  eventLog(45_000, 'Revoked', [CAROL, 1, 4000]),
+  eventLog(50_000, 'Delegated', [ALICE, BOB, 2, 5000])
+];
+
+describe('DelegationManager log queries', () => {
+  it('should halve the page range until the RPC accepts it', async () => {
+    const { provider, getLogs } = createProvider(LOGS);
+
+    const timestamps = await getTopicDelegationTimestamps(provider, CHAIN_ID, 1);
+
+    expect(Object.fromEntries(timestamps)).toEqual({
+      [ethers.getAddress(ALICE)]: 3000,
+      [ethers.getAddress(CAROL)]: 2000
+    });
+    const ranges = getLogs.mock.calls.map(([filter]) => [
+      Number(filter.fromBlock),
+      Number(filter.toBlock)
+    ]);
+    // Rejected pages are retried from the same block, and the whole range is covered
+    expect(ranges.filter(([from, to]) => to - from + 1 <= MAX_RANGE).flat()).toEqual([
+      0, 12_499, 12_500, 24_999, 25_000, 37_499, 37_500, 49_999, 50_000, 60_000
+    ]);
+  });
+
+  it('should start at the given block', async () => {
+    const { provider, getLogs } = createProvider(LOGS);
+
+    const timestamps = await getTopicDelegationTimestamps(provider, CHAIN_ID, 1, 45_001);
+
+    expect(timestamps.size).toBe(0);
+    expect(getLogs).toHaveBeenCalledTimes(1);
+    expect(getLogs.mock.calls[0][0]).toMatchObject({ fromBlock: 45_001, toBlock: HEAD });
+  });
+
+  it('should rebuild history across pages and date the current delegation from it', async () => {
+    const { provider } = createProvider(LOGS);
+
+    const history = await getDelegationHistory(provider, CHAIN_ID, ALICE);
+
+    expect(history.map((change) => [change.blockNumber, change.type, change.topicId])).toEqual([
+      [100, 'Delegated', 1],
+      [30_000, 'Delegated', 1],
+      [50_000, 'Delegated', 2]
+    ]);
+    expect(history[1].previousDelegate).toBe(ethers.getAddress(BOB));
+    expect(getDelegatedSince(history, 1)).toBe(3000);
+    expect(getDelegatedSince(history, 2)).toBe(5000);
+    expect(getDelegatedSince(history, 3)).toBe(0);
+  });
+
+  it('should report no delegation after a revocation', async () => {
+    const { provider } = createProvider(LOGS);
+
+    const history = await getDelegationHistory(provider, CHAIN_ID, CAROL, 1);
+
+    expect(history.map((change) => change.type)).toEqual(['Delegated', 'Revoked']);
+    expect(getDelegatedSince(history, 1)).toBe(0);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Multicall batching tests
+ * Runs the batcher against a fake provider that executes aggregate3 itself
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ethers, type ContractRunner, type Provider, type TransactionRequest } from 'ethers';
+import { MULTICALL3_ADDRESS, getContractRunner } from '$lib/contracts/multicall';
+
+const MULTICALL3 = new ethers.Interface([
+  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)'
+]);
+
+const TOKEN = '0x' + '1'.repeat(40);
+const REVERTING = '0x' + 'dead'.repeat(10);
+
+/** Error(string) */
+const ERROR_SELECTOR = '0x08c379a0';
+
+interface CallResult {
+  success: boolean;
+  returnData: string;
+}
+
+/** Calls to REVERTING fail with Error("nope"); others return their calldata as a uint256 */
+function execute(target: string, data: string): CallResult {
+  if (target.toLowerCase() === REVERTING) {
+    return {
+      success: false,
+      returnData: ethers.concat([
+        ERROR_SELECTOR,
+        ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['nope'])
+      ])
+    };
+  }
+  return {
+    success: true,
+    returnData: ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [BigInt(data)])
+  };
+}
+
+function createProvider(options: { multicallDeployed?: boolean } = {}) {
+  const deployed = options.multicallDeployed ?? true;
+
+  const call = vi.fn(async (tx: TransactionRequest): Promise<string> => {
+    if (tx.to === MULTICALL3_ADDRESS) {
+      if (!deployed) {
+        return '0x';
+      }
+      const [calls] = MULTICALL3.decodeFunctionData('aggregate3', tx.data as string);
+      return MULTICALL3.encodeFunctionResult('aggregate3', [
+        calls.map((c: ethers.Result) => {
+          const result = execute(c.target, c.callData);
+          return [result.success, result.returnData];
+        })
+      ]);
+    }
+
+    const result = execute(tx.to as string, tx.data as string);
+    if (!result.success) {
+      throw new Error('execution reverted');
+    }
+    return result.returnData;
+  });
+
+  const provider = { call, resolveName: vi.fn() } as unknown as Provider;
+  return { provider, call };
+}
+
+/** Requests the batcher sent to Multicall3 */
+function aggregateCalls(call: ReturnType<typeof createProvider>['call']): ethers.Result[] {
+  return call.mock.calls
+    .filter(([tx]) => tx.to === MULTICALL3_ADDRESS)
+    .map(([tx]) => MULTICALL3.decodeFunctionData('aggregate3', tx.data as string)[0]);
+}
+
+function read(runner: ContractRunner, numbers: number[]): Promise<string[]> {
+  return Promise.all(numbers.map((n) => runner.call!({ to: TOKEN, data: calldata(n) })));
+}
+
+function calldata(n: number): string {
+  return '0x' + n.toString(16).padStart(8, '0');
+}
+
+function expected(n: number): string {
+  return ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [n]);
+}
+
+describe('Multicall batching', () => {
+  it('should send calls made together as one aggregate3', async () => {
+    const { provider, call } = createProvider();
+    const runner = getContractRunner(provider);
+
+    const results = await read(runner, [1, 2, 3]);
+
+    expect(results).toEqual([expected(1), expected(2), expected(3)]);
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(aggregateCalls(call)[0]).toHaveLength(3);
+  });
+
+  it('should share one request between identical calls in flight', async () => {
+    const { provider, call } = createProvider();
+    const runner = getContractRunner(provider);
+
+    const results = await Promise.all([
+      runner.call!({ to: TOKEN, data: calldata(7) }),
+      runner.call!({ to: TOKEN.toUpperCase().replace('0X', '0x'), data: calldata(7) }),
+      runner.call!({ to: TOKEN, data: calldata(8) })
+    ]);
+
+    expect(results).toEqual([expected(7), expected(7), expected(8)]);
+    expect(aggregateCalls(call)[0]).toHaveLength(2);
+
+    // Settled calls are not cached
+    await runner.call!({ to: TOKEN, data: calldata(7) });
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('should split batches at 100 calls', async () => {
+    const { provider, call } = createProvider();
+    const runner = getContractRunner(provider);
+
+    const numbers = Array.from({ length: 150 }, (_, i) => i + 1);
+    const results = await read(runner, numbers);
+
+    expect(results).toEqual(numbers.map(expected));
+    expect(aggregateCalls(call).map((batch) => batch.length)).toEqual([100, 50]);
+  });
+
+  it('should reject only the call that reverted', async () => {
+    const { provider } = createProvider();
+    const runner = getContractRunner(provider);
+
+    const [ok, reverted] = await Promise.allSettled([
+      runner.call!({ to: TOKEN, data: calldata(1) }),
+      runner.call!({ to: REVERTING, data: calldata(2) })
+    ]);
+
+    expect(ok).toEqual({ status: 'fulfilled', value: expected(1) });
+    expect(reverted.status).toBe('rejected');
+    expect((reverted as PromiseRejectedResult).reason).toMatchObject({
+      code: 'CALL_EXCEPTION',
+      reason: 'nope'
+    });
+  });
+
+  it('should stop batching when Multicall3 is not deployed', async () => {
+    const { provider, call } = createProvider({ multicallDeployed: false });
+    const runner = getContractRunner(provider);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const first = await read(runner, [1, 2]);
+    expect(first).toEqual([expected(1), expected(2)]);
+    // One aggregate3 answered '0x', then each call on its own
+    expect(call).toHaveBeenCalledTimes(3);
+
+    call.mockClear();
+    const second = await read(runner, [3, 4]);
+    expect(second).toEqual([expected(3), expected(4)]);
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(aggregateCalls(call)).toHaveLength(0);
+  });
+
+  it('should bypass batching for sender, value or block dependent calls', async () => {
+    const { provider, call } = createProvider();
+    const runner = getContractRunner(provider);
+
+    const requests: TransactionRequest[] = [
+      { to: TOKEN, data: calldata(1), from: '0x' + '2'.repeat(40) },
+      { to: TOKEN, data: calldata(2), value: 1n },
+      { to: TOKEN, data: calldata(3), blockTag: 123 }
+    ];
+    const results = await Promise.all(requests.map((tx) => runner.call!(tx)));
+
+    expect(results).toEqual([expected(1), expected(2), expected(3)]);
+    expect(call.mock.calls.map(([tx]) => tx)).toEqual(requests);
+    expect(aggregateCalls(call)).toHaveLength(0);
+  });
+
+  it('should share one batcher per provider and leave signers alone', () => {
+    const { provider } = createProvider();
+    const signer = new ethers.VoidSigner(TOKEN, provider);
+
+    expect(getContractRunner(provider)).toBe(getContractRunner(provider));
+    expect(getContractRunner(signer)).toBe(signer);
+  });
+});
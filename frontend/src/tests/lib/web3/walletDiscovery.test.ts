@@ -0,0 +1,140 @@
+/**
+ * Wallet discovery tests
+ * Wallets are announced with EIP-6963 events dispatched on window
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { get } from 'svelte/store';
+import type { EIP1193Provider, WalletDetail, WalletInfo } from '$lib/web3/walletDiscovery';
+
+type Discovery = typeof import('$lib/web3/walletDiscovery');
+
+function createProvider(extra: Partial<EIP1193Provider> = {}): EIP1193Provider {
+  return {
+    request: vi.fn(),
+    on: vi.fn(),
+    removeListener: vi.fn(),
+    ...extra
+  };
+}
+
+function info(rdns: string, name: string): WalletInfo {
+  return { uuid: `${rdns}-uuid`, name, icon: 'data:image/svg+xml,', rdns };
+}
+
+function announce(detail: WalletDetail): void {
+  window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail }));
+}
+
+const METAMASK = { info: info('io.metamask', 'MetaMask'), provider: createProvider() };
+const RABBY = { info: info('io.rabby', 'Rabby Wallet'), provider: createProvider() };
+
+describe('Wallet discovery', () => {
+  let discovery: Discovery;
+
+  beforeEach(async () => {
+    // Discovery keeps module state (started flag, announced wallets)
+    vi.resetModules();
+    delete window.ethereum;
+    discovery = await import('$lib/web3/walletDiscovery');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete window.ethereum;
+  });
+
+  it('should ask wallets to announce themselves once', () => {
+    const requested = vi.fn();
+    window.addEventListener('eip6963:requestProvider', requested);
+
+    discovery.startWalletDiscovery();
+    discovery.startWalletDiscovery();
+
+    window.removeEventListener('eip6963:requestProvider', requested);
+    expect(requested).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep one entry per announced wallet', () => {
+    discovery.startWalletDiscovery();
+
+    announce(METAMASK);
+    announce(RABBY);
+    announce(METAMASK);
+
+    expect(get(discovery.wallets).map((wallet) => wallet.info.rdns)).toEqual([
+      'io.rabby',
+      'io.metamask'
+    ]);
+  });
+
+  it('should find the remembered wallet among several', async () => {
+    discovery.startWalletDiscovery();
+    announce(METAMASK);
+    announce(RABBY);
+
+    const wallet = await discovery.waitForWallet('io.rabby');
+
+    expect(wallet?.provider).toBe(RABBY.provider);
+    expect(discovery.findWallet('io.metamask')?.provider).toBe(METAMASK.provider);
+  });
+
+  it('should wait for a remembered wallet that announces late', async () => {
+    vi.useFakeTimers();
+    discovery.startWalletDiscovery();
+    announce(METAMASK);
+
+    const pending = discovery.waitForWallet('io.rabby');
+    vi.advanceTimersByTime(200);
+    announce(RABBY);
+
+    expect((await pending)?.provider).toBe(RABBY.provider);
+  });
+
+  it('should give up on a remembered wallet after 500 ms', async () => {
+    vi.useFakeTimers();
+    discovery.startWalletDiscovery();
+    announce(METAMASK);
+
+    let result: WalletDetail | null | undefined;
+    const pending = discovery.waitForWallet('io.rabby').then((wallet) => (result = wallet));
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(result).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(result).toBeNull();
+
+    // A later announcement no longer matters to the finished wait
+    announce(RABBY);
+    expect(result).toBeNull();
+  });
+
+  it('should offer window.ethereum when it was not announced', () => {
+    const legacy = createProvider({ isMetaMask: true });
+    window.ethereum = legacy;
+    discovery.startWalletDiscovery();
+    announce(RABBY);
+
+    expect(get(discovery.wallets).map((wallet) => wallet.info)).toEqual([
+      RABBY.info,
+      {
+        uuid: discovery.LEGACY_WALLET_RDNS,
+        name: 'MetaMask',
+        icon: '',
+        rdns: discovery.LEGACY_WALLET_RDNS
+      }
+    ]);
+    expect(discovery.findWallet(discovery.LEGACY_WALLET_RDNS)?.provider).toBe(legacy);
+  });
+
+  it('should not list window.ethereum twice when it also announced', () => {
+    window.ethereum = METAMASK.provider;
+    discovery.startWalletDiscovery();
+    announce(METAMASK);
+
+    expect(get(discovery.wallets)).toEqual([METAMASK]);
+    expect(discovery.findWallet(discovery.LEGACY_WALLET_RDNS)).toBeNull();
+  });
+});
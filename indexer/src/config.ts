@@ -0,0 +1,141 @@
+/**
+ * Indexer Configuration
+ *
+ * Loads indexer configuration from environment variables
+ */
+
+import type { ContractAddresses } from './services/EventIngestor.js';
+import type { CookieSameSite } from './services/IndexerApi.js';
+
+export interface IndexerConfig {
+  /** JSON-RPC endpoints, in order of preference */
+  rpcUrls: string[];
+  /** Per-request RPC timeout */
+  rpcTimeout: number;
+  /** Contracts to index (only DelegationManager is required) */
+  contracts: ContractAddresses;
+  /** Block to start indexing from on an empty database (contract deployment block) */
+  startBlock: number;
+  /** Blocks an event must be buried under before it is indexed */
+  confirmations: number;
+  /** Initial block range per getLogs page */
+  batchSize: number;
+  pollInterval: number;
+  /** JSON file holding the indexed state */
+  databasePath: string;
+  /** Read API listen address */
+  apiPort: number;
+  apiHost: string;
+  /** Frontend origins allowed to Sign-In with Ethereum (empty = sign-in disabled) */
+  authOrigins: string[];
+  sessionTtl: number;
+  sessionCookieSameSite: CookieSameSite;
+}
+
+/**
+ * Read a required environment variable
+ *
+ * @param env Environment to read from
+ * @param name Variable name
+ * @returns Variable value
+ */
+function requireEnv(env: NodeJS.ProcessEnv, name: string): string {
+  const value = env[name];
+
+  if (!value || value === '0x...') {
+    throw new Error(`Missing required environment variable: ${name}`);
+  }
+
+  return value;
+}
+
+/**
+ * Read an optional contract address (empty or placeholder = not indexed)
+ */
+function optionalAddress(env: NodeJS.ProcessEnv, name: string): string | undefined {
+  const value = env[name];
+  return value && value !== '0x...' ? value : undefined;
+}
+
+/**
+ * Parse a comma-separated list of RPC URLs
+ */
+function parseRpcUrls(value: string): string[] {
+  return value
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      if (!/^(https?|wss?):\/\//.test(part)) {
+        throw new Error(`Invalid RPC URL in RPC_URLS: ${part}`);
+      }
+      return part;
+    });
+}
+
+/**
+ * Parse a comma-separated list of frontend origins
+ */
+function parseOrigins(value: string): string[] {
+  return value
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      let url: URL;
+      try {
+        url = new URL(part);
+      } catch {
+        throw new Error(`Invalid origin in AUTH_ORIGINS: ${part}`);
+      }
+      if (url.origin !== part.replace(/\/$/, '')) {
+        throw new Error(
+          `AUTH_ORIGINS entries must be bare origins (scheme://host[:port]): ${part}`
+        );
+      }
+      return url.origin;
+    });
+}
+
+/**
+ * Parse the SameSite attribute of the session cookie
+ */
+function parseSameSite(value: string): CookieSameSite {
+  const sameSite = (['Strict', 'Lax', 'None'] as const).find(
+    (option) => option.toLowerCase() === value.toLowerCase()
+  );
+  if (!sameSite) {
+    throw new Error(`Invalid SESSION_COOKIE_SAMESITE: ${value} (expected Strict, Lax or None)`);
+  }
+  return sameSite;
+}
+
+/**
+ * Load indexer configuration from environment
+ *
+ * @param env Environment to read from (default: process.env)
+ * @returns Validated indexer configuration
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): IndexerConfig {
+  return {
+    rpcUrls: parseRpcUrls(env.RPC_URLS || env.CHIADO_RPC_URL || 'https://rpc.chiadochain.net'),
+    rpcTimeout: env.RPC_TIMEOUT_MS ? parseInt(env.RPC_TIMEOUT_MS, 10) : 10000,
+    contracts: {
+      delegationManager: requireEnv(env, 'DELEGATION_MANAGER_ADDRESS'),
+      topicRegistry: optionalAddress(env, 'TOPIC_REGISTRY_ADDRESS'),
+      proposalManager: optionalAddress(env, 'PROPOSAL_MANAGER_ADDRESS'),
+      votePowerVerifier: optionalAddress(env, 'VOTEPOWER_VERIFIER_ADDRESS'),
+      rewardDistributor: optionalAddress(env, 'REWARD_DISTRIBUTOR_ADDRESS'),
+    },
+    startBlock: env.START_BLOCK ? parseInt(env.START_BLOCK, 10) : 0,
+    confirmations: env.CONFIRMATIONS ? parseInt(env.CONFIRMATIONS, 10) : 2,
+    batchSize: env.LOG_BATCH_SIZE ? parseInt(env.LOG_BATCH_SIZE, 10) : 2000,
+    pollInterval: env.POLL_INTERVAL_MS ? parseInt(env.POLL_INTERVAL_MS, 10) : 5000,
+    databasePath: env.DATABASE_PATH || './data/indexer.json',
+    apiPort: env.API_PORT ? parseInt(env.API_PORT, 10) : 8090,
+    apiHost: env.API_HOST || '127.0.0.1',
+    authOrigins: parseOrigins(env.AUTH_ORIGINS || ''),
+    sessionTtl: env.SESSION_TTL_MS ? parseInt(env.SESSION_TTL_MS, 10) : 24 * 60 * 60 * 1000,
+    sessionCookieSameSite: parseSameSite(env.SESSION_COOKIE_SAMESITE || 'Lax'),
+  };
+}
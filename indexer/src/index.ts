@@ -0,0 +1,72 @@
+/**
+ * Indexer Entry Point
+ *
+ * Loads configuration from environment, serves the read API and keeps the
+ * local database in sync with the chain
+ */
+
+import 'dotenv/config';
+import { RpcProvider } from '@liquid-democracy-engine/rpc-provider';
+import { loadConfig } from './config.js';
+import { createEventIngestor } from './services/EventIngestor.js';
+import { createIndexerApi } from './services/IndexerApi.js';
+import { IndexerStore } from './services/IndexerStore.js';
+import { createSiweAuth } from './services/SiweAuth.js';
+
+async function main(): Promise<void> {
+  const config = loadConfig();
+  const provider = new RpcProvider(config.rpcUrls, { requestTimeout: config.rpcTimeout });
+  const ingestor = createEventIngestor({
+    provider,
+    contracts: config.contracts,
+    store: new IndexerStore(config.databasePath),
+    startBlock: config.startBlock,
+    confirmations: config.confirmations,
+    batchSize: config.batchSize,
+    pollInterval: config.pollInterval,
+  });
+  const auth =
+    config.authOrigins.length > 0
+      ? createSiweAuth({ origins: config.authOrigins, sessionTtl: config.sessionTtl })
+      : undefined;
+  const api = createIndexerApi({
+    port: config.apiPort,
+    host: config.apiHost,
+    indexer: ingestor,
+    auth,
+    cookieSameSite: config.sessionCookieSameSite,
+  });
+
+  let shuttingDown = false;
+
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+
+    console.log(`\n[Indexer] Received ${signal}, shutting down...`);
+
+    try {
+      ingestor.stop();
+      await api.stop();
+      provider.destroy();
+      process.exit(0);
+    } catch (error: any) {
+      console.error('[Indexer] Error during shutdown:', error.message);
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
+  // Serve what is already indexed while catching up
+  await api.start();
+  await ingestor.start();
+}
+
+main().catch((error) => {
+  console.error('[Indexer] Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,86 @@
+/**
+ * Topic Graph
+ *
+ * Builds the delegation graph of a topic from indexed delegations, in the
+ * shape the frontend graph views render. Voting power follows the shared
+ * traversal rules in @liquid-democracy-engine/result-encoding; an active
+ * dead-end's own delegation is shown as suspended.
+ */
+
+import { calculateTerminalPowers, hashResult } from '@liquid-democracy-engine/result-encoding';
+import type { IndexedState } from '../services/IndexerStore.js';
+
+export interface TopicGraphNode {
+  address: string;
+  votingPower: number;
+  isTerminal: boolean;
+  isDelegating: boolean;
+  isDeadEnd: boolean;
+}
+
+export interface TopicGraphEdge {
+  source: string;
+  target: string;
+  /** When the delegation was made */
+  timestamp: number;
+  /** Delegator is a dead-end, so the delegation is not followed */
+  suspended: boolean;
+}
+
+export interface TopicGraph {
+  topicId: number;
+  /** Nodes sorted by voting power, descending */
+  nodes: TopicGraphNode[];
+  edges: TopicGraphEdge[];
+  terminalDelegates: Array<{ address: string; power: number }>;
+  /** Canonical hash of terminalDelegates, comparable to on-chain attestations */
+  resultHash: string;
+}
+
+/**
+ * Build the delegation graph of a topic
+ *
+ * @param state Indexed state
+ * @param topicId Topic ID
+ * @returns Graph with voting power per terminal delegate
+ */
+export function buildTopicGraph(state: IndexedState, topicId: number): TopicGraph {
+  const active = Object.values(state.delegations[topicId] || {});
+  const deadEnds = new Set(Object.keys(state.deadEnds[topicId] || {}));
+  const delegations = new Map<string, string>();
+  const participants = new Set<string>();
+
+  for (const delegation of active) {
+    delegations.set(delegation.delegator, delegation.delegate);
+    participants.add(delegation.delegator);
+    participants.add(delegation.delegate);
+  }
+
+  const powers = calculateTerminalPowers(delegations, deadEnds);
+
+  const nodes: TopicGraphNode[] = Array.from(participants, (address) => ({
+    address,
+    votingPower: powers.get(address) || 0,
+    isTerminal: powers.has(address),
+    isDelegating: delegations.has(address),
+    isDeadEnd: deadEnds.has(address),
+  }));
+  nodes.sort((a, b) => b.votingPower - a.votingPower);
+
+  const edges: TopicGraphEdge[] = active.map((delegation) => ({
+    source: delegation.delegator,
+    target: delegation.delegate,
+    timestamp: delegation.timestamp,
+    suspended: deadEnds.has(delegation.delegator),
+  }));
+
+  const terminalDelegates = Array.from(powers, ([address, power]) => ({ address, power }));
+
+  return {
+    topicId,
+    nodes,
+    edges,
+    terminalDelegates,
+    resultHash: hashResult(terminalDelegates).resultHash,
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * Sign-In with Ethereum Messages
+ *
+ * Formats and parses EIP-4361 messages (https://eips.ethereum.org/EIPS/eip-4361).
+ * Parsing only checks the message layout; whether a message is acceptable
+ * (domain, nonce, validity period, signature) is decided by SiweAuth.
+ */
+
+import { ethers } from 'ethers';
+
+export interface SiweMessage {
+  /** Host (and port) of the site asking for the sign-in */
+  domain: string;
+  /** URI scheme of the site, when the message names it */
+  scheme?: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  /** ISO 8601 timestamps */
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+const PREAMBLE = ' wants you to sign in with your Ethereum account:';
+
+/** Nonces are at least 8 alphanumeric characters */
+const NONCE_PATTERN = /^[a-zA-Z0-9]{8,}$/;
+
+/**
+ * Format a message as the wallet displays and signs it
+ */
+export function formatSiweMessage(message: SiweMessage): string {
+  const origin = message.scheme ? `${message.scheme}://${message.domain}` : message.domain;
+  const lines = [`${origin}${PREAMBLE}`, message.address, ''];
+
+  if (message.statement !== undefined) {
+    lines.push(message.statement, '');
+  } else {
+    lines.push('');
+  }
+
+  lines.push(
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  );
+
+  if (message.expirationTime) {
+    lines.push(`Expiration Time: ${message.expirationTime}`);
+  }
+  if (message.notBefore) {
+    lines.push(`Not Before: ${message.notBefore}`);
+  }
+  if (message.requestId !== undefined) {
+    lines.push(`Request ID: ${message.requestId}`);
+  }
+  if (message.resources && message.resources.length > 0) {
+    lines.push('Resources:', ...message.resources.map((resource) => `- ${resource}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Parse a message
+ *
+ * @throws Error naming the first line that does not follow EIP-4361
+ */
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = text.split('\n');
+  let index = 0;
+
+  const header = lines[index++] ?? '';
+  if (!header.endsWith(PREAMBLE)) {
+    throw new Error('Missing sign-in preamble');
+  }
+  const origin = header.slice(0, -PREAMBLE.length);
+  const schemeMatch = /^([a-zA-Z][a-zA-Z0-9+\-.]*):\/\/(.+)$/.exec(origin);
+  const domain = schemeMatch ? schemeMatch[2] : origin;
+  if (!domain || /\s/.test(domain)) {
+    throw new Error('Invalid domain');
+  }
+
+  const address = lines[index++] ?? '';
+  if (!ethers.isAddress(address) || ethers.getAddress(address) !== address) {
+    throw new Error('Address must be an EIP-55 checksummed address');
+  }
+
+  if (lines[index++] !== '') {
+    throw new Error('Expected an empty line after the address');
+  }
+
+  // Either "statement, empty line" or a single empty line
+  let statement: string | undefined;
+  if (lines[index] !== '') {
+    statement = lines[index++];
+  }
+  if (lines[index++] !== '') {
+    throw new Error('Expected an empty line before the fields');
+  }
+
+  const field = (name: string, optional = false): string | undefined => {
+    const prefix = `${name}: `;
+    const line = lines[index];
+    if (line === undefined || !line.startsWith(prefix)) {
+      if (optional) {
+        return undefined;
+      }
+      throw new Error(`Missing field: ${name}`);
+    }
+    index++;
+    return line.slice(prefix.length);
+  };
+
+  const uri = field('URI')!;
+  const version = field('Version')!;
+  const chainIdText = field('Chain ID')!;
+  const nonce = field('Nonce')!;
+  const issuedAt = field('Issued At')!;
+  const expirationTime = field('Expiration Time', true);
+  const notBefore = field('Not Before', true);
+  const requestId = field('Request ID', true);
+
+  let resources: string[] | undefined;
+  if (lines[index] === 'Resources:') {
+    index++;
+    resources = [];
+    while (lines[index]?.startsWith('- ')) {
+      resources.push(lines[index++].slice(2));
+    }
+  }
+
+  if (index !== lines.length) {
+    throw new Error(`Unexpected line: ${lines[index]}`);
+  }
+
+  const chainId = Number(chainIdText);
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+    throw new Error(`Invalid chain ID: ${chainIdText}`);
+  }
+  if (!NONCE_PATTERN.test(nonce)) {
+    throw new Error('Nonce must be at least 8 alphanumeric characters');
+  }
+  for (const [name, value] of [
+    ['Issued At', issuedAt],
+    ['Expiration Time', expirationTime],
+    ['Not Before', notBefore],
+  ]) {
+    if (value !== undefined && Number.isNaN(Date.parse(value))) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+  }
+
+  return {
+    domain,
+    scheme: schemeMatch ? schemeMatch[1] : undefined,
+    address,
+    statement,
+    uri,
+    version,
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime,
+    notBefore,
+    requestId,
+    resources,
+  };
+}
@@ -0,0 +1,579 @@
+/**
+ * EventIngestor Service
+ *
+ * Pages through the logs of DelegationManager, TopicRegistry, ProposalManager,
+ * VotePowerVerifier and RewardDistributor and applies them, in chain order,
+ * to the indexed state. Only blocks buried under `confirmations` are indexed;
+ * a reorg deeper than that requires re-indexing from an empty database.
+ */
+
+import { ethers } from 'ethers';
+import { RpcProvider } from '@liquid-democracy-engine/rpc-provider';
+import { createEmptyState, type IndexedState, type IndexerStore } from './IndexerStore.js';
+
+export interface ContractAddresses {
+  delegationManager: string;
+  topicRegistry?: string;
+  proposalManager?: string;
+  votePowerVerifier?: string;
+  rewardDistributor?: string;
+}
+
+type ContractName = keyof ContractAddresses;
+
+export interface EventIngestorConfig {
+  /** Provider for logs and contract reads (an RpcProvider in production) */
+  provider: ethers.Provider;
+  contracts: ContractAddresses;
+  /** Persists the state after every ingested range (in-memory only if unset) */
+  store?: IndexerStore;
+  /** First block to index on an empty database */
+  startBlock?: number;
+  /** Blocks an event must be buried under before it is indexed */
+  confirmations?: number;
+  /** Initial block range per getLogs page; shrinks on RPC errors and grows back on success */
+  batchSize?: number;
+  pollInterval?: number;
+}
+
+export interface IngestorStatus {
+  running: boolean;
+  /** Last block whose events have been applied */
+  lastBlock: number;
+  /** Latest block seen on the chain */
+  headBlock: number | null;
+  /** Whether all confirmed blocks have been indexed */
+  synced: boolean;
+  lastError: string | null;
+}
+
+/** Smallest block range tried before a getLogs failure is considered fatal */
+const MIN_BATCH_SIZE = 1;
+
+/**
+ * Order logs as they were executed on-chain: (blockNumber, transactionIndex, index)
+ */
+function compareLogs(a: ethers.Log, b: ethers.Log): number {
+  return (
+    a.blockNumber - b.blockNumber || a.transactionIndex - b.transactionIndex || a.index - b.index
+  );
+}
+
+/**
+ * EventIngestor service for building the indexed state from contract logs
+ */
+export class EventIngestor {
+  private provider: ethers.Provider;
+  private store: IndexerStore | null;
+  private interfaces: Map<string, ethers.Interface> = new Map();
+  private addresses: Partial<Record<ContractName, string>> = {};
+  private state: IndexedState;
+  private confirmations: number;
+  private batchSize: number;
+  private chunkSize: number;
+  private pollInterval: number;
+  private isRunning: boolean = false;
+  private timer: NodeJS.Timeout | null = null;
+  private headBlock: number | null = null;
+  private lastError: string | null = null;
+
+  // Events (and the getters used to fill fields the events do not carry)
+  private static readonly ABIS: Record<ContractName, string[]> = {
+    delegationManager: [
+      'event Delegated(address indexed delegator, address indexed delegate, uint256 indexed topicId, uint256 timestamp)',
+      'event Revoked(address indexed delegator, uint256 indexed topicId, uint256 timestamp)',
+      'event DeadEndDeclared(address indexed delegate, uint256 indexed topicId, uint256 timestamp)',
+      'event DeadEndRevoked(address indexed delegate, uint256 indexed topicId, uint256 timestamp)',
+    ],
+    topicRegistry: [
+      'event TopicCreated(uint256 indexed topicId, string name, address indexed admin)',
+      'event TopicUpdated(uint256 indexed topicId, string field, string newValue)',
+      'function getTopic(uint256 topicId) external view returns (tuple(uint256 id, string name, bytes32 descriptionCID, uint256 proposalThreshold, bool active, uint256 createdAt, address admin))',
+    ],
+    proposalManager: [
+      'event ProposalCreated(uint256 indexed proposalId, uint256 indexed topicId, address indexed proposer, string title, uint256 startBlock, uint256 endBlock)',
+      'event VoteCast(uint256 indexed proposalId, address indexed voter, uint8 choice, uint256 votes, address indexed delegate)',
+      'event ProposalExecuted(uint256 indexed proposalId)',
+      'event ProposalCancelled(uint256 indexed proposalId)',
+      'function getProposal(uint256 proposalId) external view returns (tuple(uint256 id, uint256 topicId, address proposer, string title, string descriptionCID, uint256 forVotes, uint256 againstVotes, uint256 abstainVotes, uint256 startBlock, uint256 endBlock, uint8 status, bool executed))',
+    ],
+    votePowerVerifier: [
+      'event AttestationSubmitted(bytes32 indexed resultHash, uint256 indexed topicId, uint256 blockNumber, address[] operators)',
+      'event AttestationRejected(bytes32 indexed resultHash, string reason)',
+      'event VotingPowerUpdated(uint256 indexed topicId, bytes32 attestationHash, uint256 timestamp)',
+      'event PowerRootCommitted(uint256 indexed topicId, bytes32 indexed attestationHash, bytes32 root, uint256 delegateCount, uint256 totalPower)',
+      'event VotingPowerClaimed(uint256 indexed topicId, address indexed delegate, uint256 power, bytes32 attestationHash)',
+      'event OperatorAdded(address indexed operator, bytes enclavePublicKey)',
+      'event OperatorRemoved(address indexed operator)',
+    ],
+    rewardDistributor: [
+      'event FlowCreated(address indexed delegate, uint256 indexed topicId, int96 flowRate)',
+      'event FlowUpdated(address indexed delegate, uint256 indexed topicId, int96 oldFlowRate, int96 newFlowRate)',
+      'event FlowDeleted(address indexed delegate, uint256 indexed topicId)',
+      'event PoolFlowRateUpdated(uint256 indexed topicId, int96 newPoolFlowRate)',
+    ],
+  };
+
+  constructor(config: EventIngestorConfig) {
+    this.provider = config.provider;
+    this.store = config.store || null;
+    this.state = createEmptyState(config.startBlock || 0);
+    this.confirmations = config.confirmations ?? 2;
+    this.batchSize = config.batchSize || 2000;
+    this.chunkSize = this.batchSize;
+    this.pollInterval = config.pollInterval || 5000;
+
+    for (const [name, address] of Object.entries(config.contracts)) {
+      if (!address) {
+        continue;
+      }
+
+      const contract = name as ContractName;
+      this.addresses[contract] = ethers.getAddress(address);
+      this.interfaces.set(
+        address.toLowerCase(),
+        new ethers.Interface(EventIngestor.ABIS[contract])
+      );
+    }
+
+    console.log('[EventIngestor] Initialized');
+    if (config.provider instanceof RpcProvider) {
+      console.log(`  RPC: ${config.provider.getUrls().join(', ')}`);
+    }
+    for (const [name, address] of Object.entries(this.addresses)) {
+      console.log(`  ${name}: ${address}`);
+    }
+    console.log(`  Confirmations: ${this.confirmations}`);
+  }
+
+  /**
+   * Load the persisted state and keep indexing new blocks every pollInterval
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      console.warn('[EventIngestor] Already running');
+      return;
+    }
+
+    const saved = this.store ? await this.store.load() : null;
+    if (saved) {
+      this.state = saved;
+      console.log(`[EventIngestor] Resuming after block ${saved.lastBlock}`);
+    }
+
+    this.isRunning = true;
+    await this.poll();
+  }
+
+  /**
+   * Stop indexing
+   */
+  stop(): void {
+    this.isRunning = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    console.log('[EventIngestor] Stopped');
+  }
+
+  /**
+   * Index all confirmed blocks after the last indexed block
+   *
+   * @returns Number of events applied
+   */
+  async sync(): Promise<number> {
+    this.headBlock = await this.provider.getBlockNumber();
+    const target = this.headBlock - this.confirmations;
+    let applied = 0;
+
+    for await (const page of this.fetchLogPages(this.state.lastBlock + 1, target)) {
+      const logs = page.logs.filter((log) => !log.removed).sort(compareLogs);
+
+      for (const log of logs) {
+        if (await this.applyLog(log)) {
+          applied++;
+        }
+      }
+
+      this.state.lastBlock = page.toBlock;
+      this.state.updatedAt = Date.now();
+
+      if (this.store) {
+        await this.store.save(this.state);
+      }
+
+      if (logs.length > 0) {
+        console.log(
+          `[EventIngestor] Indexed blocks ${page.fromBlock}-${page.toBlock} (${logs.length} events)`
+        );
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * Get the indexed state (read-only for callers)
+   */
+  getState(): IndexedState {
+    return this.state;
+  }
+
+  /**
+   * Get indexing progress
+   */
+  getStatus(): IngestorStatus {
+    return {
+      running: this.isRunning,
+      lastBlock: this.state.lastBlock,
+      headBlock: this.headBlock,
+      synced:
+        this.headBlock !== null && this.state.lastBlock >= this.headBlock - this.confirmations,
+      lastError: this.lastError,
+    };
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.sync();
+      this.lastError = null;
+    } catch (error: any) {
+      this.lastError = error.message;
+      console.error('[EventIngestor] Sync failed:', error.message);
+    }
+
+    if (this.isRunning) {
+      this.timer = setTimeout(() => void this.poll(), this.pollInterval);
+    }
+  }
+
+  /**
+   * Page through getLogs for all indexed contracts with adaptive chunk sizing
+   * (same strategy as the enclave ChainListener: halve on failure, grow back on success)
+   *
+   * @param fromBlock First block (inclusive)
+   * @param toBlock Last block (inclusive)
+   */
+  private async *fetchLogPages(
+    fromBlock: number,
+    toBlock: number
+  ): AsyncGenerator<{ fromBlock: number; toBlock: number; logs: ethers.Log[] }> {
+    const address = Object.values(this.addresses);
+    let from = fromBlock;
+
+    while (from <= toBlock) {
+      const to = Math.min(from + this.chunkSize - 1, toBlock);
+      let logs: ethers.Log[];
+
+      try {
+        logs = await this.provider.getLogs({ address, fromBlock: from, toBlock: to });
+      } catch (error: any) {
+        if (this.chunkSize <= MIN_BATCH_SIZE) {
+          throw error;
+        }
+
+        this.chunkSize = Math.max(MIN_BATCH_SIZE, Math.floor(this.chunkSize / 2));
+        console.warn(
+          `[EventIngestor] getLogs ${from}-${to} failed (${error.message}), ` +
+            `retrying with ${this.chunkSize} blocks`
+        );
+        continue;
+      }
+
+      yield { fromBlock: from, toBlock: to, logs };
+
+      this.chunkSize = Math.min(this.batchSize, this.chunkSize * 2);
+      from = to + 1;
+    }
+  }
+
+  /**
+   * Apply one log to the indexed state
+   *
+   * @returns Whether the log was a known event
+   */
+  private async applyLog(log: ethers.Log): Promise<boolean> {
+    const parsed = this.interfaces.get(log.address.toLowerCase())?.parseLog(log);
+
+    if (!parsed) {
+      return false;
+    }
+
+    const { args } = parsed;
+    const state = this.state;
+    const meta = { blockNumber: log.blockNumber, transactionHash: log.transactionHash };
+
+    switch (parsed.name) {
+      case 'Delegated':
+      case 'Revoked': {
+        const delegator: string = args.delegator;
+        const topicId = Number(args.topicId);
+        const delegations = (state.delegations[topicId] ??= {});
+        const previousDelegate = delegations[delegator]?.delegate ?? null;
+        const delegate: string | null = parsed.name === 'Delegated' ? args.delegate : null;
+        const timestamp = Number(args.timestamp);
+
+        if (delegate) {
+          delegations[delegator] = { delegator, delegate, topicId, timestamp, ...meta };
+        } else {
+          delete delegations[delegator];
+        }
+
+        (state.history[delegator] ??= []).push({
+          type: parsed.name,
+          delegator,
+          topicId,
+          delegate,
+          previousDelegate,
+          timestamp,
+          ...meta,
+        });
+        return true;
+      }
+
+      case 'DeadEndDeclared':
+        (state.deadEnds[Number(args.topicId)] ??= {})[args.delegate] = Number(args.timestamp);
+        return true;
+
+      case 'DeadEndRevoked':
+        delete state.deadEnds[Number(args.topicId)]?.[args.delegate];
+        return true;
+
+      case 'TopicCreated': {
+        const topicId = Number(args.topicId);
+        const topic = await this.readContract('topicRegistry', 'getTopic', [topicId]);
+
+        state.topics[topicId] = {
+          id: topicId,
+          name: args.name,
+          admin: args.admin,
+          descriptionCID: topic ? topic.descriptionCID : ethers.ZeroHash,
+          proposalThreshold: topic ? topic.proposalThreshold.toString() : '0',
+          active: true,
+          createdAt: topic ? Number(topic.createdAt) : 0,
+          blockNumber: log.blockNumber,
+        };
+        return true;
+      }
+
+      case 'TopicUpdated': {
+        const topic = state.topics[Number(args.topicId)];
+        if (topic && args.field === 'proposalThreshold') {
+          topic.proposalThreshold = args.newValue;
+        } else if (topic && args.field === 'active') {
+          topic.active = args.newValue === 'true';
+        }
+        return true;
+      }
+
+      case 'ProposalCreated': {
+        const proposalId = Number(args.proposalId);
+        const proposal = await this.readContract('proposalManager', 'getProposal', [proposalId]);
+
+        state.proposals[proposalId] = {
+          id: proposalId,
+          topicId: Number(args.topicId),
+          proposer: args.proposer,
+          title: args.title,
+          descriptionCID: proposal ? proposal.descriptionCID : '',
+          startBlock: Number(args.startBlock),
+          endBlock: Number(args.endBlock),
+          forVotes: '0',
+          againstVotes: '0',
+          abstainVotes: '0',
+          executed: false,
+          cancelled: false,
+          ...meta,
+        };
+        return true;
+      }
+
+      case 'VoteCast': {
+        const proposalId = Number(args.proposalId);
+        const choice = Number(args.choice);
+        const votes: bigint = args.votes;
+        const proposal = state.proposals[proposalId];
+
+        if (proposal) {
+          const tally = (['againstVotes', 'forVotes', 'abstainVotes'] as const)[choice];
+          if (tally) {
+            proposal[tally] = (BigInt(proposal[tally]) + votes).toString();
+          }
+        }
+
+        (state.votes[proposalId] ??= []).push({
+          proposalId,
+          voter: args.voter,
+          choice,
+          votes: votes.toString(),
+          delegate: args.delegate,
+          ...meta,
+        });
+        return true;
+      }
+
+      case 'ProposalExecuted':
+      case 'ProposalCancelled': {
+        const proposal = state.proposals[Number(args.proposalId)];
+        if (proposal) {
+          proposal.executed ||= parsed.name === 'ProposalExecuted';
+          proposal.cancelled ||= parsed.name === 'ProposalCancelled';
+        }
+        return true;
+      }
+
+      case 'AttestationSubmitted':
+        state.pendingAttestations[args.resultHash] = {
+          topicId: Number(args.topicId),
+          attestedBlock: Number(args.blockNumber),
+          operators: [...args.operators],
+        };
+        return true;
+
+      case 'AttestationRejected':
+        delete state.pendingAttestations[args.resultHash];
+        return true;
+
+      case 'PowerRootCommitted': {
+        // The only event of a root commitment; powers arrive with VotingPowerClaimed
+        const topicId = Number(args.topicId);
+        const pending = state.pendingAttestations[args.attestationHash];
+        delete state.pendingAttestations[args.attestationHash];
+
+        state.attestations[topicId] = {
+          topicId,
+          resultHash: args.attestationHash,
+          attestedBlock: pending?.attestedBlock ?? log.blockNumber,
+          operators: pending?.operators ?? [],
+          timestamp: await this.readBlockTimestamp(log.blockNumber),
+          powerRoot: {
+            root: args.root,
+            delegateCount: args.delegateCount.toString(),
+            totalPower: args.totalPower.toString(),
+          },
+          ...meta,
+        };
+        delete state.claimedPower[topicId];
+        return true;
+      }
+
+      case 'VotingPowerUpdated': {
+        const topicId = Number(args.topicId);
+        const pending = state.pendingAttestations[args.attestationHash];
+        delete state.pendingAttestations[args.attestationHash];
+
+        state.attestations[topicId] = {
+          topicId,
+          resultHash: args.attestationHash,
+          attestedBlock: pending?.attestedBlock ?? log.blockNumber,
+          operators: pending?.operators ?? [],
+          timestamp: Number(args.timestamp),
+          ...meta,
+        };
+        // Claims were made against the previous attestation
+        delete state.claimedPower[topicId];
+        return true;
+      }
+
+      case 'VotingPowerClaimed':
+        (state.claimedPower[Number(args.topicId)] ??= {})[args.delegate] = args.power.toString();
+        return true;
+
+      case 'OperatorAdded':
+        state.operators[args.operator] = {
+          address: args.operator,
+          enclavePublicKey: args.enclavePublicKey,
+          active: true,
+          blockNumber: log.blockNumber,
+        };
+        return true;
+
+      case 'OperatorRemoved': {
+        const operator = state.operators[args.operator];
+        if (operator) {
+          operator.active = false;
+        }
+        return true;
+      }
+
+      case 'FlowCreated':
+      case 'FlowUpdated': {
+        const topicId = Number(args.topicId);
+        const flowRate: bigint = parsed.name === 'FlowCreated' ? args.flowRate : args.newFlowRate;
+
+        (state.rewardFlows[topicId] ??= {})[args.delegate] = {
+          delegate: args.delegate,
+          topicId,
+          flowRate: flowRate.toString(),
+          ...meta,
+        };
+        return true;
+      }
+
+      case 'FlowDeleted':
+        delete state.rewardFlows[Number(args.topicId)]?.[args.delegate];
+        return true;
+
+      case 'PoolFlowRateUpdated':
+        state.poolFlowRates[Number(args.topicId)] = args.newPoolFlowRate.toString();
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Read a struct the events do not fully carry (topic and proposal details)
+   * These fields never change after creation, so the latest state is read
+   *
+   * @returns Decoded struct, or null if the call failed
+   */
+  private async readContract(
+    contract: ContractName,
+    method: string,
+    args: unknown[]
+  ): Promise<ethers.Result | null> {
+    const address = this.addresses[contract]!;
+    const iface = this.interfaces.get(address.toLowerCase())!;
+
+    try {
+      const data = await this.provider.call({
+        to: address,
+        data: iface.encodeFunctionData(method, args),
+      });
+      return iface.decodeFunctionResult(method, data)[0];
+    } catch (error: any) {
+      console.warn(
+        `[EventIngestor] ${contract}.${method}(${args.join(', ')}) failed:`,
+        error.message
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Read a block's timestamp, for events that do not carry one
+   *
+   * @returns Unix seconds, or 0 if the block could not be read
+   */
+  private async readBlockTimestamp(blockNumber: number): Promise<number> {
+    try {
+      const block = await this.provider.getBlock(blockNumber);
+      return block?.timestamp ?? 0;
+    } catch (error: any) {
+      console.warn(`[EventIngestor] getBlock(${blockNumber}) failed:`, error.message);
+      return 0;
+    }
+  }
+}
+
+/**
+ * Factory function to create EventIngestor
+ */
+export function createEventIngestor(config: EventIngestorConfig): EventIngestor {
+  return new EventIngestor(config);
+}
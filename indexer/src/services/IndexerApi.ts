@@ -0,0 +1,435 @@
+/**
+ * IndexerApi Service
+ *
+ * Read-only REST API over the indexed state, used by the frontend instead of
+ * scanning logs in the browser. Every response carries the last indexed
+ * block in the X-Indexed-Block header.
+ *
+ * GET /health                        liveness
+ * GET /status                        indexing progress
+ * GET /topics?active=true            topics (optionally only active ones)
+ * GET /topics/:id                    one topic
+ * GET /topics/:id/graph              delegation graph with voting power
+ * GET /topics/:id/proposals          proposals of a topic
+ * GET /topics/:id/attestation        latest accepted attestation and claimed power
+ * GET /topics/:id/rewards            pool flow rate and active reward flows
+ * GET /proposals/:id                 one proposal
+ * GET /proposals/:id/votes           votes cast on a proposal
+ * GET /delegators/:address/history   delegation changes (?topicId= to filter)
+ * GET /operators                     registered operators
+ *
+ * With Sign-In with Ethereum configured (see SiweAuth), sessions are kept in
+ * an HttpOnly cookie; requests from the allowed frontend origins may send it:
+ *
+ * GET  /auth/nonce                   single-use nonce for a sign-in message
+ * POST /auth/verify                  { message, signature }, opens a session
+ * GET  /auth/session                 current session (401 if signed out)
+ * POST /auth/logout                  closes the session
+ */
+
+import http from 'http';
+import { ethers } from 'ethers';
+import { buildTopicGraph } from '../lib/graph.js';
+import type { IngestorStatus } from './EventIngestor.js';
+import type { IndexedProposal, IndexedState } from './IndexerStore.js';
+import { AuthError, type Session, type SiweAuth } from './SiweAuth.js';
+
+/** Mirrors IProposalManager.ProposalStatus */
+export enum ProposalStatus {
+  Pending = 0,
+  Active = 1,
+  Succeeded = 2,
+  Failed = 3,
+  Executed = 4,
+  Cancelled = 5,
+}
+
+export type ProposalRecord = IndexedProposal & { status: ProposalStatus };
+
+/**
+ * Indexed data exposed through the API (implemented by EventIngestor)
+ */
+export interface IndexerReader {
+  getState(): IndexedState;
+  getStatus(): IngestorStatus;
+}
+
+export type CookieSameSite = 'Strict' | 'Lax' | 'None';
+
+export interface IndexerApiConfig {
+  port: number;
+  host?: string;
+  indexer: IndexerReader;
+  /** Sign-In with Ethereum sessions (the /auth routes answer 404 without it) */
+  auth?: SiweAuth;
+  /** SameSite of the session cookie; None, for a frontend on another site, also sets Secure */
+  cookieSameSite?: CookieSameSite;
+}
+
+/** Name of the session cookie */
+export const SESSION_COOKIE = 'ld_session';
+
+/** Largest accepted request body (bytes) */
+const MAX_BODY_SIZE = 16 * 1024;
+
+class HttpError extends Error {
+  constructor(
+    public statusCode: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Status of a proposal at a block, as ProposalManager.getProposalStatus reports it
+ *
+ * @param proposal Indexed proposal
+ * @param blockNumber Block to evaluate the voting period at
+ */
+export function getProposalStatus(proposal: IndexedProposal, blockNumber: number): ProposalStatus {
+  if (proposal.cancelled) {
+    return ProposalStatus.Cancelled;
+  }
+
+  if (proposal.executed) {
+    return ProposalStatus.Succeeded;
+  }
+
+  if (blockNumber > proposal.endBlock) {
+    return BigInt(proposal.forVotes) > BigInt(proposal.againstVotes)
+      ? ProposalStatus.Succeeded
+      : ProposalStatus.Failed;
+  }
+
+  return ProposalStatus.Active;
+}
+
+/**
+ * IndexerApi HTTP server
+ */
+export class IndexerApi {
+  private port: number;
+  private host: string;
+  private indexer: IndexerReader;
+  private auth: SiweAuth | null;
+  private cookieSameSite: CookieSameSite;
+  private server: http.Server | null = null;
+
+  constructor(config: IndexerApiConfig) {
+    this.port = config.port;
+    this.host = config.host || '127.0.0.1';
+    this.indexer = config.indexer;
+    this.auth = config.auth || null;
+    this.cookieSameSite = config.cookieSameSite || 'Lax';
+  }
+
+  /**
+   * Start serving requests
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error: any) => {
+        const statusCode =
+          error instanceof HttpError ? error.statusCode : error instanceof AuthError ? 401 : 500;
+        if (statusCode === 500) {
+          console.error('[IndexerApi] Request failed:', error.message);
+        }
+        this.send(res, statusCode, { error: error.message });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+
+    console.log(`[IndexerApi] Listening on http://${this.host}:${this.getPort()}`);
+  }
+
+  /**
+   * Stop serving requests
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Get the port the server is bound to
+   */
+  getPort(): number {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : this.port;
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+    const segments = pathname.split('/').filter((segment) => segment.length > 0);
+    const route = `${req.method} /${segments.map((s, i) => (i === 1 ? ':id' : s)).join('/')}`;
+    const state = this.indexer.getState();
+
+    // The frontend reads the API cross-origin; only the sign-in origins may send the session cookie
+    const origin = req.headers.origin;
+    if (origin && this.auth?.isAllowedOrigin(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Credentials', 'true');
+    } else {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+    }
+    // The CORS headers depend on the origin, so caches must not share them across origins
+    if (this.auth) {
+      res.setHeader('Vary', 'Origin');
+    }
+    res.setHeader('Access-Control-Expose-Headers', 'X-Indexed-Block');
+    res.setHeader('X-Indexed-Block', String(state.lastBlock));
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Max-Age': '86400',
+      });
+      res.end();
+      return;
+    }
+
+    if (segments[0] === 'auth') {
+      return this.handleAuthRequest(req, res, `${req.method} ${pathname}`);
+    }
+
+    switch (route) {
+      case 'GET /health':
+        return this.send(res, 200, { status: 'ok' });
+
+      case 'GET /status':
+        return this.send(res, 200, {
+          ...this.indexer.getStatus(),
+          topics: Object.keys(state.topics).length,
+          proposals: Object.keys(state.proposals).length,
+          updatedAt: state.updatedAt,
+        });
+
+      case 'GET /topics': {
+        const activeOnly = searchParams.get('active') === 'true';
+        const topics = Object.values(state.topics)
+          .filter((topic) => !activeOnly || topic.active)
+          .sort((a, b) => a.id - b.id);
+        return this.send(res, 200, topics);
+      }
+
+      case 'GET /topics/:id': {
+        const topicId = this.parseId(segments[1], 'topic');
+        const topic = state.topics[topicId];
+        if (!topic) {
+          throw new HttpError(404, `Unknown topic ${topicId}`);
+        }
+        return this.send(res, 200, topic);
+      }
+
+      case 'GET /topics/:id/graph':
+        return this.send(res, 200, buildTopicGraph(state, this.parseId(segments[1], 'topic')));
+
+      case 'GET /topics/:id/proposals': {
+        const topicId = this.parseId(segments[1], 'topic');
+        const proposals = Object.values(state.proposals)
+          .filter((proposal) => proposal.topicId === topicId)
+          .sort((a, b) => a.id - b.id)
+          .map((proposal) => this.toProposalRecord(proposal, state.lastBlock));
+        return this.send(res, 200, proposals);
+      }
+
+      case 'GET /topics/:id/attestation': {
+        const topicId = this.parseId(segments[1], 'topic');
+        return this.send(res, 200, {
+          topicId,
+          attestation: state.attestations[topicId] || null,
+          claimedPower: state.claimedPower[topicId] || {},
+        });
+      }
+
+      case 'GET /topics/:id/rewards': {
+        const topicId = this.parseId(segments[1], 'topic');
+        const flows = Object.values(state.rewardFlows[topicId] || {}).sort((a, b) =>
+          Number(BigInt(b.flowRate) - BigInt(a.flowRate))
+        );
+        return this.send(res, 200, {
+          topicId,
+          poolFlowRate: state.poolFlowRates[topicId] || '0',
+          flows,
+        });
+      }
+
+      case 'GET /proposals/:id': {
+        const proposalId = this.parseId(segments[1], 'proposal');
+        const proposal = state.proposals[proposalId];
+        if (!proposal) {
+          throw new HttpError(404, `Unknown proposal ${proposalId}`);
+        }
+        return this.send(res, 200, this.toProposalRecord(proposal, state.lastBlock));
+      }
+
+      case 'GET /proposals/:id/votes': {
+        const proposalId = this.parseId(segments[1], 'proposal');
+        if (!state.proposals[proposalId]) {
+          throw new HttpError(404, `Unknown proposal ${proposalId}`);
+        }
+        return this.send(res, 200, state.votes[proposalId] || []);
+      }
+
+      case 'GET /delegators/:id/history': {
+        if (!ethers.isAddress(segments[1])) {
+          throw new HttpError(400, `Invalid address: ${segments[1]}`);
+        }
+        const topicParam = searchParams.get('topicId');
+        const topicId = topicParam === null ? null : this.parseId(topicParam, 'topic');
+        const history = (state.history[ethers.getAddress(segments[1])] || []).filter(
+          (change) => topicId === null || change.topicId === topicId
+        );
+        return this.send(res, 200, history);
+      }
+
+      case 'GET /operators':
+        return this.send(res, 200, Object.values(state.operators));
+
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+  }
+
+  private async handleAuthRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    route: string
+  ): Promise<void> {
+    const auth = this.auth;
+    if (!auth) {
+      throw new HttpError(404, 'Sign-in is not enabled');
+    }
+
+    const sessionId = this.getCookie(req, SESSION_COOKIE);
+
+    switch (route) {
+      case 'GET /auth/nonce':
+        res.setHeader('Cache-Control', 'no-store');
+        return this.send(res, 200, { nonce: auth.issueNonce() });
+
+      case 'POST /auth/verify': {
+        const body = await this.readJson(req);
+        if (typeof body?.message !== 'string' || typeof body?.signature !== 'string') {
+          throw new HttpError(400, 'Expected { message, signature }');
+        }
+
+        const session = auth.signIn(body.message, body.signature);
+        this.setSessionCookie(res, session.id, session.expiresAt - session.issuedAt);
+        return this.send(res, 200, this.toSessionRecord(session));
+      }
+
+      case 'GET /auth/session': {
+        const session = sessionId ? auth.getSession(sessionId) : null;
+        if (!session) {
+          throw new HttpError(401, 'Not signed in');
+        }
+        return this.send(res, 200, this.toSessionRecord(session));
+      }
+
+      case 'POST /auth/logout':
+        if (sessionId) {
+          auth.signOut(sessionId);
+        }
+        this.setSessionCookie(res, '', 0);
+        return this.send(res, 200, { signedOut: true });
+
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+  }
+
+  /**
+   * Session as returned to the browser (the ID only travels in the cookie)
+   */
+  private toSessionRecord(session: Session) {
+    return { address: session.address, chainId: session.chainId, expiresAt: session.expiresAt };
+  }
+
+  private setSessionCookie(res: http.ServerResponse, value: string, maxAge: number): void {
+    const attributes = [
+      `${SESSION_COOKIE}=${value}`,
+      'Path=/',
+      'HttpOnly',
+      `Max-Age=${Math.max(0, Math.floor(maxAge / 1000))}`,
+      `SameSite=${this.cookieSameSite}`,
+    ];
+    if (this.cookieSameSite === 'None') {
+      attributes.push('Secure');
+    }
+    res.setHeader('Set-Cookie', attributes.join('; '));
+  }
+
+  private getCookie(req: http.IncomingMessage, name: string): string | null {
+    for (const part of (req.headers.cookie || '').split(';')) {
+      const [key, ...value] = part.trim().split('=');
+      if (key === name) {
+        return value.join('=') || null;
+      }
+    }
+    return null;
+  }
+
+  private async readJson(req: http.IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        throw new HttpError(413, 'Request body too large');
+      }
+      chunks.push(chunk);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      throw new HttpError(400, 'Invalid JSON body');
+    }
+  }
+
+  private toProposalRecord(proposal: IndexedProposal, blockNumber: number): ProposalRecord {
+    return { ...proposal, status: getProposalStatus(proposal, blockNumber) };
+  }
+
+  private parseId(value: string, kind: 'topic' | 'proposal'): number {
+    const id = Number(value);
+    if (!Number.isInteger(id) || id < 0) {
+      throw new HttpError(400, `Invalid ${kind} ID: ${value}`);
+    }
+    return id;
+  }
+
+  private send(res: http.ServerResponse, statusCode: number, body: unknown): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+/**
+ * Factory function to create IndexerApi
+ */
+export function createIndexerApi(config: IndexerApiConfig): IndexerApi {
+  return new IndexerApi(config);
+}
@@ -0,0 +1,227 @@
+/**
+ * IndexerStore Service
+ *
+ * Local database of indexed contract state, kept in memory and persisted as
+ * one JSON file after every ingested block range. uint256 values are stored
+ * as decimal strings; addresses are checksummed.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface IndexedTopic {
+  id: number;
+  name: string;
+  admin: string;
+  descriptionCID: string;
+  proposalThreshold: string;
+  active: boolean;
+  /** Creation time (0 if TopicRegistry.getTopic could not be read) */
+  createdAt: number;
+  blockNumber: number;
+}
+
+/** Active delegation of one delegator on one topic */
+export interface IndexedDelegation {
+  delegator: string;
+  delegate: string;
+  topicId: number;
+  /** Time of the Delegated event that created the current delegation */
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/** One Delegated or Revoked event (same shape as the frontend DelegationChange) */
+export interface IndexedDelegationChange {
+  type: 'Delegated' | 'Revoked';
+  delegator: string;
+  topicId: number;
+  /** New delegate (null for revocations) */
+  delegate: string | null;
+  /** Delegate before this change (null if none) */
+  previousDelegate: string | null;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface IndexedProposal {
+  id: number;
+  topicId: number;
+  proposer: string;
+  title: string;
+  /** Empty if ProposalManager.getProposal could not be read */
+  descriptionCID: string;
+  startBlock: number;
+  endBlock: number;
+  /** Tallies of the votes cast, at the power each voter had when voting */
+  forVotes: string;
+  againstVotes: string;
+  abstainVotes: string;
+  executed: boolean;
+  cancelled: boolean;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface IndexedVote {
+  proposalId: number;
+  voter: string;
+  /** VoteChoice: 0 Against, 1 For, 2 Abstain */
+  choice: number;
+  votes: string;
+  /** Terminal delegate resolved when the vote was cast */
+  delegate: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/** Latest accepted attestation of a topic */
+export interface IndexedAttestation {
+  topicId: number;
+  resultHash: string;
+  /** Block the attested result describes */
+  attestedBlock: number;
+  operators: string[];
+  timestamp: number;
+  /** Set when the result was committed as a Merkle root */
+  powerRoot?: { root: string; delegateCount: string; totalPower: string };
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/** Attestation submitted in a transaction but not yet accepted */
+export interface PendingAttestation {
+  topicId: number;
+  attestedBlock: number;
+  operators: string[];
+}
+
+export interface IndexedOperator {
+  address: string;
+  enclavePublicKey: string;
+  active: boolean;
+  blockNumber: number;
+}
+
+export interface IndexedRewardFlow {
+  delegate: string;
+  topicId: number;
+  /** int96 flow rate (wei per second) */
+  flowRate: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface IndexedState {
+  version: number;
+  /** Last block whose events have all been applied (-1 before the first range) */
+  lastBlock: number;
+  topics: Record<string, IndexedTopic>;
+  /** topicId => delegator => active delegation */
+  delegations: Record<string, Record<string, IndexedDelegation>>;
+  /** topicId => address => declaration time of an active dead-end */
+  deadEnds: Record<string, Record<string, number>>;
+  /** delegator => changes in chain order */
+  history: Record<string, IndexedDelegationChange[]>;
+  proposals: Record<string, IndexedProposal>;
+  /** proposalId => votes in chain order */
+  votes: Record<string, IndexedVote[]>;
+  attestations: Record<string, IndexedAttestation>;
+  /** resultHash => submission awaiting AttestationAccepted */
+  pendingAttestations: Record<string, PendingAttestation>;
+  /** topicId => delegate => claimed power */
+  claimedPower: Record<string, Record<string, string>>;
+  operators: Record<string, IndexedOperator>;
+  /** topicId => delegate => active flow */
+  rewardFlows: Record<string, Record<string, IndexedRewardFlow>>;
+  /** topicId => pool flow rate */
+  poolFlowRates: Record<string, string>;
+  updatedAt: number;
+}
+
+export const STATE_VERSION = 1;
+
+/**
+ * Create an empty state positioned before a block
+ *
+ * @param startBlock First block to index
+ */
+export function createEmptyState(startBlock: number = 0): IndexedState {
+  return {
+    version: STATE_VERSION,
+    lastBlock: startBlock - 1,
+    topics: {},
+    delegations: {},
+    deadEnds: {},
+    history: {},
+    proposals: {},
+    votes: {},
+    attestations: {},
+    pendingAttestations: {},
+    claimedPower: {},
+    operators: {},
+    rewardFlows: {},
+    poolFlowRates: {},
+    updatedAt: 0,
+  };
+}
+
+/**
+ * IndexerStore backed by a local JSON file
+ */
+export class IndexerStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Load the indexed state from disk
+   *
+   * @returns State, or null if nothing has been indexed yet
+   */
+  async load(): Promise<IndexedState | null> {
+    let raw: string;
+
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const state = JSON.parse(raw) as IndexedState;
+
+    if (state.version !== STATE_VERSION) {
+      throw new Error(`Unsupported database version ${state.version} in ${this.filePath}`);
+    }
+
+    return state;
+  }
+
+  /**
+   * Write the state atomically (temp file + rename)
+   * A crash mid-write leaves the previous state intact
+   *
+   * @param state State to persist
+   */
+  async save(state: IndexedState): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(state), 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  /**
+   * Get database file path
+   */
+  getPath(): string {
+    return this.filePath;
+  }
+}
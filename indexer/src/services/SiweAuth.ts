@@ -0,0 +1,230 @@
+/**
+ * SiweAuth Service
+ *
+ * Sign-In with Ethereum (EIP-4361) sessions for off-chain features such as
+ * proposal drafts, notification preferences and delegate profiles. The API
+ * issues single-use nonces, the frontend has the wallet sign a message with
+ * one, and a valid signature opens a session identified by a random ID (sent
+ * to the browser as a cookie). Nonces and sessions are kept in memory, so a
+ * restart signs everyone out.
+ *
+ * Only externally owned accounts can sign in: contract wallets (EIP-1271)
+ * are not verified.
+ */
+
+import { randomBytes } from 'crypto';
+import { ethers } from 'ethers';
+import { parseSiweMessage, type SiweMessage } from '../lib/siwe.js';
+
+export interface SiweAuthConfig {
+  /** Frontend origins allowed to sign in (e.g. https://app.example.org) */
+  origins: string[];
+  /** Session lifetime (ms), shortened to the message's expiration time */
+  sessionTtl?: number;
+  /** How long an issued nonce can be used (ms) */
+  nonceTtl?: number;
+}
+
+export interface Session {
+  id: string;
+  address: string;
+  chainId: number;
+  /** Unix ms */
+  issuedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Sign-in rejected (bad message, nonce or signature)
+ */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const DEFAULT_SESSION_TTL = 24 * 60 * 60 * 1000;
+const DEFAULT_NONCE_TTL = 10 * 60 * 1000;
+
+/** Tolerated clock difference between the browser and the API (ms) */
+const CLOCK_SKEW = 5 * 60 * 1000;
+
+/** Outstanding nonces; the oldest are dropped beyond this */
+const MAX_PENDING_NONCES = 10000;
+
+/**
+ * SiweAuth service for nonce issuance, message verification and sessions
+ */
+export class SiweAuth {
+  private origins: URL[];
+  private sessionTtl: number;
+  private nonceTtl: number;
+  /** Nonce -> expiry (Unix ms), in issue order */
+  private nonces: Map<string, number> = new Map();
+  private sessions: Map<string, Session> = new Map();
+
+  constructor(config: SiweAuthConfig) {
+    this.origins = config.origins.map((origin) => new URL(origin));
+    this.sessionTtl = config.sessionTtl ?? DEFAULT_SESSION_TTL;
+    this.nonceTtl = config.nonceTtl ?? DEFAULT_NONCE_TTL;
+  }
+
+  /**
+   * Whether requests from an origin may use sessions
+   */
+  isAllowedOrigin(origin: string): boolean {
+    return this.origins.some((allowed) => allowed.origin === origin);
+  }
+
+  /**
+   * Issue a single-use nonce for a sign-in message
+   */
+  issueNonce(now: number = Date.now()): string {
+    this.pruneExpired(now);
+
+    if (this.nonces.size >= MAX_PENDING_NONCES) {
+      const oldest = this.nonces.keys().next().value;
+      if (oldest !== undefined) {
+        this.nonces.delete(oldest);
+      }
+    }
+
+    const nonce = randomBytes(16).toString('hex');
+    this.nonces.set(nonce, now + this.nonceTtl);
+    return nonce;
+  }
+
+  /**
+   * Verify a signed sign-in message and open a session
+   *
+   * @param text Message as signed (EIP-4361 format)
+   * @param signature personal_sign signature of the message
+   * @throws AuthError if the message, its nonce or the signature is not acceptable
+   */
+  signIn(text: string, signature: string, now: number = Date.now()): Session {
+    let message: SiweMessage;
+    try {
+      message = parseSiweMessage(text);
+    } catch (error: any) {
+      throw new AuthError(`Malformed sign-in message: ${error.message}`);
+    }
+
+    this.checkOrigin(message);
+
+    if (message.version !== '1') {
+      throw new AuthError(`Unsupported message version: ${message.version}`);
+    }
+
+    // Single use, even if the rest of the message is rejected
+    const nonceExpiry = this.nonces.get(message.nonce);
+    this.nonces.delete(message.nonce);
+    if (nonceExpiry === undefined || nonceExpiry < now) {
+      throw new AuthError('Unknown or expired nonce');
+    }
+
+    if (Date.parse(message.issuedAt) > now + CLOCK_SKEW) {
+      throw new AuthError('Message issued in the future');
+    }
+    if (message.notBefore && Date.parse(message.notBefore) > now + CLOCK_SKEW) {
+      throw new AuthError('Message not yet valid');
+    }
+    const messageExpiry = message.expirationTime ? Date.parse(message.expirationTime) : Infinity;
+    if (messageExpiry <= now) {
+      throw new AuthError('Message expired');
+    }
+
+    let signer: string;
+    try {
+      signer = ethers.verifyMessage(text, signature);
+    } catch {
+      throw new AuthError('Invalid signature');
+    }
+    if (signer !== message.address) {
+      throw new AuthError('Signature does not match the message address');
+    }
+
+    const session: Session = {
+      id: randomBytes(32).toString('hex'),
+      address: message.address,
+      chainId: message.chainId,
+      issuedAt: now,
+      expiresAt: Math.min(now + this.sessionTtl, messageExpiry),
+    };
+    this.sessions.set(session.id, session);
+
+    console.log(`[SiweAuth] Signed in ${session.address} on chain ${session.chainId}`);
+
+    return session;
+  }
+
+  /**
+   * Get an open session
+   *
+   * @returns Session, or null if unknown or expired
+   */
+  getSession(id: string, now: number = Date.now()): Session | null {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return null;
+    }
+
+    if (session.expiresAt <= now) {
+      this.sessions.delete(id);
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Close a session (sign out)
+   */
+  signOut(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  /**
+   * The message must name one of the allowed sites, both as domain and URI
+   */
+  private checkOrigin(message: SiweMessage): void {
+    let uri: URL;
+    try {
+      uri = new URL(message.uri);
+    } catch {
+      throw new AuthError(`Invalid URI: ${message.uri}`);
+    }
+
+    const allowed = this.origins.find((origin) => origin.host === message.domain);
+    if (!allowed) {
+      throw new AuthError(`Sign-in not allowed for domain ${message.domain}`);
+    }
+    if (uri.origin !== allowed.origin) {
+      throw new AuthError(`URI ${message.uri} does not belong to ${message.domain}`);
+    }
+    if (message.scheme && `${message.scheme}:` !== allowed.protocol) {
+      throw new AuthError(`Scheme ${message.scheme} does not match ${allowed.origin}`);
+    }
+  }
+
+  private pruneExpired(now: number): void {
+    for (const [nonce, expiry] of this.nonces) {
+      if (expiry < now) {
+        this.nonces.delete(nonce);
+      }
+    }
+
+    for (const [id, session] of this.sessions) {
+      if (session.expiresAt <= now) {
+        this.sessions.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Factory function to create SiweAuth
+ */
+export function createSiweAuth(config: SiweAuthConfig): SiweAuth {
+  return new SiweAuth(config);
+}
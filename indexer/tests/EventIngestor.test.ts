@@ -0,0 +1,259 @@
+/**
+ * EventIngestor tests
+ * Ingests stub contract logs and checks the indexed state
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { EventIngestor } from '../src/services/EventIngestor';
+import { IndexerStore } from '../src/services/IndexerStore';
+
+const DELEGATION_MANAGER = '0x4c8875ac664bb0a94f5eE71b232A786772Fdd704';
+const TOPIC_REGISTRY = '0x9d9063f220aA191aAC406De2A5432A577b253827';
+const PROPOSAL_MANAGER = '0xBF57d60545a4A47e6c01197D2Dd91F5E06780Fa5';
+const VERIFIER = '0x156ee62c9bf96F28b5aacf37C5B73935CA1d71C3';
+const REWARD_DISTRIBUTOR = '0x8a4f7A29989565F36216Eb82ca030bEb129E039A';
+
+const ALICE = ethers.getAddress('0x' + 'a'.repeat(40));
+const BOB = ethers.getAddress('0x' + 'b'.repeat(40));
+const CAROL = ethers.getAddress('0x' + 'c'.repeat(40));
+
+const interfaces: Record<string, ethers.Interface> = {
+  [DELEGATION_MANAGER]: new ethers.Interface([
+    'event Delegated(address indexed delegator, address indexed delegate, uint256 indexed topicId, uint256 timestamp)',
+    'event Revoked(address indexed delegator, uint256 indexed topicId, uint256 timestamp)',
+    'event DeadEndDeclared(address indexed delegate, uint256 indexed topicId, uint256 timestamp)',
+  ]),
+  [TOPIC_REGISTRY]: new ethers.Interface([
+    'event TopicCreated(uint256 indexed topicId, string name, address indexed admin)',
+    'event TopicUpdated(uint256 indexed topicId, string field, string newValue)',
+    'function getTopic(uint256 topicId) external view returns (tuple(uint256 id, string name, bytes32 descriptionCID, uint256 proposalThreshold, bool active, uint256 createdAt, address admin))',
+  ]),
+  [PROPOSAL_MANAGER]: new ethers.Interface([
+    'event ProposalCreated(uint256 indexed proposalId, uint256 indexed topicId, address indexed proposer, string title, uint256 startBlock, uint256 endBlock)',
+    'event VoteCast(uint256 indexed proposalId, address indexed voter, uint8 choice, uint256 votes, address indexed delegate)',
+    'event ProposalCancelled(uint256 indexed proposalId)',
+  ]),
+  [VERIFIER]: new ethers.Interface([
+    'event AttestationSubmitted(bytes32 indexed resultHash, uint256 indexed topicId, uint256 blockNumber, address[] operators)',
+    'event VotingPowerUpdated(uint256 indexed topicId, bytes32 attestationHash, uint256 timestamp)',
+    'event PowerRootCommitted(uint256 indexed topicId, bytes32 indexed attestationHash, bytes32 root, uint256 delegateCount, uint256 totalPower)',
+  ]),
+  [REWARD_DISTRIBUTOR]: new ethers.Interface([
+    'event FlowCreated(address indexed delegate, uint256 indexed topicId, int96 flowRate)',
+    'event FlowUpdated(address indexed delegate, uint256 indexed topicId, int96 oldFlowRate, int96 newFlowRate)',
+    'event FlowDeleted(address indexed delegate, uint256 indexed topicId)',
+  ]),
+};
+
+const RESULT_HASH = ethers.id('result');
+const ROOT_COMMITMENT = ethers.id('root commitment');
+const POWER_ROOT = ethers.id('power root');
+
+function makeLog(
+  address: string,
+  name: string,
+  args: unknown[],
+  blockNumber: number,
+  index: number
+): ethers.Log {
+  const { data, topics } = interfaces[address].encodeEventLog(name, args);
+  return {
+    address,
+    data,
+    topics,
+    blockNumber,
+    blockHash: ethers.zeroPadValue(ethers.toBeHex(blockNumber), 32),
+    transactionIndex: 0,
+    index,
+    transactionHash: ethers.zeroPadValue(ethers.toBeHex(blockNumber * 100 + index), 32),
+    removed: false,
+  } as unknown as ethers.Log;
+}
+
+// Returned out of order on purpose: the ingestor sorts by chain position
+const logs = [
+  makeLog(DELEGATION_MANAGER, 'Delegated', [ALICE, BOB, 0, 100], 10, 1),
+  makeLog(TOPIC_REGISTRY, 'TopicCreated', [0, 'Climate', CAROL], 10, 0),
+  makeLog(DELEGATION_MANAGER, 'Delegated', [BOB, CAROL, 0, 110], 11, 0),
+  makeLog(DELEGATION_MANAGER, 'DeadEndDeclared', [BOB, 0, 120], 12, 0),
+  makeLog(DELEGATION_MANAGER, 'Delegated', [ALICE, CAROL, 0, 130], 13, 0),
+  makeLog(TOPIC_REGISTRY, 'TopicUpdated', [0, 'proposalThreshold', '5'], 13, 1),
+  makeLog(PROPOSAL_MANAGER, 'ProposalCreated', [1, 0, CAROL, 'Plant trees', 14, 114], 14, 0),
+  makeLog(PROPOSAL_MANAGER, 'VoteCast', [1, CAROL, 1, 3, CAROL], 15, 0),
+  makeLog(PROPOSAL_MANAGER, 'VoteCast', [1, BOB, 0, 1, BOB], 15, 1),
+  makeLog(VERIFIER, 'AttestationSubmitted', [RESULT_HASH, 0, 14, [ALICE]], 16, 0),
+  makeLog(VERIFIER, 'VotingPowerUpdated', [0, RESULT_HASH, 160], 16, 1),
+  makeLog(REWARD_DISTRIBUTOR, 'FlowCreated', [CAROL, 0, 1000], 17, 0),
+  makeLog(REWARD_DISTRIBUTOR, 'FlowCreated', [BOB, 0, 500], 17, 1),
+  makeLog(REWARD_DISTRIBUTOR, 'FlowUpdated', [CAROL, 0, 1000, 2000], 18, 0),
+  makeLog(REWARD_DISTRIBUTOR, 'FlowDeleted', [BOB, 0], 18, 1),
+  makeLog(DELEGATION_MANAGER, 'Revoked', [ALICE, 0, 190], 19, 0),
+  makeLog(VERIFIER, 'AttestationSubmitted', [ROOT_COMMITMENT, 1, 19, [BOB]], 20, 0),
+  makeLog(VERIFIER, 'PowerRootCommitted', [1, ROOT_COMMITMENT, POWER_ROOT, 2, 9], 20, 1),
+  makeLog(PROPOSAL_MANAGER, 'ProposalCancelled', [1], 30, 0),
+];
+
+function stubProvider(head: number, maxRange: number = Infinity) {
+  const calls: Array<[number, number]> = [];
+
+  return {
+    calls,
+    getBlockNumber: async () => head,
+    getBlock: async (blockNumber: number) => ({ timestamp: blockNumber * 10 }),
+    getLogs: async (filter: any) => {
+      calls.push([filter.fromBlock, filter.toBlock]);
+      if (filter.toBlock - filter.fromBlock + 1 > maxRange) {
+        throw new Error('block range too large');
+      }
+      return logs.filter(
+        (log) =>
+          log.blockNumber >= filter.fromBlock &&
+          log.blockNumber <= filter.toBlock &&
+          filter.address.includes(log.address)
+      );
+    },
+    call: async ({ to, data }: { to: string; data: string }) => {
+      const iface = interfaces[to];
+
+      if (iface.parseTransaction({ data })?.name === 'getTopic') {
+        return iface.encodeFunctionResult('getTopic', [
+          [0, 'Climate', ethers.id('climate'), 1, true, 1000, CAROL],
+        ]);
+      }
+      throw new Error('execution reverted');
+    },
+  };
+}
+
+function createIngestor(head: number, store?: IndexerStore, maxRange?: number) {
+  const provider = stubProvider(head, maxRange);
+  const ingestor = new EventIngestor({
+    provider: provider as unknown as ethers.Provider,
+    contracts: {
+      delegationManager: DELEGATION_MANAGER,
+      topicRegistry: TOPIC_REGISTRY,
+      proposalManager: PROPOSAL_MANAGER,
+      votePowerVerifier: VERIFIER,
+      rewardDistributor: REWARD_DISTRIBUTOR,
+    },
+    store,
+    startBlock: 10,
+    confirmations: 2,
+    batchSize: 8,
+  });
+  return { ingestor, provider };
+}
+
+describe('EventIngestor', () => {
+  it('should apply delegation history in chain order', async () => {
+    const { ingestor } = createIngestor(17);
+
+    expect(await ingestor.sync()).toBe(9);
+
+    const state = ingestor.getState();
+    expect(state.lastBlock).toBe(15);
+    expect(Object.keys(state.delegations[0])).toEqual([ALICE, BOB]);
+    expect(state.delegations[0][ALICE]).toMatchObject({ delegate: CAROL, timestamp: 130 });
+    expect(state.deadEnds[0]).toEqual({ [BOB]: 120 });
+    expect(state.history[ALICE].map((change) => change.previousDelegate)).toEqual([null, BOB]);
+  });
+
+  it('should fill topic details from TopicRegistry and tolerate failed reads', async () => {
+    const { ingestor } = createIngestor(17);
+    await ingestor.sync();
+
+    const state = ingestor.getState();
+    expect(state.topics[0]).toMatchObject({
+      name: 'Climate',
+      admin: CAROL,
+      descriptionCID: ethers.id('climate'),
+      proposalThreshold: '5',
+      createdAt: 1000,
+    });
+    // getProposal reverts in the stub
+    expect(state.proposals[1]).toMatchObject({ title: 'Plant trees', descriptionCID: '' });
+  });
+
+  it('should tally votes and track attestations, flows and cancellations', async () => {
+    const { ingestor } = createIngestor(40);
+    await ingestor.sync();
+
+    const state = ingestor.getState();
+    expect(state.proposals[1]).toMatchObject({
+      forVotes: '3',
+      againstVotes: '1',
+      abstainVotes: '0',
+      cancelled: true,
+    });
+    expect(state.votes[1]).toHaveLength(2);
+    expect(state.attestations[0]).toMatchObject({
+      resultHash: RESULT_HASH,
+      attestedBlock: 14,
+      operators: [ALICE],
+    });
+    expect(state.attestations[1]).toMatchObject({
+      resultHash: ROOT_COMMITMENT,
+      attestedBlock: 19,
+      operators: [BOB],
+      timestamp: 200,
+      powerRoot: { root: POWER_ROOT, delegateCount: '2', totalPower: '9' },
+    });
+    expect(state.pendingAttestations).toEqual({});
+    expect(Object.keys(state.rewardFlows[0])).toEqual([CAROL]);
+    expect(state.rewardFlows[0][CAROL].flowRate).toBe('2000');
+    expect(state.delegations[0][ALICE]).toBeUndefined();
+    expect(state.history[ALICE].at(-1)).toMatchObject({
+      type: 'Revoked',
+      delegate: null,
+      previousDelegate: CAROL,
+    });
+  });
+
+  it('should shrink the getLogs range when the RPC rejects it', async () => {
+    const { ingestor, provider } = createIngestor(40, undefined, 4);
+    const reference = createIngestor(40).ingestor;
+    await ingestor.sync();
+    await reference.sync();
+
+    expect(provider.calls.slice(0, 3)).toEqual([
+      [10, 17],
+      [10, 13],
+      [14, 21],
+    ]);
+    expect({ ...ingestor.getState(), updatedAt: 0 }).toEqual({
+      ...reference.getState(),
+      updatedAt: 0,
+    });
+  });
+
+  describe('persistence', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(tmpdir(), 'indexer-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should resume from the saved state without re-applying events', async () => {
+      const store = new IndexerStore(path.join(dir, 'db', 'indexer.json'));
+      const first = createIngestor(15, store).ingestor;
+      await first.sync();
+
+      const { ingestor } = createIngestor(40, store);
+      await ingestor.start();
+      ingestor.stop();
+
+      const state = ingestor.getState();
+      expect(state.lastBlock).toBe(38);
+      expect(state.history[ALICE]).toHaveLength(3);
+      expect((await store.load())!.lastBlock).toBe(38);
+    });
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * IndexerApi tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ethers } from 'ethers';
+import { hashResult } from '@liquid-democracy-engine/result-encoding';
+import {
+  IndexerApi,
+  ProposalStatus,
+  getProposalStatus,
+  type IndexerReader,
+} from '../src/services/IndexerApi';
+import { SiweAuth } from '../src/services/SiweAuth';
+import { formatSiweMessage } from '../src/lib/siwe';
+import {
+  createEmptyState,
+  type IndexedProposal,
+  type IndexedState,
+} from '../src/services/IndexerStore';
+
+const ALICE = ethers.getAddress('0x' + 'a'.repeat(40));
+const BOB = ethers.getAddress('0x' + 'b'.repeat(40));
+const CAROL = ethers.getAddress('0x' + 'c'.repeat(40));
+const DAVE = ethers.getAddress('0x' + 'd'.repeat(40));
+const TX = '0x' + '11'.repeat(32);
+
+function delegation(delegator: string, delegate: string, timestamp: number) {
+  return { delegator, delegate, topicId: 1, timestamp, blockNumber: 1, transactionHash: TX };
+}
+
+function proposal(overrides: Partial<IndexedProposal>): IndexedProposal {
+  return {
+    id: 1,
+    topicId: 1,
+    proposer: ALICE,
+    title: 'Proposal',
+    descriptionCID: '',
+    startBlock: 10,
+    endBlock: 50,
+    forVotes: '0',
+    againstVotes: '0',
+    abstainVotes: '0',
+    executed: false,
+    cancelled: false,
+    blockNumber: 10,
+    transactionHash: TX,
+    ...overrides,
+  };
+}
+
+function createState(): IndexedState {
+  const state = createEmptyState();
+  state.lastBlock = 100;
+
+  // Alice -> Bob -> Carol, with Bob a dead-end declared after Alice delegated; Dave -> Alice
+  state.delegations[1] = {
+    [ALICE]: delegation(ALICE, BOB, 100),
+    [BOB]: delegation(BOB, CAROL, 110),
+    [DAVE]: delegation(DAVE, ALICE, 120),
+  };
+  state.deadEnds[1] = { [BOB]: 130 };
+
+  state.topics[1] = {
+    id: 1,
+    name: 'Climate',
+    admin: CAROL,
+    descriptionCID: ethers.ZeroHash,
+    proposalThreshold: '1',
+    active: true,
+    createdAt: 1,
+    blockNumber: 1,
+  };
+  state.topics[0] = { ...state.topics[1], id: 0, name: 'Archived', active: false };
+
+  state.proposals[1] = proposal({ forVotes: '3', againstVotes: '1' });
+  state.proposals[2] = proposal({ id: 2, endBlock: 200 });
+  state.proposals[3] = proposal({ id: 3, topicId: 2 });
+  state.votes[1] = [
+    {
+      proposalId: 1,
+      voter: BOB,
+      choice: 1,
+      votes: '3',
+      delegate: BOB,
+      blockNumber: 20,
+      transactionHash: TX,
+    },
+  ];
+
+  state.history[ALICE] = [
+    {
+      type: 'Delegated',
+      delegator: ALICE,
+      topicId: 2,
+      delegate: CAROL,
+      previousDelegate: null,
+      timestamp: 90,
+      blockNumber: 9,
+      transactionHash: TX,
+    },
+    {
+      type: 'Delegated',
+      delegator: ALICE,
+      topicId: 1,
+      delegate: BOB,
+      previousDelegate: null,
+      timestamp: 100,
+      blockNumber: 10,
+      transactionHash: TX,
+    },
+  ];
+
+  state.rewardFlows[1] = {
+    [CAROL]: { delegate: CAROL, topicId: 1, flowRate: '100', blockNumber: 1, transactionHash: TX },
+    [BOB]: { delegate: BOB, topicId: 1, flowRate: '900', blockNumber: 1, transactionHash: TX },
+  };
+  state.poolFlowRates[1] = '1000';
+
+  return state;
+}
+
+class FakeIndexer implements IndexerReader {
+  state = createState();
+
+  getState(): IndexedState {
+    return this.state;
+  }
+
+  getStatus() {
+    return { running: true, lastBlock: 100, headBlock: 102, synced: true, lastError: null };
+  }
+}
+
+describe('IndexerApi', () => {
+  let api: IndexerApi;
+  let baseUrl: string;
+
+  async function get(path: string): Promise<any> {
+    const response = await fetch(`${baseUrl}${path}`);
+    expect(response.status).toBe(200);
+    return response.json();
+  }
+
+  beforeEach(async () => {
+    api = new IndexerApi({ port: 0, indexer: new FakeIndexer() });
+    await api.start();
+    baseUrl = `http://127.0.0.1:${api.getPort()}`;
+  });
+
+  afterEach(async () => {
+    await api.stop();
+  });
+
+  it('should report status with the indexed block on every response', async () => {
+    const response = await fetch(`${baseUrl}/status`);
+
+    expect(response.headers.get('x-indexed-block')).toBe('100');
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    expect(await response.json()).toMatchObject({ synced: true, lastBlock: 100, topics: 2 });
+  });
+
+  it('should list topics, optionally only active ones', async () => {
+    expect((await get('/topics')).map((topic: any) => topic.id)).toEqual([0, 1]);
+    expect((await get('/topics?active=true')).map((topic: any) => topic.id)).toEqual([1]);
+    expect((await fetch(`${baseUrl}/topics/7`)).status).toBe(404);
+  });
+
+  it('should build the topic graph with the enclave dead-end rules', async () => {
+    const graph = await get('/topics/1/graph');
+    const terminalDelegates = [
+      { address: BOB, power: 3 },
+      { address: CAROL, power: 1 },
+    ];
+
+    expect(graph.terminalDelegates).toEqual(terminalDelegates);
+    expect(graph.resultHash).toBe(hashResult(terminalDelegates).resultHash);
+    expect(graph.nodes[0]).toEqual({
+      address: BOB,
+      votingPower: 3,
+      isTerminal: true,
+      isDelegating: true,
+      isDeadEnd: true,
+    });
+    expect(graph.edges.find((edge: any) => edge.source === BOB)).toMatchObject({
+      target: CAROL,
+      timestamp: 110,
+      suspended: true,
+    });
+    expect((await get('/topics/9/graph')).nodes).toEqual([]);
+  });
+
+  it('should serve proposals with their status at the indexed block', async () => {
+    const proposals = await get('/topics/1/proposals');
+
+    expect(proposals.map((p: any) => [p.id, p.status])).toEqual([
+      [1, ProposalStatus.Succeeded],
+      [2, ProposalStatus.Active],
+    ]);
+    expect(await get('/proposals/1/votes')).toHaveLength(1);
+    expect((await fetch(`${baseUrl}/proposals/9/votes`)).status).toBe(404);
+  });
+
+  it('should filter delegation history by topic', async () => {
+    expect(await get(`/delegators/${ALICE.toLowerCase()}/history`)).toHaveLength(2);
+    expect(await get(`/delegators/${ALICE}/history?topicId=1`)).toMatchObject([{ delegate: BOB }]);
+    expect(await get(`/delegators/${DAVE}/history`)).toEqual([]);
+    expect((await fetch(`${baseUrl}/delegators/0x1234/history`)).status).toBe(400);
+  });
+
+  it('should serve reward flows by rate', async () => {
+    const rewards = await get('/topics/1/rewards');
+
+    expect(rewards.poolFlowRate).toBe('1000');
+    expect(rewards.flows.map((flow: any) => flow.delegate)).toEqual([BOB, CAROL]);
+  });
+
+  it('should reject invalid IDs and unknown routes', async () => {
+    expect((await fetch(`${baseUrl}/topics/abc/graph`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/nope`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/auth/nonce`)).status).toBe(404);
+  });
+});
+
+describe('IndexerApi sign-in', () => {
+  const origin = 'http://localhost:5173';
+  let api: IndexerApi;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    api = new IndexerApi({
+      port: 0,
+      indexer: new FakeIndexer(),
+      auth: new SiweAuth({ origins: [origin] }),
+    });
+    await api.start();
+    baseUrl = `http://127.0.0.1:${api.getPort()}`;
+  });
+
+  afterEach(async () => {
+    await api.stop();
+  });
+
+  it('should open a cookie session for a signed message and close it on logout', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const { nonce } = await (await fetch(`${baseUrl}/auth/nonce`, { headers: { origin } })).json();
+    const message = formatSiweMessage({
+      domain: 'localhost:5173',
+      address: wallet.address,
+      uri: origin,
+      version: '1',
+      chainId: 10200,
+      nonce,
+      issuedAt: new Date().toISOString(),
+    });
+
+    const verify = await fetch(`${baseUrl}/auth/verify`, {
+      method: 'POST',
+      headers: { origin, 'content-type': 'application/json' },
+      body: JSON.stringify({ message, signature: await wallet.signMessage(message) }),
+    });
+    const cookie = verify.headers.get('set-cookie')!.split(';')[0];
+
+    expect(verify.status).toBe(200);
+    expect(verify.headers.get('access-control-allow-origin')).toBe(origin);
+    expect(verify.headers.get('access-control-allow-credentials')).toBe('true');
+    expect(await verify.json()).toMatchObject({ address: wallet.address, chainId: 10200 });
+
+    const session = await fetch(`${baseUrl}/auth/session`, { headers: { cookie } });
+    expect(await session.json()).toMatchObject({ address: wallet.address });
+
+    await fetch(`${baseUrl}/auth/logout`, { method: 'POST', headers: { cookie } });
+    expect((await fetch(`${baseUrl}/auth/session`, { headers: { cookie } })).status).toBe(401);
+  });
+
+  it('should reject a replayed message and bad bodies', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const { nonce } = await (await fetch(`${baseUrl}/auth/nonce`)).json();
+    const message = formatSiweMessage({
+      domain: 'localhost:5173',
+      address: wallet.address,
+      uri: origin,
+      version: '1',
+      chainId: 10200,
+      nonce,
+      issuedAt: new Date().toISOString(),
+    });
+    const body = JSON.stringify({ message, signature: await wallet.signMessage(message) });
+
+    expect((await fetch(`${baseUrl}/auth/verify`, { method: 'POST', body })).status).toBe(200);
+    expect((await fetch(`${baseUrl}/auth/verify`, { method: 'POST', body })).status).toBe(401);
+    expect((await fetch(`${baseUrl}/auth/verify`, { method: 'POST', body: '{}' })).status).toBe(
+      400
+    );
+  });
+
+  it('should answer CORS preflights', async () => {
+    const response = await fetch(`${baseUrl}/auth/verify`, {
+      method: 'OPTIONS',
+      headers: { origin },
+    });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-methods')).toContain('POST');
+  });
+
+  it('should vary on Origin for every origin', async () => {
+    const allowed = await fetch(`${baseUrl}/health`, { headers: { origin } });
+    const other = await fetch(`${baseUrl}/health`, {
+      headers: { origin: 'https://other.example' },
+    });
+    const none = await fetch(`${baseUrl}/health`);
+
+    expect(allowed.headers.get('access-control-allow-origin')).toBe(origin);
+    expect(other.headers.get('access-control-allow-origin')).toBe('*');
+    for (const response of [allowed, other, none]) {
+      expect(response.headers.get('vary')).toBe('Origin');
+    }
+  });
+});
+
+describe('getProposalStatus', () => {
+  it('should follow ProposalManager.getProposalStatus', () => {
+    expect(getProposalStatus(proposal({}), 50)).toBe(ProposalStatus.Active);
+    expect(getProposalStatus(proposal({}), 51)).toBe(ProposalStatus.Failed);
+    expect(getProposalStatus(proposal({ executed: true }), 51)).toBe(ProposalStatus.Succeeded);
+    expect(getProposalStatus(proposal({ cancelled: true }), 20)).toBe(ProposalStatus.Cancelled);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * SiweAuth tests
+ * Signs EIP-4361 messages with a local wallet and checks which are accepted
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+import { AuthError, SiweAuth } from '../src/services/SiweAuth';
+import { formatSiweMessage, parseSiweMessage, type SiweMessage } from '../src/lib/siwe';
+
+const ORIGIN = 'https://app.example.org';
+const NOW = Date.parse('2026-01-01T12:00:00.000Z');
+
+describe('parseSiweMessage', () => {
+  const message: SiweMessage = {
+    domain: 'app.example.org',
+    address: ethers.getAddress('0x' + 'a'.repeat(40)),
+    statement: 'Sign in to Liquid Democracy Engine',
+    uri: ORIGIN,
+    version: '1',
+    chainId: 10200,
+    nonce: 'abcdef0123456789',
+    issuedAt: '2026-01-01T12:00:00.000Z',
+    expirationTime: '2026-01-02T12:00:00.000Z',
+    resources: ['https://app.example.org/drafts'],
+  };
+
+  it('should read back what formatSiweMessage wrote', () => {
+    expect(parseSiweMessage(formatSiweMessage(message))).toMatchObject(message);
+    expect(parseSiweMessage(formatSiweMessage({ ...message, statement: undefined }))).toMatchObject(
+      { ...message, statement: undefined }
+    );
+  });
+
+  it('should reject messages that do not follow EIP-4361', () => {
+    const text = formatSiweMessage(message);
+
+    expect(() =>
+      parseSiweMessage(text.replace(message.address, message.address.toLowerCase()))
+    ).toThrow(/EIP-55/);
+    expect(() => parseSiweMessage(text.replace('Version: 1\n', ''))).toThrow(/Version/);
+    expect(() => parseSiweMessage(text.replace(message.nonce, 'short'))).toThrow(/Nonce/);
+    expect(() => parseSiweMessage(`${text}\nextra`)).toThrow(/Unexpected line/);
+  });
+});
+
+describe('SiweAuth', () => {
+  let auth: SiweAuth;
+  let wallet: ethers.HDNodeWallet;
+
+  function createMessage(overrides: Partial<SiweMessage> = {}): string {
+    return formatSiweMessage({
+      domain: 'app.example.org',
+      address: wallet.address,
+      statement: 'Sign in to Liquid Democracy Engine',
+      uri: ORIGIN,
+      version: '1',
+      chainId: 10200,
+      nonce: auth.issueNonce(NOW),
+      issuedAt: new Date(NOW).toISOString(),
+      ...overrides,
+    });
+  }
+
+  async function signIn(text: string, now: number = NOW) {
+    return auth.signIn(text, await wallet.signMessage(text), now);
+  }
+
+  beforeEach(() => {
+    auth = new SiweAuth({ origins: [ORIGIN], sessionTtl: 60_000 });
+    wallet = ethers.Wallet.createRandom();
+  });
+
+  it('should open a session for a signed message', async () => {
+    const session = await signIn(createMessage());
+
+    expect(session).toMatchObject({
+      address: wallet.address,
+      chainId: 10200,
+      expiresAt: NOW + 60_000,
+    });
+    expect(auth.getSession(session.id, NOW)).toEqual(session);
+    expect(auth.getSession(session.id, NOW + 60_000)).toBeNull();
+
+    auth.signOut(session.id);
+    expect(auth.getSession(session.id, NOW)).toBeNull();
+  });
+
+  it('should end the session when the message expires', async () => {
+    const expirationTime = new Date(NOW + 10_000).toISOString();
+    const session = await signIn(createMessage({ expirationTime }));
+
+    expect(session.expiresAt).toBe(NOW + 10_000);
+  });
+
+  it('should accept each nonce once', async () => {
+    const text = createMessage();
+    await signIn(text);
+
+    await expect(signIn(text)).rejects.toThrow('Unknown or expired nonce');
+    await expect(signIn(createMessage({ nonce: 'notissued123' }))).rejects.toThrow(AuthError);
+  });
+
+  it('should reject other sites, stale messages and wrong signers', async () => {
+    await expect(signIn(createMessage({ domain: 'evil.example.org' }))).rejects.toThrow(/domain/);
+    await expect(signIn(createMessage({ uri: 'https://evil.example.org' }))).rejects.toThrow(/URI/);
+    await expect(
+      signIn(createMessage({ expirationTime: new Date(NOW - 1).toISOString() }))
+    ).rejects.toThrow('Message expired');
+    await expect(signIn(createMessage(), NOW + 11 * 60 * 1000)).rejects.toThrow(/nonce/);
+
+    const text = createMessage();
+    const otherSignature = await ethers.Wallet.createRandom().signMessage(text);
+    expect(() => auth.signIn(text, otherSignature, NOW)).toThrow(/does not match/);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Delegation Traversal
+ *
+ * How a topic's delegations turn into voting power, shared by every producer
+ * of results so they agree with the enclave:
+ * - chains are followed at most MAX_TRAVERSAL_HOPS hops, like
+ *   DelegationGraph.getTerminalDelegate in contracts/src/libraries
+ * - a chain ends at an address with no delegation or an active dead-end
+ *   declaration; chains that reached the dead-end before it declared keep
+ *   their votes there, and its own delegation is suspended
+ * - every participant (delegator or delegate) holds one vote
+ *
+ * enclave-service/src/lib/graph-algorithms.ts resolves whole topics in linear
+ * time with the same rules; test-vectors/delegation.json pins them.
+ */
+
+/** Mirrors DelegationGraph.MAX_DELEGATION_DEPTH */
+export const MAX_DELEGATION_DEPTH = 7;
+
+/** Hops followed when resolving a terminal; one past the depth limit, as on-chain */
+export const MAX_TRAVERSAL_HOPS = MAX_DELEGATION_DEPTH + 1;
+
+/**
+ * Follow a delegation chain to its terminal delegate
+ *
+ * @param delegations delegator => delegate (active delegations only)
+ * @param deadEnds Addresses with an active dead-end declaration
+ * @param address Starting address
+ * @returns Terminal delegate (the address itself if it does not delegate)
+ */
+export function resolveTerminalDelegate(
+  delegations: ReadonlyMap<string, string>,
+  deadEnds: ReadonlySet<string>,
+  address: string
+): string {
+  let current = address;
+
+  for (let hops = 0; hops < MAX_TRAVERSAL_HOPS; hops++) {
+    const next = delegations.get(current);
+    if (!next || deadEnds.has(current)) {
+      break;
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Voting power of every terminal delegate
+ *
+ * @param delegations delegator => delegate (active delegations only)
+ * @param deadEnds Addresses with an active dead-end declaration
+ * @returns terminal delegate => number of participants whose chain ends there
+ */
+export function calculateTerminalPowers(
+  delegations: ReadonlyMap<string, string>,
+  deadEnds: ReadonlySet<string>
+): Map<string, number> {
+  const participants = new Set<string>();
+  for (const [delegator, delegate] of delegations) {
+    participants.add(delegator);
+    participants.add(delegate);
+  }
+
+  const powers = new Map<string, number>();
+  for (const address of participants) {
+    const terminal = resolveTerminalDelegate(delegations, deadEnds, address);
+    powers.set(terminal, (powers.get(terminal) || 0) + 1);
+  }
+
+  return powers;
+}
@@ -0,0 +1,12 @@
+/**
+ * Result Encoding
+ *
+ * Shared by the enclave service, hardhat scripts and frontend:
+ * - result.ts: canonical ordering and the full-result hash
+ * - power-tree.ts: Merkle commitment and per-delegate proofs for large results
+ * - delegation.ts: chain traversal and hop limit that turn delegations into power
+ */
+
+export * from './result.js';
+export * from './power-tree.js';
+export * from './delegation.js';
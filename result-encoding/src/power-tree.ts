@@ -0,0 +1,169 @@
+/**
+ * Power Tree
+ *
+ * Merkle commitment over a canonical result, used when a topic has too many
+ * terminal delegates to submit as arrays. Operators sign the root commitment;
+ * each delegate's power is later proven against the root on-chain.
+ *
+ * Matches AttestationLib in contracts/src/libraries/AttestationLib.sol:
+ * - leaf = keccak256(bytes.concat(keccak256(abi.encode(address, uint256))))
+ * - inner nodes hash the sorted pair (OpenZeppelin MerkleProof)
+ * - commitment = keccak256(abi.encode(root, delegateCount, totalPower))
+ */
+
+import { AbiCoder, concat, keccak256 } from 'ethers';
+import {
+  canonicalizeResult,
+  compareAddresses,
+  normalizeAddress,
+  type PowerEntry,
+  type PowerValue,
+} from './result.js';
+
+export interface PowerTree {
+  root: string;
+  /** Hash operators sign and submit as the attestation's resultHash */
+  commitment: string;
+  delegateCount: number;
+  totalPower: bigint;
+  /** Canonical leaves, in tree order */
+  addresses: string[];
+  powers: bigint[];
+  /** Node hashes per level, leaves first */
+  layers: string[][];
+}
+
+export interface PowerProof {
+  address: string;
+  power: bigint;
+  proof: string[];
+}
+
+/**
+ * Hash a (delegate, power) leaf
+ */
+export function hashPowerLeaf(address: string, power: PowerValue): string {
+  return keccak256(
+    keccak256(
+      AbiCoder.defaultAbiCoder().encode(
+        ['address', 'uint256'],
+        [normalizeAddress(address), BigInt(power)]
+      )
+    )
+  );
+}
+
+/**
+ * Hash two nodes in sorted order
+ */
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * Calculate the commitment signed for a power tree
+ *
+ * @returns keccak256(abi.encode(root, delegateCount, totalPower))
+ */
+export function calculateRootCommitment(
+  root: string,
+  delegateCount: number,
+  totalPower: PowerValue
+): string {
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      ['bytes32', 'uint256', 'uint256'],
+      [root, delegateCount, BigInt(totalPower)]
+    )
+  );
+}
+
+/**
+ * Build the power tree over a result
+ *
+ * @param entries Entries in any order and address case
+ * @returns Tree with root, commitment and levels for proof generation
+ * @throws Error if there are no entries, or on invalid or duplicate entries
+ */
+export function buildPowerTree(entries: PowerEntry[]): PowerTree {
+  const { addresses, powers } = canonicalizeResult(entries);
+
+  if (addresses.length === 0) {
+    throw new Error('Cannot build a power tree without entries');
+  }
+
+  const layers = [addresses.map((address, i) => hashPowerLeaf(address, powers[i]))];
+
+  while (layers[layers.length - 1].length > 1) {
+    const level = layers[layers.length - 1];
+    const next: string[] = [];
+
+    for (let i = 0; i < level.length; i += 2) {
+      // An unpaired last node moves up unchanged
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+
+    layers.push(next);
+  }
+
+  const root = layers[layers.length - 1][0];
+  const totalPower = powers.reduce((sum, power) => sum + power, 0n);
+
+  return {
+    root,
+    commitment: calculateRootCommitment(root, addresses.length, totalPower),
+    delegateCount: addresses.length,
+    totalPower,
+    addresses,
+    powers,
+    layers,
+  };
+}
+
+/**
+ * Get the proof for one delegate
+ *
+ * @param tree Power tree
+ * @param address Delegate address (any case)
+ * @returns Proof, or null if the address is not a leaf
+ */
+export function getPowerProof(tree: PowerTree, address: string): PowerProof | null {
+  let index = tree.addresses.findIndex((leaf) => compareAddresses(leaf, address) === 0);
+
+  if (index < 0) {
+    return null;
+  }
+
+  const proof: string[] = [];
+  const result = { address: tree.addresses[index], power: tree.powers[index], proof };
+
+  for (const level of tree.layers.slice(0, -1)) {
+    const sibling = index ^ 1;
+    if (sibling < level.length) {
+      proof.push(level[sibling]);
+    }
+    index >>= 1;
+  }
+
+  return result;
+}
+
+/**
+ * Verify a delegate's power against a root, as AttestationLib.verifyPowerProof does
+ *
+ * @returns Whether (address, power) is a leaf of the tree with this root
+ */
+export function verifyPowerProof(
+  root: string,
+  address: string,
+  power: PowerValue,
+  proof: string[]
+): boolean {
+  let node = hashPowerLeaf(address, power);
+
+  for (const sibling of proof) {
+    node = hashPair(node, sibling);
+  }
+
+  return node === root.toLowerCase();
+}
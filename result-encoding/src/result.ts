@@ -0,0 +1,163 @@
+/**
+ * Canonical Result
+ *
+ * Canonical encoding of voting power results shared by the enclave service,
+ * hardhat scripts and frontend. Operators only produce matching signatures if
+ * they hash identical arrays, so every producer must go through this module.
+ *
+ * Canonical form:
+ * - addresses are EIP-55 checksummed
+ * - entries are sorted by address, ascending by numeric value
+ * - each address appears once
+ * - resultHash = keccak256(abi.encode(address[], uint256[])), matching
+ *   AttestationLib.calculateResultHash in contracts/src/libraries/AttestationLib.sol
+ */
+
+import { AbiCoder, getAddress, keccak256 } from 'ethers';
+
+export type PowerValue = bigint | number | string;
+
+export interface PowerEntry {
+  address: string;
+  power: PowerValue;
+}
+
+export interface CanonicalResult {
+  addresses: string[];
+  powers: bigint[];
+}
+
+/**
+ * Normalize an address to its EIP-55 checksum form
+ *
+ * @param address Address in any case
+ * @returns Checksummed address
+ * @throws Error if the address is invalid (including a bad mixed-case checksum)
+ */
+export function normalizeAddress(address: string): string {
+  try {
+    return getAddress(address);
+  } catch {
+    throw new Error(`Invalid address: ${address}`);
+  }
+}
+
+/**
+ * Compare two addresses by numeric value (case-insensitive)
+ *
+ * @returns Negative if a sorts before b, positive if after, 0 if equal
+ */
+export function compareAddresses(a: string, b: string): number {
+  const left = a.toLowerCase();
+  const right = b.toLowerCase();
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Convert a power value to a uint256
+ *
+ * @throws Error if the value is negative, fractional or out of range
+ */
+function toUint256(value: PowerValue): bigint {
+  let power: bigint;
+
+  try {
+    power = BigInt(value);
+  } catch {
+    throw new Error(`Invalid power: ${value}`);
+  }
+
+  if (power < 0n || power >= 1n << 256n) {
+    throw new Error(`Power out of uint256 range: ${value}`);
+  }
+
+  return power;
+}
+
+/**
+ * Bring a set of (address, power) entries into canonical form
+ *
+ * @param entries Entries in any order and address case
+ * @returns Parallel address and power arrays in canonical order
+ * @throws Error on invalid addresses, invalid powers or duplicate addresses
+ */
+export function canonicalizeResult(entries: PowerEntry[]): CanonicalResult {
+  const normalized = entries.map(({ address, power }) => ({
+    address: normalizeAddress(address),
+    power: toUint256(power),
+  }));
+
+  normalized.sort((a, b) => compareAddresses(a.address, b.address));
+
+  for (let i = 1; i < normalized.length; i++) {
+    if (compareAddresses(normalized[i - 1].address, normalized[i].address) === 0) {
+      throw new Error(`Duplicate address in result: ${normalized[i].address}`);
+    }
+  }
+
+  return {
+    addresses: normalized.map(({ address }) => address),
+    powers: normalized.map(({ power }) => power),
+  };
+}
+
+/**
+ * Check whether addresses are in canonical order without duplicates
+ *
+ * @param addresses Addresses to check
+ * @returns Whether the addresses are strictly ascending
+ */
+export function isCanonicalOrder(addresses: string[]): boolean {
+  for (let i = 1; i < addresses.length; i++) {
+    if (compareAddresses(addresses[i - 1], addresses[i]) >= 0) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * ABI-encode a result as (address[], uint256[])
+ *
+ * @param addresses Addresses
+ * @param powers Powers (same length as addresses)
+ * @returns ABI-encoded bytes as hex
+ * @throws Error if the arrays differ in length
+ */
+export function encodeResult(addresses: string[], powers: PowerValue[]): string {
+  if (addresses.length !== powers.length) {
+    throw new Error('Array length mismatch');
+  }
+
+  return AbiCoder.defaultAbiCoder().encode(
+    ['address[]', 'uint256[]'],
+    [addresses.map(normalizeAddress), powers.map(toUint256)]
+  );
+}
+
+/**
+ * Calculate the result hash exactly as AttestationLib.calculateResultHash does
+ * The arrays are hashed as given; use hashResult to canonicalize first
+ *
+ * @param addresses Addresses
+ * @param powers Powers (same length as addresses)
+ * @returns keccak256(abi.encode(addresses, powers))
+ */
+export function calculateResultHash(addresses: string[], powers: PowerValue[]): string {
+  return keccak256(encodeResult(addresses, powers));
+}
+
+/**
+ * Canonicalize entries and hash them
+ *
+ * @param entries Entries in any order and address case
+ * @returns Canonical arrays together with their result hash
+ */
+export function hashResult(entries: PowerEntry[]): CanonicalResult & { resultHash: string } {
+  const result = canonicalizeResult(entries);
+
+  return {
+    ...result,
+    resultHash: calculateResultHash(result.addresses, result.powers),
+  };
+}
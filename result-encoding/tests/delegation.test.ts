@@ -0,0 +1,63 @@
+/**
+ * Delegation traversal tests against the golden vectors
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  MAX_DELEGATION_DEPTH,
+  MAX_TRAVERSAL_HOPS,
+  calculateTerminalPowers,
+  resolveTerminalDelegate,
+} from '../src/index';
+
+interface Vector {
+  name: string;
+  onChain: boolean;
+  delegations: Array<{ from: string; to: string }>;
+  deadEnds: string[];
+  terminals: Array<{ address: string; terminal: string }>;
+  powers: Array<{ address: string; power: number }>;
+}
+
+const { maxDelegationDepth, maxTraversalHops, vectors } = JSON.parse(
+  readFileSync(path.join(__dirname, '../test-vectors/delegation.json'), 'utf8')
+) as { maxDelegationDepth: number; maxTraversalHops: number; vectors: Vector[] };
+
+describe('delegation golden vectors', () => {
+  it("should use the vectors' depth and hop limits", () => {
+    expect(MAX_DELEGATION_DEPTH).toBe(maxDelegationDepth);
+    expect(MAX_TRAVERSAL_HOPS).toBe(maxTraversalHops);
+  });
+
+  it.each(vectors.map((vector) => [vector.name, vector] as const))('%s', (_name, vector) => {
+    const delegations = new Map(vector.delegations.map(({ from, to }) => [from, to]));
+    const deadEnds = new Set(vector.deadEnds);
+
+    for (const { address, terminal } of vector.terminals) {
+      expect(resolveTerminalDelegate(delegations, deadEnds, address)).toBe(terminal);
+    }
+
+    const powers = calculateTerminalPowers(delegations, deadEnds);
+    expect(Object.fromEntries(powers)).toEqual(
+      Object.fromEntries(vector.powers.map(({ address, power }) => [address, power]))
+    );
+  });
+});
+
+describe('resolveTerminalDelegate', () => {
+  it('should return the address itself when it does not delegate', () => {
+    expect(resolveTerminalDelegate(new Map(), new Set(), '0xabc')).toBe('0xabc');
+  });
+
+  it("should follow a dead-end's delegation again once it is revoked", () => {
+    const delegations = new Map([
+      ['a', 'b'],
+      ['b', 'c'],
+    ]);
+
+    expect(resolveTerminalDelegate(delegations, new Set(['b']), 'a')).toBe('b');
+    expect(resolveTerminalDelegate(delegations, new Set(), 'a')).toBe('c');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Power tree tests against the golden vectors
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { buildPowerTree, getPowerProof, verifyPowerProof } from '../src/index';
+
+interface Vector {
+  name: string;
+  input: Array<{ address: string; power: string }>;
+  root: string;
+  commitment: string;
+  delegateCount: number;
+  totalPower: string;
+  proofs: Array<{ address: string; power: string; proof: string[] }>;
+}
+
+const { vectors } = JSON.parse(
+  readFileSync(path.join(__dirname, '../test-vectors/power-tree.json'), 'utf8')
+) as { vectors: Vector[] };
+
+describe('power tree golden vectors', () => {
+  it.each(vectors.map((vector) => [vector.name, vector] as const))('%s', (_name, vector) => {
+    const tree = buildPowerTree(vector.input);
+
+    expect(tree.root).toBe(vector.root);
+    expect(tree.commitment).toBe(vector.commitment);
+    expect(tree.delegateCount).toBe(vector.delegateCount);
+    expect(tree.totalPower.toString()).toBe(vector.totalPower);
+
+    for (const expected of vector.proofs) {
+      const proof = getPowerProof(tree, expected.address.toLowerCase())!;
+
+      expect(proof.address).toBe(expected.address);
+      expect(proof.power.toString()).toBe(expected.power);
+      expect(proof.proof).toEqual(expected.proof);
+      expect(verifyPowerProof(vector.root, proof.address, proof.power, proof.proof)).toBe(true);
+    }
+  });
+
+  it('should build the same tree for any input permutation', () => {
+    const vector = vectors.find((v) => v.input.length >= 3)!;
+    const reversed = [...vector.input].reverse();
+
+    expect(buildPowerTree(reversed).commitment).toBe(vector.commitment);
+  });
+});
+
+describe('verifyPowerProof', () => {
+  const vector = vectors.find((v) => v.proofs.length >= 3)!;
+  const [first, second] = vector.proofs;
+
+  it('should reject a wrong power', () => {
+    expect(
+      verifyPowerProof(vector.root, first.address, BigInt(first.power) + 1n, first.proof)
+    ).toBe(false);
+  });
+
+  it("should reject another delegate's proof", () => {
+    expect(verifyPowerProof(vector.root, first.address, first.power, second.proof)).toBe(false);
+  });
+});
+
+describe('buildPowerTree', () => {
+  it('should reject an empty result', () => {
+    expect(() => buildPowerTree([])).toThrow('Cannot build a power tree without entries');
+  });
+
+  it('should return no proof for an address outside the tree', () => {
+    const tree = buildPowerTree(vectors[0].input);
+
+    expect(getPowerProof(tree, '0x0000000000000000000000000000000000000001')).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Result encoding tests against the golden vectors
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  calculateResultHash,
+  canonicalizeResult,
+  compareAddresses,
+  encodeResult,
+  hashResult,
+  isCanonicalOrder,
+  normalizeAddress,
+} from '../src/index';
+
+interface Vector {
+  name: string;
+  input: Array<{ address: string; power: string }>;
+  addresses: string[];
+  powers: string[];
+  resultHash: string;
+}
+
+const { vectors } = JSON.parse(
+  readFileSync(path.join(__dirname, '../test-vectors/result-hash.json'), 'utf8')
+) as { vectors: Vector[] };
+
+describe('golden vectors', () => {
+  it.each(vectors.map((vector) => [vector.name, vector] as const))('%s', (_name, vector) => {
+    const result = hashResult(vector.input);
+
+    expect(result.addresses).toEqual(vector.addresses);
+    expect(result.powers.map(String)).toEqual(vector.powers);
+    expect(result.resultHash).toBe(vector.resultHash);
+  });
+
+  it('should hash canonical arrays the same regardless of address case', () => {
+    for (const vector of vectors) {
+      const lowercased = vector.addresses.map((address) => address.toLowerCase());
+      expect(calculateResultHash(lowercased, vector.powers)).toBe(vector.resultHash);
+    }
+  });
+
+  it('should produce the same hash for any input permutation', () => {
+    const vector = vectors.find((v) => v.input.length >= 3)!;
+    const reversed = [...vector.input].reverse();
+
+    expect(hashResult(reversed).resultHash).toBe(vector.resultHash);
+  });
+});
+
+describe('canonicalizeResult', () => {
+  it('should reject duplicate addresses in any case', () => {
+    expect(() =>
+      canonicalizeResult([
+        { address: '0x70997970c51812dc3a010c7d01b50e0d17dc79c8', power: 1 },
+        { address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', power: 2 },
+      ])
+    ).toThrow('Duplicate address');
+  });
+
+  it('should reject negative, fractional and oversized powers', () => {
+    const address = '0x70997970c51812dc3a010c7d01b50e0d17dc79c8';
+
+    expect(() => canonicalizeResult([{ address, power: -1 }])).toThrow('out of uint256 range');
+    expect(() => canonicalizeResult([{ address, power: 1.5 }])).toThrow('Invalid power');
+    expect(() => canonicalizeResult([{ address, power: (1n << 256n).toString() }])).toThrow(
+      'out of uint256 range'
+    );
+  });
+});
+
+describe('normalizeAddress', () => {
+  it('should checksum lowercase addresses', () => {
+    expect(normalizeAddress('0x70997970c51812dc3a010c7d01b50e0d17dc79c8')).toBe(
+      '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+    );
+  });
+
+  it('should reject a bad mixed-case checksum', () => {
+    expect(() => normalizeAddress('0x70997970c51812dc3a010c7d01b50e0d17dc79C8')).toThrow(
+      'Invalid address'
+    );
+  });
+});
+
+describe('ordering helpers', () => {
+  it('should compare addresses case-insensitively', () => {
+    expect(compareAddresses('0xAB', '0xab')).toBe(0);
+    expect(compareAddresses('0x0f', '0xF0')).toBeLessThan(0);
+  });
+
+  it('should detect canonical order', () => {
+    for (const vector of vectors) {
+      expect(isCanonicalOrder(vector.addresses)).toBe(true);
+    }
+    expect(isCanonicalOrder(['0x02', '0x01'])).toBe(false);
+    expect(isCanonicalOrder(['0x01', '0x01'])).toBe(false);
+  });
+});
+
+describe('encodeResult', () => {
+  it('should reject arrays of different length', () => {
+    expect(() => encodeResult(['0x70997970c51812dc3a010c7d01b50e0d17dc79c8'], [])).toThrow(
+      'Array length mismatch'
+    );
+  });
+});
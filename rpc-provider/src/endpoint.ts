@@ -0,0 +1,126 @@
+/**
+ * RPC Endpoint Health
+ *
+ * Tracks the reliability and latency of one JSON-RPC endpoint. Failures put
+ * the endpoint in an exponentially growing cooldown; the health score is an
+ * exponentially weighted success rate used to rank endpoints.
+ */
+
+/** Weight of the newest outcome in the health score and latency averages */
+const SCORE_WEIGHT = 0.2;
+
+export interface EndpointOptions {
+  /** Cooldown after the first consecutive failure (doubles per further failure) */
+  cooldown: number;
+  maxCooldown: number;
+}
+
+export interface EndpointStatus {
+  url: string;
+  /** Weighted success rate between 0 and 1 */
+  score: number;
+  /** Weighted average latency of successful requests (ms) */
+  latency: number;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  /** Timestamp until which the endpoint is only used as a last resort */
+  cooldownUntil: number;
+  lastError: string | null;
+}
+
+/**
+ * Health state of one endpoint
+ */
+export class Endpoint {
+  readonly url: string;
+  private options: EndpointOptions;
+  private score: number = 1;
+  private latency: number = 0;
+  private successes: number = 0;
+  private failures: number = 0;
+  private consecutiveFailures: number = 0;
+  private cooldownUntil: number = 0;
+  private lastError: string | null = null;
+
+  constructor(url: string, options: EndpointOptions) {
+    this.url = url;
+    this.options = options;
+  }
+
+  /**
+   * Record a successful request
+   *
+   * @param latency Request duration in ms
+   */
+  recordSuccess(latency: number): void {
+    this.score = this.score * (1 - SCORE_WEIGHT) + SCORE_WEIGHT;
+    this.latency =
+      this.successes === 0 ? latency : this.latency * (1 - SCORE_WEIGHT) + latency * SCORE_WEIGHT;
+    this.successes++;
+    this.consecutiveFailures = 0;
+    this.cooldownUntil = 0;
+  }
+
+  /**
+   * Record a failed request and start (or extend) the cooldown
+   *
+   * @param reason Failure description
+   * @param now Current time in ms
+   */
+  recordFailure(reason: string, now: number = Date.now()): void {
+    this.score = this.score * (1 - SCORE_WEIGHT);
+    this.failures++;
+    this.consecutiveFailures++;
+    this.lastError = reason;
+
+    const cooldown = Math.min(
+      this.options.cooldown * 2 ** (this.consecutiveFailures - 1),
+      this.options.maxCooldown
+    );
+    this.cooldownUntil = now + cooldown;
+  }
+
+  /**
+   * Whether the endpoint is outside its cooldown
+   */
+  isAvailable(now: number = Date.now()): boolean {
+    return now >= this.cooldownUntil;
+  }
+
+  getCooldownUntil(): number {
+    return this.cooldownUntil;
+  }
+
+  getStatus(): EndpointStatus {
+    return {
+      url: this.url,
+      score: this.score,
+      latency: this.latency,
+      successes: this.successes,
+      failures: this.failures,
+      consecutiveFailures: this.consecutiveFailures,
+      cooldownUntil: this.cooldownUntil,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Order for trying endpoints: available ones by score then latency,
+   * followed by cooling ones by how soon their cooldown ends
+   */
+  static compare(a: Endpoint, b: Endpoint, now: number = Date.now()): number {
+    const availableA = a.isAvailable(now);
+    const availableB = b.isAvailable(now);
+
+    if (availableA !== availableB) {
+      return availableA ? -1 : 1;
+    }
+
+    if (!availableA) {
+      return a.cooldownUntil - b.cooldownUntil;
+    }
+
+    return b.score - a.score || a.latency - b.latency;
+  }
+}
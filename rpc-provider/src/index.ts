@@ -0,0 +1,10 @@
+/**
+ * RPC Provider
+ *
+ * Multi-endpoint JSON-RPC provider shared by the enclave service and the
+ * frontend: health scoring, retry with backoff, failover and quorum reads.
+ */
+
+export * from './endpoint.js';
+export * from './quorum.js';
+export * from './provider.js';
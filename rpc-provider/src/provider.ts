@@ -0,0 +1,315 @@
+/**
+ * RpcProvider
+ *
+ * ethers JsonRpcApiProvider backed by several JSON-RPC endpoints instead of
+ * one URL. Every request goes to the healthiest endpoint; transport failures
+ * and endpoint-side errors (rate limits, unavailable state) are retried on the
+ * next endpoint with exponential backoff once all endpoints are cooling down.
+ *
+ * With `quorum` > 1, reads pinned to a block (delegation logs, block hashes,
+ * contract calls at a block) are sent to several endpoints and only returned
+ * once `quorum` of them agree, so a single faulty endpoint cannot change what
+ * the enclave signs.
+ */
+
+import {
+  FetchRequest,
+  JsonRpcApiProvider,
+  Network,
+  keccak256,
+  type JsonRpcError,
+  type JsonRpcPayload,
+  type JsonRpcResult,
+} from 'ethers';
+import { Endpoint, type EndpointStatus } from './endpoint.js';
+import { DEFAULT_QUORUM_METHODS, isPinnedRead, quorumKey } from './quorum.js';
+
+export type RpcResponse = JsonRpcResult | JsonRpcError;
+
+/**
+ * Sends one JSON-RPC request to one endpoint
+ * Throws on transport failures (network, timeout, HTTP status)
+ */
+export type RpcTransport = (
+  url: string,
+  payload: JsonRpcPayload,
+  timeout: number
+) => Promise<RpcResponse>;
+
+export interface RpcProviderOptions {
+  /** Chain ID, skips network detection when set */
+  chainId?: number;
+  /** Per-request timeout (ms) */
+  requestTimeout?: number;
+  /** Attempts per request across all endpoints (default: max(3, endpoints)) */
+  maxAttempts?: number;
+  /** First backoff delay once every endpoint is cooling down (ms, doubles per attempt) */
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  /** Endpoint cooldown after a failure (ms, doubles per consecutive failure) */
+  cooldown?: number;
+  maxCooldown?: number;
+  /** Endpoints that must return the same response for pinned reads (default: 1) */
+  quorum?: number;
+  /** Methods subject to quorum */
+  quorumMethods?: string[];
+  pollingInterval?: number;
+  /** Custom transport (tests) */
+  transport?: RpcTransport;
+}
+
+const DEFAULT_REQUEST_TIMEOUT = 10_000;
+const DEFAULT_RETRY_DELAY = 250;
+const DEFAULT_MAX_RETRY_DELAY = 5_000;
+const DEFAULT_COOLDOWN = 1_000;
+const DEFAULT_MAX_COOLDOWN = 60_000;
+
+/** JSON-RPC error codes describing the endpoint rather than the request */
+const ENDPOINT_ERROR_CODES = new Set([-32005, 429]);
+const ENDPOINT_ERROR_PATTERN =
+  /rate limit|too many requests|header not found|unknown block|missing trie node|timed? ?out|unavailable/i;
+
+/** Errors meaning a raw transaction is already in the endpoint's mempool */
+const KNOWN_TRANSACTION_PATTERN = /already known|known transaction/i;
+
+/**
+ * Default transport over HTTP(S)
+ */
+export async function fetchTransport(
+  url: string,
+  payload: JsonRpcPayload,
+  timeout: number
+): Promise<RpcResponse> {
+  const request = new FetchRequest(url);
+  request.timeout = timeout;
+  // Rate limits fail over to the next endpoint instead of being retried here
+  request.setThrottleParams({ maxAttempts: 1 });
+  request.setHeader('content-type', 'application/json');
+  request.body = JSON.stringify(payload);
+
+  const response = await request.send();
+
+  if (!response.ok()) {
+    throw new Error(`HTTP ${response.statusCode} ${response.statusMessage}`);
+  }
+
+  return response.bodyJson;
+}
+
+/**
+ * Multi-endpoint provider with health scoring, failover and quorum reads
+ */
+export class RpcProvider extends JsonRpcApiProvider {
+  private endpoints: Endpoint[];
+  private transport: RpcTransport;
+  private requestTimeout: number;
+  private maxAttempts: number;
+  private retryDelay: number;
+  private maxRetryDelay: number;
+  private quorum: number;
+  private quorumMethods: Set<string>;
+
+  /**
+   * @param urls JSON-RPC endpoint URLs, in order of preference
+   * @param options Retry, health and quorum options
+   * @throws Error if no URLs are given or the quorum cannot be met
+   */
+  constructor(urls: string[], options: RpcProviderOptions = {}) {
+    const network = options.chainId !== undefined ? Network.from(options.chainId) : undefined;
+
+    super(network, {
+      staticNetwork: network,
+      // One request per _send so each can fail over and be compared on its own
+      batchMaxCount: 1,
+      pollingInterval: options.pollingInterval,
+    });
+
+    const unique = Array.from(new Set(urls.map((url) => url.trim()).filter(Boolean)));
+
+    if (unique.length === 0) {
+      throw new Error('RpcProvider requires at least one endpoint URL');
+    }
+
+    const quorum = options.quorum ?? 1;
+
+    if (!Number.isInteger(quorum) || quorum < 1 || quorum > unique.length) {
+      throw new Error(`RPC quorum must be between 1 and ${unique.length} (got ${quorum})`);
+    }
+
+    const endpointOptions = {
+      cooldown: options.cooldown ?? DEFAULT_COOLDOWN,
+      maxCooldown: options.maxCooldown ?? DEFAULT_MAX_COOLDOWN,
+    };
+
+    this.endpoints = unique.map((url) => new Endpoint(url, endpointOptions));
+    this.transport = options.transport || fetchTransport;
+    this.requestTimeout = options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT;
+    this.maxAttempts = options.maxAttempts ?? Math.max(3, unique.length);
+    this.retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+    this.maxRetryDelay = options.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+    this.quorum = quorum;
+    this.quorumMethods = new Set(options.quorumMethods || DEFAULT_QUORUM_METHODS);
+  }
+
+  /**
+   * Endpoint URLs in configured order
+   */
+  getUrls(): string[] {
+    return this.endpoints.map((endpoint) => endpoint.url);
+  }
+
+  /**
+   * Health of every endpoint, healthiest first
+   */
+  getEndpointStatus(): EndpointStatus[] {
+    return this.rankEndpoints().map((endpoint) => endpoint.getStatus());
+  }
+
+  async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<RpcResponse>> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+
+    return Promise.all(
+      payloads.map((request) =>
+        this.requiresQuorum(request) ? this.sendQuorum(request) : this.sendWithFailover(request)
+      )
+    );
+  }
+
+  private requiresQuorum(payload: JsonRpcPayload): boolean {
+    return this.quorum > 1 && this.quorumMethods.has(payload.method) && isPinnedRead(payload);
+  }
+
+  /**
+   * Send to the healthiest endpoint, failing over until an endpoint answers
+   */
+  private async sendWithFailover(payload: JsonRpcPayload): Promise<RpcResponse> {
+    let lastError = 'no endpoint tried';
+
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      const [endpoint] = this.rankEndpoints();
+
+      if (attempt > 0 && !endpoint.isAvailable()) {
+        // Every endpoint failed recently: back off before trying again
+        await sleep(Math.min(this.retryDelay * 2 ** (attempt - 1), this.maxRetryDelay));
+      }
+
+      try {
+        return this.acceptKnownTransaction(payload, await this.request(endpoint, payload));
+      } catch (error: any) {
+        lastError = error.message;
+        console.warn(`[RpcProvider] ${payload.method} failed on ${endpoint.url}: ${lastError}`);
+      }
+    }
+
+    throw new Error(`All RPC endpoints failed for ${payload.method}: ${lastError}`);
+  }
+
+  /**
+   * Send to endpoints until `quorum` of them return the same response
+   * Endpoints outside the agreeing group are penalized
+   */
+  private async sendQuorum(payload: JsonRpcPayload): Promise<RpcResponse> {
+    const ranked = this.rankEndpoints();
+    const groups = new Map<string, { response: RpcResponse; endpoints: Endpoint[] }>();
+    let next = 0;
+
+    while (next < ranked.length) {
+      const agreeing = Math.max(0, ...Array.from(groups.values(), (g) => g.endpoints.length));
+      const batch = ranked.slice(next, next + this.quorum - agreeing);
+      next += batch.length;
+
+      const responses = await Promise.all(
+        batch.map((endpoint) => this.request(endpoint, payload).catch(() => null))
+      );
+
+      responses.forEach((response, i) => {
+        if (!response) {
+          return;
+        }
+
+        const key = quorumKey(payload.method, response);
+        const group = groups.get(key) || { response, endpoints: [] };
+        group.endpoints.push(batch[i]);
+        groups.set(key, group);
+      });
+
+      const winner = Array.from(groups.values()).find((g) => g.endpoints.length >= this.quorum);
+
+      if (winner) {
+        for (const group of groups.values()) {
+          if (group !== winner) {
+            group.endpoints.forEach((endpoint) =>
+              endpoint.recordFailure(`Disagreed with quorum on ${payload.method}`)
+            );
+          }
+        }
+        return winner.response;
+      }
+    }
+
+    throw new Error(
+      `RPC quorum of ${this.quorum} not reached for ${payload.method} ` +
+        `(${groups.size} distinct responses from ${ranked.length} endpoints)`
+    );
+  }
+
+  /**
+   * Send one request and record the outcome in the endpoint's health
+   * Throws on transport failures and endpoint-side JSON-RPC errors
+   */
+  private async request(endpoint: Endpoint, payload: JsonRpcPayload): Promise<RpcResponse> {
+    const startedAt = Date.now();
+    let response: RpcResponse;
+
+    try {
+      response = await this.transport(endpoint.url, payload, this.requestTimeout);
+    } catch (error: any) {
+      endpoint.recordFailure(error.message || String(error));
+      throw error;
+    }
+
+    if (!response || (!('result' in response) && !('error' in response))) {
+      endpoint.recordFailure('Malformed JSON-RPC response');
+      throw new Error('Malformed JSON-RPC response');
+    }
+
+    if ('error' in response && isEndpointError(response.error)) {
+      const message = response.error.message || `JSON-RPC error ${response.error.code}`;
+      endpoint.recordFailure(message);
+      throw new Error(message);
+    }
+
+    // Other JSON-RPC errors (reverts, invalid params) are answers, not endpoint faults
+    endpoint.recordSuccess(Date.now() - startedAt);
+    return response;
+  }
+
+  /**
+   * A raw transaction already in the mempool (e.g. resent after a timeout) was accepted
+   */
+  private acceptKnownTransaction(payload: JsonRpcPayload, response: RpcResponse): RpcResponse {
+    if (
+      payload.method === 'eth_sendRawTransaction' &&
+      'error' in response &&
+      KNOWN_TRANSACTION_PATTERN.test(response.error.message || '') &&
+      Array.isArray(payload.params)
+    ) {
+      return { id: response.id, result: keccak256(payload.params[0]) };
+    }
+
+    return response;
+  }
+
+  private rankEndpoints(): Endpoint[] {
+    const now = Date.now();
+    return [...this.endpoints].sort((a, b) => Endpoint.compare(a, b, now));
+  }
+}
+
+function isEndpointError(error: JsonRpcError['error']): boolean {
+  return ENDPOINT_ERROR_CODES.has(error.code) || ENDPOINT_ERROR_PATTERN.test(error.message || '');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,114 @@
+/**
+ * Quorum Reads
+ *
+ * Decides which requests are compared across endpoints and reduces responses
+ * to the fields that must agree. Only reads pinned to a block are compared:
+ * 'latest' legitimately differs between healthy endpoints.
+ */
+
+import type { JsonRpcError, JsonRpcPayload, JsonRpcResult } from 'ethers';
+
+/** Reads that feed attestations (delegation logs, block hashes, contract state) */
+export const DEFAULT_QUORUM_METHODS = [
+  'eth_getLogs',
+  'eth_getBlockByNumber',
+  'eth_getBlockByHash',
+  'eth_call',
+];
+
+/** Block tags that move with the endpoint's view of the head */
+const MOVING_BLOCK_TAGS = new Set(['latest', 'pending', 'safe', 'finalized']);
+
+/**
+ * Whether a request reads a fixed block, so healthy endpoints must agree
+ *
+ * @param payload JSON-RPC request
+ */
+export function isPinnedRead(payload: JsonRpcPayload): boolean {
+  const params = Array.isArray(payload.params) ? payload.params : [];
+
+  switch (payload.method) {
+    case 'eth_getLogs': {
+      const filter = (params[0] || {}) as Record<string, unknown>;
+      if (filter.blockHash) {
+        return true;
+      }
+      return isFixedTag(filter.fromBlock) && isFixedTag(filter.toBlock);
+    }
+    case 'eth_getBlockByNumber':
+    case 'eth_getBlockByHash':
+      return isFixedTag(params[0]);
+    case 'eth_call':
+      return isFixedTag(params[1]);
+    default:
+      // Block-pinned reads of other methods cannot be told apart generically
+      return false;
+  }
+}
+
+function isFixedTag(tag: unknown): boolean {
+  if (tag === undefined || tag === null) {
+    // Omitted block tags default to 'latest'
+    return false;
+  }
+
+  if (typeof tag === 'object') {
+    // EIP-1898 { blockHash } / { blockNumber }
+    return true;
+  }
+
+  return typeof tag === 'string' && !MOVING_BLOCK_TAGS.has(tag);
+}
+
+/**
+ * Key identifying a response for agreement checks
+ * Drops fields clients fill in differently (log 'removed', block extras)
+ *
+ * @param method JSON-RPC method
+ * @param response Endpoint response
+ */
+export function quorumKey(method: string, response: JsonRpcResult | JsonRpcError): string {
+  if ('error' in response) {
+    // Messages vary by client; code and revert data do not
+    return `error:${response.error.code}:${stableStringify(response.error.data ?? null)}`;
+  }
+
+  const result = response.result;
+
+  switch (method) {
+    case 'eth_getLogs':
+      return stableStringify(
+        ((result as Array<Record<string, any>>) || []).map((log) => [
+          log.blockHash,
+          log.logIndex,
+          log.transactionHash,
+          String(log.address).toLowerCase(),
+          log.topics,
+          log.data,
+        ])
+      );
+    case 'eth_getBlockByNumber':
+    case 'eth_getBlockByHash':
+      return result ? stableStringify([result.number, result.hash, result.parentHash]) : 'null';
+    default:
+      return stableStringify(result);
+  }
+}
+
+/**
+ * JSON serialization with sorted object keys
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as object)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
@@ -0,0 +1,209 @@
+/**
+ * RpcProvider tests with a scripted in-memory transport
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { keccak256, type JsonRpcPayload } from 'ethers';
+import { Endpoint, RpcProvider, isPinnedRead, type RpcResponse } from '../src/index';
+
+const A = 'http://a.test';
+const B = 'http://b.test';
+const C = 'http://c.test';
+const CONTRACT = '0x000000000000000000000000000000000000000A';
+
+type Handler = (payload: JsonRpcPayload) => unknown;
+
+/**
+ * Transport answering per endpoint; handlers may throw to simulate transport failures
+ */
+function scriptedTransport(handlers: Record<string, Handler>) {
+  const calls: string[] = [];
+
+  const transport = vi.fn(async (url: string, payload: JsonRpcPayload): Promise<RpcResponse> => {
+    calls.push(url);
+    const value = handlers[url](payload);
+    if (value && typeof value === 'object' && 'error' in value) {
+      return { id: payload.id, ...(value as { error: { code: number; message: string } }) };
+    }
+    return { id: payload.id, result: value };
+  });
+
+  return { transport, calls };
+}
+
+function createProvider(
+  handlers: Record<string, Handler>,
+  options: { quorum?: number; maxAttempts?: number } = {}
+) {
+  const { transport, calls } = scriptedTransport(handlers);
+  const provider = new RpcProvider(Object.keys(handlers), {
+    chainId: 10200,
+    retryDelay: 1,
+    cooldown: 60_000,
+    transport,
+    ...options,
+  });
+  return { provider, calls };
+}
+
+const failing: Handler = () => {
+  throw new Error('connect ECONNREFUSED');
+};
+
+const pinnedLogs = { fromBlock: '0x10', toBlock: '0x20' };
+
+function log(blockHash: string) {
+  return {
+    blockHash,
+    logIndex: '0x0',
+    transactionHash: '0x01',
+    address: CONTRACT,
+    topics: [],
+    data: '0x',
+  };
+}
+
+describe('RpcProvider failover', () => {
+  let provider: RpcProvider;
+
+  afterEach(() => provider?.destroy());
+
+  it('should fail over to the next endpoint and rank the failed one last', async () => {
+    const setup = createProvider({ [A]: failing, [B]: () => '0x2a' });
+    provider = setup.provider;
+
+    expect(await provider.getBlockNumber()).toBe(42);
+    expect(setup.calls).toEqual([A, B]);
+
+    const [healthiest, degraded] = provider.getEndpointStatus();
+    expect(healthiest.url).toBe(B);
+    expect(degraded).toMatchObject({ url: A, failures: 1, lastError: 'connect ECONNREFUSED' });
+  });
+
+  it('should treat rate limits as endpoint failures but return reverts as answers', async () => {
+    const setup = createProvider({
+      [A]: () => ({ error: { code: -32005, message: 'rate limit exceeded' } }),
+      [B]: () => ({ error: { code: 3, message: 'execution reverted', data: '0x12345678' } }),
+    });
+    provider = setup.provider;
+
+    await expect(provider.send('eth_call', [{ to: CONTRACT }, 'latest'])).rejects.toThrow(
+      'execution reverted'
+    );
+    expect(setup.calls).toEqual([A, B]);
+    expect(provider.getEndpointStatus()[0]).toMatchObject({ url: B, failures: 0 });
+  });
+
+  it('should give up after maxAttempts', async () => {
+    const setup = createProvider({ [A]: failing, [B]: failing }, { maxAttempts: 3 });
+    provider = setup.provider;
+
+    await expect(provider.send('eth_blockNumber', [])).rejects.toThrow(
+      'All RPC endpoints failed for eth_blockNumber'
+    );
+    expect(setup.calls).toHaveLength(3);
+  });
+
+  it('should accept a raw transaction the endpoint already knows', async () => {
+    const raw = '0x02f86c';
+    const setup = createProvider({
+      [A]: () => ({ error: { code: -32000, message: 'already known' } }),
+    });
+    provider = setup.provider;
+
+    expect(await provider.send('eth_sendRawTransaction', [raw])).toBe(keccak256(raw));
+  });
+
+  it('should reject invalid configurations', () => {
+    expect(() => new RpcProvider([])).toThrow('at least one endpoint');
+    expect(() => new RpcProvider([A, B], { quorum: 3 })).toThrow('between 1 and 2');
+  });
+});
+
+describe('RpcProvider quorum', () => {
+  let provider: RpcProvider;
+
+  afterEach(() => provider?.destroy());
+
+  it('should return pinned reads once the quorum agrees', async () => {
+    const setup = createProvider(
+      { [A]: () => [log('0xaa')], [B]: () => [log('0xaa')], [C]: () => [log('0xaa')] },
+      { quorum: 2 }
+    );
+    provider = setup.provider;
+
+    const result = await provider.send('eth_getLogs', [pinnedLogs]);
+
+    expect(result[0].blockHash).toBe('0xaa');
+    expect(setup.calls).toHaveLength(2);
+  });
+
+  it('should ask further endpoints on disagreement and penalize the outlier', async () => {
+    const setup = createProvider(
+      { [A]: () => [], [B]: () => [log('0xaa')], [C]: () => [log('0xaa')] },
+      { quorum: 2 }
+    );
+    provider = setup.provider;
+
+    const result = await provider.send('eth_getLogs', [pinnedLogs]);
+
+    expect(result).toHaveLength(1);
+    expect(setup.calls.sort()).toEqual([A, B, C]);
+    expect(provider.getEndpointStatus().find((e) => e.url === A)?.lastError).toBe(
+      'Disagreed with quorum on eth_getLogs'
+    );
+  });
+
+  it('should fail when no quorum can be reached', async () => {
+    const setup = createProvider(
+      { [A]: () => [log('0xaa')], [B]: () => [log('0xbb')], [C]: failing },
+      { quorum: 2 }
+    );
+    provider = setup.provider;
+
+    await expect(provider.send('eth_getLogs', [pinnedLogs])).rejects.toThrow(
+      'RPC quorum of 2 not reached for eth_getLogs'
+    );
+  });
+
+  it('should not require a quorum for reads at the moving head', async () => {
+    const setup = createProvider(
+      { [A]: () => '0x01', [B]: () => '0x02', [C]: () => '0x03' },
+      { quorum: 2 }
+    );
+    provider = setup.provider;
+
+    expect(await provider.send('eth_call', [{ to: CONTRACT }, 'latest'])).toBe('0x01');
+    expect(setup.calls).toEqual([A]);
+  });
+});
+
+describe('isPinnedRead', () => {
+  const payload = (method: string, params: unknown[]) =>
+    ({ id: 1, jsonrpc: '2.0', method, params }) as JsonRpcPayload;
+
+  it('should only pin reads at a fixed block', () => {
+    expect(isPinnedRead(payload('eth_getLogs', [pinnedLogs]))).toBe(true);
+    expect(isPinnedRead(payload('eth_getLogs', [{ fromBlock: '0x10' }]))).toBe(false);
+    expect(isPinnedRead(payload('eth_getBlockByNumber', ['0x10', false]))).toBe(true);
+    expect(isPinnedRead(payload('eth_getBlockByNumber', ['latest', false]))).toBe(false);
+    expect(isPinnedRead(payload('eth_call', [{}, { blockHash: '0xaa' }]))).toBe(true);
+  });
+});
+
+describe('Endpoint', () => {
+  it('should extend the cooldown on consecutive failures and reset on success', () => {
+    const endpoint = new Endpoint(A, { cooldown: 100, maxCooldown: 250 });
+
+    endpoint.recordFailure('down', 0);
+    expect(endpoint.getCooldownUntil()).toBe(100);
+    endpoint.recordFailure('down', 0);
+    expect(endpoint.getCooldownUntil()).toBe(200);
+    endpoint.recordFailure('down', 0);
+    expect(endpoint.getCooldownUntil()).toBe(250);
+
+    endpoint.recordSuccess(10);
+    expect(endpoint.isAvailable(0)).toBe(true);
+    expect(endpoint.getStatus().consecutiveFailures).toBe(0);
+  });
+});